@@ -0,0 +1,221 @@
+import { BufferCursor } from "./buffercursor";
+import { OverflowError } from "./overflowError";
+
+/**
+ * BitOrder is the order in which bits are taken from a byte.
+ * `msb` starts at the most significant bit, `lsb` at the least significant bit.
+ * @since v1.1.0
+ */
+export type BitOrder = "msb" | "lsb";
+
+/**
+ * @class BitCursor
+ * @classdesc BitCursor reads and writes bits on top of a BufferCursor.
+ * While in the middle of a byte, the BufferCursor position points at that byte.
+ * Moving the BufferCursor resets the bit offset to the start of the new byte.
+ * @since v1.1.0
+ */
+export class BitCursor {
+    public readonly cursor: BufferCursor;
+    public readonly bitOrder: BitOrder;
+    private bit: number;
+    private bytePos: number;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {BufferCursor} cursor buffercursor to read and write bits from.
+     * @param {BitOrder} bitOrder order of the bits in a byte. Default "msb".
+     */
+    constructor(cursor: BufferCursor, bitOrder: BitOrder = "msb") {
+        this.cursor = cursor;
+        this.bitOrder = bitOrder;
+        this.bit = 0;
+        this.bytePos = cursor.tell();
+    }
+
+    /**
+     * bitOffset returns the bit offset in the current byte.
+     * @since v1.1.0
+     * @returns {number} the bit offset, 0 if the BufferCursor was moved.
+     */
+    private bitOffset(): number {
+        return this.cursor.tell() === this.bytePos ? this.bit : 0;
+    }
+
+    /**
+     * setBitOffset sets the bit offset in the current byte.
+     * @since v1.1.0
+     * @param {number} bit the bit offset.
+     */
+    private setBitOffset(bit: number): void {
+        this.bit = bit;
+        this.bytePos = this.cursor.tell();
+    }
+
+    /**
+     * checkBits checks if a read of given number of bits is allowed.
+     * @since v1.1.0
+     * @param {number} bits number of bits to check for.
+     */
+    private checkBits(bits: number): void {
+        const pos = this.cursor.tell();
+        if ((this.cursor.length - pos) * 8 - this.bitOffset() < bits)
+            throw new OverflowError(this.cursor.length, pos, Math.ceil((this.bitOffset() + bits) / 8));
+    }
+
+    /**
+     * tellBits returns the cursor position in bits.
+     * @since v1.1.0
+     * @returns {number} cursor position in bits.
+     */
+    public tellBits(): number {
+        return this.cursor.tell() * 8 + this.bitOffset();
+    }
+
+    /**
+     * seekBits moves the cursor to given position in bits.
+     * @since v1.1.0
+     * @param {number} pos position in bits to move to.
+     * @returns {this} this bitcursor.
+     */
+    public seekBits(pos: number): this {
+        if (!Number.isInteger(pos) || pos < 0) throw new RangeError("Cannot seek before start of buffer");
+        this.cursor.seek(Math.floor(pos / 8));
+        this.setBitOffset(pos % 8);
+        return this;
+    }
+
+    /**
+     * isAligned checks if the cursor is at the start of a byte.
+     * @since v1.1.0
+     * @returns {boolean} true if the cursor is at the start of a byte.
+     */
+    public isAligned(): boolean {
+        return this.bitOffset() === 0;
+    }
+
+    /**
+     * alignToByte moves the cursor to the start of the next byte, unless it already is at the start of a byte.
+     * @since v1.1.0
+     * @returns {this} this bitcursor.
+     */
+    public alignToByte(): this {
+        if (this.bitOffset() !== 0) this.cursor.move(1);
+        this.setBitOffset(0);
+        return this;
+    }
+
+    /**
+     * Reads an unsigned integer of up to 32 bits from bitcursor.
+     * @since v1.1.0
+     * @param {number} bits number of bits to read.
+     * @returns {number} an unsigned integer.
+     */
+    public readBits(bits: number): number {
+        if (!Number.isInteger(bits) || bits < 0 || bits > 32)
+            throw new RangeError(`The number of bits must be between 0 and 32. Received ${bits}`);
+        this.checkBits(bits);
+
+        let value = 0;
+        let done = 0;
+        let bit = this.bitOffset();
+        while (done < bits) {
+            const take = Math.min(8 - bit, bits - done);
+            const byte = this.cursor.readUInt8();
+            const mask = (1 << take) - 1;
+            if (this.bitOrder === "msb") {
+                value = value * (1 << take) + ((byte >> (8 - bit - take)) & mask);
+            } else {
+                value += ((byte >> bit) & mask) * 2 ** done;
+            }
+            done += take;
+            bit += take;
+            if (bit < 8) this.cursor.move(-1);
+            else bit = 0;
+        }
+        this.setBitOffset(bit);
+        return value;
+    }
+
+    /**
+     * Reads an unsigned integer of up to 64 bits from bitcursor.
+     * @since v1.1.0
+     * @param {number} bits number of bits to read.
+     * @returns {bigint} an unsigned integer.
+     */
+    public readBigBits(bits: number): bigint {
+        if (!Number.isInteger(bits) || bits < 0 || bits > 64)
+            throw new RangeError(`The number of bits must be between 0 and 64. Received ${bits}`);
+        if (bits <= 32) return BigInt(this.readBits(bits));
+        this.checkBits(bits);
+
+        if (this.bitOrder === "msb") {
+            const high = BigInt(this.readBits(bits - 32));
+            return (high << BigInt(32)) | BigInt(this.readBits(32));
+        }
+        const low = BigInt(this.readBits(32));
+        return (BigInt(this.readBits(bits - 32)) << BigInt(32)) | low;
+    }
+
+    /**
+     * Writes an unsigned integer of up to 32 bits to bitcursor at the current position.
+     * @since v1.1.0
+     * @param {number} bits number of bits to write.
+     * @param {number} value Number to be written to bitcursor.
+     * @returns {this} this bitcursor.
+     */
+    public writeBits(bits: number, value: number): this {
+        if (!Number.isInteger(bits) || bits < 0 || bits > 32)
+            throw new RangeError(`The number of bits must be between 0 and 32. Received ${bits}`);
+        if (!Number.isInteger(value) || value < 0 || value >= 2 ** bits)
+            throw new RangeError(`The value must be an unsigned ${bits}-bit integer. Received ${value}`);
+        return this.writeChunks(bits, (shift, mask) => Math.floor(value / 2 ** shift) & mask);
+    }
+
+    /**
+     * Writes an unsigned integer of up to 64 bits to bitcursor at the current position.
+     * @since v1.1.0
+     * @param {number} bits number of bits to write.
+     * @param {bigint} value Number to be written to bitcursor.
+     * @returns {this} this bitcursor.
+     */
+    public writeBigBits(bits: number, value: bigint): this {
+        if (!Number.isInteger(bits) || bits < 0 || bits > 64)
+            throw new RangeError(`The number of bits must be between 0 and 64. Received ${bits}`);
+        if (value < BigInt(0) || value >= BigInt(1) << BigInt(bits))
+            throw new RangeError(`The value must be an unsigned ${bits}-bit integer. Received ${value}`);
+        return this.writeChunks(bits, (shift, mask) => Number((value >> BigInt(shift)) & BigInt(mask)));
+    }
+
+    /**
+     * writeChunks writes bits byte by byte. The bytes are built first and written with a single write,
+     * so nothing changes when they don't fit.
+     * @since v1.1.0
+     * @param {number} bits number of bits to write.
+     * @param {(shift: number, mask: number) => number} chunk returns the bits of the value at a shift from its least significant bit.
+     * @returns {this} this bitcursor.
+     */
+    private writeChunks(bits: number, chunk: (shift: number, mask: number) => number): this {
+        const start = this.cursor.tell();
+        const offset = this.bitOffset();
+        const bytes = new Uint8Array(Math.ceil((offset + bits) / 8));
+        for (let i = 0; i < bytes.length && start + i < this.cursor.length; i++) bytes[i] = this.cursor.buffer[start + i]!;
+
+        let done = 0;
+        let bit = offset;
+        for (let i = 0; done < bits; i++) {
+            const take = Math.min(8 - bit, bits - done);
+            const mask = (1 << take) - 1;
+            const shift = this.bitOrder === "msb" ? 8 - bit - take : bit;
+            const value = chunk(this.bitOrder === "msb" ? bits - done - take : done, mask);
+            bytes[i] = (bytes[i]! & ~(mask << shift)) | (value << shift);
+            done += take;
+            bit = (bit + take) % 8;
+        }
+        this.cursor.writeUInt8Array(bytes);
+        if (bit !== 0) this.cursor.move(-1);
+        this.setBitOffset(bit);
+        return this;
+    }
+}
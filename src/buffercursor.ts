@@ -1,64 +1,100 @@
-import { OverflowError } from "./overflowError";
+import { createHash, createHmac } from "crypto";
+import { DigestOptions } from "./checksum";
+import type { ReadUntilOptions } from "./cursor";
+import { DataViewCursor, DataViewCursorOptions } from "./dataViewCursor";
+import { BufferCursorError } from "./errors";
+import { SearchPattern } from "./search";
+
+/**
+ * Options for a BufferCursor.
+ * @since v1.1.0
+ */
+export interface BufferCursorOptions extends DataViewCursorOptions {}
+
+/**
+ * Options for a sub-cursor.
+ * @since v1.1.0
+ */
+export interface SubCursorOptions {
+    /** Make `finish()` throw when the sub-cursor wasn't read to the end. Default false. */
+    requireConsumed?: boolean;
+}
+
+/**
+ * Options for a window.
+ * @since v1.1.0
+ */
+export interface WindowOptions extends SubCursorOptions {
+    /** Move the parent past the window when `finish()` is called instead of right away. Default false. */
+    deferAdvance?: boolean;
+}
 
 /**
  * @class BufferCursor
+ * @extends DataViewCursor
  * @classdesc BufferCursor provides a cursor to make using a Buffer easier.
+ * It reads and writes like a DataViewCursor, returns Buffers, encodes strings with Buffer
+ * and adds windows and `crypto` digests.
  * @since v1.0.0
  */
-export class BufferCursor {
-    private pos: number;
-    public readonly buffer: Buffer;
-    public readonly length: number;
+export class BufferCursor extends DataViewCursor {
+    private parentMemory?: Buffer;
+    private parentCursor?: BufferCursor;
+    private base: number;
+    private pendingAdvance: boolean;
+    private requireConsumed: boolean;
     __isBufferCursor__ = true;
 
     /**
      * @constructor
      * @since v1.0.0
      * @param buff buffer to use as target.
+     * @param options options for the cursor.
      */
-    constructor(buff: Buffer) {
+    constructor(buff: Buffer, options: BufferCursorOptions = {}) {
         if (!(buff instanceof Buffer))
             throw new TypeError("Argument must be an instance of Buffer");
-        this.pos = 0;
-        this.buffer = buff;
-        this.length = buff.length;
+        super(buff, options);
+        this.memory = buff;
+        this.base = 0;
+        this.pendingAdvance = false;
+        this.requireConsumed = false;
     }
 
     /**
-     * checkMove checks if a move is allowed.
-     * @since v1.0.0
-     * @param {number} size size of the move to check for.
+     * The memory used as target. A window or sub-cursor resolves it through its parent,
+     * so it follows the parent when a GrowableBufferCursor reallocates.
+     * @since v1.1.0
+     * @returns {Buffer} the buffer used as target.
      */
-    private checkMove(size: number): void {
-        if ((size > this.length) || (this.length - this.pos < size))
-            throw new OverflowError(this.length, this.pos, size);
+    protected get bytes(): Buffer {
+        const parent = this.parentCursor;
+        if (parent) {
+            const memory = parent.bytes;
+            if (memory !== this.parentMemory) {
+                this.memory = memory.subarray(this.base, this.base + this.size);
+                this.parentMemory = memory;
+            }
+        }
+        return this.memory as Buffer;
     }
 
     /**
-     * safeMove runs a function safely with a move.
-     * @since v1.0.0
-     * @template T 
-     * @param {() => T} func function to run safely.
-     * @param {number} steps number of steps to move.
-     * @returns {T} return value of the function.
+     * Replaces the memory used as target, like after a reallocation.
+     * @since v1.1.0
+     * @param {Buffer} bytes the new buffer.
      */
-    private safeMove<T>(func: () => T, steps: number): T {
-        this.checkMove(steps);
-        const ret = func();
-        this.move(steps);
-        return ret;
+    protected set bytes(bytes: Buffer) {
+        this.memory = bytes;
     }
 
     /**
-     * move moves the cursors by the amount of steps given.
+     * The raw buffer.
      * @since v1.0.0
-     * @param {number} step number of steps to move
+     * @returns {Buffer} the buffer used as target.
      */
-    public move(step: number): void {
-        const pos = this.pos + step;
-        if (pos < 0) throw new RangeError("Cannot move before start of buffer");
-        if (pos > this.length) throw new RangeError("Trying to move beyond buffer");
-        this.pos = pos;
+    public get buffer(): Buffer {
+        return this.bytes;
     }
 
     /**
@@ -67,496 +103,222 @@ export class BufferCursor {
      * @returns {Buffer} the buffer with a copy of data until cursor position.
      */
     public getBuffer(): Buffer {
-        const result = Buffer.allocUnsafe(this.pos);
-        this.buffer.copy(result, 0, 0, this.pos);
-        return result;
+        return super.getBuffer() as Buffer;
     }
 
     /**
-     * seek moves the cursor to given position.
-     * @since v1.0.0
-     * @param {number} pos position to move to.
-     * @returns {this} this buffercursor.
+     * Reads the bytes up to a delimiter from buffercursor and moves past the delimiter.
+     * @since v1.1.0
+     * @param {SearchPattern} delimiter a byte, a UTF-8 string or bytes.
+     * @param {ReadUntilOptions} options whether to include the delimiter and the maximum length before it.
+     * @returns {Buffer} the bytes, they share memory with buffercursor.
      */
-    public seek(pos: number): this {
-        if (pos < 0) throw new RangeError("Cannot seek before start of buffer");
-        if (pos > this.length) throw new RangeError("Trying to seek beyond buffer");
-        this.pos = pos;
-        return this;
+    public readUntil(delimiter: SearchPattern, options: ReadUntilOptions = {}): Buffer {
+        return super.readUntil(delimiter, options) as Buffer;
     }
 
     /**
-     * eof checks and returns if the cursor is at the end of the buffer.
-     * @since v1.0.0
-     * @returns {boolean} true if cursor position is at the end of the buffer.
+     * Returns a cursor over the bytes up to a delimiter and moves past the delimiter.
+     * @since v1.1.0
+     * @param {SearchPattern} delimiter a byte, a UTF-8 string or bytes.
+     * @param {ReadUntilOptions} options whether to include the delimiter and the maximum length before it.
+     * @returns {BufferCursor} a new cursor that references the same memory as the original.
      */
-    public eof(): boolean {
-        return this.pos == this.length;
+    public sliceUntil(delimiter: SearchPattern, options: ReadUntilOptions = {}): BufferCursor {
+        return super.sliceUntil(delimiter, options) as BufferCursor;
     }
 
     /**
-     * tell return the cursor position.
-     * @since v1.0.0
-     * @returns {number} cursor position.
+     * digest calculates a `crypto` hash, or an HMAC when given a key, over a range of buffercursor without moving the cursor.
+     * @since v1.1.0
+     * @param {string} algorithm a hash supported by `crypto.createHash`, like `sha256`.
+     * @param {DigestOptions} options the absolute range, default from the last mark to the cursor position, and the HMAC key.
+     * @returns {Buffer} the digest.
      */
-    public tell(): number {
-        return this.pos;
+    public digest(algorithm: string, options: DigestOptions = {}): Buffer {
+        const hash = options.key === undefined ? createHash(algorithm) : createHmac(algorithm, options.key);
+        hash.update(this.checksumRange(options, "digest"));
+        return hash.digest();
     }
 
     /**
-     * Returns a new `BufferCursor` that references the same memory as the original, 
+     * Returns a new `BufferCursor` that references the same memory as the original,
      * but offset and cropped by the `current position` and `current position + length` or `end` indices.
-     * @since v1.0.0 
+     * @since v1.0.0
      * @param {number | undefined} length The length of the new `BufferCursor`.
      * @returns {BufferCursor} a new `BufferCursor` that references the same memory as the original.
      */
-    public slice(length?: number): BufferCursor {
-        const end = length === undefined ? this.length : this.pos + length;
-
-        const buf = new BufferCursor(this.buffer.subarray(this.pos, end));
-        this.seek(end);
-
-        return buf;
-    }
-
-    /**
-     * Decodes the `BufferCursor` to a string according to the specified character encoding in `encoding`. 
-     * `length` may be passed to decode only a subset of the `BufferCursor`.
-     * @since v1.0.0
-     * @param {BufferEncoding | undefined} encoding The character encoding to use. Default "utf8".
-     * @param {number | undefined} length The number of bytes to decode.
-     * @returns {string} a string according to the specified character encoding.
-     */
-    public toString(encoding: BufferEncoding = "utf8", length?: number): string {
-        const end = length === undefined ? this.length : this.pos + length;
-
-        const ret = this.buffer.toString(encoding, this.pos, end);
-        this.seek(end);
-        return ret;
-    }
-
-    /**
-     * write writes a string to the buffer of given length.
-     * @since v1.0.0
-     * @param {string} value the string to write to the buffer.
-     * @param {number | undefined} length the length of the string to be writen.
-     * @param {BufferEncoding | undefined} encoding the encoding to be used.
-     * @returns {this} this buffercursor.
-     */
-    public write(value: string, length: number = value.length, encoding?: BufferEncoding): this {
-        const ret = this.buffer.write(value, this.pos, length, encoding);
-        this.move(ret);
-        return this;
-    }
-
-    /**
-     * writeBuff writes a buffer to the buffer of given length.
-     * @since v1.0.0
-     * @param {Buffer} value the buffer to write to the buffer.
-     * @param {number | undefined} length the length of the buffer to be writen.
-     * @returns {this} this buffercursor.
-     */
-    public writeBuff(value: Buffer, length: number = value.length): this {
-        value.copy(this.buffer, this.pos, 0, length);
-        this.move(length);
-        return this;
-    }
-
-    /**
-     * fill fills the buffer with the specified value. If length is not given, the entire buffer will be filled.
-     * @since v1.0.0
-     * @param {string | number | Uint8Array} value value to fill the buffer with.
-     * @param {number | undefined} length amount of space to fill.
-     * @returns {this} this buffercursor.
-     */
-    public fill(value: string | number | Uint8Array, length?: number): this {
-        const end = length === undefined ? this.length : this.pos + length;
-        this.checkMove(end - this.pos);
-
-        this.buffer.fill(value, this.pos, end);
-        this.seek(end);
-        return this;
-    }
-
-    /**
-     * copy copies data from a Buffer or BufferCursor to the current position.
-     * @since v1.0.0
-     * @param {BufferCursor | Buffer} source buffer to copy from.
-     * @param {number | undefined} sourceStart position to start from.
-     * @param {number | undefined} sourceEnd position to end.
-     * @returns {this} this buffercursor.
-     */
-    public copy(source: BufferCursor | Buffer, sourceStart?: number, sourceEnd?: number): this {
-        if (!sourceEnd) sourceEnd = source.length;
-        if (!sourceStart) sourceStart = source instanceof BufferCursor ? source.pos : 0;
-
-        const length = sourceEnd - sourceStart;
-        this.checkMove(length);
-        const buf = source instanceof BufferCursor ? source.buffer : source;
-
-        buf.copy(this.buffer, this.pos, sourceStart, sourceEnd);
-        this.move(length);
-        return this;
+    public slice(length: number = this.size - this.pos): BufferCursor {
+        this.checkArgument("length", length);
+        const options = { endian: this.endian, strict: this.strict, alignmentBase: this.alignmentBase - this.pos };
+        return this.safeMove(() => new BufferCursor(this.bytes.subarray(this.pos, this.pos + length), options), length, "slice");
     }
 
     /**
-     * Reads an unsigned 8-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} an unsigned 8-bit integer.
+     * The cursor a window or sub-cursor was created from.
+     * @since v1.1.0
+     * @returns {BufferCursor | undefined} the parent, undefined for other cursors.
      */
-    public readUInt8(): number {
-        return this.safeMove(() => this.buffer.readUInt8(this.pos), 1);
+    public get parent(): BufferCursor | undefined {
+        return this.parentCursor;
     }
 
     /**
-     * Reads a signed 8-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} a signed 8-bit integer.
+     * The offset of the start of a window or sub-cursor in its parent.
+     * @since v1.1.0
+     * @returns {number} the offset in the parent, 0 for other cursors.
      */
-    public readInt8(): number {
-        return this.safeMove(() => this.buffer.readInt8(this.pos), 1);
+    public get baseOffset(): number {
+        return this.base;
     }
 
     /**
-     * Reads a signed, big-endian 16-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} a signed, big-endian 16-bit integer.
+     * absoluteTell returns the cursor position in the outermost parent, through any nested windows.
+     * @since v1.1.0
+     * @returns {number} the position in the outermost parent.
      */
-    public readInt16BE(): number {
-        return this.safeMove(() => this.buffer.readInt16BE(this.pos), 2);
+    public absoluteTell(): number {
+        let pos = this.pos;
+        for (let cursor: BufferCursor | undefined = this; cursor; cursor = cursor.parentCursor) pos += cursor.base;
+        return pos;
     }
 
     /**
-     * Reads a signed, little-endian 16-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} a signed, little-endian 16-bit integer.
+     * Returns a buffercursor over the next length bytes that keeps its link to this buffercursor, like `slice`.
+     * Its offsets start at 0, `absoluteTell()`, `parent` and `baseOffset` relate them to the parent.
+     * This buffercursor moves past the window right away, or when the window is finished with `deferAdvance`.
+     * @since v1.1.0
+     * @param {number | undefined} length the length of the window. Default the rest of the buffer.
+     * @param {WindowOptions} options whether to defer moving past the window and to require it to be read to the end.
+     * @returns {BufferCursor} the window.
      */
-    public readInt16LE(): number {
-        return this.safeMove(() => this.buffer.readInt16LE(this.pos), 2);
+    public window(length: number = this.size - this.pos, options: WindowOptions = {}): BufferCursor {
+        this.checkArgument("length", length);
+        this.checkMove(length, "window");
+        const window = this.createWindow(this.pos, length, options);
+        window.pendingAdvance = options.deferAdvance ?? false;
+        if (!window.pendingAdvance) this.move(length);
+        return window;
     }
 
     /**
-     * Reads an unsigned, big-endian 16-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} an unsigned, big-endian 16-bit integer.
-     */
-    public readUInt16BE(): number {
-        return this.safeMove(() => this.buffer.readUInt16BE(this.pos), 2);
-    }
-
-    /**
-     * Reads an unsigned, little-endian 16-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} an unsigned, little-endian 16-bit integer.
-     */
-    public readUInt16LE(): number {
-        return this.safeMove(() => this.buffer.readUInt16LE(this.pos), 2);
-    }
-
-    /**
-     * Reads an unsigned, little-endian 32-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} an unsigned, little-endian 32-bit integer.
-     */
-    public readUInt32LE(): number {
-        return this.safeMove(() => this.buffer.readUInt32LE(this.pos), 4);
-    }
-
-    /**
-     * Reads an unsigned, big-endian 32-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} an unsigned, big-endian 32-bit integer.
-     */
-    public readUInt32BE(): number {
-        return this.safeMove(() => this.buffer.readUInt32BE(this.pos), 4);
-    }
-
-    /**
-     * Reads a signed, little-endian 32-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} a signed, little-endian 32-bit integer.
+     * Returns a buffercursor over length bytes at an absolute offset that keeps its link to this buffercursor,
+     * without moving this buffercursor, like the target of an offset table.
+     * @since v1.1.0
+     * @param {number} start the absolute offset of the sub-cursor.
+     * @param {number | undefined} length the length of the sub-cursor. Default up to the end of the buffer.
+     * @param {SubCursorOptions} options whether to require it to be read to the end.
+     * @returns {BufferCursor} the sub-cursor.
      */
-    public readInt32LE(): number {
-        return this.safeMove(() => this.buffer.readInt32LE(this.pos), 4);
+    public subCursor(start: number, length: number = this.size - start, options: SubCursorOptions = {}): BufferCursor {
+        this.checkArgument("length", length);
+        if (length < 0) throw new RangeError(`Size can't be negative. Received ${length}`);
+        this.checkRange(start, length, "subCursor");
+        return this.createWindow(start, length, options);
     }
 
     /**
-     * Reads a signed, big-endian 32-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} a signed, big-endian 32-bit integer.
-     */
-    public readInt32BE(): number {
-        return this.safeMove(() => this.buffer.readInt32BE(this.pos), 4);
-    }
-
-    /**
-     * Reads an unsigned, little-endian 64-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} an unsigned, little-endian 64-bit integer.
-     */
-    public readBigUInt64LE(): bigint {
-        return this.safeMove(() => this.buffer.readBigUInt64LE(this.pos), 8);
-    }
-
-    /**
-     * Reads an unsigned, big-endian 64-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} an unsigned, big-endian 64-bit integer.
-     */
-    public readBigUInt64BE(): bigint {
-        return this.safeMove(() => this.buffer.readBigUInt64BE(this.pos), 8);
-    }
-
-    /**
-     * Reads a signed, little-endian 64-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} a signed, little-endian 64-bit integer.
-     */
-    public readBigInt64LE(): bigint {
-        return this.safeMove(() => this.buffer.readBigInt64LE(this.pos), 8);
-    }
-
-    /**
-     * Reads a signed, big-endian 64-bit integer from buffercursor.
-     * @since v1.0.0
-     * @returns {number} a signed, big-endian 64-bit integer.
-     */
-    public readBigInt64BE(): bigint {
-        return this.safeMove(() => this.buffer.readBigInt64BE(this.pos), 8);
-    }
-
-    /**
-     * Reads a 32-bit, big-endian float from buffercursor.
-     * @since v1.0.0
-     * @returns {number} a 32-bit, big-endian float.
-     */
-    public readFloatBE(): number {
-        return this.safeMove(() => this.buffer.readFloatBE(this.pos), 4);
-    }
-
-    /**
-     * Reads a 32-bit, little-endian float from buffercursor.
-     * @since v1.0.0
-     * @returns {number} a 32-bit, little-endian float.
-     */
-    public readFloatLE(): number {
-        return this.safeMove(() => this.buffer.readFloatLE(this.pos), 4);
-    }
-
-    /**
-     * Reads a 64-bit, big-endian double from buffercursor.
-     * @since v1.0.0
-     * @returns {number} a 64-bit, big-endian double.
-     */
-    public readDoubleBE(): number {
-        return this.safeMove(() => this.buffer.readDoubleBE(this.pos), 8);
-    }
-
-    /**
-     * Reads a 64-bit, little-endian double from buffercursor.
-     * @since v1.0.0
-     * @returns {number} a 64-bit, little-endian double.
-     */
-    public readDoubleLE(): number {
-        return this.safeMove(() => this.buffer.readDoubleLE(this.pos), 8);
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
+     * assertConsumed checks that the cursor is at the end of the buffer, like after parsing a record that must be read completely.
+     * @since v1.1.0
      * @returns {this} this buffercursor.
      */
-    public writeUInt8(value: number): this {
-        this.safeMove(() => this.buffer.writeUInt8(value, this.pos), 1);
+    public assertConsumed(): this {
+        if (this.pos !== this.size) {
+            const left = this.size - this.pos;
+            throw new BufferCursorError(`BufferCursorError: assertConsumed ${left} unread byte${left === 1 ? "" : "s"} at position ${this.pos} (absolute ${this.absoluteTell()})`,
+                this.pos, { method: "assertConsumed" });
+        }
         return this;
     }
 
     /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
+     * finish ends a window or sub-cursor. With `requireConsumed` it checks that it was read to the end,
+     * with `deferAdvance` it moves the parent past the window.
+     * @since v1.1.0
+     * @returns {BufferCursor} the parent.
      */
-    public writeInt8(value: number): this {
-        this.safeMove(() => this.buffer.writeInt8(value, this.pos), 1);
-        return this;
+    public finish(): BufferCursor {
+        const parent = this.parentCursor;
+        if (!parent) throw new Error("Only a window or sub-cursor can be finished");
+        if (this.requireConsumed) this.assertConsumed();
+        if (this.pendingAdvance) {
+            parent.seek(this.base + this.size);
+            this.pendingAdvance = false;
+        }
+        return parent;
     }
 
     /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
+     * createWindow creates a buffercursor over length bytes at an absolute offset, linked to this buffercursor.
+     * @since v1.1.0
+     * @param {number} start the absolute offset.
+     * @param {number} length the length.
+     * @param {SubCursorOptions} options whether to require it to be read to the end.
+     * @returns {BufferCursor} the linked buffercursor.
      */
-    public writeUInt16BE(value: number): this {
-        this.safeMove(() => this.buffer.writeUInt16BE(value, this.pos), 2);
-        return this;
+    private createWindow(start: number, length: number, options: SubCursorOptions): BufferCursor {
+        const cursorOptions = { endian: this.endian, strict: this.strict, alignmentBase: this.alignmentBase - start };
+        const memory = this.bytes;
+        const window = new BufferCursor(memory.subarray(start, start + length), cursorOptions);
+        window.parentCursor = this;
+        window.parentMemory = memory;
+        window.base = start;
+        window.requireConsumed = options.requireConsumed ?? false;
+        return window;
     }
 
     /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
-     */
-    public writeUInt16LE(value: number): this {
-        this.safeMove(() => this.buffer.writeUInt16LE(value, this.pos), 2);
-        return this;
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
-     */
-    public writeInt16BE(value: number): this {
-        this.safeMove(() => this.buffer.writeInt16BE(value, this.pos), 2);
-        return this;
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
-     */
-    public writeInt16LE(value: number): this {
-        this.safeMove(() => this.buffer.writeInt16LE(value, this.pos), 2);
-        return this;
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
-     */
-    public writeUInt32BE(value: number): this {
-        this.safeMove(() => this.buffer.writeUInt32BE(value, this.pos), 4);
-        return this;
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
-     */
-    public writeUInt32LE(value: number): this {
-        this.safeMove(() => this.buffer.writeUInt32LE(value, this.pos), 4);
-        return this;
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
-     */
-    public writeInt32BE(value: number): this {
-        this.safeMove(() => this.buffer.writeInt32BE(value, this.pos), 4);
-        return this;
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
-     */
-    public writeInt32LE(value: number): this {
-        this.safeMove(() => this.buffer.writeInt32LE(value, this.pos), 4);
-        return this;
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
-     */
-    public writeBigUInt64LE(value: bigint): this {
-        this.safeMove(() => this.buffer.writeBigUInt64LE(value, this.pos), 8);
-        return this;
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
-     */
-    public writeBigUInt64BE(value: bigint): this {
-        this.safeMove(() => this.buffer.writeBigUInt64BE(value, this.pos), 8);
-        return this;
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
-     */
-    public writeBigInt64LE(value: bigint): this {
-        this.safeMove(() => this.buffer.writeBigInt64LE(value, this.pos), 8);
-        return this;
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
-     */
-    public writeBigInt64BE(value: bigint): this {
-        this.safeMove(() => this.buffer.writeBigInt64BE(value, this.pos), 8);
-        return this;
-    }
-
-    /**
-     * Writes value to buffercursor at the current position.
+     * write writes a string to the buffer of given length.
+     * Unlike a DataViewCursor, it only writes whole characters when length cuts the string.
+     * Numbers are written by tag with writeValue.
      * @since v1.0.0
-     * @param value Number to be written to buffercursor.
+     * @param {string} value the string to write to the buffer.
+     * @param {number | undefined} length the number of bytes to write. Default the byte length of the string.
+     * @param {BufferEncoding | undefined} encoding the encoding to be used.
      * @returns {this} this buffercursor.
      */
-    public writeFloatBE(value: number): this {
-        this.safeMove(() => this.buffer.writeFloatBE(value, this.pos), 4);
+    public write(value: string, length?: number, encoding?: BufferEncoding): this {
+        const byteLength = Buffer.byteLength(value, encoding);
+        if (length === undefined) length = byteLength;
+        this.checkArgument("length", length);
+        const size = Math.min(length, byteLength);
+        this.safeReserve(() => this.move(this.bytes.write(value, this.pos, size, encoding)), size, "write");
         return this;
     }
 
     /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
+     * decode decodes a range of the buffer to a string with Buffer.
+     * @since v1.1.0
+     * @param {number} start the start of the range.
+     * @param {number} end the end of the range.
+     * @param {BufferEncoding} encoding the character encoding to use.
+     * @returns {string} the decoded string.
      */
-    public writeFloatLE(value: number): this {
-        this.safeMove(() => this.buffer.writeFloatLE(value, this.pos), 4);
-        return this;
+    protected decode(start: number, end: number, encoding: BufferEncoding): string {
+        return this.bytes.toString(encoding, start, end);
     }
 
     /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
+     * encode encodes a string to a Buffer.
+     * @since v1.1.0
+     * @param {string} value the string to encode.
+     * @param {BufferEncoding} encoding the character encoding to use.
+     * @returns {Buffer} the encoded bytes.
      */
-    public writeDoubleBE(value: number): this {
-        this.safeMove(() => this.buffer.writeDoubleBE(value, this.pos), 8);
-        return this;
+    protected encode(value: string, encoding: BufferEncoding): Buffer {
+        return Buffer.from(value, encoding);
     }
 
     /**
-     * Writes value to buffercursor at the current position.
-     * @since v1.0.0
-     * @param value Number to be written to buffercursor.
-     * @returns {this} this buffercursor.
+     * search finds the absolute offset of a pattern between two absolute offsets with Buffer#indexOf.
+     * @since v1.1.0
+     * @param {Uint8Array} pattern the bytes to search for.
+     * @param {number} start the absolute offset to start searching at.
+     * @param {number} end the absolute offset the pattern must end before.
+     * @returns {number} the absolute offset of the pattern, or -1 when it isn't found.
      */
-    public writeDoubleLE(value: number): this {
-        this.safeMove(() => this.buffer.writeDoubleLE(value, this.pos), 8);
-        return this;
+    protected search(pattern: Uint8Array, start: number, end: number): number {
+        return this.bytes.subarray(0, end).indexOf(pattern, start);
     }
 
     /**
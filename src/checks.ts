@@ -0,0 +1,93 @@
+import { findInvalidByte, StringEncoding } from "./encoding";
+import { EncodingError } from "./errors";
+import type { Endian } from "./numberTypes";
+
+/**
+ * checkNumber checks a value before it is written as the given number type, used by strict cursors.
+ * Integers must be integral and in range, floats can't be NaN and 32-bit and 16-bit floats can't overflow to Infinity.
+ * @since v1.1.0
+ * @param {string} tag number tag like `u8`, `i16le` or `f32`.
+ * @param {unknown} value the value to check.
+ */
+export function checkNumber(tag: string, value: unknown): void {
+    const kind = tag.replace(/(le|be)$/, "");
+    const bits = Number(kind.slice(1));
+    if (kind === "u64" || kind === "i64") {
+        if (typeof value !== "bigint")
+            throw new TypeError(`The value of a ${tag} must be a bigint. Received ${typeof value}`);
+        const min = kind === "i64" ? -(BigInt(1) << BigInt(63)) : BigInt(0);
+        const max = kind === "i64" ? (BigInt(1) << BigInt(63)) - BigInt(1) : (BigInt(1) << BigInt(64)) - BigInt(1);
+        if (value < min || value > max)
+            throw new RangeError(`The value of a ${tag} must be >= ${min} and <= ${max}. Received ${value}`);
+        return;
+    }
+    if (typeof value !== "number")
+        throw new TypeError(`The value of a ${tag} must be a number. Received ${typeof value}`);
+    if (Number.isNaN(value))
+        throw new RangeError(`The value of a ${tag} can't be NaN`);
+    if (kind === "f64") return;
+    if (kind === "f16" || kind === "bf16") {
+        const max = kind === "f16" ? 65504 : 3.3895313892515355e38;
+        if (Number.isFinite(value) && Math.abs(value) > max)
+            throw new RangeError(`The value of a ${tag} must be within the ${kind === "f16" ? "half-precision" : "bfloat16"} range. Received ${value}`);
+        return;
+    }
+    if (kind === "f32") {
+        if (Number.isFinite(value) && Math.abs(value) > 3.4028234663852886e38)
+            throw new RangeError(`The value of a ${tag} must be within the 32-bit float range. Received ${value}`);
+        return;
+    }
+    if (!Number.isInteger(value))
+        throw new RangeError(`The value of a ${tag} must be an integer. Received ${value}`);
+    const min = kind[0] === "i" ? -(2 ** (bits - 1)) : 0;
+    const max = kind[0] === "i" ? 2 ** (bits - 1) - 1 : 2 ** bits - 1;
+    if (value < min || value > max)
+        throw new RangeError(`The value of a ${tag} must be >= ${min} and <= ${max}. Received ${value}`);
+}
+
+/**
+ * checkInteger checks that a length, offset or step is a safe integer, used by strict cursors.
+ * @since v1.1.0
+ * @param {string} name the name of the argument.
+ * @param {number} value the value to check.
+ */
+export function checkInteger(name: string, value: number): void {
+    if (!Number.isSafeInteger(value))
+        throw new RangeError(`The value of "${name}" must be an integer. Received ${value}`);
+}
+
+/**
+ * checkEndian checks that an endianness is "le" or "be", used by the constructors and setEndian of the cursors.
+ * @since v1.1.0
+ * @param {Endian} endian the endianness to check.
+ * @returns {Endian} the endianness.
+ */
+export function checkEndian(endian: Endian): Endian {
+    if (endian !== "le" && endian !== "be")
+        throw new TypeError(`Endian must be "le" or "be". Received ${endian}`);
+    return endian;
+}
+
+/**
+ * checkAlignment checks that an alignment is a positive integer.
+ * @since v1.1.0
+ * @param {number} n the alignment in bytes.
+ */
+export function checkAlignment(n: number): void {
+    if (!Number.isSafeInteger(n) || n < 1)
+        throw new RangeError(`Alignment must be a positive integer. Received ${n}`);
+}
+
+/**
+ * checkEncoding checks that bytes are valid in their encoding before they are decoded, used by strict cursors.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to decode.
+ * @param {StringEncoding} encoding the character encoding.
+ * @param {number} offset the offset of the bytes, used in the error.
+ * @param {string | undefined} method the name of the method, used in the error.
+ */
+export function checkEncoding(bytes: Uint8Array, encoding: StringEncoding, offset: number, method?: string): void {
+    const index = findInvalidByte(bytes, encoding);
+    if (index !== -1)
+        throw new EncodingError(encoding, `Invalid ${encoding} at position ${offset + index}`, offset + index, { method });
+}
@@ -0,0 +1,279 @@
+/**
+ * CrcParameters describes a CRC in the Rocksoft model, like the entries of the CRC catalogue.
+ * @since v1.1.0
+ */
+export interface CrcParameters {
+    /** The width of the CRC in bits. */
+    width: 8 | 16 | 32;
+    /** The polynomial, without the top bit. */
+    poly: number;
+    /** The initial value of the register. */
+    init: number;
+    /** Reflect the bits of each input byte. */
+    refIn: boolean;
+    /** Reflect the bits of the result. */
+    refOut: boolean;
+    /** The value XORed with the result. */
+    xorOut: number;
+}
+
+/**
+ * CrcPreset is the name of a common CRC.
+ * @since v1.1.0
+ */
+export type CrcPreset =
+    | "crc8" | "crc8-maxim"
+    | "crc16-arc" | "crc16-modbus" | "crc16-ccitt-false" | "crc16-xmodem" | "crc16-kermit"
+    | "crc32" | "crc32c" | "crc32-bzip2" | "crc32-mpeg2";
+
+/**
+ * crcPresets are the parameters of common CRCs.
+ * @since v1.1.0
+ */
+export const crcPresets: Record<CrcPreset, CrcParameters> = {
+    "crc8": { width: 8, poly: 0x07, init: 0x00, refIn: false, refOut: false, xorOut: 0x00 },
+    "crc8-maxim": { width: 8, poly: 0x31, init: 0x00, refIn: true, refOut: true, xorOut: 0x00 },
+    "crc16-arc": { width: 16, poly: 0x8005, init: 0x0000, refIn: true, refOut: true, xorOut: 0x0000 },
+    "crc16-modbus": { width: 16, poly: 0x8005, init: 0xffff, refIn: true, refOut: true, xorOut: 0x0000 },
+    "crc16-ccitt-false": { width: 16, poly: 0x1021, init: 0xffff, refIn: false, refOut: false, xorOut: 0x0000 },
+    "crc16-xmodem": { width: 16, poly: 0x1021, init: 0x0000, refIn: false, refOut: false, xorOut: 0x0000 },
+    "crc16-kermit": { width: 16, poly: 0x1021, init: 0x0000, refIn: true, refOut: true, xorOut: 0x0000 },
+    "crc32": { width: 32, poly: 0x04c11db7, init: 0xffffffff, refIn: true, refOut: true, xorOut: 0xffffffff },
+    "crc32c": { width: 32, poly: 0x1edc6f41, init: 0xffffffff, refIn: true, refOut: true, xorOut: 0xffffffff },
+    "crc32-bzip2": { width: 32, poly: 0x04c11db7, init: 0xffffffff, refIn: false, refOut: false, xorOut: 0xffffffff },
+    "crc32-mpeg2": { width: 32, poly: 0x04c11db7, init: 0xffffffff, refIn: false, refOut: false, xorOut: 0x00000000 },
+};
+
+/**
+ * ChecksumAlgorithm is a CRC preset, custom CRC parameters, `adler32`, `fletcher16` or `fletcher32`.
+ * @since v1.1.0
+ */
+export type ChecksumAlgorithm = CrcPreset | CrcParameters | "adler32" | "fletcher16" | "fletcher32";
+
+/**
+ * ChecksumTag is the number tag a checksum is read or written as.
+ * @since v1.1.0
+ */
+export type ChecksumTag = "u8" | "u16" | "u16le" | "u16be" | "u32" | "u32le" | "u32be";
+
+/**
+ * ChecksumRange is the absolute range a checksum is calculated over.
+ * The start defaults to the last mark, or the start of the data without marks, and the end to the cursor position.
+ * @since v1.1.0
+ */
+export interface ChecksumRange {
+    start?: number;
+    end?: number;
+}
+
+/**
+ * Options for digest, the absolute range and the key of an HMAC.
+ * @since v1.1.0
+ */
+export interface DigestOptions extends ChecksumRange {
+    key?: string | Uint8Array;
+}
+
+/**
+ * Checksum calculates a checksum incrementally.
+ * @since v1.1.0
+ */
+export interface Checksum {
+    update(bytes: Uint8Array): this;
+    digest(): number;
+}
+
+/**
+ * reflect reverses the lowest bits of a value.
+ * @since v1.1.0
+ * @param {number} value the value.
+ * @param {number} width the number of bits.
+ * @returns {number} the reflected value.
+ */
+function reflect(value: number, width: number): number {
+    let result = 0;
+    for (let i = 0; i < width; i++) {
+        result = (result << 1) | ((value >>> i) & 1);
+    }
+    return result >>> 0;
+}
+
+const crcTables = new WeakMap<CrcParameters, Uint32Array>();
+
+/**
+ * crcTable builds the lookup table of a CRC, tables of the same parameters object are cached.
+ * @since v1.1.0
+ * @param {CrcParameters} params the CRC.
+ * @returns {Uint32Array} the table of 256 entries.
+ */
+function crcTable(params: CrcParameters): Uint32Array {
+    let table = crcTables.get(params);
+    if (table) return table;
+    const { width, poly, refIn } = params;
+    const top = 2 ** (width - 1);
+    const mask = width === 32 ? 0xffffffff : 2 ** width - 1;
+    const reflected = reflect(poly, width);
+    table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = refIn ? i : i * 2 ** (width - 8);
+        for (let bit = 0; bit < 8; bit++) {
+            if (refIn) crc = crc & 1 ? (crc >>> 1) ^ reflected : crc >>> 1;
+            else crc = crc & top ? ((crc << 1) ^ poly) & mask : (crc << 1) & mask;
+        }
+        table[i] = crc >>> 0;
+    }
+    crcTables.set(params, table);
+    return table;
+}
+
+/**
+ * @class Crc
+ * @classdesc Crc calculates a CRC incrementally.
+ * @since v1.1.0
+ */
+class Crc implements Checksum {
+    private readonly params: CrcParameters;
+    private readonly table: Uint32Array;
+    private crc: number;
+
+    constructor(params: CrcParameters) {
+        this.params = params;
+        this.table = crcTable(params);
+        this.crc = params.refIn ? reflect(params.init, params.width) : params.init;
+    }
+
+    public update(bytes: Uint8Array): this {
+        const { width, refIn } = this.params;
+        const mask = width === 32 ? 0xffffffff : 2 ** width - 1;
+        let crc = this.crc;
+        for (let i = 0; i < bytes.length; i++) {
+            if (refIn) crc = this.table[(crc ^ bytes[i]!) & 0xff]! ^ (crc >>> 8);
+            else crc = (this.table[((crc >>> (width - 8)) ^ bytes[i]!) & 0xff]! ^ (crc << 8)) & mask;
+        }
+        this.crc = crc >>> 0;
+        return this;
+    }
+
+    public digest(): number {
+        const { width, refIn, refOut, xorOut } = this.params;
+        const crc = refIn === refOut ? this.crc : reflect(this.crc, width);
+        return (crc ^ xorOut) >>> 0;
+    }
+}
+
+/**
+ * @class Adler32
+ * @classdesc Adler32 calculates an Adler-32 checksum incrementally, as used by zlib.
+ * @since v1.1.0
+ */
+class Adler32 implements Checksum {
+    private a = 1;
+    private b = 0;
+
+    public update(bytes: Uint8Array): this {
+        for (let i = 0; i < bytes.length; i++) {
+            this.a = (this.a + bytes[i]!) % 65521;
+            this.b = (this.b + this.a) % 65521;
+        }
+        return this;
+    }
+
+    public digest(): number {
+        return (this.b * 0x10000 + this.a) >>> 0;
+    }
+}
+
+/**
+ * @class Fletcher
+ * @classdesc Fletcher calculates a Fletcher-16 checksum over bytes or a Fletcher-32 checksum over little-endian 16-bit words.
+ * An odd number of bytes is padded with a zero byte for Fletcher-32.
+ * @since v1.1.0
+ */
+class Fletcher implements Checksum {
+    private readonly width: 16 | 32;
+    private sum1 = 0;
+    private sum2 = 0;
+    private pending = -1;
+
+    constructor(width: 16 | 32) {
+        this.width = width;
+    }
+
+    public update(bytes: Uint8Array): this {
+        for (let i = 0; i < bytes.length; i++) {
+            if (this.width === 16) {
+                this.add(bytes[i]!, 255);
+            } else if (this.pending === -1) {
+                this.pending = bytes[i]!;
+            } else {
+                this.add(this.pending | (bytes[i]! << 8), 65535);
+                this.pending = -1;
+            }
+        }
+        return this;
+    }
+
+    public digest(): number {
+        if (this.width === 16) return this.sum2 * 0x100 + this.sum1;
+        let { sum1, sum2 } = this;
+        if (this.pending !== -1) {
+            sum1 = (sum1 + this.pending) % 65535;
+            sum2 = (sum2 + sum1) % 65535;
+        }
+        return (sum2 * 0x10000 + sum1) >>> 0;
+    }
+
+    private add(value: number, modulus: number): void {
+        this.sum1 = (this.sum1 + value) % modulus;
+        this.sum2 = (this.sum2 + this.sum1) % modulus;
+    }
+}
+
+/**
+ * checkCrcParameters checks that custom CRC parameters describe a CRC the table can be built for.
+ * @since v1.1.0
+ * @param {CrcParameters} params the CRC.
+ */
+function checkCrcParameters(params: CrcParameters): void {
+    const { width } = params;
+    if (width !== 8 && width !== 16 && width !== 32)
+        throw new RangeError(`CRC width must be 8, 16 or 32. Received ${width}`);
+    const max = 2 ** width - 1;
+    for (const name of ["poly", "init", "xorOut"] as const) {
+        const value = params[name];
+        if (!Number.isInteger(value) || value < 0 || value > max)
+            throw new RangeError(`CRC ${name} must be an integer >= 0 and <= ${max}. Received ${value}`);
+    }
+}
+
+/**
+ * createChecksum creates an incremental checksum, like `crypto.createHash`.
+ * @since v1.1.0
+ * @param {ChecksumAlgorithm} algorithm a CRC preset, custom CRC parameters, `adler32`, `fletcher16` or `fletcher32`.
+ * @returns {Checksum} the checksum.
+ */
+export function createChecksum(algorithm: ChecksumAlgorithm): Checksum {
+    if (typeof algorithm === "object") {
+        checkCrcParameters(algorithm);
+        return new Crc(algorithm);
+    }
+    switch (algorithm) {
+        case "adler32": return new Adler32();
+        case "fletcher16": return new Fletcher(16);
+        case "fletcher32": return new Fletcher(32);
+    }
+    const params = Object.prototype.hasOwnProperty.call(crcPresets, algorithm) ? crcPresets[algorithm] : undefined;
+    if (!params) throw new TypeError(`Unknown checksum algorithm: ${algorithm}`);
+    return new Crc(params);
+}
+
+/**
+ * checksum calculates the checksum of bytes.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes.
+ * @param {ChecksumAlgorithm} algorithm a CRC preset, custom CRC parameters, `adler32`, `fletcher16` or `fletcher32`.
+ * @returns {number} the checksum, unsigned.
+ */
+export function checksum(bytes: Uint8Array, algorithm: ChecksumAlgorithm): number {
+    return createChecksum(algorithm).update(bytes).digest();
+}
@@ -0,0 +1,1825 @@
+import { createHash, createHmac } from "crypto";
+import { BufferCursor, BufferCursorOptions } from "./buffercursor";
+import { checkAlignment, checkEncoding, checkEndian, checkInteger } from "./checks";
+import { ChecksumAlgorithm, ChecksumRange, ChecksumTag, createChecksum, DigestOptions } from "./checksum";
+import type { Cursor, FixedStringOptions, LengthPrefix, PaddingOptions, ReadLineOptions, ReadUntilOptions, TransactionResult } from "./cursor";
+import { terminatorSize } from "./encoding";
+import { BufferCursorError, hexSnippet, UnexpectedValueError } from "./errors";
+import { hexdump, HexdumpOptions, inspectCustom } from "./hexdump";
+import { checkByteLength, decodeBigInt, decodeInt } from "./integers";
+import { dataViewOf, Endian, getNumberType, NumberTag, NumberTypes } from "./numberTypes";
+import { decodeBFloat16, decodeFloat16, fixedByteLength } from "./numberFormats";
+import { OverflowError } from "./overflowError";
+import { SearchPattern, toPattern } from "./search";
+import { readTypedArray, TypedArrays, TypedArrayTag, typedArraySize } from "./typedArrays";
+
+/**
+ * @class ChunkCursor
+ * @classdesc ChunkCursor provides a cursor over a list of Buffers without concatenating them.
+ * Positions are absolute, they don't change when chunks are dropped from the front.
+ * @since v1.1.0
+ */
+export class ChunkCursor implements Cursor {
+    private chunks: Buffer[];
+    private offsets: number[];
+    private start: number;
+    private size: number;
+    private pos: number;
+    private index: number;
+    private endianness: Endian;
+    private marks: number[];
+    private readonly strict: boolean;
+    private alignBase: number;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {Buffer[]} chunks buffers to use as target, in order.
+     * @param {BufferCursorOptions} options options for the cursor.
+     */
+    constructor(chunks: Buffer[] = [], options: BufferCursorOptions = {}) {
+        this.chunks = [];
+        this.offsets = [];
+        this.start = 0;
+        this.size = 0;
+        this.pos = 0;
+        this.index = 0;
+        this.endianness = checkEndian(options.endian ?? "le");
+        this.marks = [];
+        this.strict = options.strict ?? false;
+        this.alignBase = options.alignmentBase ?? 0;
+        for (const chunk of chunks) this.append(chunk);
+    }
+
+    /**
+     * The absolute position after the last chunk.
+     * @since v1.1.0
+     * @returns {number} the number of bytes appended so far.
+     */
+    public get length(): number {
+        return this.size;
+    }
+
+    /**
+     * The absolute position of the first chunk that wasn't dropped.
+     * @since v1.1.0
+     * @returns {number} the number of bytes dropped from the front.
+     */
+    public get startOffset(): number {
+        return this.start;
+    }
+
+    /**
+     * The default endianness.
+     * @since v1.1.0
+     * @returns {Endian} the endianness used by methods without endianness.
+     */
+    public get endian(): Endian {
+        return this.endianness;
+    }
+
+    /**
+     * setEndian sets the default endianness.
+     * @since v1.1.0
+     * @param {Endian} endian the endianness used by methods without endianness.
+     * @returns {this} this chunkcursor.
+     */
+    public setEndian(endian: Endian): this {
+        this.endianness = checkEndian(endian);
+        return this;
+    }
+
+    /**
+     * The offset alignment is relative to.
+     * @since v1.1.0
+     * @returns {number} the offset used by align and alignWrite.
+     */
+    public get alignmentBase(): number {
+        return this.alignBase;
+    }
+
+    /**
+     * setAlignmentBase sets the offset alignment is relative to, like the start of a chunk.
+     * @since v1.1.0
+     * @param {number} offset the offset used by align and alignWrite.
+     * @returns {this} this chunkcursor.
+     */
+    public setAlignmentBase(offset: number): this {
+        checkInteger("offset", offset);
+        this.alignBase = offset;
+        return this;
+    }
+
+    /**
+     * append adds a chunk to the end.
+     * @since v1.1.0
+     * @param {Buffer} chunk the buffer to add.
+     * @returns {this} this chunkcursor.
+     */
+    public append(chunk: Buffer): this {
+        if (!(chunk instanceof Buffer))
+            throw new TypeError("Argument must be an instance of Buffer");
+        if (chunk.length === 0) return this;
+        this.chunks.push(chunk);
+        this.offsets.push(this.size);
+        this.size += chunk.length;
+        return this;
+    }
+
+    /**
+     * dropConsumed drops the chunks that are completely before the cursor position and the oldest mark.
+     * @since v1.1.0
+     * @returns {number} the number of chunks dropped.
+     */
+    public dropConsumed(): number {
+        const keep = Math.min(this.pos, ...this.marks);
+        let count = 0;
+        while (this.chunks.length && this.offsets[0]! + this.chunks[0]!.length <= keep) {
+            this.start += this.chunks[0]!.length;
+            this.chunks.shift();
+            this.offsets.shift();
+            count++;
+        }
+        this.index = Math.max(0, this.index - count);
+        return count;
+    }
+
+    /**
+     * checkMove checks if a move is allowed.
+     * @since v1.1.0
+     * @param {number} size size of the move to check for.
+     * @param {string | undefined} operation the name of the operation.
+     */
+    private checkMove(size: number, operation?: string): void {
+        if (size < 0) throw new RangeError(`Size can't be negative. Received ${size}`);
+        if (size > this.size - this.pos)
+            throw new OverflowError(this.size, this.pos, size, operation);
+    }
+
+    /**
+     * checkArgument checks a length, offset or step argument in strict mode.
+     * @since v1.1.0
+     * @param {string} name the name of the argument.
+     * @param {number} value the value of the argument.
+     */
+    private checkArgument(name: string, value: number): void {
+        if (this.strict) checkInteger(name, value);
+    }
+
+    /**
+     * locate finds the chunk that contains the cursor position.
+     * @since v1.1.0
+     * @returns {number} the index of the chunk.
+     */
+    private locate(): number {
+        let i = Math.min(this.index, this.chunks.length - 1);
+        while (i > 0 && this.offsets[i]! > this.pos) i--;
+        while (i < this.chunks.length - 1 && this.offsets[i]! + this.chunks[i]!.length <= this.pos) i++;
+        this.index = i;
+        return i;
+    }
+
+    /**
+     * contiguous gets the bytes at the cursor position in one buffer, without copying when they are in a single chunk.
+     * @since v1.1.0
+     * @param {number} size number of bytes needed, must be checked with checkMove first.
+     * @returns {[Buffer, number]} a buffer and the offset of the bytes in it.
+     */
+    private contiguous(size: number): [Buffer, number] {
+        let i = this.locate();
+        let chunk = this.chunks[i]!;
+        let offset = this.pos - this.offsets[i]!;
+        if (chunk.length - offset >= size) return [chunk, offset];
+
+        const ret = Buffer.allocUnsafe(size);
+        let done = 0;
+        while (done < size) {
+            const n = Math.min(chunk.length - offset, size - done);
+            chunk.copy(ret, done, offset, offset + n);
+            done += n;
+            chunk = this.chunks[++i]!;
+            offset = 0;
+        }
+        return [ret, 0];
+    }
+
+    /**
+     * withBytes runs a read on a BufferCursor over the bytes at the cursor position
+     * and moves by the number of bytes it consumed.
+     * @since v1.1.0
+     * @template T
+     * @param {number} size number of bytes to make available to the read.
+     * @param {(cursor: BufferCursor) => T} func the read to run.
+     * @param {string} operation the name of the operation.
+     * @returns {T} return value of the read.
+     */
+    private withBytes<T>(size: number, func: (cursor: BufferCursor) => T, operation: string): T {
+        this.checkMove(size, operation);
+        const [buf, offset] = size === 0 ? [Buffer.alloc(0), 0] : this.contiguous(size);
+        const cursor = new BufferCursor(buf.subarray(offset, offset + size), { endian: this.endianness });
+        const ret = func(cursor);
+        this.pos += cursor.tell();
+        return ret;
+    }
+
+    /**
+     * byteAt returns the byte at an absolute position.
+     * @since v1.1.0
+     * @param {number} pos the absolute position.
+     * @returns {number} the byte.
+     */
+    private byteAt(pos: number): number {
+        let i = this.locate();
+        while (this.offsets[i]! + this.chunks[i]!.length <= pos) i++;
+        return this.chunks[i]![pos - this.offsets[i]!]!;
+    }
+
+    /**
+     * varIntSize finds the number of bytes of the LEB128 integer at the cursor position.
+     * @since v1.1.0
+     * @param {number} maxBytes maximum number of bytes the integer may use.
+     * @param {string} operation the name of the operation.
+     * @returns {number} the number of bytes, at most maxBytes.
+     */
+    private varIntSize(maxBytes: number, operation: string): number {
+        for (let i = 0; i < maxBytes; i++) {
+            if (this.pos + i >= this.size) throw new OverflowError(this.size, this.pos, i + 1, operation);
+            if (!(this.byteAt(this.pos + i) & 0x80)) return i + 1;
+        }
+        return maxBytes;
+    }
+
+    /**
+     * move moves the cursors by the amount of steps given.
+     * @since v1.1.0
+     * @param {number} step number of steps to move
+     */
+    public move(step: number): void {
+        this.checkArgument("step", step);
+        const pos = this.pos + step;
+        if (pos < this.start) throw new RangeError("Cannot move before start of chunks");
+        if (pos > this.size) throw new OverflowError(this.size, this.pos, step, "move");
+        this.pos = pos;
+    }
+
+    /**
+     * seek moves the cursor to given absolute position.
+     * @since v1.1.0
+     * @param {number} pos position to move to.
+     * @returns {this} this chunkcursor.
+     */
+    public seek(pos: number): this {
+        this.checkArgument("pos", pos);
+        if (pos < this.start) throw new RangeError("Cannot seek before start of chunks");
+        if (pos > this.size) throw new OverflowError(this.size, this.pos, pos - this.pos, "seek");
+        this.pos = pos;
+        return this;
+    }
+
+    /**
+     * tell return the absolute cursor position.
+     * @since v1.1.0
+     * @returns {number} cursor position.
+     */
+    public tell(): number {
+        return this.pos;
+    }
+
+    /**
+     * mark pushes the cursor position on the mark stack, marks can be nested.
+     * @since v1.1.0
+     * @returns {this} this chunkcursor.
+     */
+    public mark(): this {
+        this.marks.push(this.pos);
+        return this;
+    }
+
+    /**
+     * reset pops the last mark and moves the cursor back to it.
+     * @since v1.1.0
+     * @returns {this} this chunkcursor.
+     */
+    public reset(): this {
+        const pos = this.marks.pop();
+        if (pos === undefined) throw new Error("No mark to reset to");
+        return this.seek(pos);
+    }
+
+    /**
+     * commit pops the last mark and keeps the cursor position.
+     * @since v1.1.0
+     * @returns {this} this chunkcursor.
+     */
+    public commit(): this {
+        if (this.marks.pop() === undefined) throw new Error("No mark to commit");
+        return this;
+    }
+
+    /**
+     * transaction runs fn and moves the cursor back to where it was if fn throws.
+     * An OverflowError means the data is incomplete and fn can be retried when more data is available,
+     * any other error is a format error.
+     * @since v1.1.0
+     * @template T
+     * @param {(cursor: this) => T} fn the reads to run.
+     * @returns {TransactionResult<T>} the return value of fn, or the error and whether the data was incomplete.
+     */
+    public transaction<T>(fn: (cursor: this) => T): TransactionResult<T> {
+        const depth = this.marks.length;
+        const start = this.pos;
+        this.mark();
+        try {
+            const value = fn(this);
+            if (this.marks.length > depth) this.marks.length = depth;
+            return { status: "ok", value };
+        } catch (error) {
+            // fn may have popped marks with commit or reset, so the start is kept apart from them.
+            this.seek(start);
+            if (this.marks.length > depth) this.marks.length = depth;
+            if (error instanceof OverflowError) return { status: "incomplete", error };
+            return { status: "error", error };
+        }
+    }
+
+    /**
+     * context runs fn and adds path to the context of the BufferCursorError it throws, with a hexdump of the bytes around it.
+     * Contexts can be nested, the paths are joined with a dot.
+     * @since v1.1.0
+     * @template T
+     * @param {string} path where in the data fn reads, like `header`.
+     * @param {(cursor: this) => T} fn the reads to run.
+     * @returns {T} the return value of fn.
+     */
+    public context<T>(path: string, fn: (cursor: this) => T): T {
+        try {
+            return fn(this);
+        } catch (error) {
+            if (error instanceof BufferCursorError) error.addContext(path, this.snippet(error.offset));
+            throw error;
+        }
+    }
+
+    /**
+     * Reads a number of the given type from chunkcursor and checks it, like a magic number or an enum.
+     * The cursor doesn't move when the value doesn't match.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @param {NumberTypes[T] | NumberTypes[T][]} expected the expected value or a list of allowed values.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    public expectValue<T extends NumberTag>(type: T, expected: NumberTypes[T] | NumberTypes[T][]): NumberTypes[T] {
+        const start = this.pos;
+        const value = this.readNumber(type, "expectValue");
+        const allowed: NumberTypes[T][] = Array.isArray(expected) ? expected : [expected];
+        if (allowed.indexOf(value) === -1) {
+            this.pos = start;
+            throw new UnexpectedValueError(expected, value, start, { method: "expectValue" });
+        }
+        return value;
+    }
+
+    /**
+     * Reads bytes from chunkcursor and checks that they match, like a magic string.
+     * The cursor doesn't move when the bytes don't match.
+     * @since v1.1.0
+     * @param {Uint8Array} expected the expected bytes.
+     * @returns {this} this chunkcursor.
+     */
+    public expectBytes(expected: Uint8Array): this {
+        this.checkMove(expected.length, "expectBytes");
+        const [buf, offset] = expected.length === 0 ? [Buffer.alloc(0), 0] : this.contiguous(expected.length);
+        const actual = buf.subarray(offset, offset + expected.length);
+        if (!actual.equals(expected))
+            throw new UnexpectedValueError(expected, Buffer.from(actual), this.pos, { method: "expectBytes" });
+        this.pos += expected.length;
+        return this;
+    }
+
+    /**
+     * checksum calculates a checksum over a range of chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @param {ChecksumAlgorithm} algorithm a CRC preset like `crc32`, custom CRC parameters, `adler32`, `fletcher16` or `fletcher32`.
+     * @param {ChecksumRange} range the absolute range, default from the last mark, or the start without marks, to the cursor position.
+     * @returns {number} the checksum.
+     */
+    public checksum(algorithm: ChecksumAlgorithm, range: ChecksumRange = {}): number {
+        return this.checksumRange(range, "checksum")
+            .reduce((sum, chunk) => sum.update(chunk), createChecksum(algorithm)).digest();
+    }
+
+    /**
+     * digest calculates a `crypto` hash, or an HMAC when given a key, over a range of chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @param {string} algorithm a hash supported by `crypto.createHash`, like `sha256`.
+     * @param {DigestOptions} options the absolute range, default from the last mark to the cursor position, and the HMAC key.
+     * @returns {Buffer} the digest.
+     */
+    public digest(algorithm: string, options: DigestOptions = {}): Buffer {
+        const hash = options.key === undefined ? createHash(algorithm) : createHmac(algorithm, options.key);
+        for (const chunk of this.checksumRange(options, "digest")) hash.update(chunk);
+        return hash.digest();
+    }
+
+    /**
+     * verifyChecksum calculates a checksum over a range of chunkcursor and reads it at the cursor to check it.
+     * The cursor doesn't move when the checksum doesn't match.
+     * @since v1.1.0
+     * @param {ChecksumAlgorithm} algorithm a CRC preset like `crc32`, custom CRC parameters, `adler32`, `fletcher16` or `fletcher32`.
+     * @param {ChecksumTag} tag the number tag of the stored checksum, like `u32le` or `u16be`.
+     * @param {ChecksumRange} range the absolute range, default from the last mark, or the start without marks, to the cursor position.
+     * @returns {number} the checksum.
+     */
+    public verifyChecksum(algorithm: ChecksumAlgorithm, tag: ChecksumTag, range: ChecksumRange = {}): number {
+        const expected = this.checksumRange(range, "verifyChecksum")
+            .reduce((sum, chunk) => sum.update(chunk), createChecksum(algorithm)).digest();
+        const start = this.pos;
+        const actual = this.readNumber(tag, "verifyChecksum");
+        if (actual !== expected) {
+            this.pos = start;
+            throw new UnexpectedValueError(expected, actual, start, { method: "verifyChecksum" });
+        }
+        return actual;
+    }
+
+    /**
+     * hexdump renders the bytes of chunkcursor like `hexdump -C`, with the cursor position in brackets.
+     * @since v1.1.0
+     * @param {HexdumpOptions} options the range, layout, position and labeled regions.
+     * @returns {string} the hexdump, one row per line.
+     */
+    public hexdump(options: HexdumpOptions = {}): string {
+        const start = options.start ?? this.start;
+        const end = options.length === undefined ? this.size : start + options.length;
+        if (start < this.start || end < start || end > this.size)
+            throw new OverflowError(this.size, start, end - start, "hexdump");
+        return hexdump(this.bytesBetween(start, end), { position: this.pos, ...options, start, length: end - start }, start);
+    }
+
+    /**
+     * Shows the length, position and the rows around the cursor in `util.inspect` and `console.log`.
+     * @since v1.1.0
+     * @param {number} depth the remaining depth.
+     * @returns {string} the inspected chunkcursor.
+     */
+    public [inspectCustom](depth: number): string {
+        const name = this.constructor.name;
+        if (depth < 0) return `[${name}]`;
+        const start = Math.max(this.start, this.pos - this.pos % 16 - 16);
+        const length = Math.min(48, this.size - start);
+        return `${name} <length ${this.length}, position ${this.pos}, endian ${this.endianness}>\n${this.hexdump({ start, length })}`;
+    }
+
+    /**
+     * snippet renders the bytes around an absolute offset that haven't been dropped.
+     * @since v1.1.0
+     * @param {number} offset the absolute offset.
+     * @returns {string} a hexdump of the bytes around the offset.
+     */
+    private snippet(offset: number): string {
+        const from = Math.max(this.start, offset - 8);
+        return hexSnippet(this.bytesBetween(from, Math.min(this.size, offset + 9)), offset, from);
+    }
+
+    /**
+     * bytesBetween copies the bytes between two absolute offsets that haven't been dropped.
+     * @since v1.1.0
+     * @param {number} from the absolute offset of the first byte.
+     * @param {number} to the absolute offset after the last byte.
+     * @returns {Buffer} the bytes.
+     */
+    private bytesBetween(from: number, to: number): Buffer {
+        return Buffer.concat(this.chunksBetween(from, to), Math.max(0, to - from));
+    }
+
+    /**
+     * chunksBetween finds the parts of the chunks between two absolute offsets that haven't been dropped, without copying.
+     * @since v1.1.0
+     * @param {number} from the absolute offset of the first byte.
+     * @param {number} to the absolute offset after the last byte.
+     * @returns {Buffer[]} the parts of the chunks.
+     */
+    private chunksBetween(from: number, to: number): Buffer[] {
+        const parts: Buffer[] = [];
+        for (let i = 0; i < this.chunks.length; i++) {
+            const chunk = this.chunks[i]!;
+            const chunkStart = this.offsets[i]!;
+            if (chunkStart + chunk.length <= from || chunkStart >= to) continue;
+            parts.push(chunk.subarray(Math.max(0, from - chunkStart), Math.min(chunk.length, to - chunkStart)));
+        }
+        return parts;
+    }
+
+    /**
+     * eof checks and returns if the cursor is at the end of the last chunk.
+     * @since v1.1.0
+     * @returns {boolean} true if cursor position is at the end of the last chunk.
+     */
+    public eof(): boolean {
+        return this.pos === this.size;
+    }
+
+    /**
+     * align moves the cursor forward to the next multiple of n bytes from the alignment base.
+     * @since v1.1.0
+     * @param {number} n the alignment in bytes, like 4 or 8.
+     * @param {number} relativeTo the offset to align relative to. Default the alignment base.
+     * @returns {this} this chunkcursor.
+     */
+    public align(n: number, relativeTo: number = this.alignBase): this {
+        checkAlignment(n);
+        const padding = (n - (this.pos - relativeTo) % n) % n;
+        this.checkMove(padding, "align");
+        this.pos += padding;
+        return this;
+    }
+
+    /**
+     * skipPadding moves the cursor past n bytes of padding, checking their value when `expect` is given.
+     * The cursor doesn't move when a byte doesn't match.
+     * @since v1.1.0
+     * @param {number} n the number of padding bytes.
+     * @param {PaddingOptions} options the value the padding bytes must have.
+     * @returns {this} this chunkcursor.
+     */
+    public skipPadding(n: number, options: PaddingOptions = {}): this {
+        this.checkArgument("length", n);
+        this.checkMove(n, "skipPadding");
+        const { expect } = options;
+        if (expect !== undefined) {
+            let offset = this.pos;
+            for (const chunk of this.chunksBetween(this.pos, this.pos + n)) {
+                for (let i = 0; i < chunk.length; i++, offset++) {
+                    if (chunk[i] !== expect)
+                        throw new UnexpectedValueError(expect, chunk[i], offset, { method: "skipPadding" });
+                }
+            }
+        }
+        this.pos += n;
+        return this;
+    }
+
+    /**
+     * indexOf finds a pattern after the cursor position, without moving the cursor.
+     * @since v1.1.0
+     * @param {SearchPattern} pattern a byte, a UTF-8 string or bytes.
+     * @param {number} from the offset from the cursor position to start searching at. Default 0.
+     * @returns {number} the offset of the pattern from the cursor position, or -1 when it isn't found.
+     */
+    public indexOf(pattern: SearchPattern, from: number = 0): number {
+        this.checkArgument("from", from);
+        const index = this.search(toPattern(pattern), this.pos + Math.max(0, from), this.size);
+        return index === -1 ? -1 : index - this.pos;
+    }
+
+    /**
+     * Reads the bytes up to a delimiter from chunkcursor and moves past the delimiter.
+     * @since v1.1.0
+     * @param {SearchPattern} delimiter a byte, a UTF-8 string or bytes.
+     * @param {ReadUntilOptions} options whether to include the delimiter and the maximum length before it.
+     * @returns {Buffer} the bytes, they share memory with chunkcursor unless they span several chunks.
+     */
+    public readUntil(delimiter: SearchPattern, options: ReadUntilOptions = {}): Buffer {
+        const [length, skip] = this.findDelimiter(delimiter, options, "readUntil");
+        const ret = this.bytesBetween(this.pos, this.pos + length);
+        this.pos += length + skip;
+        return ret;
+    }
+
+    /**
+     * Returns a cursor over the bytes up to a delimiter and moves past the delimiter.
+     * @since v1.1.0
+     * @param {SearchPattern} delimiter a byte, a UTF-8 string or bytes.
+     * @param {ReadUntilOptions} options whether to include the delimiter and the maximum length before it.
+     * @returns {Cursor} a new cursor that references the same memory as the original.
+     */
+    public sliceUntil(delimiter: SearchPattern, options: ReadUntilOptions = {}): Cursor {
+        const [length, skip] = this.findDelimiter(delimiter, options, "sliceUntil");
+        const ret = this.slice(length);
+        this.pos += skip;
+        return ret;
+    }
+
+    /**
+     * Reads a line ending with `\n` or `\r\n` from chunkcursor, without the line ending.
+     * Throws an OverflowError when there is no line ending, so an incomplete line can be retried when more data is available.
+     * @since v1.1.0
+     * @param {ReadLineOptions} options the encoding and the maximum length of the line.
+     * @returns {string} the line.
+     */
+    public readLine(options: ReadLineOptions = {}): string {
+        const { encoding = "utf8", maxLength } = options;
+        const [length] = this.findDelimiter(0x0a, { maxLength }, "readLine");
+        const bytes = this.bytesBetween(this.pos, this.pos + length);
+        const end = length > 0 && bytes[length - 1] === 0x0d ? length - 1 : length;
+        if (this.strict) checkEncoding(bytes.subarray(0, end), encoding, this.pos, "readLine");
+        const ret = bytes.toString(encoding, 0, end);
+        this.pos += length + 1;
+        return ret;
+    }
+
+    /**
+     * skipWhile moves the cursor past the bytes that match a predicate, like whitespace.
+     * @since v1.1.0
+     * @param {(byte: number) => boolean} predicate checks a byte.
+     * @returns {number} the number of bytes skipped.
+     */
+    public skipWhile(predicate: (byte: number) => boolean): number {
+        let skipped = 0;
+        for (const chunk of this.chunksBetween(this.pos, this.size)) {
+            let i = 0;
+            while (i < chunk.length && predicate(chunk[i]!)) i++;
+            skipped += i;
+            if (i < chunk.length) break;
+        }
+        this.pos += skipped;
+        return skipped;
+    }
+
+    /**
+     * Returns a cursor over the bytes from the current position to `current position + length` or the end,
+     * without copying. A `BufferCursor` when the bytes are in one chunk, otherwise a `ChunkCursor`.
+     * @since v1.1.0
+     * @param {number | undefined} length The length of the new cursor.
+     * @returns {Cursor} a new cursor that references the same memory as the original.
+     */
+    public slice(length: number = this.size - this.pos): Cursor {
+        this.checkArgument("length", length);
+        this.checkMove(length, "slice");
+        const options = { endian: this.endianness, strict: this.strict, alignmentBase: this.alignBase - this.pos };
+        if (length === 0) return new BufferCursor(Buffer.alloc(0), options);
+
+        const end = this.pos + length;
+        let i = this.locate();
+        const first = this.chunks[i]!;
+        const offset = this.pos - this.offsets[i]!;
+        this.pos = end;
+        if (first.length - offset >= length)
+            return new BufferCursor(first.subarray(offset, offset + length), options);
+
+        const parts = [first.subarray(offset)];
+        while (this.offsets[++i]! + this.chunks[i]!.length < end) parts.push(this.chunks[i]!);
+        parts.push(this.chunks[i]!.subarray(0, end - this.offsets[i]!));
+        return new ChunkCursor(parts, options);
+    }
+
+    /**
+     * Decodes the bytes to a string according to the specified character encoding in `encoding`.
+     * `length` may be passed to decode only a subset of the bytes.
+     * @since v1.1.0
+     * @param {BufferEncoding | undefined} encoding The character encoding to use. Default "utf8".
+     * @param {number | undefined} length The number of bytes to decode.
+     * @returns {string} a string according to the specified character encoding.
+     */
+    public toString(encoding: BufferEncoding = "utf8", length: number = this.size - this.pos): string {
+        this.checkArgument("length", length);
+        return this.withBytes(length, c => {
+            if (this.strict) checkEncoding(c.buffer, encoding, this.pos, "toString");
+            return c.toString(encoding);
+        }, "toString");
+    }
+
+    /**
+     * Reads a number of the given type from chunkcursor.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    public read<T extends NumberTag>(type: T): NumberTypes[T] {
+        return this.readNumber(type, "read");
+    }
+
+    /**
+     * readNumber reads a number of the given type, the operation is used in errors.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type the number type.
+     * @param {string} operation the name of the operation.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    private readNumber<T extends NumberTag>(type: T, operation: string): NumberTypes[T] {
+        const { size, read } = getNumberType(type, this.endianness);
+        this.checkMove(size, operation);
+        const [buf, offset] = this.contiguous(size);
+        const ret = read(dataViewOf(buf), offset) as NumberTypes[T];
+        this.pos += size;
+        return ret;
+    }
+
+    /**
+     * Reads a number of the given type from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    public peek<T extends NumberTag>(type: T): NumberTypes[T] {
+        return this.readNumberAt(this.pos, type, "peek");
+    }
+
+    /**
+     * Reads a number of the given type from chunkcursor at an absolute offset, without moving the cursor.
+     * @since v1.1.0
+     * @template T
+     * @param {number} offset the absolute offset to read at.
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    public readAt<T extends NumberTag>(offset: number, type: T): NumberTypes[T] {
+        return this.readNumberAt(offset, type, "readAt");
+    }
+
+    /**
+     * readNumberAt reads a number of the given type at an absolute offset, without moving the cursor.
+     * @since v1.1.0
+     * @template T
+     * @param {number} offset the absolute offset to read at.
+     * @param {T} type the number type.
+     * @param {string} operation the name of the operation.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    private readNumberAt<T extends NumberTag>(offset: number, type: T, operation: string): NumberTypes[T] {
+        this.checkArgument("offset", offset);
+        const { size } = getNumberType(type, this.endianness);
+        if (offset < this.start || size > this.size - this.start || offset > this.size - size)
+            throw new OverflowError(this.size, offset, size, operation);
+        const pos = this.pos;
+        this.pos = offset;
+        try {
+            return this.readNumber(type, operation);
+        } finally {
+            this.pos = pos;
+        }
+    }
+
+    /**
+     * Reads an unsigned 8-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned 8-bit integer.
+     */
+    public peekUInt8(): number {
+        return this.peek("u8");
+    }
+
+    /**
+     * Reads a signed 8-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed 8-bit integer.
+     */
+    public peekInt8(): number {
+        return this.peek("i8");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 16-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 16-bit integer.
+     */
+    public peekUInt16LE(): number {
+        return this.peek("u16le");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 16-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 16-bit integer.
+     */
+    public peekUInt16BE(): number {
+        return this.peek("u16be");
+    }
+
+    /**
+     * Reads a signed, little-endian 16-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 16-bit integer.
+     */
+    public peekInt16LE(): number {
+        return this.peek("i16le");
+    }
+
+    /**
+     * Reads a signed, big-endian 16-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 16-bit integer.
+     */
+    public peekInt16BE(): number {
+        return this.peek("i16be");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 32-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 32-bit integer.
+     */
+    public peekUInt32LE(): number {
+        return this.peek("u32le");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 32-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 32-bit integer.
+     */
+    public peekUInt32BE(): number {
+        return this.peek("u32be");
+    }
+
+    /**
+     * Reads a signed, little-endian 32-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 32-bit integer.
+     */
+    public peekInt32LE(): number {
+        return this.peek("i32le");
+    }
+
+    /**
+     * Reads a signed, big-endian 32-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 32-bit integer.
+     */
+    public peekInt32BE(): number {
+        return this.peek("i32be");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 64-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned, little-endian 64-bit integer.
+     */
+    public peekBigUInt64LE(): bigint {
+        return this.peek("u64le");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 64-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned, big-endian 64-bit integer.
+     */
+    public peekBigUInt64BE(): bigint {
+        return this.peek("u64be");
+    }
+
+    /**
+     * Reads a signed, little-endian 64-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed, little-endian 64-bit integer.
+     */
+    public peekBigInt64LE(): bigint {
+        return this.peek("i64le");
+    }
+
+    /**
+     * Reads a signed, big-endian 64-bit integer from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed, big-endian 64-bit integer.
+     */
+    public peekBigInt64BE(): bigint {
+        return this.peek("i64be");
+    }
+
+    /**
+     * Reads a little-endian 32-bit float from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a little-endian 32-bit float.
+     */
+    public peekFloatLE(): number {
+        return this.peek("f32le");
+    }
+
+    /**
+     * Reads a big-endian 32-bit float from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a big-endian 32-bit float.
+     */
+    public peekFloatBE(): number {
+        return this.peek("f32be");
+    }
+
+    /**
+     * Reads a little-endian 64-bit double from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a little-endian 64-bit double.
+     */
+    public peekDoubleLE(): number {
+        return this.peek("f64le");
+    }
+
+    /**
+     * Reads a big-endian 64-bit double from chunkcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a big-endian 64-bit double.
+     */
+    public peekDoubleBE(): number {
+        return this.peek("f64be");
+    }
+
+    /**
+     * Reads an unsigned 16-bit integer from chunkcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned 16-bit integer.
+     */
+    public peekUInt16(): number {
+        return this.peek("u16");
+    }
+
+    /**
+     * Reads a signed 16-bit integer from chunkcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed 16-bit integer.
+     */
+    public peekInt16(): number {
+        return this.peek("i16");
+    }
+
+    /**
+     * Reads an unsigned 32-bit integer from chunkcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned 32-bit integer.
+     */
+    public peekUInt32(): number {
+        return this.peek("u32");
+    }
+
+    /**
+     * Reads a signed 32-bit integer from chunkcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed 32-bit integer.
+     */
+    public peekInt32(): number {
+        return this.peek("i32");
+    }
+
+    /**
+     * Reads an unsigned 64-bit integer from chunkcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned 64-bit integer.
+     */
+    public peekBigUInt64(): bigint {
+        return this.peek("u64");
+    }
+
+    /**
+     * Reads a signed 64-bit integer from chunkcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed 64-bit integer.
+     */
+    public peekBigInt64(): bigint {
+        return this.peek("i64");
+    }
+
+    /**
+     * Reads a 32-bit float from chunkcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a 32-bit float.
+     */
+    public peekFloat(): number {
+        return this.peek("f32");
+    }
+
+    /**
+     * Reads a 64-bit double from chunkcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a 64-bit double.
+     */
+    public peekDouble(): number {
+        return this.peek("f64");
+    }
+
+    /**
+     * Reads an unsigned 8-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned 8-bit integer.
+     */
+    public readUInt8(): number {
+        return this.readNumber("u8", "readUInt8");
+    }
+
+    /**
+     * Reads a signed 8-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a signed 8-bit integer.
+     */
+    public readInt8(): number {
+        return this.readNumber("i8", "readInt8");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 16-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 16-bit integer.
+     */
+    public readUInt16LE(): number {
+        return this.readNumber("u16le", "readUInt16LE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 16-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 16-bit integer.
+     */
+    public readUInt16BE(): number {
+        return this.readNumber("u16be", "readUInt16BE");
+    }
+
+    /**
+     * Reads an unsigned 16-bit integer from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} an unsigned 16-bit integer.
+     */
+    public readUInt16(): number {
+        return this.readNumber("u16", "readUInt16");
+    }
+
+    /**
+     * Reads a signed, little-endian 16-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 16-bit integer.
+     */
+    public readInt16LE(): number {
+        return this.readNumber("i16le", "readInt16LE");
+    }
+
+    /**
+     * Reads a signed, big-endian 16-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 16-bit integer.
+     */
+    public readInt16BE(): number {
+        return this.readNumber("i16be", "readInt16BE");
+    }
+
+    /**
+     * Reads a signed 16-bit integer from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a signed 16-bit integer.
+     */
+    public readInt16(): number {
+        return this.readNumber("i16", "readInt16");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 32-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 32-bit integer.
+     */
+    public readUInt32LE(): number {
+        return this.readNumber("u32le", "readUInt32LE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 32-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 32-bit integer.
+     */
+    public readUInt32BE(): number {
+        return this.readNumber("u32be", "readUInt32BE");
+    }
+
+    /**
+     * Reads an unsigned 32-bit integer from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} an unsigned 32-bit integer.
+     */
+    public readUInt32(): number {
+        return this.readNumber("u32", "readUInt32");
+    }
+
+    /**
+     * Reads a signed, little-endian 32-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 32-bit integer.
+     */
+    public readInt32LE(): number {
+        return this.readNumber("i32le", "readInt32LE");
+    }
+
+    /**
+     * Reads a signed, big-endian 32-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 32-bit integer.
+     */
+    public readInt32BE(): number {
+        return this.readNumber("i32be", "readInt32BE");
+    }
+
+    /**
+     * Reads a signed 32-bit integer from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a signed 32-bit integer.
+     */
+    public readInt32(): number {
+        return this.readNumber("i32", "readInt32");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 64-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned, little-endian 64-bit integer.
+     */
+    public readBigUInt64LE(): bigint {
+        return this.readNumber("u64le", "readBigUInt64LE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 64-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned, big-endian 64-bit integer.
+     */
+    public readBigUInt64BE(): bigint {
+        return this.readNumber("u64be", "readBigUInt64BE");
+    }
+
+    /**
+     * Reads an unsigned 64-bit integer from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned 64-bit integer.
+     */
+    public readBigUInt64(): bigint {
+        return this.readNumber("u64", "readBigUInt64");
+    }
+
+    /**
+     * Reads a signed, little-endian 64-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed, little-endian 64-bit integer.
+     */
+    public readBigInt64LE(): bigint {
+        return this.readNumber("i64le", "readBigInt64LE");
+    }
+
+    /**
+     * Reads a signed, big-endian 64-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed, big-endian 64-bit integer.
+     */
+    public readBigInt64BE(): bigint {
+        return this.readNumber("i64be", "readBigInt64BE");
+    }
+
+    /**
+     * Reads a signed 64-bit integer from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {bigint} a signed 64-bit integer.
+     */
+    public readBigInt64(): bigint {
+        return this.readNumber("i64", "readBigInt64");
+    }
+
+    /**
+     * Reads a 32-bit, little-endian float from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a 32-bit, little-endian float.
+     */
+    public readFloatLE(): number {
+        return this.readNumber("f32le", "readFloatLE");
+    }
+
+    /**
+     * Reads a 32-bit, big-endian float from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a 32-bit, big-endian float.
+     */
+    public readFloatBE(): number {
+        return this.readNumber("f32be", "readFloatBE");
+    }
+
+    /**
+     * Reads a 32-bit float from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a 32-bit float.
+     */
+    public readFloat(): number {
+        return this.readNumber("f32", "readFloat");
+    }
+
+    /**
+     * Reads a 64-bit, little-endian double from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a 64-bit, little-endian double.
+     */
+    public readDoubleLE(): number {
+        return this.readNumber("f64le", "readDoubleLE");
+    }
+
+    /**
+     * Reads a 64-bit, big-endian double from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a 64-bit, big-endian double.
+     */
+    public readDoubleBE(): number {
+        return this.readNumber("f64be", "readDoubleBE");
+    }
+
+    /**
+     * Reads a 64-bit double from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a 64-bit double.
+     */
+    public readDouble(): number {
+        return this.readNumber("f64", "readDouble");
+    }
+
+    /**
+     * Reads an unsigned, little-endian integer of up to 6 bytes from chunkcursor.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read, 1 to 6.
+     * @returns {number} an unsigned, little-endian integer.
+     */
+    public readUIntLE(byteLength: number): number {
+        return this.readInteger(byteLength, "le", false, "readUIntLE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian integer of up to 6 bytes from chunkcursor.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read, 1 to 6.
+     * @returns {number} an unsigned, big-endian integer.
+     */
+    public readUIntBE(byteLength: number): number {
+        return this.readInteger(byteLength, "be", false, "readUIntBE");
+    }
+
+    /**
+     * Reads a signed, little-endian integer of up to 6 bytes from chunkcursor.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read, 1 to 6.
+     * @returns {number} a signed, little-endian integer.
+     */
+    public readIntLE(byteLength: number): number {
+        return this.readInteger(byteLength, "le", true, "readIntLE");
+    }
+
+    /**
+     * Reads a signed, big-endian integer of up to 6 bytes from chunkcursor.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read, 1 to 6.
+     * @returns {number} a signed, big-endian integer.
+     */
+    public readIntBE(byteLength: number): number {
+        return this.readInteger(byteLength, "be", true, "readIntBE");
+    }
+
+    /**
+     * Reads an unsigned, little-endian integer of any number of bytes from chunkcursor, like 128-bit.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read.
+     * @returns {bigint} an unsigned, little-endian integer.
+     */
+    public readBigUIntLE(byteLength: number): bigint {
+        return this.readBigInteger(byteLength, "le", false, "readBigUIntLE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian integer of any number of bytes from chunkcursor, like 128-bit.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read.
+     * @returns {bigint} an unsigned, big-endian integer.
+     */
+    public readBigUIntBE(byteLength: number): bigint {
+        return this.readBigInteger(byteLength, "be", false, "readBigUIntBE");
+    }
+
+    /**
+     * Reads a signed, little-endian integer of any number of bytes from chunkcursor, like 128-bit.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read.
+     * @returns {bigint} a signed, little-endian integer.
+     */
+    public readBigIntLE(byteLength: number): bigint {
+        return this.readBigInteger(byteLength, "le", true, "readBigIntLE");
+    }
+
+    /**
+     * Reads a signed, big-endian integer of any number of bytes from chunkcursor, like 128-bit.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read.
+     * @returns {bigint} a signed, big-endian integer.
+     */
+    public readBigIntBE(byteLength: number): bigint {
+        return this.readBigInteger(byteLength, "be", true, "readBigIntBE");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 24-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 24-bit integer.
+     */
+    public readUInt24LE(): number {
+        return this.readNumber("u24le", "readUInt24LE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 24-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 24-bit integer.
+     */
+    public readUInt24BE(): number {
+        return this.readNumber("u24be", "readUInt24BE");
+    }
+
+    /**
+     * Reads an unsigned 24-bit integer from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} an unsigned 24-bit integer.
+     */
+    public readUInt24(): number {
+        return this.readNumber("u24", "readUInt24");
+    }
+
+    /**
+     * Reads a signed, little-endian 24-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 24-bit integer.
+     */
+    public readInt24LE(): number {
+        return this.readNumber("i24le", "readInt24LE");
+    }
+
+    /**
+     * Reads a signed, big-endian 24-bit integer from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 24-bit integer.
+     */
+    public readInt24BE(): number {
+        return this.readNumber("i24be", "readInt24BE");
+    }
+
+    /**
+     * Reads a signed 24-bit integer from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a signed 24-bit integer.
+     */
+    public readInt24(): number {
+        return this.readNumber("i24", "readInt24");
+    }
+
+    /**
+     * Reads a little-endian half-precision float from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a little-endian half-precision float.
+     */
+    public readFloat16LE(): number {
+        return decodeFloat16(this.readInteger(2, "le", false, "readFloat16LE"));
+    }
+
+    /**
+     * Reads a big-endian half-precision float from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a big-endian half-precision float.
+     */
+    public readFloat16BE(): number {
+        return decodeFloat16(this.readInteger(2, "be", false, "readFloat16BE"));
+    }
+
+    /**
+     * Reads a half-precision float from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a half-precision float.
+     */
+    public readFloat16(): number {
+        return decodeFloat16(this.readInteger(2, this.endianness, false, "readFloat16"));
+    }
+
+    /**
+     * Reads a little-endian bfloat16 from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a little-endian bfloat16.
+     */
+    public readBFloat16LE(): number {
+        return decodeBFloat16(this.readInteger(2, "le", false, "readBFloat16LE"));
+    }
+
+    /**
+     * Reads a big-endian bfloat16 from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a big-endian bfloat16.
+     */
+    public readBFloat16BE(): number {
+        return decodeBFloat16(this.readInteger(2, "be", false, "readBFloat16BE"));
+    }
+
+    /**
+     * Reads a bfloat16 from chunkcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a bfloat16.
+     */
+    public readBFloat16(): number {
+        return decodeBFloat16(this.readInteger(2, this.endianness, false, "readBFloat16"));
+    }
+
+    /**
+     * Reads a fixed-point number from chunkcursor, like Q15 (1.15), 8.8 or 16.16.
+     * The integer bits include the sign bit of signed formats.
+     * @since v1.1.0
+     * @param {number} intBits the number of integer bits.
+     * @param {number} fracBits the number of fraction bits.
+     * @param {boolean} signed whether the format is signed. Default true.
+     * @param {Endian} endian the endianness. Default the endianness of the cursor.
+     * @returns {number} the fixed-point number.
+     */
+    public readFixed(intBits: number, fracBits: number, signed: boolean = true, endian: Endian = this.endianness): number {
+        const byteLength = fixedByteLength(intBits, fracBits);
+        return this.readInteger(byteLength, endian, signed, "readFixed") / 2 ** fracBits;
+    }
+
+    /**
+     * readInteger reads an integer of up to 6 bytes as number, the operation is used in errors.
+     * @since v1.1.0
+     * @param {number} byteLength the number of bytes of the integer.
+     * @param {Endian} endian the endianness of the integer.
+     * @param {boolean} signed whether the integer is signed.
+     * @param {string} operation the name of the operation.
+     * @returns {number} the integer read.
+     */
+    private readInteger(byteLength: number, endian: Endian, signed: boolean, operation: string): number {
+        checkByteLength(byteLength, 6);
+        this.checkMove(byteLength, operation);
+        const [buf, offset] = this.contiguous(byteLength);
+        const ret = decodeInt(buf, offset, byteLength, endian, signed);
+        this.pos += byteLength;
+        return ret;
+    }
+
+    /**
+     * readBigInteger reads an integer of any byte length as bigint, the operation is used in errors.
+     * @since v1.1.0
+     * @param {number} byteLength the number of bytes of the integer.
+     * @param {Endian} endian the endianness of the integer.
+     * @param {boolean} signed whether the integer is signed.
+     * @param {string} operation the name of the operation.
+     * @returns {bigint} the integer read.
+     */
+    private readBigInteger(byteLength: number, endian: Endian, signed: boolean, operation: string): bigint {
+        checkByteLength(byteLength);
+        this.checkMove(byteLength, operation);
+        const [buf, offset] = this.contiguous(byteLength);
+        const ret = decodeBigInt(buf, offset, byteLength, endian, signed);
+        this.pos += byteLength;
+        return ret;
+    }
+
+    /**
+     * Reads an unsigned LEB128 integer from chunkcursor.
+     * @since v1.1.0
+     * @param {number} maxBytes maximum number of bytes the integer may use. Default 8.
+     * @returns {number} an unsigned integer.
+     */
+    public readULEB128(maxBytes: number = 8): number {
+        return this.withBytes(this.varIntSize(maxBytes, "readULEB128"), c => c.readULEB128(maxBytes), "readULEB128");
+    }
+
+    /**
+     * Reads a signed LEB128 integer from chunkcursor.
+     * @since v1.1.0
+     * @param {number} maxBytes maximum number of bytes the integer may use. Default 8.
+     * @returns {number} a signed integer.
+     */
+    public readSLEB128(maxBytes: number = 8): number {
+        return this.withBytes(this.varIntSize(maxBytes, "readSLEB128"), c => c.readSLEB128(maxBytes), "readSLEB128");
+    }
+
+    /**
+     * Reads an unsigned LEB128 integer from chunkcursor.
+     * @since v1.1.0
+     * @param {number} maxBytes maximum number of bytes the integer may use. Default 10.
+     * @returns {bigint} an unsigned integer.
+     */
+    public readBigULEB128(maxBytes: number = 10): bigint {
+        return this.withBytes(this.varIntSize(maxBytes, "readBigULEB128"), c => c.readBigULEB128(maxBytes), "readBigULEB128");
+    }
+
+    /**
+     * Reads a signed LEB128 integer from chunkcursor.
+     * @since v1.1.0
+     * @param {number} maxBytes maximum number of bytes the integer may use. Default 10.
+     * @returns {bigint} a signed integer.
+     */
+    public readBigSLEB128(maxBytes: number = 10): bigint {
+        return this.withBytes(this.varIntSize(maxBytes, "readBigSLEB128"), c => c.readBigSLEB128(maxBytes), "readBigSLEB128");
+    }
+
+    /**
+     * Reads count signed 8-bit integers from chunkcursor as a Int8Array.
+     * The result shares memory with chunkcursor when the position is aligned, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @returns {Int8Array} the elements.
+     */
+    public readInt8Array(count: number): Int8Array {
+        return this.readArray("i8", count, "le", "readInt8Array");
+    }
+
+    /**
+     * Reads count unsigned 8-bit integers from chunkcursor as a Uint8Array.
+     * The result shares memory with chunkcursor when the position is aligned, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @returns {Uint8Array} the elements.
+     */
+    public readUInt8Array(count: number): Uint8Array {
+        return this.readArray("u8", count, "le", "readUInt8Array");
+    }
+
+    /**
+     * Reads count signed 16-bit integers from chunkcursor as a Int16Array.
+     * The result shares memory with chunkcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Int16Array} the elements.
+     */
+    public readInt16Array(count: number, endian: Endian = this.endianness): Int16Array {
+        return this.readArray("i16", count, endian, "readInt16Array");
+    }
+
+    /**
+     * Reads count unsigned 16-bit integers from chunkcursor as a Uint16Array.
+     * The result shares memory with chunkcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Uint16Array} the elements.
+     */
+    public readUInt16Array(count: number, endian: Endian = this.endianness): Uint16Array {
+        return this.readArray("u16", count, endian, "readUInt16Array");
+    }
+
+    /**
+     * Reads count signed 32-bit integers from chunkcursor as a Int32Array.
+     * The result shares memory with chunkcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Int32Array} the elements.
+     */
+    public readInt32Array(count: number, endian: Endian = this.endianness): Int32Array {
+        return this.readArray("i32", count, endian, "readInt32Array");
+    }
+
+    /**
+     * Reads count unsigned 32-bit integers from chunkcursor as a Uint32Array.
+     * The result shares memory with chunkcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Uint32Array} the elements.
+     */
+    public readUInt32Array(count: number, endian: Endian = this.endianness): Uint32Array {
+        return this.readArray("u32", count, endian, "readUInt32Array");
+    }
+
+    /**
+     * Reads count signed 64-bit integers from chunkcursor as a BigInt64Array.
+     * The result shares memory with chunkcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {BigInt64Array} the elements.
+     */
+    public readBigInt64Array(count: number, endian: Endian = this.endianness): BigInt64Array {
+        return this.readArray("i64", count, endian, "readBigInt64Array");
+    }
+
+    /**
+     * Reads count unsigned 64-bit integers from chunkcursor as a BigUint64Array.
+     * The result shares memory with chunkcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {BigUint64Array} the elements.
+     */
+    public readBigUInt64Array(count: number, endian: Endian = this.endianness): BigUint64Array {
+        return this.readArray("u64", count, endian, "readBigUInt64Array");
+    }
+
+    /**
+     * Reads count 32-bit floats from chunkcursor as a Float32Array.
+     * The result shares memory with chunkcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Float32Array} the elements.
+     */
+    public readFloat32Array(count: number, endian: Endian = this.endianness): Float32Array {
+        return this.readArray("f32", count, endian, "readFloat32Array");
+    }
+
+    /**
+     * Reads count 64-bit floats from chunkcursor as a Float64Array.
+     * The result shares memory with chunkcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Float64Array} the elements.
+     */
+    public readFloat64Array(count: number, endian: Endian = this.endianness): Float64Array {
+        return this.readArray("f64", count, endian, "readFloat64Array");
+    }
+
+    /**
+     * Reads a protobuf style unsigned varint from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned integer.
+     */
+    public readVarUInt(): number {
+        return this.withBytes(this.varIntSize(8, "readVarUInt"), c => c.readVarUInt(), "readVarUInt");
+    }
+
+    /**
+     * Reads a protobuf style signed varint from chunkcursor.
+     * @since v1.1.0
+     * @returns {number} a signed integer.
+     */
+    public readVarInt(): number {
+        return this.withBytes(this.varIntSize(8, "readVarInt"), c => c.readVarInt(), "readVarInt");
+    }
+
+    /**
+     * Reads a protobuf style unsigned 64-bit varint from chunkcursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned integer.
+     */
+    public readBigVarUInt(): bigint {
+        return this.withBytes(this.varIntSize(10, "readBigVarUInt"), c => c.readBigVarUInt(), "readBigVarUInt");
+    }
+
+    /**
+     * Reads a protobuf style signed 64-bit varint from chunkcursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed integer.
+     */
+    public readBigVarInt(): bigint {
+        return this.withBytes(this.varIntSize(10, "readBigVarInt"), c => c.readBigVarInt(), "readBigVarInt");
+    }
+
+    /**
+     * Reads a QUIC variable-length integer (RFC 9000) from chunkcursor.
+     * @since v1.1.0
+     * @param {boolean} minimal whether to reject encodings longer than needed. Default false.
+     * @returns {number} an unsigned integer.
+     */
+    public readQuicVarInt(minimal: boolean = false): number {
+        this.checkMove(1, "readQuicVarInt");
+        return this.withBytes(1 << (this.byteAt(this.pos) >> 6), c => c.readQuicVarInt(minimal), "readQuicVarInt");
+    }
+
+    /**
+     * Reads a QUIC variable-length integer (RFC 9000) from chunkcursor.
+     * @since v1.1.0
+     * @param {boolean} minimal whether to reject encodings longer than needed. Default false.
+     * @returns {bigint} an unsigned integer.
+     */
+    public readBigQuicVarInt(minimal: boolean = false): bigint {
+        this.checkMove(1, "readBigQuicVarInt");
+        return this.withBytes(1 << (this.byteAt(this.pos) >> 6), c => c.readBigQuicVarInt(minimal), "readBigQuicVarInt");
+    }
+
+    /**
+     * Reads a NUL terminated string from chunkcursor, the terminator is consumed but not returned.
+     * @since v1.1.0
+     * @param {BufferEncoding} encoding The character encoding to use. Default "utf8".
+     * @returns {string} the string before the terminator.
+     */
+    public readCString(encoding: BufferEncoding = "utf8"): string {
+        const terminator = terminatorSize(encoding);
+        let end = this.pos;
+        for (; end + terminator <= this.size; end += terminator)
+            if (this.byteAt(end) === 0 && (terminator === 1 || this.byteAt(end + 1) === 0)) break;
+        if (end + terminator > this.size)
+            throw new OverflowError(this.size, this.pos, this.size - this.pos + terminator, "readCString");
+        return this.withBytes(end - this.pos + terminator, c => {
+            if (this.strict) checkEncoding(c.buffer.subarray(0, end - this.pos), encoding, this.pos, "readCString");
+            return c.readCString(encoding);
+        }, "readCString");
+    }
+
+    /**
+     * Reads a string prefixed with its byte length from chunkcursor.
+     * Nothing is consumed when the string doesn't fit.
+     * @since v1.1.0
+     * @param {LengthPrefix} prefix type of the length prefix. Default "u8".
+     * @param {BufferEncoding} encoding The character encoding to use. Default "utf8".
+     * @returns {string} the string.
+     */
+    public readLengthPrefixedString(prefix: LengthPrefix = "u8", encoding: BufferEncoding = "utf8"): string {
+        const start = this.pos;
+        const length = prefix === "varuint" ? this.readVarUInt() : this.read(prefix);
+        if (this.size - this.pos < length) {
+            const size = this.pos - start + length;
+            this.pos = start;
+            throw new OverflowError(this.size, start, size, "readLengthPrefixedString");
+        }
+        return this.toString(encoding, length);
+    }
+
+    /**
+     * Reads a fixed width string from chunkcursor, trailing padding is trimmed by default.
+     * @since v1.1.0
+     * @param {number} length the width of the field in bytes.
+     * @param {FixedStringOptions} options encoding, padding and trimming of the field.
+     * @returns {string} the string.
+     */
+    public readFixedString(length: number, options: FixedStringOptions = {}): string {
+        return this.withBytes(length, c => c.readFixedString(length, options), "readFixedString");
+    }
+
+    /**
+     * checksumRange finds the bytes of a checksum range.
+     * @since v1.1.0
+     * @param {ChecksumRange} range the absolute range, default from the last mark, or the start without marks, to the cursor position.
+     * @param {string} operation the name of the operation.
+     * @returns {Buffer[]} the parts of the chunks in the range.
+     */
+    private checksumRange(range: ChecksumRange, operation: string): Buffer[] {
+        const start = range.start ?? this.marks[this.marks.length - 1] ?? this.start;
+        const end = range.end ?? this.pos;
+        this.checkArgument("start", start);
+        this.checkArgument("end", end);
+        if (end < start) throw new RangeError(`End can't be before start. Received ${start} and ${end}`);
+        if (start < this.start || end > this.size)
+            throw new OverflowError(this.size, start, end - start, operation);
+        return this.chunksBetween(start, end);
+    }
+    /**
+     * readArray reads count elements of a number tag as a typed array.
+     * @since v1.1.0
+     * @template T
+     * @param {T} tag the number tag of the elements.
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements.
+     * @param {string} operation the name of the operation.
+     * @returns {TypedArrays[T]} the elements.
+     */
+    private readArray<T extends TypedArrayTag>(tag: T, count: number, endian: Endian, operation: string): TypedArrays[T] {
+        this.checkArgument("count", count);
+        const size = typedArraySize(tag, count);
+        this.checkMove(size, operation);
+        const [buf, offset] = size === 0 ? [Buffer.alloc(0), 0] : this.contiguous(size);
+        const array = readTypedArray(buf, offset, tag, count, endian);
+        this.pos += size;
+        return array;
+    }
+    /**
+     * search finds the absolute offset of a pattern between two absolute offsets.
+     * @since v1.1.0
+     * @param {Uint8Array} pattern the bytes to search for.
+     * @param {number} start the absolute offset to start searching at.
+     * @param {number} end the absolute offset the pattern must end before.
+     * @returns {number} the absolute offset of the pattern, or -1 when it isn't found.
+     */
+    private search(pattern: Uint8Array, start: number, end: number): number {
+        const parts = this.chunksBetween(start, end);
+        let partStart = start;
+        for (let p = 0; p < parts.length; p++) {
+            const part = parts[p]!;
+            for (let i = part.indexOf(pattern[0]!); i !== -1; i = part.indexOf(pattern[0]!, i + 1)) {
+                if (partStart + i + pattern.length > end) return -1;
+                if (this.matches(parts, p, i, pattern)) return partStart + i;
+            }
+            partStart += part.length;
+        }
+        return -1;
+    }
+
+    /**
+     * findDelimiter finds the length of the bytes before a delimiter at the cursor position.
+     * @since v1.1.0
+     * @param {SearchPattern} delimiter a byte, a UTF-8 string or bytes.
+     * @param {ReadUntilOptions} options whether to include the delimiter and the maximum length before it.
+     * @param {string} operation the name of the operation.
+     * @returns {[number, number]} the length of the bytes to return and the number of bytes to skip after them.
+     */
+    private findDelimiter(delimiter: SearchPattern, options: ReadUntilOptions, operation: string): [number, number] {
+        const pattern = toPattern(delimiter);
+        const { include = false, maxLength = Infinity } = options;
+        const end = Math.min(this.size, this.pos + maxLength + pattern.length);
+        const index = this.search(pattern, this.pos, end);
+        if (index === -1)
+            throw new OverflowError(this.size, this.pos, Math.min(this.size - this.pos, maxLength) + pattern.length, operation);
+        const length = index - this.pos;
+        return include ? [length + pattern.length, 0] : [length, pattern.length];
+    }
+
+    /**
+     * matches checks if a pattern starts at an offset in a list of parts of chunks, it may span several parts.
+     * @since v1.1.0
+     * @param {Buffer[]} parts the parts of the chunks.
+     * @param {number} p the index of the part the pattern starts in.
+     * @param {number} offset the offset of the pattern in the part.
+     * @param {Uint8Array} pattern the bytes to search for.
+     * @returns {boolean} true if the pattern matches.
+     */
+    private matches(parts: Buffer[], p: number, offset: number, pattern: Uint8Array): boolean {
+        for (let j = 0; j < pattern.length; j++, offset++) {
+            while (offset >= parts[p]!.length) {
+                if (++p >= parts.length) return false;
+                offset = 0;
+            }
+            if (parts[p]![offset] !== pattern[j]) return false;
+        }
+        return true;
+    }
+}
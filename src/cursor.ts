@@ -0,0 +1,206 @@
+import type { ChecksumAlgorithm, ChecksumRange, ChecksumTag } from "./checksum";
+import type { StringEncoding } from "./encoding";
+import type { HexdumpOptions } from "./hexdump";
+import type { Endian, NumberTag, NumberTypes } from "./numberTypes";
+import type { OverflowError } from "./overflowError";
+import type { SearchPattern } from "./search";
+
+/**
+ * LengthPrefix is the type of the length prefix of a string.
+ * @since v1.1.0
+ */
+export type LengthPrefix = "u8" | "u16" | "u16le" | "u16be" | "u32" | "u32le" | "u32be" | "varuint";
+
+/**
+ * Options for reading up to a delimiter.
+ * @since v1.1.0
+ */
+export interface ReadUntilOptions {
+    /** Include the delimiter in the result. Default false. */
+    include?: boolean;
+    /** The maximum number of bytes before the delimiter. Default no maximum. */
+    maxLength?: number;
+}
+
+/**
+ * Options for reading a line.
+ * @since v1.1.0
+ */
+export interface ReadLineOptions {
+    /** The character encoding. Default "utf8". */
+    encoding?: StringEncoding;
+    /** The maximum number of bytes before the line ending. Default no maximum. */
+    maxLength?: number;
+}
+
+/**
+ * Options for skipping padding.
+ * @since v1.1.0
+ */
+export interface PaddingOptions {
+    /** The value every padding byte must have, padding isn't checked without it. */
+    expect?: number;
+}
+
+/**
+ * Options for a fixed width string.
+ * @since v1.1.0
+ */
+export interface FixedStringOptions {
+    /** The character encoding to use. Default "utf8". */
+    encoding?: StringEncoding;
+    /** The character the field is padded with. Default "\0". */
+    padding?: "\0" | " ";
+    /** Whether to trim the padding when reading. Default true. */
+    trim?: boolean;
+}
+
+/**
+ * TransactionResult is the outcome of a transaction. When it's not "ok" the cursor was moved back,
+ * "incomplete" means an OverflowError was thrown and the transaction can be retried with more data.
+ * @since v1.1.0
+ */
+export type TransactionResult<T> =
+    | { status: "ok"; value: T }
+    | { status: "incomplete"; error: OverflowError }
+    | { status: "error"; error: unknown };
+
+/**
+ * Cursor is the read API shared by BufferCursor and the other cursors,
+ * so parsers can accept any of them.
+ * @since v1.1.0
+ */
+export interface Cursor {
+    readonly length: number;
+    readonly endian: Endian;
+    setEndian(endian: Endian): this;
+    readonly alignmentBase: number;
+    setAlignmentBase(offset: number): this;
+
+    move(step: number): void;
+    seek(pos: number): this;
+    tell(): number;
+    eof(): boolean;
+    align(n: number, relativeTo?: number): this;
+    skipPadding(n: number, options?: PaddingOptions): this;
+    indexOf(pattern: SearchPattern, from?: number): number;
+    readUntil(delimiter: SearchPattern, options?: ReadUntilOptions): Uint8Array;
+    sliceUntil(delimiter: SearchPattern, options?: ReadUntilOptions): Cursor;
+    readLine(options?: ReadLineOptions): string;
+    skipWhile(predicate: (byte: number) => boolean): number;
+    mark(): this;
+    reset(): this;
+    commit(): this;
+    transaction<T>(fn: (cursor: this) => T): TransactionResult<T>;
+    context<T>(path: string, fn: (cursor: this) => T): T;
+    slice(length?: number): Cursor;
+    toString(encoding?: StringEncoding, length?: number): string;
+    read<T extends NumberTag>(type: T): NumberTypes[T];
+    peek<T extends NumberTag>(type: T): NumberTypes[T];
+    readAt<T extends NumberTag>(offset: number, type: T): NumberTypes[T];
+    expectValue<T extends NumberTag>(type: T, expected: NumberTypes[T] | NumberTypes[T][]): NumberTypes[T];
+    expectBytes(expected: Uint8Array): this;
+    checksum(algorithm: ChecksumAlgorithm, range?: ChecksumRange): number;
+    verifyChecksum(algorithm: ChecksumAlgorithm, tag: ChecksumTag, range?: ChecksumRange): number;
+    hexdump(options?: HexdumpOptions): string;
+
+    readUInt8(): number;
+    readInt8(): number;
+    readUInt16LE(): number;
+    readUInt16BE(): number;
+    readUInt16(): number;
+    readInt16LE(): number;
+    readInt16BE(): number;
+    readInt16(): number;
+    readUInt32LE(): number;
+    readUInt32BE(): number;
+    readUInt32(): number;
+    readInt32LE(): number;
+    readInt32BE(): number;
+    readInt32(): number;
+    readBigUInt64LE(): bigint;
+    readBigUInt64BE(): bigint;
+    readBigUInt64(): bigint;
+    readBigInt64LE(): bigint;
+    readBigInt64BE(): bigint;
+    readBigInt64(): bigint;
+    readFloatLE(): number;
+    readFloatBE(): number;
+    readFloat(): number;
+    readDoubleLE(): number;
+    readDoubleBE(): number;
+    readDouble(): number;
+    readUIntLE(byteLength: number): number;
+    readUIntBE(byteLength: number): number;
+    readIntLE(byteLength: number): number;
+    readIntBE(byteLength: number): number;
+    readBigUIntLE(byteLength: number): bigint;
+    readBigUIntBE(byteLength: number): bigint;
+    readBigIntLE(byteLength: number): bigint;
+    readBigIntBE(byteLength: number): bigint;
+    readUInt24LE(): number;
+    readUInt24BE(): number;
+    readUInt24(): number;
+    readInt24LE(): number;
+    readInt24BE(): number;
+    readInt24(): number;
+    readFloat16LE(): number;
+    readFloat16BE(): number;
+    readFloat16(): number;
+    readBFloat16LE(): number;
+    readBFloat16BE(): number;
+    readBFloat16(): number;
+    readFixed(intBits: number, fracBits: number, signed?: boolean, endian?: Endian): number;
+
+    peekUInt8(): number;
+    peekInt8(): number;
+    peekUInt16LE(): number;
+    peekUInt16BE(): number;
+    peekUInt16(): number;
+    peekInt16LE(): number;
+    peekInt16BE(): number;
+    peekInt16(): number;
+    peekUInt32LE(): number;
+    peekUInt32BE(): number;
+    peekUInt32(): number;
+    peekInt32LE(): number;
+    peekInt32BE(): number;
+    peekInt32(): number;
+    peekBigUInt64LE(): bigint;
+    peekBigUInt64BE(): bigint;
+    peekBigUInt64(): bigint;
+    peekBigInt64LE(): bigint;
+    peekBigInt64BE(): bigint;
+    peekBigInt64(): bigint;
+    peekFloatLE(): number;
+    peekFloatBE(): number;
+    peekFloat(): number;
+    peekDoubleLE(): number;
+    peekDoubleBE(): number;
+    peekDouble(): number;
+
+    readULEB128(maxBytes?: number): number;
+    readSLEB128(maxBytes?: number): number;
+    readBigULEB128(maxBytes?: number): bigint;
+    readBigSLEB128(maxBytes?: number): bigint;
+    readInt8Array(count: number): Int8Array;
+    readUInt8Array(count: number): Uint8Array;
+    readInt16Array(count: number, endian?: Endian): Int16Array;
+    readUInt16Array(count: number, endian?: Endian): Uint16Array;
+    readInt32Array(count: number, endian?: Endian): Int32Array;
+    readUInt32Array(count: number, endian?: Endian): Uint32Array;
+    readBigInt64Array(count: number, endian?: Endian): BigInt64Array;
+    readBigUInt64Array(count: number, endian?: Endian): BigUint64Array;
+    readFloat32Array(count: number, endian?: Endian): Float32Array;
+    readFloat64Array(count: number, endian?: Endian): Float64Array;
+    readVarUInt(): number;
+    readVarInt(): number;
+    readBigVarUInt(): bigint;
+    readBigVarInt(): bigint;
+    readQuicVarInt(minimal?: boolean): number;
+    readBigQuicVarInt(minimal?: boolean): bigint;
+
+    readCString(encoding?: StringEncoding): string;
+    readLengthPrefixedString(prefix?: LengthPrefix, encoding?: StringEncoding): string;
+    readFixedString(length: number, options?: FixedStringOptions): string;
+}
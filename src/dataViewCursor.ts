@@ -0,0 +1,2829 @@
+import { checkAlignment, checkEncoding, checkEndian, checkInteger, checkNumber } from "./checks";
+import { checksum, ChecksumAlgorithm, ChecksumRange, ChecksumTag } from "./checksum";
+import type { Cursor, FixedStringOptions, LengthPrefix, PaddingOptions, ReadLineOptions, ReadUntilOptions, TransactionResult } from "./cursor";
+import { decodeString, encodeString, StringEncoding, terminatorSize } from "./encoding";
+import { BufferCursorError, hexSnippet, UnexpectedValueError } from "./errors";
+import { hexdump, HexdumpOptions, inspectCustom } from "./hexdump";
+import { checkBigIntValue, checkByteLength, checkIntValue, decodeBigInt, decodeInt, encodeBigInt, encodeInt } from "./integers";
+import { dataViewOf, Endian, getNumberType, NumberTag, NumberTypes } from "./numberTypes";
+import { decodeBFloat16, decodeFloat16, encodeBFloat16, encodeFixed, encodeFloat16, fixedByteLength } from "./numberFormats";
+import { OverflowError } from "./overflowError";
+import { Placeholder, PlaceholderPrefix } from "./placeholder";
+import { indexOfBytes, SearchPattern, toPattern } from "./search";
+import { readTypedArray, toTypedArray, TypedArrays, TypedArrayTag, TypedArrayValues, typedArraySize, writeTypedArray } from "./typedArrays";
+import {
+    bigZigzagDecode, bigZigzagEncode, decodeLEB128, decodeQuicVarInt, decodeULEB128, encodeBigSLEB128,
+    encodeBigULEB128, encodeQuicVarInt, encodeULEB128, quicVarIntLength, toSafeNumber, varIntLength,
+    varUInt64Length, zigzagEncode,
+} from "./varint";
+
+/**
+ * DataViewSource is anything a DataViewCursor can be created from.
+ * @since v1.1.0
+ */
+export type DataViewSource = ArrayBuffer | SharedArrayBuffer | ArrayBufferView;
+
+/**
+ * Options for a DataViewCursor.
+ * @since v1.1.0
+ */
+export interface DataViewCursorOptions {
+    /** Endianness used by methods and number tags without endianness. Default "le". */
+    endian?: Endian;
+    /** Reject NaN, fractional and out of range values and lengths before writing. Default false. */
+    strict?: boolean;
+    /** The offset alignment is relative to. Default 0, slices keep the alignment of their parent. */
+    alignmentBase?: number;
+}
+
+/**
+ * copyBytes copies a range of bytes. `Buffer#slice` doesn't copy, so the slice of Uint8Array is used,
+ * it copies a Buffer to a new Buffer.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to copy from.
+ * @param {number} start the start of the range.
+ * @param {number} end the end of the range.
+ * @returns {Uint8Array} the copy.
+ */
+function copyBytes(bytes: Uint8Array, start: number, end: number): Uint8Array {
+    return Uint8Array.prototype.slice.call(bytes, start, end);
+}
+
+/**
+ * @class DataViewCursor
+ * @classdesc DataViewCursor provides the BufferCursor API on top of a DataView, without Node built-ins.
+ * It works in browsers, workers and Deno, strings are encoded and decoded without Buffer.
+ * BufferCursor extends it with Buffers, windows and digests.
+ * @since v1.1.0
+ */
+export class DataViewCursor implements Cursor {
+    protected pos: number;
+    protected memory: Uint8Array;
+    private viewMemory?: Uint8Array;
+    private memoryView?: DataView;
+    protected size: number;
+    private endianness: Endian;
+    private marks: number[];
+    protected readonly strict: boolean;
+    private alignBase: number;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {DataViewSource} source an ArrayBuffer, SharedArrayBuffer, TypedArray, DataView or Buffer to use as target.
+     * @param {DataViewCursorOptions} options options for the cursor.
+     */
+    constructor(source: DataViewSource, options: DataViewCursorOptions = {}) {
+        if (ArrayBuffer.isView(source)) {
+            this.memory = new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+        } else if (source instanceof ArrayBuffer
+            || (typeof SharedArrayBuffer !== "undefined" && source instanceof SharedArrayBuffer)) {
+            this.memory = new Uint8Array(source);
+        } else {
+            throw new TypeError("Argument must be an ArrayBuffer, SharedArrayBuffer or ArrayBufferView");
+        }
+        this.pos = 0;
+        this.size = this.memory.length;
+        this.endianness = checkEndian(options.endian ?? "le");
+        this.marks = [];
+        this.strict = options.strict ?? false;
+        this.alignBase = options.alignmentBase ?? 0;
+    }
+
+    /**
+     * The memory used as target. Subclasses can override it, like a window resolving it through its parent.
+     * @since v1.1.0
+     * @returns {Uint8Array} the bytes used as target.
+     */
+    protected get bytes(): Uint8Array {
+        return this.memory;
+    }
+
+    /**
+     * Replaces the memory used as target, like after a reallocation.
+     * @since v1.1.0
+     * @param {Uint8Array} bytes the new bytes.
+     */
+    protected set bytes(bytes: Uint8Array) {
+        this.memory = bytes;
+    }
+
+    /**
+     * The DataView over the memory used as target, made again when the memory is replaced.
+     * @since v1.1.0
+     * @returns {DataView} the view used to read and write numbers.
+     */
+    private get view(): DataView {
+        const bytes = this.bytes;
+        if (!this.memoryView || bytes !== this.viewMemory) {
+            this.memoryView = dataViewOf(bytes);
+            this.viewMemory = bytes;
+        }
+        return this.memoryView;
+    }
+
+    /**
+     * The raw bytes.
+     * @since v1.1.0
+     * @returns {Uint8Array} a view on the memory used as target.
+     */
+    public get buffer(): Uint8Array {
+        return this.bytes;
+    }
+
+    /**
+     * The size of the raw bytes.
+     * @since v1.1.0
+     * @returns {number} the number of bytes that can be read or written.
+     */
+    public get length(): number {
+        return this.size;
+    }
+
+    /**
+     * The default endianness.
+     * @since v1.1.0
+     * @returns {Endian} the endianness used by methods without endianness.
+     */
+    public get endian(): Endian {
+        return this.endianness;
+    }
+
+    /**
+     * setEndian sets the default endianness.
+     * @since v1.1.0
+     * @param {Endian} endian the endianness used by methods without endianness.
+     * @returns {this} this dataviewcursor.
+     */
+    public setEndian(endian: Endian): this {
+        this.endianness = checkEndian(endian);
+        return this;
+    }
+
+    /**
+     * The offset alignment is relative to.
+     * @since v1.1.0
+     * @returns {number} the offset used by align and alignWrite.
+     */
+    public get alignmentBase(): number {
+        return this.alignBase;
+    }
+
+    /**
+     * setAlignmentBase sets the offset alignment is relative to, like the start of a chunk.
+     * @since v1.1.0
+     * @param {number} offset the offset used by align and alignWrite.
+     * @returns {this} this dataviewcursor.
+     */
+    public setAlignmentBase(offset: number): this {
+        checkInteger("offset", offset);
+        this.alignBase = offset;
+        return this;
+    }
+
+    /**
+     * checkMove checks if a move is allowed.
+     * @since v1.1.0
+     * @param {number} size size of the move to check for.
+     * @param {string | undefined} operation the name of the operation.
+     */
+    protected checkMove(size: number, operation?: string): void {
+        if (size < 0) throw new RangeError(`Size can't be negative. Received ${size}`);
+        if ((size > this.size) || (this.size - this.pos < size))
+            throw new OverflowError(this.size, this.pos, size, operation);
+    }
+
+    /**
+     * checkRange checks if size bytes at an absolute offset are inside the buffer.
+     * @since v1.1.0
+     * @param {number} offset the absolute offset.
+     * @param {number} size number of bytes to check for.
+     * @param {string | undefined} operation the name of the operation.
+     */
+    protected checkRange(offset: number, size: number, operation?: string): void {
+        this.checkArgument("offset", offset);
+        if (offset < 0 || size > this.size || offset > this.size - size)
+            throw new OverflowError(this.size, offset, size, operation);
+    }
+
+    /**
+     * checkArgument checks a length, offset or step argument in strict mode.
+     * @since v1.1.0
+     * @param {string} name the name of the argument.
+     * @param {number} value the value of the argument.
+     */
+    protected checkArgument(name: string, value: number): void {
+        if (this.strict) checkInteger(name, value);
+    }
+
+    /**
+     * checkValue checks a value before it is written as the given number type in strict mode.
+     * @since v1.1.0
+     * @param {NumberTag} tag the number type.
+     * @param {unknown} value the value to write.
+     */
+    protected checkValue(tag: NumberTag, value: unknown): void {
+        if (this.strict) checkNumber(tag, value);
+    }
+
+    /**
+     * safeMove runs a function safely with a move.
+     * @since v1.1.0
+     * @template T
+     * @param {() => T} func function to run safely.
+     * @param {number} steps number of steps to move.
+     * @param {string | undefined} operation the name of the operation.
+     * @returns {T} return value of the function.
+     */
+    protected safeMove<T>(func: () => T, steps: number, operation?: string): T {
+        this.checkMove(steps, operation);
+        const ret = func();
+        this.move(steps);
+        return ret;
+    }
+
+    /**
+     * ensureCapacity is called before a write of given size.
+     * A fixed size cursor can't grow, subclasses can override this to make room.
+     * @since v1.1.0
+     * @param {number} _size number of bytes about to be written.
+     * @param {string | undefined} _operation the name of the operation.
+     */
+    protected ensureCapacity(_size: number, _operation?: string): void {
+        // Fixed size, writes are checked by checkMove.
+    }
+
+    /**
+     * safeReserve makes room for a write of given size and runs it.
+     * The position and length are restored when the write fails, so a failed write doesn't grow the buffer.
+     * @since v1.1.0
+     * @template T
+     * @param {() => T} func write function to run.
+     * @param {number} size number of bytes about to be written.
+     * @param {string | undefined} operation the name of the operation.
+     * @returns {T} return value of the function.
+     */
+    protected safeReserve<T>(func: () => T, size: number, operation?: string): T {
+        const pos = this.pos;
+        const length = this.size;
+        this.ensureCapacity(size, operation);
+        try {
+            this.checkMove(size, operation);
+            return func();
+        } catch (error) {
+            this.pos = pos;
+            this.size = length;
+            throw error;
+        }
+    }
+
+    /**
+     * safeWrite runs a write function safely with a move, making room for it first.
+     * @since v1.1.0
+     * @param {() => unknown} func write function to run safely.
+     * @param {number} steps number of steps to move.
+     * @param {string | undefined} operation the name of the operation.
+     */
+    protected safeWrite(func: () => unknown, steps: number, operation?: string): void {
+        this.safeReserve(() => this.safeMove(func, steps, operation), steps, operation);
+    }
+
+    /**
+     * decode decodes a range of the memory to a string.
+     * BufferCursor overrides it to decode with Buffer.
+     * @since v1.1.0
+     * @param {number} start the start of the range.
+     * @param {number} end the end of the range.
+     * @param {StringEncoding} encoding the character encoding to use.
+     * @returns {string} the decoded string.
+     */
+    protected decode(start: number, end: number, encoding: StringEncoding): string {
+        return decodeString(this.bytes.subarray(start, end), encoding);
+    }
+
+    /**
+     * encode encodes a string to bytes.
+     * BufferCursor overrides it to encode with Buffer.
+     * @since v1.1.0
+     * @param {string} value the string to encode.
+     * @param {StringEncoding} encoding the character encoding to use.
+     * @returns {Uint8Array} the encoded bytes.
+     */
+    protected encode(value: string, encoding: StringEncoding): Uint8Array {
+        return encodeString(value, encoding);
+    }
+
+    /**
+     * move moves the cursors by the amount of steps given.
+     * @since v1.1.0
+     * @param {number} step number of steps to move
+     */
+    public move(step: number): void {
+        this.checkArgument("step", step);
+        const pos = this.pos + step;
+        if (pos < 0) throw new RangeError("Cannot move before start of buffer");
+        if (pos > this.size) throw new OverflowError(this.size, this.pos, step, "move");
+        this.pos = pos;
+    }
+
+    /**
+     * getBuffer makes a copy of the part of the buffer before the cursor position.
+     * @since v1.1.0
+     * @returns {Uint8Array} the bytes with a copy of data until cursor position.
+     */
+    public getBuffer(): Uint8Array {
+        return copyBytes(this.bytes, 0, this.pos);
+    }
+
+    /**
+     * seek moves the cursor to given position.
+     * @since v1.1.0
+     * @param {number} pos position to move to.
+     * @returns {this} this dataviewcursor.
+     */
+    public seek(pos: number): this {
+        this.checkArgument("pos", pos);
+        if (pos < 0) throw new RangeError("Cannot seek before start of buffer");
+        if (pos > this.size) throw new OverflowError(this.size, this.pos, pos - this.pos, "seek");
+        this.pos = pos;
+        return this;
+    }
+
+    /**
+     * eof checks and returns if the cursor is at the end of the buffer.
+     * @since v1.1.0
+     * @returns {boolean} true if cursor position is at the end of the buffer.
+     */
+    public eof(): boolean {
+        return this.pos == this.size;
+    }
+
+    /**
+     * align moves the cursor forward to the next multiple of n bytes from the alignment base.
+     * @since v1.1.0
+     * @param {number} n the alignment in bytes, like 4 or 8.
+     * @param {number} relativeTo the offset to align relative to. Default the alignment base.
+     * @returns {this} this dataviewcursor.
+     */
+    public align(n: number, relativeTo: number = this.alignBase): this {
+        checkAlignment(n);
+        const padding = (n - (this.pos - relativeTo) % n) % n;
+        this.checkMove(padding, "align");
+        this.pos += padding;
+        return this;
+    }
+
+    /**
+     * skipPadding moves the cursor past n bytes of padding, checking their value when `expect` is given.
+     * The cursor doesn't move when a byte doesn't match.
+     * @since v1.1.0
+     * @param {number} n the number of padding bytes.
+     * @param {PaddingOptions} options the value the padding bytes must have.
+     * @returns {this} this dataviewcursor.
+     */
+    public skipPadding(n: number, options: PaddingOptions = {}): this {
+        this.checkArgument("length", n);
+        this.checkMove(n, "skipPadding");
+        const { expect } = options;
+        if (expect !== undefined) {
+            for (let i = this.pos; i < this.pos + n; i++) {
+                if (this.bytes[i] !== expect)
+                    throw new UnexpectedValueError(expect, this.bytes[i], i, { method: "skipPadding" });
+            }
+        }
+        this.pos += n;
+        return this;
+    }
+
+    /**
+     * indexOf finds a pattern after the cursor position, without moving the cursor.
+     * @since v1.1.0
+     * @param {SearchPattern} pattern a byte, a UTF-8 string or bytes.
+     * @param {number} from the offset from the cursor position to start searching at. Default 0.
+     * @returns {number} the offset of the pattern from the cursor position, or -1 when it isn't found.
+     */
+    public indexOf(pattern: SearchPattern, from: number = 0): number {
+        this.checkArgument("from", from);
+        const index = this.search(toPattern(pattern), this.pos + Math.max(0, from), this.size);
+        return index === -1 ? -1 : index - this.pos;
+    }
+
+    /**
+     * Reads the bytes up to a delimiter from dataviewcursor and moves past the delimiter.
+     * @since v1.1.0
+     * @param {SearchPattern} delimiter a byte, a UTF-8 string or bytes.
+     * @param {ReadUntilOptions} options whether to include the delimiter and the maximum length before it.
+     * @returns {Uint8Array} the bytes, they share memory with dataviewcursor.
+     */
+    public readUntil(delimiter: SearchPattern, options: ReadUntilOptions = {}): Uint8Array {
+        const [length, skip] = this.findDelimiter(delimiter, options, "readUntil");
+        const ret = this.bytes.subarray(this.pos, this.pos + length);
+        this.pos += length + skip;
+        return ret;
+    }
+
+    /**
+     * Returns a cursor over the bytes up to a delimiter and moves past the delimiter.
+     * @since v1.1.0
+     * @param {SearchPattern} delimiter a byte, a UTF-8 string or bytes.
+     * @param {ReadUntilOptions} options whether to include the delimiter and the maximum length before it.
+     * @returns {DataViewCursor} a new cursor that references the same memory as the original.
+     */
+    public sliceUntil(delimiter: SearchPattern, options: ReadUntilOptions = {}): DataViewCursor {
+        const [length, skip] = this.findDelimiter(delimiter, options, "sliceUntil");
+        const ret = this.slice(length);
+        this.pos += skip;
+        return ret;
+    }
+
+    /**
+     * Reads a line ending with `\n` or `\r\n` from dataviewcursor, without the line ending.
+     * Throws an OverflowError when there is no line ending, so an incomplete line can be retried when more data is available.
+     * @since v1.1.0
+     * @param {ReadLineOptions} options the encoding and the maximum length of the line.
+     * @returns {string} the line.
+     */
+    public readLine(options: ReadLineOptions = {}): string {
+        const { encoding = "utf8", maxLength } = options;
+        const [length] = this.findDelimiter(0x0a, { maxLength }, "readLine");
+        const end = length > 0 && this.bytes[this.pos + length - 1] === 0x0d ? length - 1 : length;
+        if (this.strict) checkEncoding(this.bytes.subarray(this.pos, this.pos + end), encoding, this.pos, "readLine");
+        const ret = this.decode(this.pos, this.pos + end, encoding);
+        this.pos += length + 1;
+        return ret;
+    }
+
+    /**
+     * skipWhile moves the cursor past the bytes that match a predicate, like whitespace.
+     * @since v1.1.0
+     * @param {(byte: number) => boolean} predicate checks a byte.
+     * @returns {number} the number of bytes skipped.
+     */
+    public skipWhile(predicate: (byte: number) => boolean): number {
+        let end = this.pos;
+        while (end < this.size && predicate(this.bytes[end]!)) end++;
+        const skipped = end - this.pos;
+        this.pos = end;
+        return skipped;
+    }
+
+    /**
+     * alignWrite writes padding bytes up to the next multiple of n bytes from the alignment base.
+     * @since v1.1.0
+     * @param {number} n the alignment in bytes, like 4 or 8.
+     * @param {number} padByte the value of the padding bytes. Default 0.
+     * @returns {this} this dataviewcursor.
+     */
+    public alignWrite(n: number, padByte: number = 0): this {
+        checkAlignment(n);
+        const padding = (n - (this.pos - this.alignBase) % n) % n;
+        this.safeWrite(() => this.bytes.fill(padByte, this.pos, this.pos + padding), padding, "alignWrite");
+        return this;
+    }
+
+    /**
+     * writePadding writes n padding bytes.
+     * @since v1.1.0
+     * @param {number} n the number of padding bytes.
+     * @param {number} value the value of the padding bytes. Default 0.
+     * @returns {this} this dataviewcursor.
+     */
+    public writePadding(n: number, value: number = 0): this {
+        this.checkArgument("length", n);
+        this.safeWrite(() => this.bytes.fill(value, this.pos, this.pos + n), n, "writePadding");
+        return this;
+    }
+
+    /**
+     * tell return the cursor position.
+     * @since v1.1.0
+     * @returns {number} cursor position.
+     */
+    public tell(): number {
+        return this.pos;
+    }
+
+    /**
+     * mark pushes the cursor position on the mark stack, marks can be nested.
+     * @since v1.1.0
+     * @returns {this} this dataviewcursor.
+     */
+    public mark(): this {
+        this.marks.push(this.pos);
+        return this;
+    }
+
+    /**
+     * reset pops the last mark and moves the cursor back to it.
+     * @since v1.1.0
+     * @returns {this} this dataviewcursor.
+     */
+    public reset(): this {
+        const pos = this.marks.pop();
+        if (pos === undefined) throw new Error("No mark to reset to");
+        return this.seek(pos);
+    }
+
+    /**
+     * commit pops the last mark and keeps the cursor position.
+     * @since v1.1.0
+     * @returns {this} this dataviewcursor.
+     */
+    public commit(): this {
+        if (this.marks.pop() === undefined) throw new Error("No mark to commit");
+        return this;
+    }
+
+    /**
+     * transaction runs fn and moves the cursor back to where it was if fn throws.
+     * An OverflowError means the data is incomplete and fn can be retried when more data is available,
+     * any other error is a format error.
+     * @since v1.1.0
+     * @template T
+     * @param {(cursor: this) => T} fn the reads to run.
+     * @returns {TransactionResult<T>} the return value of fn, or the error and whether the data was incomplete.
+     */
+    public transaction<T>(fn: (cursor: this) => T): TransactionResult<T> {
+        const depth = this.marks.length;
+        const start = this.pos;
+        this.mark();
+        try {
+            const value = fn(this);
+            if (this.marks.length > depth) this.marks.length = depth;
+            return { status: "ok", value };
+        } catch (error) {
+            // fn may have popped marks with commit or reset, so the start is kept apart from them.
+            this.seek(start);
+            if (this.marks.length > depth) this.marks.length = depth;
+            if (error instanceof OverflowError) return { status: "incomplete", error };
+            return { status: "error", error };
+        }
+    }
+
+    /**
+     * context runs fn and adds path to the context of the BufferCursorError it throws, with a hexdump of the bytes around it.
+     * Contexts can be nested, the paths are joined with a dot.
+     * @since v1.1.0
+     * @template T
+     * @param {string} path where in the data fn reads, like `header`.
+     * @param {(cursor: this) => T} fn the reads to run.
+     * @returns {T} the return value of fn.
+     */
+    public context<T>(path: string, fn: (cursor: this) => T): T {
+        try {
+            return fn(this);
+        } catch (error) {
+            if (error instanceof BufferCursorError) error.addContext(path, hexSnippet(this.bytes.subarray(0, this.size), error.offset));
+            throw error;
+        }
+    }
+
+    /**
+     * Reads a number of the given type from dataviewcursor and checks it, like a magic number or an enum.
+     * The cursor doesn't move when the value doesn't match.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @param {NumberTypes[T] | NumberTypes[T][]} expected the expected value or a list of allowed values.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    public expectValue<T extends NumberTag>(type: T, expected: NumberTypes[T] | NumberTypes[T][]): NumberTypes[T] {
+        const start = this.pos;
+        const value = this.readNumber(type, "expectValue");
+        const allowed: NumberTypes[T][] = Array.isArray(expected) ? expected : [expected];
+        if (allowed.indexOf(value) === -1) {
+            this.pos = start;
+            throw new UnexpectedValueError(expected, value, start, { method: "expectValue" });
+        }
+        return value;
+    }
+
+    /**
+     * Reads bytes from dataviewcursor and checks that they match, like a magic string.
+     * The cursor doesn't move when the bytes don't match.
+     * @since v1.1.0
+     * @param {Uint8Array} expected the expected bytes.
+     * @returns {this} this dataviewcursor.
+     */
+    public expectBytes(expected: Uint8Array): this {
+        this.checkMove(expected.length, "expectBytes");
+        const actual = this.bytes.subarray(this.pos, this.pos + expected.length);
+        for (let i = 0; i < expected.length; i++) {
+            if (actual[i] !== expected[i])
+                throw new UnexpectedValueError(expected, copyBytes(actual, 0, actual.length), this.pos, { method: "expectBytes" });
+        }
+        this.move(expected.length);
+        return this;
+    }
+
+    /**
+     * checksum calculates a checksum over a range of dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @param {ChecksumAlgorithm} algorithm a CRC preset like `crc32`, custom CRC parameters, `adler32`, `fletcher16` or `fletcher32`.
+     * @param {ChecksumRange} range the absolute range, default from the last mark, or the start without marks, to the cursor position.
+     * @returns {number} the checksum.
+     */
+    public checksum(algorithm: ChecksumAlgorithm, range: ChecksumRange = {}): number {
+        return checksum(this.checksumRange(range, "checksum"), algorithm);
+    }
+
+    /**
+     * verifyChecksum calculates a checksum over a range of dataviewcursor and reads it at the cursor to check it.
+     * The cursor doesn't move when the checksum doesn't match.
+     * @since v1.1.0
+     * @param {ChecksumAlgorithm} algorithm a CRC preset like `crc32`, custom CRC parameters, `adler32`, `fletcher16` or `fletcher32`.
+     * @param {ChecksumTag} tag the number tag of the stored checksum, like `u32le` or `u16be`.
+     * @param {ChecksumRange} range the absolute range, default from the last mark, or the start without marks, to the cursor position.
+     * @returns {number} the checksum.
+     */
+    public verifyChecksum(algorithm: ChecksumAlgorithm, tag: ChecksumTag, range: ChecksumRange = {}): number {
+        const expected = checksum(this.checksumRange(range, "verifyChecksum"), algorithm);
+        const start = this.pos;
+        const actual = this.readNumber(tag, "verifyChecksum");
+        if (actual !== expected) {
+            this.pos = start;
+            throw new UnexpectedValueError(expected, actual, start, { method: "verifyChecksum" });
+        }
+        return actual;
+    }
+
+    /**
+     * writeChecksum calculates a checksum over a range of dataviewcursor and writes it at the cursor.
+     * @since v1.1.0
+     * @param {ChecksumAlgorithm} algorithm a CRC preset like `crc32`, custom CRC parameters, `adler32`, `fletcher16` or `fletcher32`.
+     * @param {ChecksumTag} tag the number tag to write the checksum as, like `u32le` or `u16be`.
+     * @param {ChecksumRange} range the absolute range, default from the last mark, or the start without marks, to the cursor position.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeChecksum(algorithm: ChecksumAlgorithm, tag: ChecksumTag, range: ChecksumRange = {}): this {
+        return this.writeNumber(tag, checksum(this.checksumRange(range, "writeChecksum"), algorithm), "writeChecksum");
+    }
+
+    /**
+     * hexdump renders the bytes of dataviewcursor like `hexdump -C`, with the cursor position in brackets.
+     * @since v1.1.0
+     * @param {HexdumpOptions} options the range, layout, position and labeled regions.
+     * @returns {string} the hexdump, one row per line.
+     */
+    public hexdump(options: HexdumpOptions = {}): string {
+        return hexdump(this.bytes.subarray(0, this.size), { position: this.pos, ...options });
+    }
+
+    /**
+     * Shows the length, position and the rows around the cursor in `util.inspect` and `console.log`.
+     * @since v1.1.0
+     * @param {number} depth the remaining depth.
+     * @returns {string} the inspected dataviewcursor.
+     */
+    public [inspectCustom](depth: number): string {
+        const name = this.constructor.name;
+        if (depth < 0) return `[${name}]`;
+        const start = Math.max(0, this.pos - this.pos % 16 - 16);
+        const length = Math.min(48, this.size - start);
+        return `${name} <length ${this.length}, position ${this.pos}, endian ${this.endianness}>\n${this.hexdump({ start, length })}`;
+    }
+
+    /**
+     * Returns a new `DataViewCursor` that references the same memory as the original,
+     * but offset and cropped by the `current position` and `current position + length` or `end` indices.
+     * @since v1.1.0
+     * @param {number | undefined} length The length of the new `DataViewCursor`.
+     * @returns {DataViewCursor} a new `DataViewCursor` that references the same memory as the original.
+     */
+    public slice(length: number = this.size - this.pos): DataViewCursor {
+        this.checkArgument("length", length);
+        const options = { endian: this.endianness, strict: this.strict, alignmentBase: this.alignBase - this.pos };
+        return this.safeMove(() => new DataViewCursor(this.bytes.subarray(this.pos, this.pos + length), options), length, "slice");
+    }
+
+    /**
+     * Decodes the bytes to a string according to the specified character encoding in `encoding`.
+     * `length` may be passed to decode only a subset of the bytes.
+     * @since v1.1.0
+     * @param {StringEncoding | undefined} encoding The character encoding to use. Default "utf8".
+     * @param {number | undefined} length The number of bytes to decode.
+     * @returns {string} a string according to the specified character encoding.
+     */
+    public toString(encoding: StringEncoding = "utf8", length: number = this.size - this.pos): string {
+        this.checkArgument("length", length);
+        this.checkMove(length, "toString");
+        if (this.strict) checkEncoding(this.bytes.subarray(this.pos, this.pos + length), encoding, this.pos, "toString");
+        return this.safeMove(() => this.decode(this.pos, this.pos + length, encoding), length, "toString");
+    }
+
+    /**
+     * write writes a string to the buffer.
+     * Numbers are written by tag with writeValue.
+     * @since v1.1.0
+     * @param {string} value the string to write to the buffer.
+     * @param {number | undefined} length the number of bytes to write. Default the byte length of the string.
+     * @param {StringEncoding | undefined} encoding the encoding to be used.
+     * @returns {this} this dataviewcursor.
+     */
+    public write(value: string, length?: number, encoding: StringEncoding = "utf8"): this {
+        const bytes = this.encode(value, encoding);
+        if (length === undefined) length = bytes.length;
+        this.checkArgument("length", length);
+        const size = Math.min(length, bytes.length);
+        this.safeWrite(() => this.bytes.set(bytes.subarray(0, size), this.pos), size, "write");
+        return this;
+    }
+
+    /**
+     * writeBuff writes bytes to the buffer of given length.
+     * @since v1.1.0
+     * @param {Uint8Array} value the bytes to write to the buffer.
+     * @param {number | undefined} length the number of bytes to write.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBuff(value: Uint8Array, length: number = value.length): this {
+        this.checkArgument("length", length);
+        this.safeWrite(() => this.bytes.set(value.subarray(0, length), this.pos), length, "writeBuff");
+        return this;
+    }
+
+    /**
+     * fill fills the buffer with the specified value. If length is not given, the rest of the buffer will be filled.
+     * @since v1.1.0
+     * @param {string | number | Uint8Array} value value to fill the buffer with.
+     * @param {number | undefined} length amount of space to fill.
+     * @returns {this} this dataviewcursor.
+     */
+    public fill(value: string | number | Uint8Array, length: number = this.size - this.pos): this {
+        this.checkArgument("length", length);
+        this.safeWrite(() => {
+            if (typeof value === "number") {
+                this.bytes.fill(value & 0xff, this.pos, this.pos + length);
+                return;
+            }
+            const pattern = typeof value === "string" ? this.encode(value, "utf8") : value;
+            if (pattern.length === 0) throw new TypeError("Fill value can't be empty");
+            for (let i = 0; i < length; i++) this.bytes[this.pos + i] = pattern[i % pattern.length]!;
+        }, length, "fill");
+        return this;
+    }
+
+    /**
+     * copy copies data from a Uint8Array or DataViewCursor to the current position.
+     * @since v1.1.0
+     * @param {DataViewCursor | Uint8Array} source bytes to copy from.
+     * @param {number | undefined} sourceStart position to start from.
+     * @param {number | undefined} sourceEnd position to end.
+     * @returns {this} this dataviewcursor.
+     */
+    public copy(source: DataViewCursor | Uint8Array, sourceStart?: number, sourceEnd?: number): this {
+        if (!sourceEnd) sourceEnd = source.length;
+        if (!sourceStart) sourceStart = source instanceof DataViewCursor ? source.pos : 0;
+
+        const length = sourceEnd - sourceStart;
+        const bytes = source instanceof DataViewCursor ? source.buffer : source;
+        this.checkArgument("sourceStart", sourceStart);
+        this.checkArgument("sourceEnd", sourceEnd);
+        if (sourceStart < 0 || length < 0 || sourceEnd > bytes.length)
+            throw new OverflowError(bytes.length, sourceStart, length, "copy");
+
+        this.safeWrite(() => this.bytes.set(bytes.subarray(sourceStart, sourceEnd), this.pos), length, "copy");
+        return this;
+    }
+
+    /**
+     * Reads a number of the given type from dataviewcursor.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    public read<T extends NumberTag>(type: T): NumberTypes[T] {
+        return this.readNumber(type, "read");
+    }
+
+    /**
+     * Writes a number of the given type to dataviewcursor at the current position.
+     * It is called writeValue and not write because `write(value, length)` writes strings.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @param {NumberTypes[T]} value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeValue<T extends NumberTag>(type: T, value: NumberTypes[T]): this {
+        return this.writeNumber(type, value, "writeValue");
+    }
+
+    /**
+     * readNumber reads a number of the given type, the operation is used in errors.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type the number type.
+     * @param {string} operation the name of the operation.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    private readNumber<T extends NumberTag>(type: T, operation: string): NumberTypes[T] {
+        const { size, read } = getNumberType(type, this.endianness);
+        return this.safeMove(() => read(this.view, this.pos), size, operation) as NumberTypes[T];
+    }
+
+    /**
+     * writeNumber writes a number of the given type, the operation is used in errors.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type the number type.
+     * @param {NumberTypes[T]} value the number to write.
+     * @param {string} operation the name of the operation.
+     * @returns {this} this dataviewcursor.
+     */
+    private writeNumber<T extends NumberTag>(type: T, value: NumberTypes[T], operation: string): this {
+        const { size, write } = getNumberType(type, this.endianness);
+        this.checkValue(type, value);
+        this.safeWrite(() => write(this.view, this.pos, value), size, operation);
+        return this;
+    }
+
+    /**
+     * Reads a number of the given type from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    public peek<T extends NumberTag>(type: T): NumberTypes[T] {
+        const { size, read } = getNumberType(type, this.endianness);
+        this.checkRange(this.pos, size, "peek");
+        return read(this.view, this.pos) as NumberTypes[T];
+    }
+
+    /**
+     * Reads a number of the given type from dataviewcursor at an absolute offset, without moving the cursor.
+     * @since v1.1.0
+     * @template T
+     * @param {number} offset the absolute offset to read at.
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    public readAt<T extends NumberTag>(offset: number, type: T): NumberTypes[T] {
+        const { size, read } = getNumberType(type, this.endianness);
+        this.checkRange(offset, size, "readAt");
+        return read(this.view, offset) as NumberTypes[T];
+    }
+
+    /**
+     * Writes a number of the given type to dataviewcursor at an absolute offset, without moving the cursor.
+     * The offset must be inside the dataviewcursor, it doesn't grow.
+     * @since v1.1.0
+     * @template T
+     * @param {number} offset the absolute offset to write at.
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @param {NumberTypes[T]} value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeAt<T extends NumberTag>(offset: number, type: T, value: NumberTypes[T]): this {
+        const { size, write } = getNumberType(type, this.endianness);
+        this.checkValue(type, value);
+        this.checkRange(offset, size, "writeAt");
+        write(this.view, offset, value);
+        return this;
+    }
+
+    /**
+     * Reserves space for a number of the given type at the current position of dataviewcursor, to be filled in later.
+     * The space is zeroed and the cursor moves past it.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u16be`, `u32le` or `u64`.
+     * @returns {Placeholder<T>} the placeholder to fill in.
+     */
+    public reserve<T extends NumberTag>(type: T): Placeholder<T> {
+        const offset = this.pos;
+        const { size } = getNumberType(type, this.endianness);
+        this.safeWrite(() => this.bytes.fill(0, this.pos, this.pos + size), size, "reserve");
+        return new Placeholder(this, offset, type, size);
+    }
+
+    /**
+     * Writes a length prefix to dataviewcursor, runs fn to write the body after it and fills in the byte length of the body.
+     * These can be nested. When fn throws, the cursor moves back to before the prefix.
+     * @since v1.1.0
+     * @param {PlaceholderPrefix} prefix type of the length prefix, like `u8` or `u32be`.
+     * @param {(cursor: this) => void} fn writes the body.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeLengthPrefixed(prefix: PlaceholderPrefix, fn: (cursor: this) => void): this {
+        const length = this.reserve(prefix);
+        try {
+            fn(this);
+            const byteLength = this.pos - length.offset - length.size;
+            if (byteLength > 2 ** (length.size * 8) - 1)
+                throw new RangeError(`Body of ${byteLength} bytes doesn't fit a ${prefix} length prefix`);
+            length.fill(byteLength);
+        } catch (error) {
+            this.seek(length.offset);
+            throw error;
+        }
+        return this;
+    }
+
+    /**
+     * Reads an unsigned 8-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned 8-bit integer.
+     */
+    public peekUInt8(): number {
+        return this.peek("u8");
+    }
+
+    /**
+     * Reads a signed 8-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed 8-bit integer.
+     */
+    public peekInt8(): number {
+        return this.peek("i8");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 16-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 16-bit integer.
+     */
+    public peekUInt16LE(): number {
+        return this.peek("u16le");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 16-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 16-bit integer.
+     */
+    public peekUInt16BE(): number {
+        return this.peek("u16be");
+    }
+
+    /**
+     * Reads a signed, little-endian 16-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 16-bit integer.
+     */
+    public peekInt16LE(): number {
+        return this.peek("i16le");
+    }
+
+    /**
+     * Reads a signed, big-endian 16-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 16-bit integer.
+     */
+    public peekInt16BE(): number {
+        return this.peek("i16be");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 32-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 32-bit integer.
+     */
+    public peekUInt32LE(): number {
+        return this.peek("u32le");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 32-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 32-bit integer.
+     */
+    public peekUInt32BE(): number {
+        return this.peek("u32be");
+    }
+
+    /**
+     * Reads a signed, little-endian 32-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 32-bit integer.
+     */
+    public peekInt32LE(): number {
+        return this.peek("i32le");
+    }
+
+    /**
+     * Reads a signed, big-endian 32-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 32-bit integer.
+     */
+    public peekInt32BE(): number {
+        return this.peek("i32be");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 64-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned, little-endian 64-bit integer.
+     */
+    public peekBigUInt64LE(): bigint {
+        return this.peek("u64le");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 64-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned, big-endian 64-bit integer.
+     */
+    public peekBigUInt64BE(): bigint {
+        return this.peek("u64be");
+    }
+
+    /**
+     * Reads a signed, little-endian 64-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed, little-endian 64-bit integer.
+     */
+    public peekBigInt64LE(): bigint {
+        return this.peek("i64le");
+    }
+
+    /**
+     * Reads a signed, big-endian 64-bit integer from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed, big-endian 64-bit integer.
+     */
+    public peekBigInt64BE(): bigint {
+        return this.peek("i64be");
+    }
+
+    /**
+     * Reads a little-endian 32-bit float from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a little-endian 32-bit float.
+     */
+    public peekFloatLE(): number {
+        return this.peek("f32le");
+    }
+
+    /**
+     * Reads a big-endian 32-bit float from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a big-endian 32-bit float.
+     */
+    public peekFloatBE(): number {
+        return this.peek("f32be");
+    }
+
+    /**
+     * Reads a little-endian 64-bit double from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a little-endian 64-bit double.
+     */
+    public peekDoubleLE(): number {
+        return this.peek("f64le");
+    }
+
+    /**
+     * Reads a big-endian 64-bit double from dataviewcursor without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a big-endian 64-bit double.
+     */
+    public peekDoubleBE(): number {
+        return this.peek("f64be");
+    }
+
+    /**
+     * Reads an unsigned 16-bit integer from dataviewcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned 16-bit integer.
+     */
+    public peekUInt16(): number {
+        return this.peek("u16");
+    }
+
+    /**
+     * Reads a signed 16-bit integer from dataviewcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed 16-bit integer.
+     */
+    public peekInt16(): number {
+        return this.peek("i16");
+    }
+
+    /**
+     * Reads an unsigned 32-bit integer from dataviewcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned 32-bit integer.
+     */
+    public peekUInt32(): number {
+        return this.peek("u32");
+    }
+
+    /**
+     * Reads a signed 32-bit integer from dataviewcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a signed 32-bit integer.
+     */
+    public peekInt32(): number {
+        return this.peek("i32");
+    }
+
+    /**
+     * Reads an unsigned 64-bit integer from dataviewcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned 64-bit integer.
+     */
+    public peekBigUInt64(): bigint {
+        return this.peek("u64");
+    }
+
+    /**
+     * Reads a signed 64-bit integer from dataviewcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed 64-bit integer.
+     */
+    public peekBigInt64(): bigint {
+        return this.peek("i64");
+    }
+
+    /**
+     * Reads a 32-bit float from dataviewcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a 32-bit float.
+     */
+    public peekFloat(): number {
+        return this.peek("f32");
+    }
+
+    /**
+     * Reads a 64-bit double from dataviewcursor using the default endianness without moving the cursor.
+     * @since v1.1.0
+     * @returns {number} a 64-bit double.
+     */
+    public peekDouble(): number {
+        return this.peek("f64");
+    }
+
+    /**
+     * Reads an unsigned 8-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned 8-bit integer.
+     */
+    public readUInt8(): number {
+        return this.readNumber("u8", "readUInt8");
+    }
+
+    /**
+     * Reads a signed 8-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a signed 8-bit integer.
+     */
+    public readInt8(): number {
+        return this.readNumber("i8", "readInt8");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 16-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 16-bit integer.
+     */
+    public readUInt16LE(): number {
+        return this.readNumber("u16le", "readUInt16LE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 16-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 16-bit integer.
+     */
+    public readUInt16BE(): number {
+        return this.readNumber("u16be", "readUInt16BE");
+    }
+
+    /**
+     * Reads a signed, little-endian 16-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 16-bit integer.
+     */
+    public readInt16LE(): number {
+        return this.readNumber("i16le", "readInt16LE");
+    }
+
+    /**
+     * Reads a signed, big-endian 16-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 16-bit integer.
+     */
+    public readInt16BE(): number {
+        return this.readNumber("i16be", "readInt16BE");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 32-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 32-bit integer.
+     */
+    public readUInt32LE(): number {
+        return this.readNumber("u32le", "readUInt32LE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 32-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 32-bit integer.
+     */
+    public readUInt32BE(): number {
+        return this.readNumber("u32be", "readUInt32BE");
+    }
+
+    /**
+     * Reads a signed, little-endian 32-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 32-bit integer.
+     */
+    public readInt32LE(): number {
+        return this.readNumber("i32le", "readInt32LE");
+    }
+
+    /**
+     * Reads a signed, big-endian 32-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 32-bit integer.
+     */
+    public readInt32BE(): number {
+        return this.readNumber("i32be", "readInt32BE");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 64-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned, little-endian 64-bit integer.
+     */
+    public readBigUInt64LE(): bigint {
+        return this.readNumber("u64le", "readBigUInt64LE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 64-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned, big-endian 64-bit integer.
+     */
+    public readBigUInt64BE(): bigint {
+        return this.readNumber("u64be", "readBigUInt64BE");
+    }
+
+    /**
+     * Reads a signed, little-endian 64-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed, little-endian 64-bit integer.
+     */
+    public readBigInt64LE(): bigint {
+        return this.readNumber("i64le", "readBigInt64LE");
+    }
+
+    /**
+     * Reads a signed, big-endian 64-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed, big-endian 64-bit integer.
+     */
+    public readBigInt64BE(): bigint {
+        return this.readNumber("i64be", "readBigInt64BE");
+    }
+
+    /**
+     * Reads a little-endian 32-bit float from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a little-endian 32-bit float.
+     */
+    public readFloatLE(): number {
+        return this.readNumber("f32le", "readFloatLE");
+    }
+
+    /**
+     * Reads a big-endian 32-bit float from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a big-endian 32-bit float.
+     */
+    public readFloatBE(): number {
+        return this.readNumber("f32be", "readFloatBE");
+    }
+
+    /**
+     * Reads a little-endian 64-bit double from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a little-endian 64-bit double.
+     */
+    public readDoubleLE(): number {
+        return this.readNumber("f64le", "readDoubleLE");
+    }
+
+    /**
+     * Reads a big-endian 64-bit double from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a big-endian 64-bit double.
+     */
+    public readDoubleBE(): number {
+        return this.readNumber("f64be", "readDoubleBE");
+    }
+
+    /**
+     * Reads an unsigned 16-bit integer from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} an unsigned 16-bit integer.
+     */
+    public readUInt16(): number {
+        return this.readNumber("u16", "readUInt16");
+    }
+
+    /**
+     * Reads a signed 16-bit integer from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a signed 16-bit integer.
+     */
+    public readInt16(): number {
+        return this.readNumber("i16", "readInt16");
+    }
+
+    /**
+     * Reads an unsigned 32-bit integer from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} an unsigned 32-bit integer.
+     */
+    public readUInt32(): number {
+        return this.readNumber("u32", "readUInt32");
+    }
+
+    /**
+     * Reads a signed 32-bit integer from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a signed 32-bit integer.
+     */
+    public readInt32(): number {
+        return this.readNumber("i32", "readInt32");
+    }
+
+    /**
+     * Reads an unsigned 64-bit integer from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned 64-bit integer.
+     */
+    public readBigUInt64(): bigint {
+        return this.readNumber("u64", "readBigUInt64");
+    }
+
+    /**
+     * Reads a signed 64-bit integer from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {bigint} a signed 64-bit integer.
+     */
+    public readBigInt64(): bigint {
+        return this.readNumber("i64", "readBigInt64");
+    }
+
+    /**
+     * Reads a 32-bit float from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a 32-bit float.
+     */
+    public readFloat(): number {
+        return this.readNumber("f32", "readFloat");
+    }
+
+    /**
+     * Reads a 64-bit double from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a 64-bit double.
+     */
+    public readDouble(): number {
+        return this.readNumber("f64", "readDouble");
+    }
+
+    /**
+     * Reads an unsigned, little-endian integer of up to 6 bytes from dataviewcursor.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read, 1 to 6.
+     * @returns {number} an unsigned, little-endian integer.
+     */
+    public readUIntLE(byteLength: number): number {
+        return this.readInteger(byteLength, "le", false, "readUIntLE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian integer of up to 6 bytes from dataviewcursor.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read, 1 to 6.
+     * @returns {number} an unsigned, big-endian integer.
+     */
+    public readUIntBE(byteLength: number): number {
+        return this.readInteger(byteLength, "be", false, "readUIntBE");
+    }
+
+    /**
+     * Reads a signed, little-endian integer of up to 6 bytes from dataviewcursor.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read, 1 to 6.
+     * @returns {number} a signed, little-endian integer.
+     */
+    public readIntLE(byteLength: number): number {
+        return this.readInteger(byteLength, "le", true, "readIntLE");
+    }
+
+    /**
+     * Reads a signed, big-endian integer of up to 6 bytes from dataviewcursor.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read, 1 to 6.
+     * @returns {number} a signed, big-endian integer.
+     */
+    public readIntBE(byteLength: number): number {
+        return this.readInteger(byteLength, "be", true, "readIntBE");
+    }
+
+    /**
+     * Reads an unsigned, little-endian integer of any number of bytes from dataviewcursor, like 128-bit.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read.
+     * @returns {bigint} an unsigned, little-endian integer.
+     */
+    public readBigUIntLE(byteLength: number): bigint {
+        return this.readBigInteger(byteLength, "le", false, "readBigUIntLE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian integer of any number of bytes from dataviewcursor, like 128-bit.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read.
+     * @returns {bigint} an unsigned, big-endian integer.
+     */
+    public readBigUIntBE(byteLength: number): bigint {
+        return this.readBigInteger(byteLength, "be", false, "readBigUIntBE");
+    }
+
+    /**
+     * Reads a signed, little-endian integer of any number of bytes from dataviewcursor, like 128-bit.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read.
+     * @returns {bigint} a signed, little-endian integer.
+     */
+    public readBigIntLE(byteLength: number): bigint {
+        return this.readBigInteger(byteLength, "le", true, "readBigIntLE");
+    }
+
+    /**
+     * Reads a signed, big-endian integer of any number of bytes from dataviewcursor, like 128-bit.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to read.
+     * @returns {bigint} a signed, big-endian integer.
+     */
+    public readBigIntBE(byteLength: number): bigint {
+        return this.readBigInteger(byteLength, "be", true, "readBigIntBE");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 24-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 24-bit integer.
+     */
+    public readUInt24LE(): number {
+        return this.readNumber("u24le", "readUInt24LE");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 24-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 24-bit integer.
+     */
+    public readUInt24BE(): number {
+        return this.readNumber("u24be", "readUInt24BE");
+    }
+
+    /**
+     * Reads an unsigned 24-bit integer from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} an unsigned 24-bit integer.
+     */
+    public readUInt24(): number {
+        return this.readNumber("u24", "readUInt24");
+    }
+
+    /**
+     * Reads a signed, little-endian 24-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 24-bit integer.
+     */
+    public readInt24LE(): number {
+        return this.readNumber("i24le", "readInt24LE");
+    }
+
+    /**
+     * Reads a signed, big-endian 24-bit integer from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 24-bit integer.
+     */
+    public readInt24BE(): number {
+        return this.readNumber("i24be", "readInt24BE");
+    }
+
+    /**
+     * Reads a signed 24-bit integer from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a signed 24-bit integer.
+     */
+    public readInt24(): number {
+        return this.readNumber("i24", "readInt24");
+    }
+
+    /**
+     * Reads a little-endian half-precision float from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a little-endian half-precision float.
+     */
+    public readFloat16LE(): number {
+        return decodeFloat16(this.readInteger(2, "le", false, "readFloat16LE"));
+    }
+
+    /**
+     * Reads a big-endian half-precision float from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a big-endian half-precision float.
+     */
+    public readFloat16BE(): number {
+        return decodeFloat16(this.readInteger(2, "be", false, "readFloat16BE"));
+    }
+
+    /**
+     * Reads a half-precision float from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a half-precision float.
+     */
+    public readFloat16(): number {
+        return decodeFloat16(this.readInteger(2, this.endianness, false, "readFloat16"));
+    }
+
+    /**
+     * Reads a little-endian bfloat16 from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a little-endian bfloat16.
+     */
+    public readBFloat16LE(): number {
+        return decodeBFloat16(this.readInteger(2, "le", false, "readBFloat16LE"));
+    }
+
+    /**
+     * Reads a big-endian bfloat16 from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a big-endian bfloat16.
+     */
+    public readBFloat16BE(): number {
+        return decodeBFloat16(this.readInteger(2, "be", false, "readBFloat16BE"));
+    }
+
+    /**
+     * Reads a bfloat16 from dataviewcursor using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a bfloat16.
+     */
+    public readBFloat16(): number {
+        return decodeBFloat16(this.readInteger(2, this.endianness, false, "readBFloat16"));
+    }
+
+    /**
+     * Reads a fixed-point number from dataviewcursor, like Q15 (1.15), 8.8 or 16.16.
+     * The integer bits include the sign bit of signed formats.
+     * @since v1.1.0
+     * @param {number} intBits the number of integer bits.
+     * @param {number} fracBits the number of fraction bits.
+     * @param {boolean} signed whether the format is signed. Default true.
+     * @param {Endian} endian the endianness. Default the endianness of the cursor.
+     * @returns {number} the fixed-point number.
+     */
+    public readFixed(intBits: number, fracBits: number, signed: boolean = true, endian: Endian = this.endianness): number {
+        const byteLength = fixedByteLength(intBits, fracBits);
+        return this.readInteger(byteLength, endian, signed, "readFixed") / 2 ** fracBits;
+    }
+
+    /**
+     * readInteger reads an integer of up to 6 bytes as number, the operation is used in errors.
+     * @since v1.1.0
+     * @param {number} byteLength the number of bytes of the integer.
+     * @param {Endian} endian the endianness of the integer.
+     * @param {boolean} signed whether the integer is signed.
+     * @param {string} operation the name of the operation.
+     * @returns {number} the integer read.
+     */
+    private readInteger(byteLength: number, endian: Endian, signed: boolean, operation: string): number {
+        checkByteLength(byteLength, 6);
+        return this.safeMove(() => decodeInt(this.bytes, this.pos, byteLength, endian, signed), byteLength, operation);
+    }
+
+    /**
+     * readBigInteger reads an integer of any byte length as bigint, the operation is used in errors.
+     * @since v1.1.0
+     * @param {number} byteLength the number of bytes of the integer.
+     * @param {Endian} endian the endianness of the integer.
+     * @param {boolean} signed whether the integer is signed.
+     * @param {string} operation the name of the operation.
+     * @returns {bigint} the integer read.
+     */
+    private readBigInteger(byteLength: number, endian: Endian, signed: boolean, operation: string): bigint {
+        checkByteLength(byteLength);
+        return this.safeMove(() => decodeBigInt(this.bytes, this.pos, byteLength, endian, signed), byteLength, operation);
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt8(value: number): this {
+        return this.writeNumber("u8", value, "writeUInt8");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt8(value: number): this {
+        return this.writeNumber("i8", value, "writeInt8");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt16LE(value: number): this {
+        return this.writeNumber("u16le", value, "writeUInt16LE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt16BE(value: number): this {
+        return this.writeNumber("u16be", value, "writeUInt16BE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt16LE(value: number): this {
+        return this.writeNumber("i16le", value, "writeInt16LE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt16BE(value: number): this {
+        return this.writeNumber("i16be", value, "writeInt16BE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt32LE(value: number): this {
+        return this.writeNumber("u32le", value, "writeUInt32LE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt32BE(value: number): this {
+        return this.writeNumber("u32be", value, "writeUInt32BE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt32LE(value: number): this {
+        return this.writeNumber("i32le", value, "writeInt32LE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt32BE(value: number): this {
+        return this.writeNumber("i32be", value, "writeInt32BE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigUInt64LE(value: bigint): this {
+        return this.writeNumber("u64le", value, "writeBigUInt64LE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigUInt64BE(value: bigint): this {
+        return this.writeNumber("u64be", value, "writeBigUInt64BE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigInt64LE(value: bigint): this {
+        return this.writeNumber("i64le", value, "writeBigInt64LE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigInt64BE(value: bigint): this {
+        return this.writeNumber("i64be", value, "writeBigInt64BE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeFloatLE(value: number): this {
+        return this.writeNumber("f32le", value, "writeFloatLE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeFloatBE(value: number): this {
+        return this.writeNumber("f32be", value, "writeFloatBE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeDoubleLE(value: number): this {
+        return this.writeNumber("f64le", value, "writeDoubleLE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeDoubleBE(value: number): this {
+        return this.writeNumber("f64be", value, "writeDoubleBE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt16(value: number): this {
+        return this.writeNumber("u16", value, "writeUInt16");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt16(value: number): this {
+        return this.writeNumber("i16", value, "writeInt16");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt32(value: number): this {
+        return this.writeNumber("u32", value, "writeUInt32");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt32(value: number): this {
+        return this.writeNumber("i32", value, "writeInt32");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigUInt64(value: bigint): this {
+        return this.writeNumber("u64", value, "writeBigUInt64");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigInt64(value: bigint): this {
+        return this.writeNumber("i64", value, "writeBigInt64");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeFloat(value: number): this {
+        return this.writeNumber("f32", value, "writeFloat");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeDouble(value: number): this {
+        return this.writeNumber("f64", value, "writeDouble");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as an unsigned, little-endian integer of up to 6 bytes.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to write, 1 to 6.
+     * @param {number} value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUIntLE(byteLength: number, value: number): this {
+        return this.writeInteger(byteLength, value, "le", false, "writeUIntLE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as an unsigned, big-endian integer of up to 6 bytes.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to write, 1 to 6.
+     * @param {number} value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUIntBE(byteLength: number, value: number): this {
+        return this.writeInteger(byteLength, value, "be", false, "writeUIntBE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as a signed, little-endian integer of up to 6 bytes.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to write, 1 to 6.
+     * @param {number} value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeIntLE(byteLength: number, value: number): this {
+        return this.writeInteger(byteLength, value, "le", true, "writeIntLE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as a signed, big-endian integer of up to 6 bytes.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to write, 1 to 6.
+     * @param {number} value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeIntBE(byteLength: number, value: number): this {
+        return this.writeInteger(byteLength, value, "be", true, "writeIntBE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as an unsigned, little-endian integer of any number of bytes.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to write.
+     * @param {bigint} value Bigint to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigUIntLE(byteLength: number, value: bigint): this {
+        return this.writeBigInteger(byteLength, value, "le", false, "writeBigUIntLE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as an unsigned, big-endian integer of any number of bytes.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to write.
+     * @param {bigint} value Bigint to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigUIntBE(byteLength: number, value: bigint): this {
+        return this.writeBigInteger(byteLength, value, "be", false, "writeBigUIntBE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as a signed, little-endian integer of any number of bytes.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to write.
+     * @param {bigint} value Bigint to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigIntLE(byteLength: number, value: bigint): this {
+        return this.writeBigInteger(byteLength, value, "le", true, "writeBigIntLE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as a signed, big-endian integer of any number of bytes.
+     * @since v1.1.0
+     * @param {number} byteLength number of bytes to write.
+     * @param {bigint} value Bigint to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigIntBE(byteLength: number, value: bigint): this {
+        return this.writeBigInteger(byteLength, value, "be", true, "writeBigIntBE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt24LE(value: number): this {
+        return this.writeNumber("u24le", value, "writeUInt24LE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt24BE(value: number): this {
+        return this.writeNumber("u24be", value, "writeUInt24BE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt24(value: number): this {
+        return this.writeNumber("u24", value, "writeUInt24");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt24LE(value: number): this {
+        return this.writeNumber("i24le", value, "writeInt24LE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt24BE(value: number): this {
+        return this.writeNumber("i24be", value, "writeInt24BE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt24(value: number): this {
+        return this.writeNumber("i24", value, "writeInt24");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as a little-endian half-precision float, rounding to nearest even.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeFloat16LE(value: number): this {
+        if (this.strict) checkNumber("f16", value);
+        return this.writeInteger(2, encodeFloat16(value), "le", false, "writeFloat16LE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as a big-endian half-precision float, rounding to nearest even.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeFloat16BE(value: number): this {
+        if (this.strict) checkNumber("f16", value);
+        return this.writeInteger(2, encodeFloat16(value), "be", false, "writeFloat16BE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as a half-precision float using the default endianness, rounding to nearest even.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeFloat16(value: number): this {
+        if (this.strict) checkNumber("f16", value);
+        return this.writeInteger(2, encodeFloat16(value), this.endianness, false, "writeFloat16");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as a little-endian bfloat16, rounding to nearest even.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBFloat16LE(value: number): this {
+        if (this.strict) checkNumber("bf16", value);
+        return this.writeInteger(2, encodeBFloat16(value), "le", false, "writeBFloat16LE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as a big-endian bfloat16, rounding to nearest even.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBFloat16BE(value: number): this {
+        if (this.strict) checkNumber("bf16", value);
+        return this.writeInteger(2, encodeBFloat16(value), "be", false, "writeBFloat16BE");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as a bfloat16 using the default endianness, rounding to nearest even.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBFloat16(value: number): this {
+        if (this.strict) checkNumber("bf16", value);
+        return this.writeInteger(2, encodeBFloat16(value), this.endianness, false, "writeBFloat16");
+    }
+
+    /**
+     * Writes value to dataviewcursor at the current position as a fixed-point number, rounding to nearest even.
+     * The integer bits include the sign bit of signed formats, values out of range throw a RangeError.
+     * @since v1.1.0
+     * @param {number} value Number to be written to dataviewcursor.
+     * @param {number} intBits the number of integer bits.
+     * @param {number} fracBits the number of fraction bits.
+     * @param {boolean} signed whether the format is signed. Default true.
+     * @param {Endian} endian the endianness. Default the endianness of the cursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeFixed(value: number, intBits: number, fracBits: number, signed: boolean = true, endian: Endian = this.endianness): this {
+        const byteLength = fixedByteLength(intBits, fracBits);
+        return this.writeInteger(byteLength, encodeFixed(value, intBits, fracBits, signed), endian, signed, "writeFixed");
+    }
+
+    /**
+     * writeInteger writes a number as an integer of up to 6 bytes, the operation is used in errors.
+     * @since v1.1.0
+     * @param {number} byteLength the number of bytes of the integer.
+     * @param {number} value the integer to write.
+     * @param {Endian} endian the endianness of the integer.
+     * @param {boolean} signed whether the integer is signed.
+     * @param {string} operation the name of the operation.
+     * @returns {this} this dataviewcursor.
+     */
+    private writeInteger(byteLength: number, value: number, endian: Endian, signed: boolean, operation: string): this {
+        checkByteLength(byteLength, 6);
+        checkIntValue(value, byteLength, signed);
+        this.safeWrite(() => encodeInt(this.bytes, this.pos, byteLength, value, endian), byteLength, operation);
+        return this;
+    }
+
+    /**
+     * writeBigInteger writes a bigint as an integer of any byte length, the operation is used in errors.
+     * @since v1.1.0
+     * @param {number} byteLength the number of bytes of the integer.
+     * @param {bigint} value the integer to write.
+     * @param {Endian} endian the endianness of the integer.
+     * @param {boolean} signed whether the integer is signed.
+     * @param {string} operation the name of the operation.
+     * @returns {this} this dataviewcursor.
+     */
+    private writeBigInteger(byteLength: number, value: bigint, endian: Endian, signed: boolean, operation: string): this {
+        checkByteLength(byteLength);
+        checkBigIntValue(value, byteLength, signed);
+        this.safeWrite(() => encodeBigInt(this.bytes, this.pos, byteLength, value, endian), byteLength, operation);
+        return this;
+    }
+
+    /**
+     * Reads a NUL terminated string from dataviewcursor, the terminator is consumed but not returned.
+     * @since v1.1.0
+     * @param {StringEncoding} encoding The character encoding to use. Default "utf8".
+     * @returns {string} the string before the terminator.
+     */
+    public readCString(encoding: StringEncoding = "utf8"): string {
+        const terminator = terminatorSize(encoding);
+        const end = this.findTerminator(terminator);
+        if (end === -1) throw new OverflowError(this.size, this.pos, this.size - this.pos + terminator, "readCString");
+
+        if (this.strict) checkEncoding(this.bytes.subarray(this.pos, end), encoding, this.pos, "readCString");
+        const ret = this.decode(this.pos, end, encoding);
+        this.seek(end + terminator);
+        return ret;
+    }
+
+    /**
+     * Writes a NUL terminated string to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {string} value the string to write, it may not contain a NUL character.
+     * @param {StringEncoding} encoding The character encoding to use. Default "utf8".
+     * @returns {this} this dataviewcursor.
+     */
+    public writeCString(value: string, encoding: StringEncoding = "utf8"): this {
+        if (value.includes("\0")) throw new TypeError("A C string can't contain a NUL character");
+        const bytes = this.encode(value, encoding);
+        const terminator = terminatorSize(encoding);
+        this.safeWrite(() => {
+            this.bytes.set(bytes, this.pos);
+            this.bytes.fill(0, this.pos + bytes.length, this.pos + bytes.length + terminator);
+        }, bytes.length + terminator, "writeCString");
+        return this;
+    }
+
+    /**
+     * Reads a string prefixed with its byte length from dataviewcursor.
+     * Nothing is consumed when the string doesn't fit in the buffer.
+     * @since v1.1.0
+     * @param {LengthPrefix} prefix type of the length prefix. Default "u8".
+     * @param {StringEncoding} encoding The character encoding to use. Default "utf8".
+     * @returns {string} the string.
+     */
+    public readLengthPrefixedString(prefix: LengthPrefix = "u8", encoding: StringEncoding = "utf8"): string {
+        const start = this.pos;
+        const length = prefix === "varuint" ? this.readVarUInt() : this.read(prefix);
+        if (this.size - this.pos < length) {
+            const size = this.pos - start + length;
+            this.pos = start;
+            throw new OverflowError(this.size, start, size, "readLengthPrefixedString");
+        }
+        return this.toString(encoding, length);
+    }
+
+    /**
+     * Writes a string prefixed with its byte length to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {string} value the string to write.
+     * @param {LengthPrefix} prefix type of the length prefix. Default "u8".
+     * @param {StringEncoding} encoding The character encoding to use. Default "utf8".
+     * @returns {this} this dataviewcursor.
+     */
+    public writeLengthPrefixedString(value: string, prefix: LengthPrefix = "u8", encoding: StringEncoding = "utf8"): this {
+        const bytes = this.encode(value, encoding);
+        const byteLength = bytes.length;
+        const prefixSize = prefix === "varuint"
+            ? Math.max(1, Math.ceil(Math.log2(byteLength + 1) / 7))
+            : getNumberType(prefix, this.endianness).size;
+        const max = prefix === "varuint" ? Number.MAX_SAFE_INTEGER : 2 ** (prefixSize * 8) - 1;
+        if (byteLength > max)
+            throw new RangeError(`String of ${byteLength} bytes doesn't fit a ${prefix} length prefix`);
+
+        return this.safeReserve(() => {
+            if (prefix === "varuint") this.writeVarUInt(byteLength);
+            else this.writeValue(prefix, byteLength);
+            return this.writeBuff(bytes);
+        }, prefixSize + byteLength, "writeLengthPrefixedString");
+    }
+
+    /**
+     * Reads a fixed width string from dataviewcursor, trailing padding is trimmed by default.
+     * @since v1.1.0
+     * @param {number} length the width of the field in bytes.
+     * @param {FixedStringOptions} options encoding, padding and trimming of the field.
+     * @returns {string} the string.
+     */
+    public readFixedString(length: number, options: FixedStringOptions = {}): string {
+        const { encoding = "utf8", padding = "\0", trim = true } = options;
+        this.checkMove(length, "readFixedString");
+        const ret = this.toString(encoding, length);
+        if (!trim) return ret;
+        let end = ret.length;
+        while (end > 0 && ret[end - 1] === padding) end--;
+        return ret.slice(0, end);
+    }
+
+    /**
+     * Writes a fixed width string to dataviewcursor at the current position, padded to the width of the field.
+     * @since v1.1.0
+     * @param {string} value the string to write.
+     * @param {number} length the width of the field in bytes.
+     * @param {FixedStringOptions} options encoding and padding of the field.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeFixedString(value: string, length: number, options: FixedStringOptions = {}): this {
+        const { encoding = "utf8", padding = "\0" } = options;
+        const bytes = this.encode(value, encoding);
+        if (bytes.length > length)
+            throw new RangeError(`String of ${bytes.length} bytes doesn't fit a field of ${length} bytes`);
+
+        const pad = this.encode(padding, encoding);
+        this.safeWrite(() => {
+            this.bytes.set(bytes, this.pos);
+            for (let i = bytes.length; i < length; i++) this.bytes[this.pos + i] = pad[(i - bytes.length) % pad.length]!;
+        }, length, "writeFixedString");
+        return this;
+    }
+
+    /**
+     * findTerminator finds the position of the NUL terminator of a string at the cursor position.
+     * @since v1.1.0
+     * @param {number} terminator the size of the terminator in bytes.
+     * @returns {number} the position of the terminator, -1 if not found.
+     */
+    private findTerminator(terminator: number): number {
+        if (terminator === 1) {
+            const end = this.bytes.indexOf(0, this.pos);
+            return end < this.size ? end : -1;
+        }
+        for (let i = this.pos; i + 1 < this.size; i += 2)
+            if (this.bytes[i] === 0 && this.bytes[i + 1] === 0) return i;
+        return -1;
+    }
+
+    /**
+     * Reads an unsigned LEB128 integer from dataviewcursor.
+     * @since v1.1.0
+     * @param {number} maxBytes maximum number of bytes the integer may use. Default 8.
+     * @returns {number} an unsigned integer.
+     */
+    public readULEB128(maxBytes: number = 8): number {
+        const length = varIntLength(this.bytes, this.pos, this.size, maxBytes, false, "readULEB128");
+        const value = decodeULEB128(this.bytes, this.pos, length);
+        this.move(length);
+        return value;
+    }
+
+    /**
+     * Reads a signed LEB128 integer from dataviewcursor.
+     * @since v1.1.0
+     * @param {number} maxBytes maximum number of bytes the integer may use. Default 8.
+     * @returns {number} a signed integer.
+     */
+    public readSLEB128(maxBytes: number = 8): number {
+        const length = varIntLength(this.bytes, this.pos, this.size, maxBytes, true, "readSLEB128");
+        const value = toSafeNumber(decodeLEB128(this.bytes, this.pos, length, true), this.pos);
+        this.move(length);
+        return value;
+    }
+
+    /**
+     * Reads an unsigned LEB128 integer from dataviewcursor.
+     * The integer may use up to 7 bits per byte, use readBigVarUInt to limit it to 64 bits.
+     * @since v1.1.0
+     * @param {number} maxBytes maximum number of bytes the integer may use. Default 10.
+     * @returns {bigint} an unsigned integer.
+     */
+    public readBigULEB128(maxBytes: number = 10): bigint {
+        const length = varIntLength(this.bytes, this.pos, this.size, maxBytes, false, "readBigULEB128");
+        const value = decodeLEB128(this.bytes, this.pos, length, false);
+        this.move(length);
+        return value;
+    }
+
+    /**
+     * Reads a signed LEB128 integer from dataviewcursor.
+     * @since v1.1.0
+     * @param {number} maxBytes maximum number of bytes the integer may use. Default 10.
+     * @returns {bigint} a signed integer.
+     */
+    public readBigSLEB128(maxBytes: number = 10): bigint {
+        const length = varIntLength(this.bytes, this.pos, this.size, maxBytes, true, "readBigSLEB128");
+        const value = decodeLEB128(this.bytes, this.pos, length, true);
+        this.move(length);
+        return value;
+    }
+
+    /**
+     * Reads count signed 8-bit integers from dataviewcursor as a Int8Array.
+     * The result shares memory with dataviewcursor when the position is aligned, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @returns {Int8Array} the elements.
+     */
+    public readInt8Array(count: number): Int8Array {
+        return this.readArray("i8", count, "le", "readInt8Array");
+    }
+
+    /**
+     * Reads count unsigned 8-bit integers from dataviewcursor as a Uint8Array.
+     * The result shares memory with dataviewcursor when the position is aligned, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @returns {Uint8Array} the elements.
+     */
+    public readUInt8Array(count: number): Uint8Array {
+        return this.readArray("u8", count, "le", "readUInt8Array");
+    }
+
+    /**
+     * Reads count signed 16-bit integers from dataviewcursor as a Int16Array.
+     * The result shares memory with dataviewcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Int16Array} the elements.
+     */
+    public readInt16Array(count: number, endian: Endian = this.endianness): Int16Array {
+        return this.readArray("i16", count, endian, "readInt16Array");
+    }
+
+    /**
+     * Reads count unsigned 16-bit integers from dataviewcursor as a Uint16Array.
+     * The result shares memory with dataviewcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Uint16Array} the elements.
+     */
+    public readUInt16Array(count: number, endian: Endian = this.endianness): Uint16Array {
+        return this.readArray("u16", count, endian, "readUInt16Array");
+    }
+
+    /**
+     * Reads count signed 32-bit integers from dataviewcursor as a Int32Array.
+     * The result shares memory with dataviewcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Int32Array} the elements.
+     */
+    public readInt32Array(count: number, endian: Endian = this.endianness): Int32Array {
+        return this.readArray("i32", count, endian, "readInt32Array");
+    }
+
+    /**
+     * Reads count unsigned 32-bit integers from dataviewcursor as a Uint32Array.
+     * The result shares memory with dataviewcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Uint32Array} the elements.
+     */
+    public readUInt32Array(count: number, endian: Endian = this.endianness): Uint32Array {
+        return this.readArray("u32", count, endian, "readUInt32Array");
+    }
+
+    /**
+     * Reads count signed 64-bit integers from dataviewcursor as a BigInt64Array.
+     * The result shares memory with dataviewcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {BigInt64Array} the elements.
+     */
+    public readBigInt64Array(count: number, endian: Endian = this.endianness): BigInt64Array {
+        return this.readArray("i64", count, endian, "readBigInt64Array");
+    }
+
+    /**
+     * Reads count unsigned 64-bit integers from dataviewcursor as a BigUint64Array.
+     * The result shares memory with dataviewcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {BigUint64Array} the elements.
+     */
+    public readBigUInt64Array(count: number, endian: Endian = this.endianness): BigUint64Array {
+        return this.readArray("u64", count, endian, "readBigUInt64Array");
+    }
+
+    /**
+     * Reads count 32-bit floats from dataviewcursor as a Float32Array.
+     * The result shares memory with dataviewcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Float32Array} the elements.
+     */
+    public readFloat32Array(count: number, endian: Endian = this.endianness): Float32Array {
+        return this.readArray("f32", count, endian, "readFloat32Array");
+    }
+
+    /**
+     * Reads count 64-bit floats from dataviewcursor as a Float64Array.
+     * The result shares memory with dataviewcursor when the position is aligned and the endianness is the host endianness, otherwise it is a copy.
+     * @since v1.1.0
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {Float64Array} the elements.
+     */
+    public readFloat64Array(count: number, endian: Endian = this.endianness): Float64Array {
+        return this.readArray("f64", count, endian, "readFloat64Array");
+    }
+
+    /**
+     * Writes signed 8-bit integers to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {TypedArrayValues<"i8">} values a Int8Array or a list of values.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt8Array(values: TypedArrayValues<"i8">): this {
+        return this.writeArray("i8", values, "le", "writeInt8Array");
+    }
+
+    /**
+     * Writes unsigned 8-bit integers to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {TypedArrayValues<"u8">} values a Uint8Array or a list of values.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt8Array(values: TypedArrayValues<"u8">): this {
+        return this.writeArray("u8", values, "le", "writeUInt8Array");
+    }
+
+    /**
+     * Writes signed 16-bit integers to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {TypedArrayValues<"i16">} values a Int16Array or a list of values.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt16Array(values: TypedArrayValues<"i16">, endian: Endian = this.endianness): this {
+        return this.writeArray("i16", values, endian, "writeInt16Array");
+    }
+
+    /**
+     * Writes unsigned 16-bit integers to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {TypedArrayValues<"u16">} values a Uint16Array or a list of values.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt16Array(values: TypedArrayValues<"u16">, endian: Endian = this.endianness): this {
+        return this.writeArray("u16", values, endian, "writeUInt16Array");
+    }
+
+    /**
+     * Writes signed 32-bit integers to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {TypedArrayValues<"i32">} values a Int32Array or a list of values.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeInt32Array(values: TypedArrayValues<"i32">, endian: Endian = this.endianness): this {
+        return this.writeArray("i32", values, endian, "writeInt32Array");
+    }
+
+    /**
+     * Writes unsigned 32-bit integers to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {TypedArrayValues<"u32">} values a Uint32Array or a list of values.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeUInt32Array(values: TypedArrayValues<"u32">, endian: Endian = this.endianness): this {
+        return this.writeArray("u32", values, endian, "writeUInt32Array");
+    }
+
+    /**
+     * Writes signed 64-bit integers to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {TypedArrayValues<"i64">} values a BigInt64Array or a list of values.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigInt64Array(values: TypedArrayValues<"i64">, endian: Endian = this.endianness): this {
+        return this.writeArray("i64", values, endian, "writeBigInt64Array");
+    }
+
+    /**
+     * Writes unsigned 64-bit integers to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {TypedArrayValues<"u64">} values a BigUint64Array or a list of values.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigUInt64Array(values: TypedArrayValues<"u64">, endian: Endian = this.endianness): this {
+        return this.writeArray("u64", values, endian, "writeBigUInt64Array");
+    }
+
+    /**
+     * Writes 32-bit floats to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {TypedArrayValues<"f32">} values a Float32Array or a list of values.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeFloat32Array(values: TypedArrayValues<"f32">, endian: Endian = this.endianness): this {
+        return this.writeArray("f32", values, endian, "writeFloat32Array");
+    }
+
+    /**
+     * Writes 64-bit floats to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param {TypedArrayValues<"f64">} values a Float64Array or a list of values.
+     * @param {Endian} endian the endianness of the elements. Default the default endianness.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeFloat64Array(values: TypedArrayValues<"f64">, endian: Endian = this.endianness): this {
+        return this.writeArray("f64", values, endian, "writeFloat64Array");
+    }
+
+    /**
+     * Reads a protobuf style unsigned varint (unsigned LEB128) from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} an unsigned integer.
+     */
+    public readVarUInt(): number {
+        return this.readULEB128(8);
+    }
+
+    /**
+     * Reads a protobuf style signed varint (zigzag encoded unsigned LEB128) from dataviewcursor.
+     * @since v1.1.0
+     * @returns {number} a signed integer.
+     */
+    public readVarInt(): number {
+        const length = varIntLength(this.bytes, this.pos, this.size, 8, false, "readVarInt");
+        const value = toSafeNumber(bigZigzagDecode(decodeLEB128(this.bytes, this.pos, length, false)), this.pos);
+        this.move(length);
+        return value;
+    }
+
+    /**
+     * Reads a protobuf style unsigned 64-bit varint (unsigned LEB128) from dataviewcursor.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned integer.
+     */
+    public readBigVarUInt(): bigint {
+        const length = varUInt64Length(this.bytes, this.pos, this.size, "readBigVarUInt");
+        const value = decodeLEB128(this.bytes, this.pos, length, false);
+        this.move(length);
+        return value;
+    }
+
+    /**
+     * Reads a protobuf style signed 64-bit varint (zigzag encoded unsigned LEB128) from dataviewcursor.
+     * @since v1.1.0
+     * @returns {bigint} a signed integer.
+     */
+    public readBigVarInt(): bigint {
+        const length = varUInt64Length(this.bytes, this.pos, this.size, "readBigVarInt");
+        const value = bigZigzagDecode(decodeLEB128(this.bytes, this.pos, length, false));
+        this.move(length);
+        return value;
+    }
+
+    /**
+     * Reads a QUIC variable-length integer (RFC 9000) from dataviewcursor.
+     * @since v1.1.0
+     * @param {boolean} minimal whether to reject encodings longer than needed. Default false.
+     * @returns {number} an unsigned integer.
+     */
+    public readQuicVarInt(minimal: boolean = false): number {
+        const length = quicVarIntLength(this.bytes, this.pos, this.size, "readQuicVarInt");
+        const value = toSafeNumber(decodeQuicVarInt(this.bytes, this.pos, length, minimal, "readQuicVarInt"), this.pos);
+        this.move(length);
+        return value;
+    }
+
+    /**
+     * Reads a QUIC variable-length integer (RFC 9000) from dataviewcursor.
+     * @since v1.1.0
+     * @param {boolean} minimal whether to reject encodings longer than needed. Default false.
+     * @returns {bigint} an unsigned integer.
+     */
+    public readBigQuicVarInt(minimal: boolean = false): bigint {
+        const length = quicVarIntLength(this.bytes, this.pos, this.size, "readBigQuicVarInt");
+        const value = decodeQuicVarInt(this.bytes, this.pos, length, minimal, "readBigQuicVarInt");
+        this.move(length);
+        return value;
+    }
+
+    /**
+     * Writes value as unsigned LEB128 to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeULEB128(value: number): this {
+        return this.writeVarIntBytes(encodeULEB128(value), "writeULEB128");
+    }
+
+    /**
+     * Writes value as signed LEB128 to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeSLEB128(value: number): this {
+        if (!Number.isSafeInteger(value))
+            throw new RangeError(`The value must be a safe integer. Received ${value}`);
+        return this.writeVarIntBytes(encodeBigSLEB128(BigInt(value)), "writeSLEB128");
+    }
+
+    /**
+     * Writes value as unsigned LEB128 to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigULEB128(value: bigint): this {
+        return this.writeVarIntBytes(encodeBigULEB128(value), "writeBigULEB128");
+    }
+
+    /**
+     * Writes value as signed LEB128 to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigSLEB128(value: bigint): this {
+        return this.writeVarIntBytes(encodeBigSLEB128(value), "writeBigSLEB128");
+    }
+
+    /**
+     * Writes value as protobuf style unsigned varint to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeVarUInt(value: number): this {
+        return this.writeULEB128(value);
+    }
+
+    /**
+     * Writes value as protobuf style zigzag encoded varint to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeVarInt(value: number): this {
+        return this.writeVarIntBytes(encodeBigULEB128(zigzagEncode(value)), "writeVarInt");
+    }
+
+    /**
+     * Writes value as protobuf style unsigned 64-bit varint to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigVarUInt(value: bigint): this {
+        if (value >= BigInt(1) << BigInt(64))
+            throw new RangeError(`The value must fit in 64 bits. Received ${value}`);
+        return this.writeBigULEB128(value);
+    }
+
+    /**
+     * Writes value as protobuf style zigzag encoded 64-bit varint to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigVarInt(value: bigint): this {
+        return this.writeBigULEB128(bigZigzagEncode(value));
+    }
+
+    /**
+     * Writes value as QUIC variable-length integer (RFC 9000) to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeQuicVarInt(value: number): this {
+        if (!Number.isSafeInteger(value) || value < 0)
+            throw new RangeError(`The value must be an unsigned safe integer. Received ${value}`);
+        return this.writeBigQuicVarInt(BigInt(value));
+    }
+
+    /**
+     * Writes value as QUIC variable-length integer (RFC 9000) to dataviewcursor at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to dataviewcursor.
+     * @returns {this} this dataviewcursor.
+     */
+    public writeBigQuicVarInt(value: bigint): this {
+        return this.writeVarIntBytes(encodeQuicVarInt(value), "writeBigQuicVarInt");
+    }
+
+    /**
+     * writeVarIntBytes writes the encoded bytes of a variable-length integer.
+     * @since v1.1.0
+     * @param {number[]} bytes the encoded integer.
+     * @param {string} operation the name of the operation.
+     * @returns {this} this dataviewcursor.
+     */
+    private writeVarIntBytes(bytes: number[], operation: string): this {
+        this.safeWrite(() => this.bytes.set(bytes, this.pos), bytes.length, operation);
+        return this;
+    }
+
+    /**
+     * checksumRange finds the bytes of a checksum range.
+     * @since v1.1.0
+     * @param {ChecksumRange} range the absolute range, default from the last mark, or the start without marks, to the cursor position.
+     * @param {string} operation the name of the operation.
+     * @returns {Uint8Array} the bytes.
+     */
+    protected checksumRange(range: ChecksumRange, operation: string): Uint8Array {
+        const start = range.start ?? this.marks[this.marks.length - 1] ?? 0;
+        const end = range.end ?? this.pos;
+        this.checkArgument("end", end);
+        if (end < start) throw new RangeError(`End can't be before start. Received ${start} and ${end}`);
+        this.checkRange(start, end - start, operation);
+        return this.bytes.subarray(start, end);
+    }
+    /**
+     * readArray reads count elements of a number tag as a typed array.
+     * @since v1.1.0
+     * @template T
+     * @param {T} tag the number tag of the elements.
+     * @param {number} count the number of elements.
+     * @param {Endian} endian the endianness of the elements.
+     * @param {string} operation the name of the operation.
+     * @returns {TypedArrays[T]} the elements.
+     */
+    private readArray<T extends TypedArrayTag>(tag: T, count: number, endian: Endian, operation: string): TypedArrays[T] {
+        this.checkArgument("count", count);
+        return this.safeMove(() => readTypedArray(this.bytes, this.pos, tag, count, endian), typedArraySize(tag, count), operation);
+    }
+
+    /**
+     * writeArray writes values as elements of a number tag, in strict mode values that aren't a typed array of the tag are checked.
+     * @since v1.1.0
+     * @template T
+     * @param {T} tag the number tag of the elements.
+     * @param {TypedArrayValues<T>} values the values.
+     * @param {Endian} endian the endianness of the elements.
+     * @param {string} operation the name of the operation.
+     * @returns {this} this cursor.
+     */
+    private writeArray<T extends TypedArrayTag>(tag: T, values: TypedArrayValues<T>, endian: Endian, operation: string): this {
+        const array = toTypedArray(tag, values);
+        if (this.strict && array !== values) {
+            for (let i = 0; i < values.length; i++) checkNumber(tag, values[i]);
+        }
+        this.safeWrite(() => writeTypedArray(this.bytes, this.pos, array, endian), array.byteLength, operation);
+        return this;
+    }
+    /**
+     * search finds the absolute offset of a pattern between two absolute offsets.
+     * BufferCursor overrides it to search with Buffer#indexOf.
+     * @since v1.1.0
+     * @param {Uint8Array} pattern the bytes to search for.
+     * @param {number} start the absolute offset to start searching at.
+     * @param {number} end the absolute offset the pattern must end before.
+     * @returns {number} the absolute offset of the pattern, or -1 when it isn't found.
+     */
+    protected search(pattern: Uint8Array, start: number, end: number): number {
+        return indexOfBytes(this.bytes.subarray(0, end), pattern, start);
+    }
+
+    /**
+     * findDelimiter finds the length of the bytes before a delimiter at the cursor position.
+     * @since v1.1.0
+     * @param {SearchPattern} delimiter a byte, a UTF-8 string or bytes.
+     * @param {ReadUntilOptions} options whether to include the delimiter and the maximum length before it.
+     * @param {string} operation the name of the operation.
+     * @returns {[number, number]} the length of the bytes to return and the number of bytes to skip after them.
+     */
+    private findDelimiter(delimiter: SearchPattern, options: ReadUntilOptions, operation: string): [number, number] {
+        const pattern = toPattern(delimiter);
+        const { include = false, maxLength = Infinity } = options;
+        const end = Math.min(this.size, this.pos + maxLength + pattern.length);
+        const index = this.search(pattern, this.pos, end);
+        if (index === -1)
+            throw new OverflowError(this.size, this.pos, Math.min(this.size - this.pos, maxLength) + pattern.length, operation);
+        const length = index - this.pos;
+        return include ? [length + pattern.length, 0] : [length, pattern.length];
+    }
+}
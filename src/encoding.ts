@@ -0,0 +1,188 @@
+/**
+ * StringEncoding is a character encoding, the same names as Node's BufferEncoding.
+ * @since v1.1.0
+ */
+export type StringEncoding =
+    | "ascii" | "utf8" | "utf-8" | "utf16le" | "utf-16le" | "ucs2" | "ucs-2"
+    | "base64" | "base64url" | "latin1" | "binary" | "hex";
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64URL = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+let utf8Encoder: TextEncoder | undefined;
+let utf8Decoder: TextDecoder | undefined;
+
+/**
+ * normalizeEncoding maps the aliases of an encoding to one name.
+ * @since v1.1.0
+ * @param {StringEncoding} encoding the encoding.
+ * @returns {string} the normalized name.
+ */
+function normalizeEncoding(encoding: StringEncoding): string {
+    switch (encoding.toLowerCase()) {
+        case "utf8": case "utf-8": return "utf8";
+        case "utf16le": case "utf-16le": case "ucs2": case "ucs-2": return "utf16le";
+        case "latin1": case "binary": return "latin1";
+        case "ascii": return "ascii";
+        case "hex": return "hex";
+        case "base64": return "base64";
+        case "base64url": return "base64url";
+        default: throw new TypeError(`Unknown encoding: ${encoding}`);
+    }
+}
+
+/**
+ * terminatorSize finds the size of the NUL terminator of a C string in an encoding.
+ * hex and base64 have no NUL character, so C strings can't use them.
+ * @since v1.1.0
+ * @param {StringEncoding} encoding the character encoding.
+ * @returns {number} the size of a NUL character in bytes, 2 for UTF-16 and 1 otherwise.
+ */
+export function terminatorSize(encoding: StringEncoding): number {
+    const name = normalizeEncoding(encoding);
+    if (name === "hex" || name === "base64" || name === "base64url")
+        throw new TypeError(`C strings can't use ${encoding}, it has no NUL character`);
+    return name === "utf16le" ? 2 : 1;
+}
+
+/**
+ * encodeString encodes a string to bytes, without using Node's Buffer.
+ * @since v1.1.0
+ * @param {string} value the string to encode.
+ * @param {StringEncoding} encoding the character encoding to use. Default "utf8".
+ * @returns {Uint8Array} the encoded bytes.
+ */
+export function encodeString(value: string, encoding: StringEncoding = "utf8"): Uint8Array {
+    switch (normalizeEncoding(encoding)) {
+        case "utf8":
+            return (utf8Encoder ??= new TextEncoder()).encode(value);
+        case "utf16le": {
+            const bytes = new Uint8Array(value.length * 2);
+            for (let i = 0; i < value.length; i++) {
+                const code = value.charCodeAt(i);
+                bytes[i * 2] = code & 0xff;
+                bytes[i * 2 + 1] = code >> 8;
+            }
+            return bytes;
+        }
+        case "hex": {
+            const bytes: number[] = [];
+            for (let i = 0; i + 1 < value.length; i += 2) {
+                const byte = parseInt(value.substr(i, 2), 16);
+                if (Number.isNaN(byte)) break;
+                bytes.push(byte);
+            }
+            return new Uint8Array(bytes);
+        }
+        case "base64":
+        case "base64url": {
+            const bytes: number[] = [];
+            let bits = 0;
+            let count = 0;
+            for (const char of value) {
+                let index = BASE64.indexOf(char);
+                if (index === -1) index = BASE64URL.indexOf(char);
+                if (index === -1) continue;
+                bits = (bits << 6) | index;
+                count += 6;
+                if (count >= 8) {
+                    count -= 8;
+                    bytes.push((bits >> count) & 0xff);
+                }
+            }
+            return new Uint8Array(bytes);
+        }
+        default: {
+            const bytes = new Uint8Array(value.length);
+            for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0xff;
+            return bytes;
+        }
+    }
+}
+
+/**
+ * decodeString decodes bytes to a string, without using Node's Buffer.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to decode.
+ * @param {StringEncoding} encoding the character encoding to use. Default "utf8".
+ * @returns {string} the decoded string.
+ */
+export function decodeString(bytes: Uint8Array, encoding: StringEncoding = "utf8"): string {
+    switch (normalizeEncoding(encoding)) {
+        case "utf8":
+            // TextDecoder doesn't accept views on a SharedArrayBuffer.
+            if (typeof SharedArrayBuffer !== "undefined" && bytes.buffer instanceof SharedArrayBuffer)
+                bytes = bytes.slice();
+            return (utf8Decoder ??= new TextDecoder()).decode(bytes);
+        case "utf16le": {
+            let ret = "";
+            for (let i = 0; i + 1 < bytes.length; i += 2)
+                ret += String.fromCharCode(bytes[i]! | (bytes[i + 1]! << 8));
+            return ret;
+        }
+        case "hex": {
+            let ret = "";
+            for (let i = 0; i < bytes.length; i++) ret += (bytes[i]! < 0x10 ? "0" : "") + bytes[i]!.toString(16);
+            return ret;
+        }
+        case "base64":
+        case "base64url": {
+            const url = normalizeEncoding(encoding) === "base64url";
+            const alphabet = url ? BASE64URL : BASE64;
+            let ret = "";
+            for (let i = 0; i < bytes.length; i += 3) {
+                const n = (bytes[i]! << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+                const chars = i + 2 < bytes.length ? 4 : i + 1 < bytes.length ? 3 : 2;
+                for (let j = 0; j < chars; j++) ret += alphabet[(n >> (18 - j * 6)) & 0x3f];
+                if (!url) ret += "=".repeat(4 - chars);
+            }
+            return ret;
+        }
+        case "ascii": {
+            let ret = "";
+            for (let i = 0; i < bytes.length; i++) ret += String.fromCharCode(bytes[i]! & 0x7f);
+            return ret;
+        }
+        default: {
+            let ret = "";
+            for (let i = 0; i < bytes.length; i++) ret += String.fromCharCode(bytes[i]!);
+            return ret;
+        }
+    }
+}
+
+/**
+ * findInvalidByte finds the first byte that isn't valid in the given encoding.
+ * UTF-8 must be well-formed, ASCII must be 7-bit and UTF-16 must have an even length, other encodings are always valid.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to check.
+ * @param {StringEncoding} encoding the character encoding. Default "utf8".
+ * @returns {number} the index of the first invalid byte, -1 if all bytes are valid.
+ */
+export function findInvalidByte(bytes: Uint8Array, encoding: StringEncoding = "utf8"): number {
+    switch (normalizeEncoding(encoding)) {
+        case "utf8":
+            for (let i = 0; i < bytes.length;) {
+                const byte = bytes[i]!;
+                const n = byte < 0x80 ? 0 : byte >= 0xc2 && byte <= 0xdf ? 1 : byte >= 0xe0 && byte <= 0xef ? 2
+                    : byte >= 0xf0 && byte <= 0xf4 ? 3 : -1;
+                if (n === -1 || i + n >= bytes.length) return i;
+                let code = byte & (0x7f >> n);
+                for (let j = 1; j <= n; j++) {
+                    if ((bytes[i + j]! & 0xc0) !== 0x80) return i;
+                    code = (code << 6) | (bytes[i + j]! & 0x3f);
+                }
+                if (n === 2 && (code < 0x800 || (code >= 0xd800 && code <= 0xdfff))) return i;
+                if (n === 3 && (code < 0x10000 || code > 0x10ffff)) return i;
+                i += n + 1;
+            }
+            return -1;
+        case "ascii":
+            for (let i = 0; i < bytes.length; i++) if (bytes[i]! > 0x7f) return i;
+            return -1;
+        case "utf16le":
+            return bytes.length % 2 ? bytes.length - 1 : -1;
+        default:
+            return -1;
+    }
+}
@@ -0,0 +1,195 @@
+/**
+ * ErrorOperation is the kind of operation that failed.
+ * @since v1.1.0
+ */
+export type ErrorOperation = "read" | "write" | "move";
+
+/**
+ * Options for a BufferCursorError.
+ * @since v1.1.0
+ */
+export interface BufferCursorErrorOptions {
+    /** The name of the method that failed, like `readUInt32LE`. */
+    method?: string;
+    /** Where in the data the error happened, like `header.flags`. */
+    context?: string;
+    /** A hexdump of the bytes around the failing offset. */
+    snippet?: string;
+    /** The error that caused this one. */
+    cause?: unknown;
+}
+
+/**
+ * operationOf finds the kind of operation of a method.
+ * @since v1.1.0
+ * @param {string} method the name of the method.
+ * @returns {ErrorOperation | undefined} the kind of operation.
+ */
+function operationOf(method: string): ErrorOperation | undefined {
+    if (/^(read|peek|expect|toString|slice)/.test(method)) return "read";
+    if (/^(write|fill|copy)/.test(method)) return "write";
+    if (/^(move|seek)/.test(method)) return "move";
+    return undefined;
+}
+
+/**
+ * hexSnippet renders the bytes around an offset as one line of hex, the byte at the offset is bracketed.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes.
+ * @param {number} offset the offset to show, relative to base.
+ * @param {number} base the offset of the first byte. Default 0.
+ * @param {number} radius the number of bytes shown on each side. Default 8.
+ * @returns {string} the snippet, like `0x0004: 01 02 [03] 04`.
+ */
+export function hexSnippet(bytes: Uint8Array, offset: number, base: number = 0, radius: number = 8): string {
+    const start = Math.max(0, offset - base - radius);
+    const end = Math.min(bytes.length, offset - base + radius + 1);
+    const parts: string[] = [];
+    for (let i = start; i < end; i++) {
+        const hex = (bytes[i]! < 0x10 ? "0" : "") + bytes[i]!.toString(16);
+        parts.push(i === offset - base ? `[${hex}]` : hex);
+    }
+    if (offset - base >= bytes.length) parts.push("[..]");
+    return `0x${(base + start).toString(16).padStart(4, "0")}: ${parts.join(" ")}`;
+}
+
+/**
+ * @class BufferCursorError
+ * @extends RangeError
+ * @classdesc BufferCursorError is the base of the errors thrown by the cursors, with the offset where it happened.
+ * @since v1.1.0
+ */
+export class BufferCursorError extends RangeError {
+    public readonly offset: number;
+    public readonly method?: string;
+    public readonly operation?: ErrorOperation;
+    public readonly cause?: unknown;
+    public context?: string;
+    public snippet?: string;
+    private detail: string;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {string} detail the description of the error.
+     * @param {number} offset the offset where the error happened.
+     * @param {BufferCursorErrorOptions} options the method, context, snippet and cause of the error.
+     */
+    constructor(detail: string, offset: number, options: BufferCursorErrorOptions = {}) {
+        super(detail);
+        this.name = "BufferCursorError";
+        this.detail = detail;
+        this.offset = offset;
+        this.method = options.method;
+        this.operation = options.method ? operationOf(options.method) : undefined;
+        this.cause = options.cause;
+        this.context = options.context;
+        this.snippet = options.snippet;
+        this.message = this.format();
+    }
+
+    /**
+     * addContext prefixes the context path, and adds a snippet when the error doesn't have one yet.
+     * Contexts are added from the inside out, so the outer path comes first.
+     * @since v1.1.0
+     * @param {string} path the path to add, like `header`.
+     * @param {string | undefined} snippet a hexdump of the bytes around the offset.
+     * @returns {this} this error.
+     */
+    public addContext(path: string, snippet?: string): this {
+        this.context = this.context ? `${path}.${this.context}` : path;
+        this.snippet ??= snippet;
+        this.message = this.format();
+        return this;
+    }
+
+    /**
+     * setDetail replaces the description of the error.
+     * @since v1.1.0
+     * @param {string} detail the description of the error.
+     */
+    protected setDetail(detail: string): void {
+        this.detail = detail;
+        this.message = this.format();
+    }
+
+    /**
+     * format builds the message from the description, context and snippet.
+     * @since v1.1.0
+     * @returns {string} the message.
+     */
+    private format(): string {
+        let message = this.detail;
+        if (this.context) message += ` (at ${this.context})`;
+        if (this.snippet) message += `\n    ${this.snippet}`;
+        return message;
+    }
+}
+
+/**
+ * formatValue formats an expected or actual value for a message.
+ * @since v1.1.0
+ * @param {unknown} value the value.
+ * @returns {string} the formatted value.
+ */
+function formatValue(value: unknown): string {
+    if (value instanceof Uint8Array) {
+        let hex = "";
+        for (let i = 0; i < value.length; i++) hex += (value[i]! < 0x10 ? "0" : "") + value[i]!.toString(16);
+        return `<${hex}>`;
+    }
+    if (Array.isArray(value)) return `one of ${value.map(formatValue).join(", ")}`;
+    if (typeof value === "number") return `${value} (0x${value.toString(16)})`;
+    return String(value);
+}
+
+/**
+ * @class UnexpectedValueError
+ * @extends BufferCursorError
+ * @classdesc UnexpectedValueError is thrown when a value doesn't match what was expected, like a magic number or an enum.
+ * @since v1.1.0
+ */
+export class UnexpectedValueError extends BufferCursorError {
+    public readonly expected: unknown;
+    public readonly actual: unknown;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {unknown} expected the expected value, or a list of allowed values.
+     * @param {unknown} actual the value read.
+     * @param {number} offset the offset of the value.
+     * @param {BufferCursorErrorOptions} options the method, context, snippet and cause of the error.
+     */
+    constructor(expected: unknown, actual: unknown, offset: number, options: BufferCursorErrorOptions = {}) {
+        const method = options.method ? `${options.method} ` : "";
+        super(`UnexpectedValueError: ${method}expected ${formatValue(expected)}, got ${formatValue(actual)} at position ${offset}`, offset, options);
+        this.name = "UnexpectedValueError";
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
+
+/**
+ * @class EncodingError
+ * @extends BufferCursorError
+ * @classdesc EncodingError is thrown when bytes aren't valid in their encoding, like invalid UTF-8 or an overlong varint.
+ * @since v1.1.0
+ */
+export class EncodingError extends BufferCursorError {
+    public readonly encoding: string;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {string} encoding the encoding, like `utf8` or `varint`.
+     * @param {string} reason what is wrong with the bytes.
+     * @param {number} offset the offset of the bytes.
+     * @param {BufferCursorErrorOptions} options the method, context, snippet and cause of the error.
+     */
+    constructor(encoding: string, reason: string, offset: number, options: BufferCursorErrorOptions = {}) {
+        super(`EncodingError: ${reason}`, offset, options);
+        this.name = "EncodingError";
+        this.encoding = encoding;
+    }
+}
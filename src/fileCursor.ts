@@ -0,0 +1,2019 @@
+import { close, closeSync, fstat, fstatSync, openSync, read, readSync, write, writeSync } from "fs";
+import { FileHandle, open } from "fs/promises";
+import { BufferCursor } from "./buffercursor";
+import { checkEndian } from "./checks";
+import { terminatorSize } from "./encoding";
+import { dataViewOf, Endian, getNumberType, NumberTag, NumberTypes } from "./numberTypes";
+import { OverflowError } from "./overflowError";
+
+/**
+ * Options for a FileCursor or FileCursorSync.
+ * @since v1.1.0
+ */
+export interface FileCursorOptions {
+    /** Endianness used by methods and number tags without endianness. Default "le". */
+    endian?: Endian;
+    /** The number of bytes read from the file at once. Default 65536. */
+    pageSize?: number;
+    /** The number of pages kept in the cache, the least recently used page is dropped first. Default 64. */
+    maxPages?: number;
+    /** The flags a file is opened with by `open`, like `"r+"` to write. Default "r". */
+    flags?: string;
+}
+
+/**
+ * @class PageCache
+ * @classdesc PageCache keeps the most recently used pages of a file.
+ * Cached pages are never changed, writes drop the pages they overlap.
+ * @since v1.1.0
+ */
+class PageCache {
+    public readonly pageSize: number;
+    public readonly maxPages: number;
+    private pages: Map<number, Buffer>;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {FileCursorOptions} options the page size and the number of pages to keep.
+     */
+    constructor(options: FileCursorOptions) {
+        const { pageSize = 65536, maxPages = 64 } = options;
+        if (!Number.isSafeInteger(pageSize) || pageSize < 1)
+            throw new RangeError(`The value of "pageSize" must be a positive integer. Received ${pageSize}`);
+        if (!Number.isSafeInteger(maxPages) || maxPages < 1)
+            throw new RangeError(`The value of "maxPages" must be a positive integer. Received ${maxPages}`);
+        this.pageSize = pageSize;
+        this.maxPages = maxPages;
+        this.pages = new Map();
+    }
+
+    /**
+     * The number of cached pages.
+     * @since v1.1.0
+     * @returns {number} the number of pages in the cache.
+     */
+    public get size(): number {
+        return this.pages.size;
+    }
+
+    /**
+     * get returns a cached page and marks it as the most recently used.
+     * @since v1.1.0
+     * @param {number} index the index of the page.
+     * @returns {Buffer | undefined} the page, undefined when it isn't cached.
+     */
+    public get(index: number): Buffer | undefined {
+        const page = this.pages.get(index);
+        if (page) {
+            this.pages.delete(index);
+            this.pages.set(index, page);
+        }
+        return page;
+    }
+
+    /**
+     * set caches a page and drops the least recently used pages over the limit.
+     * @since v1.1.0
+     * @param {number} index the index of the page.
+     * @param {Buffer} page the bytes of the page.
+     */
+    public set(index: number, page: Buffer): void {
+        this.pages.set(index, page);
+        while (this.pages.size > this.maxPages) this.pages.delete(this.pages.keys().next().value!);
+    }
+
+    /**
+     * invalidate drops the cached pages that overlap a range.
+     * @since v1.1.0
+     * @param {number} offset the offset of the range.
+     * @param {number} size the size of the range.
+     */
+    public invalidate(offset: number, size: number): void {
+        const [first, last] = this.range(offset, size);
+        this.pages.forEach((_page, index) => {
+            if (index >= first && index <= last) this.pages.delete(index);
+        });
+    }
+
+    /**
+     * clear drops every cached page.
+     * @since v1.1.0
+     */
+    public clear(): void {
+        this.pages.clear();
+    }
+
+    /**
+     * range finds the indexes of the first and last page of a range, the last is before the first for an empty range.
+     * @since v1.1.0
+     * @param {number} offset the offset of the range.
+     * @param {number} size the size of the range.
+     * @returns {[number, number]} the indexes of the first and last page.
+     */
+    public range(offset: number, size: number): [number, number] {
+        const first = Math.floor(offset / this.pageSize);
+        return [first, Math.floor((offset + size - 1) / this.pageSize)];
+    }
+
+    /**
+     * join returns the bytes of a range from its pages, without copying when they are in a single page.
+     * @since v1.1.0
+     * @param {Buffer[]} pages the pages of the range, from `range`.
+     * @param {number} offset the offset of the range.
+     * @param {number} size the size of the range.
+     * @returns {Buffer} the bytes of the range.
+     */
+    public join(pages: Buffer[], offset: number, size: number): Buffer {
+        const start = offset % this.pageSize;
+        if (pages.length <= 1) return (pages[0] ?? Buffer.alloc(0)).subarray(start, start + size);
+        const ret = Buffer.allocUnsafe(size);
+        let done = 0;
+        pages.forEach((page, i) => {
+            const from = i === 0 ? start : 0;
+            done += page.copy(ret, done, from, from + size - done);
+        });
+        return ret;
+    }
+}
+
+/**
+ * checkBounds checks that size bytes at an offset are inside the file.
+ * @since v1.1.0
+ * @param {number} length the length of the file.
+ * @param {number} offset the offset.
+ * @param {number} size the number of bytes.
+ * @param {string} operation the name of the operation.
+ */
+function checkBounds(length: number, offset: number, size: number, operation: string): void {
+    if (size < 0) throw new RangeError(`Size can't be negative. Received ${size}`);
+    if (offset < 0 || offset > length - size) throw new OverflowError(length, offset, size, operation);
+}
+
+/**
+ * readAsync reads from a file descriptor or FileHandle into a buffer.
+ * @since v1.1.0
+ * @param {number | FileHandle} file the file to read from.
+ * @param {Buffer} buffer the buffer to read into.
+ * @param {number} done the number of bytes already read.
+ * @param {number} position the offset in the file.
+ * @returns {Promise<number>} the number of bytes read.
+ */
+async function readAsync(file: number | FileHandle, buffer: Buffer, done: number, position: number): Promise<number> {
+    if (typeof file !== "number") return (await file.read(buffer, done, buffer.length - done, position)).bytesRead;
+    return new Promise((resolve, reject) => {
+        read(file, buffer, done, buffer.length - done, position, (e, bytesRead) => e ? reject(e) : resolve(bytesRead));
+    });
+}
+
+/**
+ * writeAsync writes a buffer to a file descriptor or FileHandle.
+ * @since v1.1.0
+ * @param {number | FileHandle} file the file to write to.
+ * @param {Buffer} buffer the buffer to write.
+ * @param {number} done the number of bytes already written.
+ * @param {number} position the offset in the file.
+ * @returns {Promise<number>} the number of bytes written.
+ */
+async function writeAsync(file: number | FileHandle, buffer: Buffer, done: number, position: number): Promise<number> {
+    if (typeof file !== "number") return (await file.write(buffer, done, buffer.length - done, position)).bytesWritten;
+    return new Promise((resolve, reject) => {
+        write(file, buffer, done, buffer.length - done, position, (e, bytesWritten) => e ? reject(e) : resolve(bytesWritten));
+    });
+}
+
+/**
+ * @class FileCursor
+ * @classdesc FileCursor reads and writes a file at random offsets without loading it into memory,
+ * for disk images and archives that are too large for a Buffer. The file is read in pages,
+ * the most recently used pages are cached and writes go straight to the file.
+ * @since v1.1.0
+ */
+export class FileCursor {
+    public readonly file: number | FileHandle;
+    private readonly cache: PageCache;
+    private owned: boolean;
+    private size: number;
+    private pos: number;
+    private endianness: Endian;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {number | FileHandle} file the file descriptor or FileHandle to use, it stays open when the cursor is closed.
+     * @param {number} length the length of the file, `FileCursor.open` finds it.
+     * @param {FileCursorOptions} options options for the cursor and the page cache.
+     */
+    constructor(file: number | FileHandle, length: number, options: FileCursorOptions = {}) {
+        this.file = file;
+        this.cache = new PageCache(options);
+        this.owned = false;
+        this.size = length;
+        this.pos = 0;
+        this.endianness = checkEndian(options.endian ?? "le");
+    }
+
+    /**
+     * open creates a FileCursor over a path, file descriptor or FileHandle. A file opened by path is closed by `close()`.
+     * @since v1.1.0
+     * @param {string | number | FileHandle} file the path, file descriptor or FileHandle.
+     * @param {FileCursorOptions} options options for the cursor, the page cache and opening the file.
+     * @returns {Promise<FileCursor>} the cursor at the start of the file.
+     */
+    public static async open(file: string | number | FileHandle, options: FileCursorOptions = {}): Promise<FileCursor> {
+        if (typeof file === "number") {
+            const length = await new Promise<number>((resolve, reject) => {
+                fstat(file, (e, stats) => e ? reject(e) : resolve(stats.size));
+            });
+            return new FileCursor(file, length, options);
+        }
+        if (typeof file !== "string") return new FileCursor(file, (await file.stat()).size, options);
+        const handle = await open(file, options.flags ?? "r");
+        try {
+            const cursor = new FileCursor(handle, (await handle.stat()).size, options);
+            cursor.owned = true;
+            return cursor;
+        } catch (e) {
+            await handle.close();
+            throw e;
+        }
+    }
+
+    /**
+     * The default endianness.
+     * @since v1.1.0
+     * @returns {Endian} the endianness used by methods without endianness.
+     */
+    public get endian(): Endian {
+        return this.endianness;
+    }
+
+    /**
+     * setEndian sets the default endianness.
+     * @since v1.1.0
+     * @param {Endian} endian the endianness used by methods without endianness.
+     * @returns {this} this filecursor.
+     */
+    public setEndian(endian: Endian): this {
+        this.endianness = checkEndian(endian);
+        return this;
+    }
+
+    /**
+     * The length of the file, including bytes written past its original end.
+     * @since v1.1.0
+     * @returns {number} the number of bytes that can be read.
+     */
+    public get length(): number {
+        return this.size;
+    }
+
+    /**
+     * The number of pages in the cache.
+     * @since v1.1.0
+     * @returns {number} the number of cached pages.
+     */
+    public get cachedPages(): number {
+        return this.cache.size;
+    }
+
+    /**
+     * tell return the cursor position.
+     * @since v1.1.0
+     * @returns {number} cursor position.
+     */
+    public tell(): number {
+        return this.pos;
+    }
+
+    /**
+     * seek moves the cursor to given position.
+     * @since v1.1.0
+     * @param {number} pos position to move to.
+     * @returns {this} this filecursor.
+     */
+    public seek(pos: number): this {
+        if (pos < 0) throw new RangeError("Cannot seek before start of file");
+        if (pos > this.size) throw new OverflowError(this.size, this.pos, pos - this.pos, "seek");
+        this.pos = pos;
+        return this;
+    }
+
+    /**
+     * move moves the cursors by the amount of steps given.
+     * @since v1.1.0
+     * @param {number} step number of steps to move.
+     * @returns {this} this filecursor.
+     */
+    public move(step: number): this {
+        if (this.pos + step < 0) throw new RangeError("Cannot move before start of file");
+        if (this.pos + step > this.size) throw new OverflowError(this.size, this.pos, step, "move");
+        this.pos += step;
+        return this;
+    }
+
+    /**
+     * eof checks and returns if the cursor is at the end of the file.
+     * @since v1.1.0
+     * @returns {boolean} true if cursor position is at the end of the file.
+     */
+    public eof(): boolean {
+        return this.pos === this.size;
+    }
+
+    /**
+     * close drops the page cache and closes the file when it was opened by `FileCursor.open` with a path.
+     * @since v1.1.0
+     * @returns {Promise<void>} resolves when the file is closed.
+     */
+    public async close(): Promise<void> {
+        this.cache.clear();
+        if (!this.owned) return;
+        this.owned = false;
+        if (typeof this.file !== "number") return this.file.close();
+        const fd = this.file;
+        return new Promise((resolve, reject) => close(fd, e => e ? reject(e) : resolve()));
+    }
+
+    /**
+     * page returns a page of the file, from the cache or read from the file.
+     * @since v1.1.0
+     * @param {number} index the index of the page.
+     * @param {string} operation the name of the operation.
+     * @returns {Promise<Buffer>} the bytes of the page, shorter than the page size at the end of the file.
+     */
+    private async page(index: number, operation: string): Promise<Buffer> {
+        const cached = this.cache.get(index);
+        if (cached) return cached;
+        const offset = index * this.cache.pageSize;
+        const page = Buffer.alloc(Math.min(this.cache.pageSize, this.size - offset));
+        let done = 0;
+        while (done < page.length) {
+            const bytesRead = await readAsync(this.file, page, done, offset + done);
+            if (bytesRead === 0) throw new OverflowError(offset + done, offset + done, page.length - done, operation);
+            done += bytesRead;
+        }
+        this.cache.set(index, page);
+        return page;
+    }
+
+    /**
+     * load returns the bytes at an offset, without copying when they are in a single page.
+     * @since v1.1.0
+     * @param {number} offset the offset in the file.
+     * @param {number} size the number of bytes.
+     * @param {string} operation the name of the operation.
+     * @returns {Promise<Buffer>} the bytes, shared with the page cache.
+     */
+    private async load(offset: number, size: number, operation: string): Promise<Buffer> {
+        checkBounds(this.size, offset, size, operation);
+        const [first, last] = this.cache.range(offset, size);
+        const pages: Buffer[] = [];
+        for (let index = first; index <= last; index++) pages.push(await this.page(index, operation));
+        return this.cache.join(pages, offset, size);
+    }
+
+    /**
+     * take returns the bytes at the cursor position and moves past them, the cursor doesn't move when the read fails.
+     * @since v1.1.0
+     * @param {number} size the number of bytes.
+     * @param {string} operation the name of the operation.
+     * @returns {Promise<Buffer>} the bytes, shared with the page cache.
+     */
+    private async take(size: number, operation: string): Promise<Buffer> {
+        const start = this.pos;
+        checkBounds(this.size, start, size, operation);
+        this.pos += size;
+        try {
+            return await this.load(start, size, operation);
+        } catch (e) {
+            this.pos = start;
+            throw e;
+        }
+    }
+
+    /**
+     * store writes bytes at an offset and drops the cached pages they overlap, the file grows when they are past its end.
+     * @since v1.1.0
+     * @param {number} offset the offset in the file.
+     * @param {Buffer} bytes the bytes to write.
+     */
+    private async store(offset: number, bytes: Buffer): Promise<void> {
+        try {
+            let done = 0;
+            while (done < bytes.length) done += await writeAsync(this.file, bytes, done, offset + done);
+        } finally {
+            this.cache.invalidate(offset, bytes.length);
+        }
+        this.size = Math.max(this.size, offset + bytes.length);
+    }
+
+    /**
+     * put writes bytes at the cursor position and moves past them, the cursor doesn't move when the write fails.
+     * @since v1.1.0
+     * @param {Buffer} bytes the bytes to write.
+     * @returns {Promise<this>} this filecursor.
+     */
+    private async put(bytes: Buffer): Promise<this> {
+        const start = this.pos;
+        this.pos += bytes.length;
+        try {
+            await this.store(start, bytes);
+        } catch (e) {
+            this.pos = start;
+            throw e;
+        }
+        return this;
+    }
+
+    /**
+     * readNumber reads a number of the given type at the cursor position.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag.
+     * @param {string} operation the name of the operation.
+     * @returns {Promise<NumberTypes[T]>} the number read.
+     */
+    private async readNumber<T extends NumberTag>(type: T, operation: string): Promise<NumberTypes[T]> {
+        const { size, read } = getNumberType(type, this.endianness);
+        return read(dataViewOf(await this.take(size, operation)), 0) as NumberTypes[T];
+    }
+
+    /**
+     * writeNumber writes a number of the given type at the cursor position.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag.
+     * @param {NumberTypes[T]} value the number to write.
+     * @returns {Promise<this>} this filecursor.
+     */
+    private async writeNumber<T extends NumberTag>(type: T, value: NumberTypes[T]): Promise<this> {
+        const { size, write } = getNumberType(type, this.endianness);
+        const bytes = Buffer.alloc(size);
+        write(dataViewOf(bytes), 0, value);
+        return this.put(bytes);
+    }
+
+    /**
+     * Reads a number of the given type from the file at the current position.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {Promise<NumberTypes[T]>} the number read.
+     */
+    public async read<T extends NumberTag>(type: T): Promise<NumberTypes[T]> {
+        return this.readNumber(type, "read");
+    }
+
+    /**
+     * Writes a number of the given type to the file at the current position.
+     * It is called writeValue and not write because `write(value, length)` writes strings.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @param {NumberTypes[T]} value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeValue<T extends NumberTag>(type: T, value: NumberTypes[T]): Promise<this> {
+        return this.writeNumber(type, value);
+    }
+
+    /**
+     * Reads a number of the given type from the file without moving the cursor.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {Promise<NumberTypes[T]>} the number read.
+     */
+    public async peek<T extends NumberTag>(type: T): Promise<NumberTypes[T]> {
+        const { size, read } = getNumberType(type, this.endianness);
+        return read(dataViewOf(await this.load(this.pos, size, "peek")), 0) as NumberTypes[T];
+    }
+
+    /**
+     * Reads a number of the given type from the file at an absolute offset, without moving the cursor.
+     * @since v1.1.0
+     * @template T
+     * @param {number} offset the absolute offset to read at.
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {Promise<NumberTypes[T]>} the number read.
+     */
+    public async readAt<T extends NumberTag>(offset: number, type: T): Promise<NumberTypes[T]> {
+        const { size, read } = getNumberType(type, this.endianness);
+        return read(dataViewOf(await this.load(offset, size, "readAt")), 0) as NumberTypes[T];
+    }
+
+    /**
+     * Writes a number of the given type to the file at an absolute offset, without moving the cursor.
+     * The offset must be inside the file, it doesn't grow.
+     * @since v1.1.0
+     * @template T
+     * @param {number} offset the absolute offset to write at.
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @param {NumberTypes[T]} value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeAt<T extends NumberTag>(offset: number, type: T, value: NumberTypes[T]): Promise<this> {
+        const { size, write } = getNumberType(type, this.endianness);
+        checkBounds(this.size, offset, size, "writeAt");
+        const bytes = Buffer.alloc(size);
+        write(dataViewOf(bytes), 0, value);
+        await this.store(offset, bytes);
+        return this;
+    }
+
+    /**
+     * Reads bytes from the file into a new `Uint8Array`.
+     * @since v1.1.0
+     * @param {number} count the number of bytes.
+     * @returns {Promise<Uint8Array>} a copy of the bytes.
+     */
+    public async readUInt8Array(count: number): Promise<Uint8Array> {
+        return Buffer.from(await this.take(count, "readUInt8Array"));
+    }
+
+    /**
+     * Reads the given number of bytes into a new `BufferCursor`, so parsers for buffers can run on a region of the file.
+     * @since v1.1.0
+     * @param {number | undefined} length the length of the new `BufferCursor`. Default the rest of the file.
+     * @returns {Promise<BufferCursor>} a `BufferCursor` over a copy of the bytes.
+     */
+    public async slice(length: number = this.size - this.pos): Promise<BufferCursor> {
+        return new BufferCursor(Buffer.from(await this.take(length, "slice")), { endian: this.endianness });
+    }
+
+    /**
+     * Decodes bytes from the file to a string according to the specified character encoding in `encoding`.
+     * @since v1.1.0
+     * @param {BufferEncoding | undefined} encoding The character encoding to use. Default "utf8".
+     * @param {number | undefined} length The number of bytes to decode. Default the rest of the file.
+     * @returns {Promise<string>} a string according to the specified character encoding.
+     */
+    public async toString(encoding: BufferEncoding = "utf8", length: number = this.size - this.pos): Promise<string> {
+        return (await this.take(length, "toString")).toString(encoding);
+    }
+
+    /**
+     * Reads a NUL terminated string from the file, the terminator is consumed but not returned.
+     * @since v1.1.0
+     * @param {BufferEncoding} encoding The character encoding to use. Default "utf8".
+     * @returns {Promise<string>} the string before the terminator.
+     */
+    public async readCString(encoding: BufferEncoding = "utf8"): Promise<string> {
+        const { pageSize } = this.cache;
+        const terminator = terminatorSize(encoding);
+        let end = -1;
+        let offset = this.pos;
+        while (end === -1 && offset + terminator <= this.size) {
+            const page = await this.page(Math.floor(offset / pageSize), "readCString");
+            const index = page.indexOf(0, offset % pageSize);
+            if (index === -1) {
+                offset = (Math.floor(offset / pageSize) + 1) * pageSize;
+                continue;
+            }
+            const found = offset - offset % pageSize + index;
+            if (terminator === 1) end = found;
+            else if ((found - this.pos) % 2 === 0 && found + 1 < this.size && await this.readAt(found + 1, "u8") === 0) end = found;
+            else offset = found + 1;
+        }
+        if (end === -1) throw new OverflowError(this.size, this.pos, this.size - this.pos + terminator, "readCString");
+        const ret = (await this.take(end - this.pos, "readCString")).toString(encoding);
+        this.pos += terminator;
+        return ret;
+    }
+
+    /**
+     * write writes a string to the file.
+     * Numbers are written by tag with writeValue.
+     * @since v1.1.0
+     * @param {string} value the string to write to the file.
+     * @param {number | undefined} length the maximum number of bytes to write. Default the byte length of the string.
+     * @param {BufferEncoding | undefined} encoding the encoding to be used.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async write(value: string, length?: number, encoding?: BufferEncoding): Promise<this> {
+        const bytes = Buffer.from(value, encoding);
+        return this.put(length === undefined ? bytes : bytes.subarray(0, length));
+    }
+
+    /**
+     * writeBuff writes a buffer to the file.
+     * @since v1.1.0
+     * @param {Buffer} value the buffer to write to the file.
+     * @param {number | undefined} length the length of the buffer to be writen.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeBuff(value: Buffer, length: number = value.length): Promise<this> {
+        return this.put(value.subarray(0, length));
+    }
+
+    /**
+     * Writes bytes to the file at the current position.
+     * @since v1.1.0
+     * @param {Uint8Array} values the bytes to write.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeUInt8Array(values: Uint8Array): Promise<this> {
+        return this.put(Buffer.from(values.buffer, values.byteOffset, values.byteLength));
+    }
+
+    /**
+     * Reads an unsigned 8-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned 8-bit integer.
+     */
+    public async readUInt8(): Promise<number> {
+        return this.readNumber("u8", "readUInt8");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeUInt8(value: number): Promise<this> {
+        return this.writeNumber("u8", value);
+    }
+
+    /**
+     * Reads a signed 8-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed 8-bit integer.
+     */
+    public async readInt8(): Promise<number> {
+        return this.readNumber("i8", "readInt8");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeInt8(value: number): Promise<this> {
+        return this.writeNumber("i8", value);
+    }
+
+    /**
+     * Reads an unsigned, little-endian 16-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned, little-endian 16-bit integer.
+     */
+    public async readUInt16LE(): Promise<number> {
+        return this.readNumber("u16le", "readUInt16LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeUInt16LE(value: number): Promise<this> {
+        return this.writeNumber("u16le", value);
+    }
+
+    /**
+     * Reads an unsigned, big-endian 16-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned, big-endian 16-bit integer.
+     */
+    public async readUInt16BE(): Promise<number> {
+        return this.readNumber("u16be", "readUInt16BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeUInt16BE(value: number): Promise<this> {
+        return this.writeNumber("u16be", value);
+    }
+
+    /**
+     * Reads an unsigned 16-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned 16-bit integer.
+     */
+    public async readUInt16(): Promise<number> {
+        return this.readNumber("u16", "readUInt16");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeUInt16(value: number): Promise<this> {
+        return this.writeNumber("u16", value);
+    }
+
+    /**
+     * Reads a signed, little-endian 16-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed, little-endian 16-bit integer.
+     */
+    public async readInt16LE(): Promise<number> {
+        return this.readNumber("i16le", "readInt16LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeInt16LE(value: number): Promise<this> {
+        return this.writeNumber("i16le", value);
+    }
+
+    /**
+     * Reads a signed, big-endian 16-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed, big-endian 16-bit integer.
+     */
+    public async readInt16BE(): Promise<number> {
+        return this.readNumber("i16be", "readInt16BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeInt16BE(value: number): Promise<this> {
+        return this.writeNumber("i16be", value);
+    }
+
+    /**
+     * Reads a signed 16-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed 16-bit integer.
+     */
+    public async readInt16(): Promise<number> {
+        return this.readNumber("i16", "readInt16");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeInt16(value: number): Promise<this> {
+        return this.writeNumber("i16", value);
+    }
+
+    /**
+     * Reads an unsigned, little-endian 32-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned, little-endian 32-bit integer.
+     */
+    public async readUInt32LE(): Promise<number> {
+        return this.readNumber("u32le", "readUInt32LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeUInt32LE(value: number): Promise<this> {
+        return this.writeNumber("u32le", value);
+    }
+
+    /**
+     * Reads an unsigned, big-endian 32-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned, big-endian 32-bit integer.
+     */
+    public async readUInt32BE(): Promise<number> {
+        return this.readNumber("u32be", "readUInt32BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeUInt32BE(value: number): Promise<this> {
+        return this.writeNumber("u32be", value);
+    }
+
+    /**
+     * Reads an unsigned 32-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned 32-bit integer.
+     */
+    public async readUInt32(): Promise<number> {
+        return this.readNumber("u32", "readUInt32");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeUInt32(value: number): Promise<this> {
+        return this.writeNumber("u32", value);
+    }
+
+    /**
+     * Reads a signed, little-endian 32-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed, little-endian 32-bit integer.
+     */
+    public async readInt32LE(): Promise<number> {
+        return this.readNumber("i32le", "readInt32LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeInt32LE(value: number): Promise<this> {
+        return this.writeNumber("i32le", value);
+    }
+
+    /**
+     * Reads a signed, big-endian 32-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed, big-endian 32-bit integer.
+     */
+    public async readInt32BE(): Promise<number> {
+        return this.readNumber("i32be", "readInt32BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeInt32BE(value: number): Promise<this> {
+        return this.writeNumber("i32be", value);
+    }
+
+    /**
+     * Reads a signed 32-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed 32-bit integer.
+     */
+    public async readInt32(): Promise<number> {
+        return this.readNumber("i32", "readInt32");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeInt32(value: number): Promise<this> {
+        return this.writeNumber("i32", value);
+    }
+
+    /**
+     * Reads an unsigned, little-endian 64-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} an unsigned, little-endian 64-bit integer.
+     */
+    public async readBigUInt64LE(): Promise<bigint> {
+        return this.readNumber("u64le", "readBigUInt64LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeBigUInt64LE(value: bigint): Promise<this> {
+        return this.writeNumber("u64le", value);
+    }
+
+    /**
+     * Reads an unsigned, big-endian 64-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} an unsigned, big-endian 64-bit integer.
+     */
+    public async readBigUInt64BE(): Promise<bigint> {
+        return this.readNumber("u64be", "readBigUInt64BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeBigUInt64BE(value: bigint): Promise<this> {
+        return this.writeNumber("u64be", value);
+    }
+
+    /**
+     * Reads an unsigned 64-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} an unsigned 64-bit integer.
+     */
+    public async readBigUInt64(): Promise<bigint> {
+        return this.readNumber("u64", "readBigUInt64");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeBigUInt64(value: bigint): Promise<this> {
+        return this.writeNumber("u64", value);
+    }
+
+    /**
+     * Reads a signed, little-endian 64-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} a signed, little-endian 64-bit integer.
+     */
+    public async readBigInt64LE(): Promise<bigint> {
+        return this.readNumber("i64le", "readBigInt64LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeBigInt64LE(value: bigint): Promise<this> {
+        return this.writeNumber("i64le", value);
+    }
+
+    /**
+     * Reads a signed, big-endian 64-bit integer from the file.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} a signed, big-endian 64-bit integer.
+     */
+    public async readBigInt64BE(): Promise<bigint> {
+        return this.readNumber("i64be", "readBigInt64BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeBigInt64BE(value: bigint): Promise<this> {
+        return this.writeNumber("i64be", value);
+    }
+
+    /**
+     * Reads a signed 64-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} a signed 64-bit integer.
+     */
+    public async readBigInt64(): Promise<bigint> {
+        return this.readNumber("i64", "readBigInt64");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeBigInt64(value: bigint): Promise<this> {
+        return this.writeNumber("i64", value);
+    }
+
+    /**
+     * Reads a 32-bit, little-endian float from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 32-bit, little-endian float.
+     */
+    public async readFloatLE(): Promise<number> {
+        return this.readNumber("f32le", "readFloatLE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeFloatLE(value: number): Promise<this> {
+        return this.writeNumber("f32le", value);
+    }
+
+    /**
+     * Reads a 32-bit, big-endian float from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 32-bit, big-endian float.
+     */
+    public async readFloatBE(): Promise<number> {
+        return this.readNumber("f32be", "readFloatBE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeFloatBE(value: number): Promise<this> {
+        return this.writeNumber("f32be", value);
+    }
+
+    /**
+     * Reads a 32-bit float from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 32-bit float.
+     */
+    public async readFloat(): Promise<number> {
+        return this.readNumber("f32", "readFloat");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeFloat(value: number): Promise<this> {
+        return this.writeNumber("f32", value);
+    }
+
+    /**
+     * Reads a 64-bit, little-endian double from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 64-bit, little-endian double.
+     */
+    public async readDoubleLE(): Promise<number> {
+        return this.readNumber("f64le", "readDoubleLE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeDoubleLE(value: number): Promise<this> {
+        return this.writeNumber("f64le", value);
+    }
+
+    /**
+     * Reads a 64-bit, big-endian double from the file.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 64-bit, big-endian double.
+     */
+    public async readDoubleBE(): Promise<number> {
+        return this.readNumber("f64be", "readDoubleBE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeDoubleBE(value: number): Promise<this> {
+        return this.writeNumber("f64be", value);
+    }
+
+    /**
+     * Reads a 64-bit double from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 64-bit double.
+     */
+    public async readDouble(): Promise<number> {
+        return this.readNumber("f64", "readDouble");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {Promise<this>} this filecursor.
+     */
+    public async writeDouble(value: number): Promise<this> {
+        return this.writeNumber("f64", value);
+    }
+}
+
+/**
+ * @class FileCursorSync
+ * @classdesc FileCursorSync is the synchronous variant of FileCursor, over a file descriptor.
+ * @since v1.1.0
+ */
+export class FileCursorSync {
+    public readonly fd: number;
+    private readonly cache: PageCache;
+    private owned: boolean;
+    private size: number;
+    private pos: number;
+    private endianness: Endian;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {number} fd the file descriptor to use, it stays open when the cursor is closed.
+     * @param {FileCursorOptions} options options for the cursor and the page cache.
+     */
+    constructor(fd: number, options: FileCursorOptions = {}) {
+        this.fd = fd;
+        this.cache = new PageCache(options);
+        this.owned = false;
+        this.size = fstatSync(fd).size;
+        this.pos = 0;
+        this.endianness = checkEndian(options.endian ?? "le");
+    }
+
+    /**
+     * open creates a FileCursorSync over a path or file descriptor. A file opened by path is closed by `close()`.
+     * @since v1.1.0
+     * @param {string | number} file the path or file descriptor.
+     * @param {FileCursorOptions} options options for the cursor, the page cache and opening the file.
+     * @returns {FileCursorSync} the cursor at the start of the file.
+     */
+    public static open(file: string | number, options: FileCursorOptions = {}): FileCursorSync {
+        if (typeof file === "number") return new FileCursorSync(file, options);
+        const fd = openSync(file, options.flags ?? "r");
+        try {
+            const cursor = new FileCursorSync(fd, options);
+            cursor.owned = true;
+            return cursor;
+        } catch (e) {
+            closeSync(fd);
+            throw e;
+        }
+    }
+
+    /**
+     * The default endianness.
+     * @since v1.1.0
+     * @returns {Endian} the endianness used by methods without endianness.
+     */
+    public get endian(): Endian {
+        return this.endianness;
+    }
+
+    /**
+     * setEndian sets the default endianness.
+     * @since v1.1.0
+     * @param {Endian} endian the endianness used by methods without endianness.
+     * @returns {this} this filecursor.
+     */
+    public setEndian(endian: Endian): this {
+        this.endianness = checkEndian(endian);
+        return this;
+    }
+
+    /**
+     * The length of the file, including bytes written past its original end.
+     * @since v1.1.0
+     * @returns {number} the number of bytes that can be read.
+     */
+    public get length(): number {
+        return this.size;
+    }
+
+    /**
+     * The number of pages in the cache.
+     * @since v1.1.0
+     * @returns {number} the number of cached pages.
+     */
+    public get cachedPages(): number {
+        return this.cache.size;
+    }
+
+    /**
+     * tell return the cursor position.
+     * @since v1.1.0
+     * @returns {number} cursor position.
+     */
+    public tell(): number {
+        return this.pos;
+    }
+
+    /**
+     * seek moves the cursor to given position.
+     * @since v1.1.0
+     * @param {number} pos position to move to.
+     * @returns {this} this filecursor.
+     */
+    public seek(pos: number): this {
+        if (pos < 0) throw new RangeError("Cannot seek before start of file");
+        if (pos > this.size) throw new OverflowError(this.size, this.pos, pos - this.pos, "seek");
+        this.pos = pos;
+        return this;
+    }
+
+    /**
+     * move moves the cursors by the amount of steps given.
+     * @since v1.1.0
+     * @param {number} step number of steps to move.
+     * @returns {this} this filecursor.
+     */
+    public move(step: number): this {
+        if (this.pos + step < 0) throw new RangeError("Cannot move before start of file");
+        if (this.pos + step > this.size) throw new OverflowError(this.size, this.pos, step, "move");
+        this.pos += step;
+        return this;
+    }
+
+    /**
+     * eof checks and returns if the cursor is at the end of the file.
+     * @since v1.1.0
+     * @returns {boolean} true if cursor position is at the end of the file.
+     */
+    public eof(): boolean {
+        return this.pos === this.size;
+    }
+
+    /**
+     * close drops the page cache and closes the file when it was opened by `FileCursorSync.open` with a path.
+     * @since v1.1.0
+     */
+    public close(): void {
+        this.cache.clear();
+        if (!this.owned) return;
+        this.owned = false;
+        closeSync(this.fd);
+    }
+
+    /**
+     * page returns a page of the file, from the cache or read from the file.
+     * @since v1.1.0
+     * @param {number} index the index of the page.
+     * @param {string} operation the name of the operation.
+     * @returns {Buffer} the bytes of the page, shorter than the page size at the end of the file.
+     */
+    private page(index: number, operation: string): Buffer {
+        const cached = this.cache.get(index);
+        if (cached) return cached;
+        const offset = index * this.cache.pageSize;
+        const page = Buffer.alloc(Math.min(this.cache.pageSize, this.size - offset));
+        let done = 0;
+        while (done < page.length) {
+            const bytesRead = readSync(this.fd, page, done, page.length - done, offset + done);
+            if (bytesRead === 0) throw new OverflowError(offset + done, offset + done, page.length - done, operation);
+            done += bytesRead;
+        }
+        this.cache.set(index, page);
+        return page;
+    }
+
+    /**
+     * load returns the bytes at an offset, without copying when they are in a single page.
+     * @since v1.1.0
+     * @param {number} offset the offset in the file.
+     * @param {number} size the number of bytes.
+     * @param {string} operation the name of the operation.
+     * @returns {Buffer} the bytes, shared with the page cache.
+     */
+    private load(offset: number, size: number, operation: string): Buffer {
+        checkBounds(this.size, offset, size, operation);
+        const [first, last] = this.cache.range(offset, size);
+        const pages: Buffer[] = [];
+        for (let index = first; index <= last; index++) pages.push(this.page(index, operation));
+        return this.cache.join(pages, offset, size);
+    }
+
+    /**
+     * take returns the bytes at the cursor position and moves past them, the cursor doesn't move when the read fails.
+     * @since v1.1.0
+     * @param {number} size the number of bytes.
+     * @param {string} operation the name of the operation.
+     * @returns {Buffer} the bytes, shared with the page cache.
+     */
+    private take(size: number, operation: string): Buffer {
+        const ret = this.load(this.pos, size, operation);
+        this.pos += size;
+        return ret;
+    }
+
+    /**
+     * store writes bytes at an offset and drops the cached pages they overlap, the file grows when they are past its end.
+     * @since v1.1.0
+     * @param {number} offset the offset in the file.
+     * @param {Buffer} bytes the bytes to write.
+     */
+    private store(offset: number, bytes: Buffer): void {
+        try {
+            let done = 0;
+            while (done < bytes.length) done += writeSync(this.fd, bytes, done, bytes.length - done, offset + done);
+        } finally {
+            this.cache.invalidate(offset, bytes.length);
+        }
+        this.size = Math.max(this.size, offset + bytes.length);
+    }
+
+    /**
+     * put writes bytes at the cursor position and moves past them, the cursor doesn't move when the write fails.
+     * @since v1.1.0
+     * @param {Buffer} bytes the bytes to write.
+     * @returns {this} this filecursor.
+     */
+    private put(bytes: Buffer): this {
+        this.store(this.pos, bytes);
+        this.pos += bytes.length;
+        return this;
+    }
+
+    /**
+     * readNumber reads a number of the given type at the cursor position.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag.
+     * @param {string} operation the name of the operation.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    private readNumber<T extends NumberTag>(type: T, operation: string): NumberTypes[T] {
+        const { size, read } = getNumberType(type, this.endianness);
+        return read(dataViewOf(this.take(size, operation)), 0) as NumberTypes[T];
+    }
+
+    /**
+     * writeNumber writes a number of the given type at the cursor position.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag.
+     * @param {NumberTypes[T]} value the number to write.
+     * @returns {this} this filecursor.
+     */
+    private writeNumber<T extends NumberTag>(type: T, value: NumberTypes[T]): this {
+        const { size, write } = getNumberType(type, this.endianness);
+        const bytes = Buffer.alloc(size);
+        write(dataViewOf(bytes), 0, value);
+        return this.put(bytes);
+    }
+
+    /**
+     * Reads a number of the given type from the file at the current position.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    public read<T extends NumberTag>(type: T): NumberTypes[T] {
+        return this.readNumber(type, "read");
+    }
+
+    /**
+     * Writes a number of the given type to the file at the current position.
+     * It is called writeValue and not write because `write(value, length)` writes strings.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @param {NumberTypes[T]} value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeValue<T extends NumberTag>(type: T, value: NumberTypes[T]): this {
+        return this.writeNumber(type, value);
+    }
+
+    /**
+     * Reads a number of the given type from the file without moving the cursor.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    public peek<T extends NumberTag>(type: T): NumberTypes[T] {
+        const { size, read } = getNumberType(type, this.endianness);
+        return read(dataViewOf(this.load(this.pos, size, "peek")), 0) as NumberTypes[T];
+    }
+
+    /**
+     * Reads a number of the given type from the file at an absolute offset, without moving the cursor.
+     * @since v1.1.0
+     * @template T
+     * @param {number} offset the absolute offset to read at.
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {NumberTypes[T]} the number read.
+     */
+    public readAt<T extends NumberTag>(offset: number, type: T): NumberTypes[T] {
+        const { size, read } = getNumberType(type, this.endianness);
+        return read(dataViewOf(this.load(offset, size, "readAt")), 0) as NumberTypes[T];
+    }
+
+    /**
+     * Writes a number of the given type to the file at an absolute offset, without moving the cursor.
+     * The offset must be inside the file, it doesn't grow.
+     * @since v1.1.0
+     * @template T
+     * @param {number} offset the absolute offset to write at.
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @param {NumberTypes[T]} value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeAt<T extends NumberTag>(offset: number, type: T, value: NumberTypes[T]): this {
+        const { size, write } = getNumberType(type, this.endianness);
+        checkBounds(this.size, offset, size, "writeAt");
+        const bytes = Buffer.alloc(size);
+        write(dataViewOf(bytes), 0, value);
+        this.store(offset, bytes);
+        return this;
+    }
+
+    /**
+     * Reads bytes from the file into a new `Uint8Array`.
+     * @since v1.1.0
+     * @param {number} count the number of bytes.
+     * @returns {Uint8Array} a copy of the bytes.
+     */
+    public readUInt8Array(count: number): Uint8Array {
+        return Buffer.from(this.take(count, "readUInt8Array"));
+    }
+
+    /**
+     * Reads the given number of bytes into a new `BufferCursor`, so parsers for buffers can run on a region of the file.
+     * @since v1.1.0
+     * @param {number | undefined} length the length of the new `BufferCursor`. Default the rest of the file.
+     * @returns {BufferCursor} a `BufferCursor` over a copy of the bytes.
+     */
+    public slice(length: number = this.size - this.pos): BufferCursor {
+        return new BufferCursor(Buffer.from(this.take(length, "slice")), { endian: this.endianness });
+    }
+
+    /**
+     * Decodes bytes from the file to a string according to the specified character encoding in `encoding`.
+     * @since v1.1.0
+     * @param {BufferEncoding | undefined} encoding The character encoding to use. Default "utf8".
+     * @param {number | undefined} length The number of bytes to decode. Default the rest of the file.
+     * @returns {string} a string according to the specified character encoding.
+     */
+    public toString(encoding: BufferEncoding = "utf8", length: number = this.size - this.pos): string {
+        return this.take(length, "toString").toString(encoding);
+    }
+
+    /**
+     * Reads a NUL terminated string from the file, the terminator is consumed but not returned.
+     * @since v1.1.0
+     * @param {BufferEncoding} encoding The character encoding to use. Default "utf8".
+     * @returns {string} the string before the terminator.
+     */
+    public readCString(encoding: BufferEncoding = "utf8"): string {
+        const { pageSize } = this.cache;
+        const terminator = terminatorSize(encoding);
+        let end = -1;
+        let offset = this.pos;
+        while (end === -1 && offset + terminator <= this.size) {
+            const page = this.page(Math.floor(offset / pageSize), "readCString");
+            const index = page.indexOf(0, offset % pageSize);
+            if (index === -1) {
+                offset = (Math.floor(offset / pageSize) + 1) * pageSize;
+                continue;
+            }
+            const found = offset - offset % pageSize + index;
+            if (terminator === 1) end = found;
+            else if ((found - this.pos) % 2 === 0 && found + 1 < this.size && this.readAt(found + 1, "u8") === 0) end = found;
+            else offset = found + 1;
+        }
+        if (end === -1) throw new OverflowError(this.size, this.pos, this.size - this.pos + terminator, "readCString");
+        const ret = this.take(end - this.pos, "readCString").toString(encoding);
+        this.pos += terminator;
+        return ret;
+    }
+
+    /**
+     * write writes a string to the file.
+     * Numbers are written by tag with writeValue.
+     * @since v1.1.0
+     * @param {string} value the string to write to the file.
+     * @param {number | undefined} length the maximum number of bytes to write. Default the byte length of the string.
+     * @param {BufferEncoding | undefined} encoding the encoding to be used.
+     * @returns {this} this filecursor.
+     */
+    public write(value: string, length?: number, encoding?: BufferEncoding): this {
+        const bytes = Buffer.from(value, encoding);
+        return this.put(length === undefined ? bytes : bytes.subarray(0, length));
+    }
+
+    /**
+     * writeBuff writes a buffer to the file.
+     * @since v1.1.0
+     * @param {Buffer} value the buffer to write to the file.
+     * @param {number | undefined} length the length of the buffer to be writen.
+     * @returns {this} this filecursor.
+     */
+    public writeBuff(value: Buffer, length: number = value.length): this {
+        return this.put(value.subarray(0, length));
+    }
+
+    /**
+     * Writes bytes to the file at the current position.
+     * @since v1.1.0
+     * @param {Uint8Array} values the bytes to write.
+     * @returns {this} this filecursor.
+     */
+    public writeUInt8Array(values: Uint8Array): this {
+        return this.put(Buffer.from(values.buffer, values.byteOffset, values.byteLength));
+    }
+
+    /**
+     * Reads an unsigned 8-bit integer from the file.
+     * @since v1.1.0
+     * @returns {number} an unsigned 8-bit integer.
+     */
+    public readUInt8(): number {
+        return this.readNumber("u8", "readUInt8");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeUInt8(value: number): this {
+        return this.writeNumber("u8", value);
+    }
+
+    /**
+     * Reads a signed 8-bit integer from the file.
+     * @since v1.1.0
+     * @returns {number} a signed 8-bit integer.
+     */
+    public readInt8(): number {
+        return this.readNumber("i8", "readInt8");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeInt8(value: number): this {
+        return this.writeNumber("i8", value);
+    }
+
+    /**
+     * Reads an unsigned, little-endian 16-bit integer from the file.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 16-bit integer.
+     */
+    public readUInt16LE(): number {
+        return this.readNumber("u16le", "readUInt16LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeUInt16LE(value: number): this {
+        return this.writeNumber("u16le", value);
+    }
+
+    /**
+     * Reads an unsigned, big-endian 16-bit integer from the file.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 16-bit integer.
+     */
+    public readUInt16BE(): number {
+        return this.readNumber("u16be", "readUInt16BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeUInt16BE(value: number): this {
+        return this.writeNumber("u16be", value);
+    }
+
+    /**
+     * Reads an unsigned 16-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {number} an unsigned 16-bit integer.
+     */
+    public readUInt16(): number {
+        return this.readNumber("u16", "readUInt16");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeUInt16(value: number): this {
+        return this.writeNumber("u16", value);
+    }
+
+    /**
+     * Reads a signed, little-endian 16-bit integer from the file.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 16-bit integer.
+     */
+    public readInt16LE(): number {
+        return this.readNumber("i16le", "readInt16LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeInt16LE(value: number): this {
+        return this.writeNumber("i16le", value);
+    }
+
+    /**
+     * Reads a signed, big-endian 16-bit integer from the file.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 16-bit integer.
+     */
+    public readInt16BE(): number {
+        return this.readNumber("i16be", "readInt16BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeInt16BE(value: number): this {
+        return this.writeNumber("i16be", value);
+    }
+
+    /**
+     * Reads a signed 16-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a signed 16-bit integer.
+     */
+    public readInt16(): number {
+        return this.readNumber("i16", "readInt16");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeInt16(value: number): this {
+        return this.writeNumber("i16", value);
+    }
+
+    /**
+     * Reads an unsigned, little-endian 32-bit integer from the file.
+     * @since v1.1.0
+     * @returns {number} an unsigned, little-endian 32-bit integer.
+     */
+    public readUInt32LE(): number {
+        return this.readNumber("u32le", "readUInt32LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeUInt32LE(value: number): this {
+        return this.writeNumber("u32le", value);
+    }
+
+    /**
+     * Reads an unsigned, big-endian 32-bit integer from the file.
+     * @since v1.1.0
+     * @returns {number} an unsigned, big-endian 32-bit integer.
+     */
+    public readUInt32BE(): number {
+        return this.readNumber("u32be", "readUInt32BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeUInt32BE(value: number): this {
+        return this.writeNumber("u32be", value);
+    }
+
+    /**
+     * Reads an unsigned 32-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {number} an unsigned 32-bit integer.
+     */
+    public readUInt32(): number {
+        return this.readNumber("u32", "readUInt32");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeUInt32(value: number): this {
+        return this.writeNumber("u32", value);
+    }
+
+    /**
+     * Reads a signed, little-endian 32-bit integer from the file.
+     * @since v1.1.0
+     * @returns {number} a signed, little-endian 32-bit integer.
+     */
+    public readInt32LE(): number {
+        return this.readNumber("i32le", "readInt32LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeInt32LE(value: number): this {
+        return this.writeNumber("i32le", value);
+    }
+
+    /**
+     * Reads a signed, big-endian 32-bit integer from the file.
+     * @since v1.1.0
+     * @returns {number} a signed, big-endian 32-bit integer.
+     */
+    public readInt32BE(): number {
+        return this.readNumber("i32be", "readInt32BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeInt32BE(value: number): this {
+        return this.writeNumber("i32be", value);
+    }
+
+    /**
+     * Reads a signed 32-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a signed 32-bit integer.
+     */
+    public readInt32(): number {
+        return this.readNumber("i32", "readInt32");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeInt32(value: number): this {
+        return this.writeNumber("i32", value);
+    }
+
+    /**
+     * Reads an unsigned, little-endian 64-bit integer from the file.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned, little-endian 64-bit integer.
+     */
+    public readBigUInt64LE(): bigint {
+        return this.readNumber("u64le", "readBigUInt64LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeBigUInt64LE(value: bigint): this {
+        return this.writeNumber("u64le", value);
+    }
+
+    /**
+     * Reads an unsigned, big-endian 64-bit integer from the file.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned, big-endian 64-bit integer.
+     */
+    public readBigUInt64BE(): bigint {
+        return this.readNumber("u64be", "readBigUInt64BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeBigUInt64BE(value: bigint): this {
+        return this.writeNumber("u64be", value);
+    }
+
+    /**
+     * Reads an unsigned 64-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {bigint} an unsigned 64-bit integer.
+     */
+    public readBigUInt64(): bigint {
+        return this.readNumber("u64", "readBigUInt64");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeBigUInt64(value: bigint): this {
+        return this.writeNumber("u64", value);
+    }
+
+    /**
+     * Reads a signed, little-endian 64-bit integer from the file.
+     * @since v1.1.0
+     * @returns {bigint} a signed, little-endian 64-bit integer.
+     */
+    public readBigInt64LE(): bigint {
+        return this.readNumber("i64le", "readBigInt64LE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeBigInt64LE(value: bigint): this {
+        return this.writeNumber("i64le", value);
+    }
+
+    /**
+     * Reads a signed, big-endian 64-bit integer from the file.
+     * @since v1.1.0
+     * @returns {bigint} a signed, big-endian 64-bit integer.
+     */
+    public readBigInt64BE(): bigint {
+        return this.readNumber("i64be", "readBigInt64BE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeBigInt64BE(value: bigint): this {
+        return this.writeNumber("i64be", value);
+    }
+
+    /**
+     * Reads a signed 64-bit integer from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {bigint} a signed 64-bit integer.
+     */
+    public readBigInt64(): bigint {
+        return this.readNumber("i64", "readBigInt64");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeBigInt64(value: bigint): this {
+        return this.writeNumber("i64", value);
+    }
+
+    /**
+     * Reads a 32-bit, little-endian float from the file.
+     * @since v1.1.0
+     * @returns {number} a 32-bit, little-endian float.
+     */
+    public readFloatLE(): number {
+        return this.readNumber("f32le", "readFloatLE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeFloatLE(value: number): this {
+        return this.writeNumber("f32le", value);
+    }
+
+    /**
+     * Reads a 32-bit, big-endian float from the file.
+     * @since v1.1.0
+     * @returns {number} a 32-bit, big-endian float.
+     */
+    public readFloatBE(): number {
+        return this.readNumber("f32be", "readFloatBE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeFloatBE(value: number): this {
+        return this.writeNumber("f32be", value);
+    }
+
+    /**
+     * Reads a 32-bit float from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a 32-bit float.
+     */
+    public readFloat(): number {
+        return this.readNumber("f32", "readFloat");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeFloat(value: number): this {
+        return this.writeNumber("f32", value);
+    }
+
+    /**
+     * Reads a 64-bit, little-endian double from the file.
+     * @since v1.1.0
+     * @returns {number} a 64-bit, little-endian double.
+     */
+    public readDoubleLE(): number {
+        return this.readNumber("f64le", "readDoubleLE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeDoubleLE(value: number): this {
+        return this.writeNumber("f64le", value);
+    }
+
+    /**
+     * Reads a 64-bit, big-endian double from the file.
+     * @since v1.1.0
+     * @returns {number} a 64-bit, big-endian double.
+     */
+    public readDoubleBE(): number {
+        return this.readNumber("f64be", "readDoubleBE");
+    }
+
+    /**
+     * Writes value to the file at the current position.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeDoubleBE(value: number): this {
+        return this.writeNumber("f64be", value);
+    }
+
+    /**
+     * Reads a 64-bit double from the file using the default endianness.
+     * @since v1.1.0
+     * @returns {number} a 64-bit double.
+     */
+    public readDouble(): number {
+        return this.readNumber("f64", "readDouble");
+    }
+
+    /**
+     * Writes value to the file at the current position using the default endianness.
+     * @since v1.1.0
+     * @param value Number to be written to the file.
+     * @returns {this} this filecursor.
+     */
+    public writeDouble(value: number): this {
+        return this.writeNumber("f64", value);
+    }
+}
@@ -0,0 +1,126 @@
+import { constants } from "buffer";
+import { BufferCursor, BufferCursorOptions } from "./buffercursor";
+import { OverflowError } from "./overflowError";
+
+/**
+ * GrowthStrategy calculates the new capacity of a GrowableBufferCursor.
+ * @since v1.1.0
+ * @param {number} capacity the current capacity.
+ * @param {number} required the capacity needed for the pending write.
+ * @returns {number} the new capacity, values below `required` are raised to `required`.
+ */
+export type GrowthStrategy = (capacity: number, required: number) => number;
+
+/**
+ * Common growth strategies for a GrowableBufferCursor.
+ * @since v1.1.0
+ */
+export const growthStrategies = {
+    /** Doubles the capacity until the write fits. */
+    double: ((capacity, required) => {
+        let next = Math.max(capacity, 1);
+        while (next < required) next *= 2;
+        return next;
+    }) as GrowthStrategy,
+    /** Grows exactly to the size needed for the write. */
+    exact: ((_capacity, required) => required) as GrowthStrategy,
+    /**
+     * Grows in multiples of step.
+     * @param {number} step number of bytes to grow with.
+     */
+    linear: (step: number): GrowthStrategy => (capacity, required) =>
+        capacity + Math.ceil((required - capacity) / step) * step,
+};
+
+/**
+ * Options for a GrowableBufferCursor.
+ * @since v1.1.0
+ */
+export interface GrowableBufferCursorOptions extends BufferCursorOptions {
+    /** Number of bytes to allocate up front. Default 64. */
+    initialCapacity?: number;
+    /** Maximum number of bytes the cursor may allocate. Default `buffer.constants.MAX_LENGTH`. */
+    maxCapacity?: number;
+    /** Strategy used to calculate the new capacity. Default `growthStrategies.double`. */
+    growth?: GrowthStrategy;
+}
+
+/**
+ * @class GrowableBufferCursor
+ * @extends BufferCursor
+ * @classdesc GrowableBufferCursor is a BufferCursor that reallocates its buffer when writing beyond the end.
+ * `length` is the number of bytes written, `capacity` is the number of bytes allocated.
+ * @since v1.1.0
+ */
+export class GrowableBufferCursor extends BufferCursor {
+    public readonly maxCapacity: number;
+    private readonly growth: GrowthStrategy;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {GrowableBufferCursorOptions} options options for allocating and growing the buffer.
+     */
+    constructor(options: GrowableBufferCursorOptions = {}) {
+        const {
+            initialCapacity = 64,
+            maxCapacity = constants.MAX_LENGTH,
+            growth = growthStrategies.double,
+        } = options;
+        if (initialCapacity < 0 || initialCapacity > maxCapacity)
+            throw new RangeError("initialCapacity must be between 0 and maxCapacity");
+        super(Buffer.alloc(initialCapacity), options);
+        this.size = 0;
+        this.maxCapacity = maxCapacity;
+        this.growth = growth;
+    }
+
+    /**
+     * The bytes written so far, without the unused capacity.
+     * The returned buffer references the same memory until the next reallocation.
+     * @since v1.1.0
+     * @returns {Buffer} the written part of the buffer.
+     */
+    public get buffer(): Buffer {
+        return this.bytes.subarray(0, this.size);
+    }
+
+    /**
+     * The number of bytes allocated.
+     * @since v1.1.0
+     * @returns {number} the size of the allocated buffer.
+     */
+    public get capacity(): number {
+        return this.bytes.length;
+    }
+
+    /**
+     * ensureCapacity grows the buffer and the length to fit a write of given size.
+     * The length is restored by safeReserve when the write fails.
+     * @since v1.1.0
+     * @param {number} size number of bytes about to be written.
+     * @param {string | undefined} operation the name of the operation.
+     */
+    protected ensureCapacity(size: number, operation?: string): void {
+        const required = this.pos + size;
+        if (required <= this.size) return;
+        if (required > this.bytes.length) this.grow(required, operation);
+        this.size = required;
+    }
+
+    /**
+     * grow reallocates the buffer using the growth strategy.
+     * @since v1.1.0
+     * @param {number} required the minimum capacity needed.
+     * @param {string | undefined} operation the name of the operation.
+     */
+    private grow(required: number, operation?: string): void {
+        if (required > this.maxCapacity)
+            throw new OverflowError(this.maxCapacity, this.pos, required - this.pos, operation);
+
+        const capacity = Math.min(Math.max(this.growth(this.bytes.length, required), required), this.maxCapacity);
+        const buf = Buffer.alloc(capacity);
+        this.bytes.copy(buf, 0, 0, this.size);
+        this.bytes = buf;
+    }
+}
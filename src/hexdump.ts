@@ -0,0 +1,107 @@
+import { OverflowError } from "./overflowError";
+
+/**
+ * HexdumpRegion labels a range of bytes in a hexdump, like a field read by a schema.
+ * @since v1.1.0
+ */
+export interface HexdumpRegion {
+    /** The absolute offset of the first byte. */
+    offset: number;
+    /** The number of bytes. */
+    length: number;
+    /** The label shown under the bytes. */
+    label: string;
+}
+
+/**
+ * Options for hexdump.
+ * @since v1.1.0
+ */
+export interface HexdumpOptions {
+    /** The absolute offset to start at. Default the start of the data. */
+    start?: number;
+    /** The number of bytes to dump. Default the rest of the data. */
+    length?: number;
+    /** The number of bytes per row. Default 16. */
+    bytesPerRow?: number;
+    /** The number of bytes per group, groups are separated by an extra space. 0 disables grouping. Default 8. */
+    group?: number;
+    /** Show the ASCII gutter. Default true. */
+    ascii?: boolean;
+    /** The offset to highlight, the cursors default to their position. -1 disables it. */
+    position?: number;
+    /** Labeled ranges, underlined with their label. */
+    regions?: HexdumpRegion[];
+}
+
+/**
+ * inspectCustom is `util.inspect.custom`, without importing `util`.
+ * @since v1.1.0
+ */
+export const inspectCustom: unique symbol = Symbol.for("nodejs.util.inspect.custom");
+
+/**
+ * toHex formats a byte as 2 hex digits.
+ * @since v1.1.0
+ * @param {number} byte the byte.
+ * @returns {string} the hex digits.
+ */
+function toHex(byte: number): string {
+    return (byte < 0x10 ? "0" : "") + byte.toString(16);
+}
+
+/**
+ * hexdump renders bytes like `hexdump -C`, with the highlighted position in brackets and labeled regions underlined.
+ * Rows are aligned to absolute offsets.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes.
+ * @param {HexdumpOptions} options the range, layout, position and regions.
+ * @param {number} base the absolute offset of the first byte. Default 0.
+ * @returns {string} the hexdump, one row per line.
+ */
+export function hexdump(bytes: Uint8Array, options: HexdumpOptions = {}, base: number = 0): string {
+    const { bytesPerRow = 16, group = 8, ascii = true, regions = [] } = options;
+    const start = options.start ?? base;
+    const end = options.length === undefined ? base + bytes.length : start + options.length;
+    if (!(bytesPerRow >= 1) || !(group >= 0)) throw new RangeError("bytesPerRow must be at least 1 and group can't be negative");
+    if (start < base || end < start || end > base + bytes.length)
+        throw new OverflowError(bytes.length, start - base, end - start, "hexdump");
+
+    // One extra cell shows a position at the end of the data.
+    const last = options.position === end ? end + 1 : end;
+    const position = options.position !== undefined && options.position >= start && options.position < last ? options.position : -1;
+    const lines: string[] = [];
+    for (let row = start - (start - base) % bytesPerRow; row < last; row += bytesPerRow) {
+        let line = row.toString(16).padStart(8, "0") + " ";
+        let text = "";
+        const columns: number[] = [];
+        for (let j = 0; j < bytesPerRow; j++) {
+            const offset = row + j;
+            let separator = j > 0 && group > 0 && j % group === 0 ? "  " : " ";
+            if (j > 0 && offset - 1 === position) separator = "]" + separator.slice(1);
+            if (offset === position) separator = separator.slice(0, -1) + "[";
+            line += separator;
+            columns.push(line.length);
+            if (offset >= start && offset < end) {
+                const byte = bytes[offset - base]!;
+                line += toHex(byte);
+                text += byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".";
+            } else {
+                line += offset === position ? ".." : "  ";
+                if (offset < start) text += " ";
+            }
+        }
+        line += row + bytesPerRow - 1 === position ? "]" : " ";
+        if (ascii) line += ` |${text}|`;
+        lines.push(line.trimEnd());
+
+        for (const region of regions) {
+            const from = Math.max(region.offset, row, start);
+            const to = Math.min(region.offset + region.length, row + bytesPerRow, end) - 1;
+            if (to < from) continue;
+            const left = columns[from - row]!;
+            lines.push(`${" ".repeat(left)}${"~".repeat(columns[to - row]! + 2 - left)} ${region.label}`);
+        }
+    }
+    return lines.join("\n");
+}
@@ -1,2 +1,22 @@
 export * from "./buffercursor";
 export * from "./overflowError";
+export * from "./errors";
+export * from "./hexdump";
+export * from "./integers";
+export * from "./numberFormats";
+export * from "./checksum";
+export * from "./placeholder";
+export * from "./typedArrays";
+export * from "./search";
+export * from "./msgpack";
+export * from "./protobuf";
+export * from "./growableBufferCursor";
+export * from "./bitCursor";
+export * from "./schema";
+export * from "./numberTypes";
+export * from "./streamCursor";
+export * from "./fileCursor";
+export * from "./cursor";
+export * from "./chunkCursor";
+export * from "./encoding";
+export * from "./dataViewCursor";
@@ -0,0 +1,116 @@
+import type { Endian } from "./numberTypes";
+
+/**
+ * checkByteLength checks the byte length of an arbitrary-width integer, like Buffer does.
+ * @since v1.1.0
+ * @param {number} byteLength the number of bytes of the integer.
+ * @param {number} max the maximum number of bytes, 6 for numbers.
+ */
+export function checkByteLength(byteLength: number, max: number = Number.MAX_SAFE_INTEGER): void {
+    if (!Number.isInteger(byteLength) || byteLength < 1 || byteLength > max)
+        throw new RangeError(`The value of "byteLength" is out of range. It must be >= 1 and <= ${max}. Received ${byteLength}`);
+}
+
+/**
+ * checkIntValue checks that a value fits an integer of the given byte length, like Buffer does.
+ * @since v1.1.0
+ * @param {number} value the value to check.
+ * @param {number} byteLength the number of bytes of the integer.
+ * @param {boolean} signed whether the integer is signed.
+ */
+export function checkIntValue(value: number, byteLength: number, signed: boolean): void {
+    const bits = byteLength * 8;
+    const min = signed ? -(2 ** (bits - 1)) : 0;
+    const max = signed ? 2 ** (bits - 1) - 1 : 2 ** bits - 1;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max)
+        throw new RangeError(`The value of "value" is out of range. It must be >= ${min} and <= ${max}. Received ${value}`);
+}
+
+/**
+ * checkBigIntValue checks that a bigint fits an integer of the given byte length.
+ * @since v1.1.0
+ * @param {bigint} value the value to check.
+ * @param {number} byteLength the number of bytes of the integer.
+ * @param {boolean} signed whether the integer is signed.
+ */
+export function checkBigIntValue(value: bigint, byteLength: number, signed: boolean): void {
+    const bits = BigInt(byteLength * 8);
+    const min = signed ? -(BigInt(1) << (bits - BigInt(1))) : BigInt(0);
+    const max = signed ? (BigInt(1) << (bits - BigInt(1))) - BigInt(1) : (BigInt(1) << bits) - BigInt(1);
+    if (typeof value !== "bigint" || value < min || value > max)
+        throw new RangeError(`The value of "value" is out of range. It must be >= ${min} and <= ${max}. Received ${value}`);
+}
+
+/**
+ * decodeInt decodes an integer of up to 6 bytes to a number.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to read from.
+ * @param {number} offset the offset of the integer.
+ * @param {number} byteLength the number of bytes of the integer.
+ * @param {Endian} endian the endianness of the integer.
+ * @param {boolean} signed whether the integer is signed.
+ * @returns {number} the decoded integer.
+ */
+export function decodeInt(bytes: Uint8Array, offset: number, byteLength: number, endian: Endian, signed: boolean): number {
+    let value = 0;
+    for (let i = 0; i < byteLength; i++)
+        value = value * 0x100 + bytes[offset + (endian === "le" ? byteLength - 1 - i : i)]!;
+    const bits = byteLength * 8;
+    if (signed && value >= 2 ** (bits - 1)) value -= 2 ** bits;
+    return value;
+}
+
+/**
+ * decodeBigInt decodes an integer of any byte length to a bigint.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to read from.
+ * @param {number} offset the offset of the integer.
+ * @param {number} byteLength the number of bytes of the integer.
+ * @param {Endian} endian the endianness of the integer.
+ * @param {boolean} signed whether the integer is signed.
+ * @returns {bigint} the decoded integer.
+ */
+export function decodeBigInt(bytes: Uint8Array, offset: number, byteLength: number, endian: Endian, signed: boolean): bigint {
+    let value = BigInt(0);
+    for (let i = 0; i < byteLength; i++)
+        value = (value << BigInt(8)) | BigInt(bytes[offset + (endian === "le" ? byteLength - 1 - i : i)]!);
+    const bits = BigInt(byteLength * 8);
+    if (signed && value >> (bits - BigInt(1))) value -= BigInt(1) << bits;
+    return value;
+}
+
+/**
+ * encodeInt encodes a number as an integer of up to 6 bytes, two's complement when negative.
+ * The value must be checked with checkIntValue first.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to write to.
+ * @param {number} offset the offset of the integer.
+ * @param {number} byteLength the number of bytes of the integer.
+ * @param {number} value the integer to encode.
+ * @param {Endian} endian the endianness of the integer.
+ */
+export function encodeInt(bytes: Uint8Array, offset: number, byteLength: number, value: number, endian: Endian): void {
+    let rest = value < 0 ? value + 2 ** (byteLength * 8) : value;
+    for (let i = 0; i < byteLength; i++) {
+        bytes[offset + (endian === "le" ? i : byteLength - 1 - i)] = rest % 0x100;
+        rest = Math.floor(rest / 0x100);
+    }
+}
+
+/**
+ * encodeBigInt encodes a bigint as an integer of any byte length, two's complement when negative.
+ * The value must be checked with checkBigIntValue first.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to write to.
+ * @param {number} offset the offset of the integer.
+ * @param {number} byteLength the number of bytes of the integer.
+ * @param {bigint} value the integer to encode.
+ * @param {Endian} endian the endianness of the integer.
+ */
+export function encodeBigInt(bytes: Uint8Array, offset: number, byteLength: number, value: bigint, endian: Endian): void {
+    let rest = value < BigInt(0) ? value + (BigInt(1) << BigInt(byteLength * 8)) : value;
+    for (let i = 0; i < byteLength; i++) {
+        bytes[offset + (endian === "le" ? i : byteLength - 1 - i)] = Number(rest & BigInt(0xff));
+        rest >>= BigInt(8);
+    }
+}
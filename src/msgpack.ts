@@ -0,0 +1,576 @@
+import type { Cursor } from "./cursor";
+import { decodeString, encodeString } from "./encoding";
+import { EncodingError } from "./errors";
+
+/**
+ * MsgPackWriter is what MessagePack is written to, like a BufferCursor, GrowableBufferCursor or DataViewCursor.
+ * @since v1.1.0
+ */
+export interface MsgPackWriter {
+    tell(): number;
+    seek(pos: number): unknown;
+    writeUInt8(value: number): unknown;
+    writeUInt16BE(value: number): unknown;
+    writeUInt32BE(value: number): unknown;
+    writeInt8(value: number): unknown;
+    writeInt16BE(value: number): unknown;
+    writeInt32BE(value: number): unknown;
+    writeBigUInt64BE(value: bigint): unknown;
+    writeBigInt64BE(value: bigint): unknown;
+    writeFloatBE(value: number): unknown;
+    writeDoubleBE(value: number): unknown;
+    writeUInt8Array(values: Uint8Array): unknown;
+}
+
+/**
+ * MsgPackExtension converts values of an application type to and from a MessagePack ext type.
+ * @since v1.1.0
+ */
+export interface MsgPackExtension<T> {
+    /** The ext type, 0 to 127 for applications, negative types are reserved by the spec. */
+    type: number;
+    /** Checks if a value is written with this extension. */
+    is(value: unknown): value is T;
+    /** Encodes a value to the data of the ext. */
+    encode(value: T): Uint8Array;
+    /** Decodes the data of the ext. */
+    decode(data: Uint8Array): T;
+}
+
+/**
+ * @class MsgPackExt
+ * @classdesc MsgPackExt is an ext value of a type without a registered extension.
+ * @since v1.1.0
+ */
+export class MsgPackExt {
+    public readonly type: number;
+    public readonly data: Uint8Array;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {number} type the ext type, -128 to 127.
+     * @param {Uint8Array} data the data of the ext.
+     */
+    constructor(type: number, data: Uint8Array) {
+        this.type = type;
+        this.data = data;
+    }
+}
+
+/**
+ * timestampExtension reads and writes Dates as the MessagePack timestamp ext type -1,
+ * in the 32, 64 or 96-bit format depending on the date.
+ * @since v1.1.0
+ */
+export const timestampExtension: MsgPackExtension<Date> = {
+    type: -1,
+    is: (value): value is Date => value instanceof Date,
+    encode(value) {
+        const ms = value.getTime();
+        if (Number.isNaN(ms)) throw new RangeError("Invalid Date can't be written as a timestamp");
+        const seconds = Math.floor(ms / 1000);
+        const nanoseconds = (ms - seconds * 1000) * 1e6;
+        if (seconds >= 0 && seconds < 2 ** 34) {
+            if (nanoseconds === 0 && seconds < 2 ** 32) {
+                const data = new Uint8Array(4);
+                new DataView(data.buffer).setUint32(0, seconds);
+                return data;
+            }
+            const data = new Uint8Array(8);
+            const view = new DataView(data.buffer);
+            view.setUint32(0, nanoseconds * 4 + Math.floor(seconds / 2 ** 32));
+            view.setUint32(4, seconds % 2 ** 32);
+            return data;
+        }
+        const data = new Uint8Array(12);
+        const view = new DataView(data.buffer);
+        view.setUint32(0, nanoseconds);
+        view.setBigInt64(4, BigInt(seconds));
+        return data;
+    },
+    decode(data) {
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        let seconds: number;
+        let nanoseconds = 0;
+        if (data.length === 4) {
+            seconds = view.getUint32(0);
+        } else if (data.length === 8) {
+            const high = view.getUint32(0);
+            nanoseconds = Math.floor(high / 4);
+            seconds = (high % 4) * 2 ** 32 + view.getUint32(4);
+        } else if (data.length === 12) {
+            nanoseconds = view.getUint32(0);
+            seconds = Number(view.getBigInt64(4));
+        } else {
+            throw new RangeError(`A timestamp must be 4, 8 or 12 bytes. Received ${data.length}`);
+        }
+        if (nanoseconds > 999999999)
+            throw new RangeError(`The nanoseconds of a timestamp must be <= 999999999. Received ${nanoseconds}`);
+        return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+    },
+};
+
+/**
+ * @class MsgPackExtensions
+ * @classdesc MsgPackExtensions is a registry of ext types, the timestamp extension is registered by default.
+ * @since v1.1.0
+ */
+export class MsgPackExtensions {
+    private readonly extensions: MsgPackExtension<unknown>[] = [];
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {MsgPackExtension<unknown>[]} extensions the extensions to register. Default the timestamp extension.
+     */
+    constructor(extensions: MsgPackExtension<unknown>[] = [timestampExtension]) {
+        for (const extension of extensions) this.register(extension);
+    }
+
+    /**
+     * register adds an extension, replacing the extension of the same type.
+     * Extensions registered later are checked first when writing.
+     * @since v1.1.0
+     * @param {MsgPackExtension<unknown>} extension the extension.
+     * @returns {this} this registry.
+     */
+    public register(extension: MsgPackExtension<unknown>): this {
+        if (!Number.isInteger(extension.type) || extension.type < -128 || extension.type > 127)
+            throw new RangeError(`An ext type must be an integer between -128 and 127. Received ${extension.type}`);
+        const index = this.extensions.findIndex(e => e.type === extension.type);
+        if (index !== -1) this.extensions.splice(index, 1);
+        this.extensions.push(extension);
+        return this;
+    }
+
+    /**
+     * get finds the extension of an ext type.
+     * @since v1.1.0
+     * @param {number} type the ext type.
+     * @returns {MsgPackExtension<unknown> | undefined} the extension, or undefined when the type isn't registered.
+     */
+    public get(type: number): MsgPackExtension<unknown> | undefined {
+        for (let i = this.extensions.length - 1; i >= 0; i--)
+            if (this.extensions[i]!.type === type) return this.extensions[i];
+        return undefined;
+    }
+
+    /**
+     * find finds the extension a value is written with.
+     * @since v1.1.0
+     * @param {unknown} value the value.
+     * @returns {MsgPackExtension<unknown> | undefined} the extension, or undefined when no extension writes the value.
+     */
+    public find(value: unknown): MsgPackExtension<unknown> | undefined {
+        for (let i = this.extensions.length - 1; i >= 0; i--)
+            if (this.extensions[i]!.is(value)) return this.extensions[i];
+        return undefined;
+    }
+}
+
+const defaultExtensions = new MsgPackExtensions();
+
+/**
+ * Options for reading MessagePack. Set the limits when reading untrusted input.
+ * @since v1.1.0
+ */
+export interface MsgPackReadOptions {
+    /**
+     * How integers are returned. "auto" returns a bigint only for 64-bit integers that aren't safe integers,
+     * "always" returns every integer as bigint and "never" throws a RangeError for integers that aren't safe. Default "auto".
+     */
+    bigint?: "auto" | "always" | "never";
+    /** Read maps as Map instead of objects, keeping keys that aren't strings. Default false. */
+    useMap?: boolean;
+    /** The ext types to decode, unknown types are read as MsgPackExt. Default the timestamp extension. */
+    extensions?: MsgPackExtensions;
+    /** The maximum nesting of arrays and maps. Default 100. */
+    maxDepth?: number;
+    /** The maximum number of bytes of a str, bin or ext. Default no maximum. */
+    maxLength?: number;
+    /** The maximum number of elements of an array or entries of a map. Default no maximum. */
+    maxItems?: number;
+}
+
+/**
+ * Options for writing MessagePack.
+ * @since v1.1.0
+ */
+export interface MsgPackWriteOptions {
+    /** Write floats that a 32-bit float represents exactly as float32 instead of float64. Default false. */
+    float32?: boolean;
+    /** The ext types to encode. Default the timestamp extension. */
+    extensions?: MsgPackExtensions;
+    /** The maximum nesting of arrays and maps, it stops circular references. Default 100. */
+    maxDepth?: number;
+}
+
+/**
+ * readMsgPack reads a MessagePack value from a cursor.
+ * Maps are read as objects, bin as Uint8Array sharing memory with the cursor where possible,
+ * timestamps as Date and unknown ext types as MsgPackExt.
+ * On an error the cursor doesn't move, an OverflowError means the value is incomplete.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {MsgPackReadOptions} options the bigint handling, ext types and limits.
+ * @returns {unknown} the value read.
+ */
+export function readMsgPack(cursor: Cursor, options: MsgPackReadOptions = {}): unknown {
+    const start = cursor.tell();
+    try {
+        return readValue(cursor, options, 0);
+    } catch (e) {
+        cursor.seek(start);
+        throw e;
+    }
+}
+
+/**
+ * writeMsgPack writes a value as MessagePack to a cursor, integers and strings use the smallest format.
+ * Objects and Maps are written as maps, Uint8Arrays as bin, Dates as timestamps and undefined as nil.
+ * On an error the cursor moves back to where the value started.
+ * @since v1.1.0
+ * @param {MsgPackWriter} cursor the cursor to write to.
+ * @param {unknown} value the value to write.
+ * @param {MsgPackWriteOptions} options the float format, ext types and depth limit.
+ */
+export function writeMsgPack(cursor: MsgPackWriter, value: unknown, options: MsgPackWriteOptions = {}): void {
+    const start = cursor.tell();
+    try {
+        writeValue(cursor, value, options, 0);
+    } catch (e) {
+        cursor.seek(start);
+        throw e;
+    }
+}
+
+/**
+ * fail creates the error for invalid or too large MessagePack input.
+ * @since v1.1.0
+ * @param {string} reason the description of the error.
+ * @param {number} offset the offset of the value.
+ * @returns {EncodingError} the error.
+ */
+function fail(reason: string, offset: number): EncodingError {
+    return new EncodingError("msgpack", reason, offset, { method: "readMsgPack" });
+}
+
+/**
+ * readLength reads the length of a str, bin, ext, array or map of the format that uses a length field.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {number} size the size of the length field, 1, 2 or 4.
+ * @returns {number} the length.
+ */
+function readLength(cursor: Cursor, size: number): number {
+    return size === 1 ? cursor.readUInt8() : size === 2 ? cursor.readUInt16BE() : cursor.readUInt32BE();
+}
+
+/**
+ * readBytes reads the data of a str, bin or ext, checking maxLength.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {number} length the number of bytes.
+ * @param {MsgPackReadOptions} options the limits.
+ * @param {number} offset the offset of the value, used in errors.
+ * @returns {Uint8Array} the bytes.
+ */
+function readBytes(cursor: Cursor, length: number, options: MsgPackReadOptions, offset: number): Uint8Array {
+    const { maxLength = Infinity } = options;
+    if (length > maxLength) throw fail(`Length ${length} at position ${offset} exceeds maxLength of ${maxLength}`, offset);
+    return cursor.readUInt8Array(length);
+}
+
+/**
+ * toInteger converts an integer to the type asked for by the bigint option.
+ * @since v1.1.0
+ * @param {number | bigint} value the integer.
+ * @param {MsgPackReadOptions} options the bigint handling.
+ * @param {number} offset the offset of the value, used in errors.
+ * @returns {number | bigint} the integer as number or bigint.
+ */
+function toInteger(value: number | bigint, options: MsgPackReadOptions, offset: number): number | bigint {
+    const { bigint = "auto" } = options;
+    if (bigint === "always") return BigInt(value);
+    if (typeof value === "number") return value;
+    if (value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)) return Number(value);
+    if (bigint === "never") throw new RangeError(`Integer at position ${offset} is not a safe integer`);
+    return value;
+}
+
+/**
+ * readValue reads a MessagePack value.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {MsgPackReadOptions} options the bigint handling, ext types and limits.
+ * @param {number} depth the nesting of the value.
+ * @returns {unknown} the value read.
+ */
+function readValue(cursor: Cursor, options: MsgPackReadOptions, depth: number): unknown {
+    const offset = cursor.tell();
+    const byte = cursor.readUInt8();
+    if (byte < 0x80) return toInteger(byte, options, offset);
+    if (byte >= 0xe0) return toInteger(byte - 0x100, options, offset);
+    if (byte < 0x90) return readMap(cursor, byte & 0x0f, options, depth, offset);
+    if (byte < 0xa0) return readArray(cursor, byte & 0x0f, options, depth, offset);
+    if (byte < 0xc0) return decodeString(readBytes(cursor, byte & 0x1f, options, offset), "utf8");
+    switch (byte) {
+        case 0xc0: return null;
+        case 0xc2: return false;
+        case 0xc3: return true;
+        case 0xc4: case 0xc5: case 0xc6:
+            return readBytes(cursor, readLength(cursor, 1 << (byte - 0xc4)), options, offset);
+        case 0xc7: case 0xc8: case 0xc9:
+            return readExt(cursor, readLength(cursor, 1 << (byte - 0xc7)), options, offset);
+        case 0xca: return cursor.readFloatBE();
+        case 0xcb: return cursor.readDoubleBE();
+        case 0xcc: return toInteger(cursor.readUInt8(), options, offset);
+        case 0xcd: return toInteger(cursor.readUInt16BE(), options, offset);
+        case 0xce: return toInteger(cursor.readUInt32BE(), options, offset);
+        case 0xcf: return toInteger(cursor.readBigUInt64BE(), options, offset);
+        case 0xd0: return toInteger(cursor.readInt8(), options, offset);
+        case 0xd1: return toInteger(cursor.readInt16BE(), options, offset);
+        case 0xd2: return toInteger(cursor.readInt32BE(), options, offset);
+        case 0xd3: return toInteger(cursor.readBigInt64BE(), options, offset);
+        case 0xd4: case 0xd5: case 0xd6: case 0xd7: case 0xd8:
+            return readExt(cursor, 1 << (byte - 0xd4), options, offset);
+        case 0xd9: case 0xda: case 0xdb:
+            return decodeString(readBytes(cursor, readLength(cursor, 1 << (byte - 0xd9)), options, offset), "utf8");
+        case 0xdc: case 0xdd:
+            return readArray(cursor, readLength(cursor, byte === 0xdc ? 2 : 4), options, depth, offset);
+        case 0xde: case 0xdf:
+            return readMap(cursor, readLength(cursor, byte === 0xde ? 2 : 4), options, depth, offset);
+        default:
+            throw fail(`Invalid MessagePack type 0x${byte.toString(16)} at position ${offset}`, offset);
+    }
+}
+
+/**
+ * checkItems checks the depth and number of items of an array or map.
+ * @since v1.1.0
+ * @param {number} count the number of elements or entries.
+ * @param {MsgPackReadOptions} options the limits.
+ * @param {number} depth the nesting of the array or map.
+ * @param {number} offset the offset of the array or map, used in errors.
+ */
+function checkItems(count: number, options: MsgPackReadOptions, depth: number, offset: number): void {
+    const { maxDepth = 100, maxItems = Infinity } = options;
+    if (depth >= maxDepth) throw fail(`Nesting at position ${offset} exceeds maxDepth of ${maxDepth}`, offset);
+    if (count > maxItems) throw fail(`${count} items at position ${offset} exceed maxItems of ${maxItems}`, offset);
+}
+
+/**
+ * readArray reads the elements of an array.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {number} count the number of elements.
+ * @param {MsgPackReadOptions} options the bigint handling, ext types and limits.
+ * @param {number} depth the nesting of the array.
+ * @param {number} offset the offset of the array, used in errors.
+ * @returns {unknown[]} the array.
+ */
+function readArray(cursor: Cursor, count: number, options: MsgPackReadOptions, depth: number, offset: number): unknown[] {
+    checkItems(count, options, depth, offset);
+    const ret: unknown[] = [];
+    for (let i = 0; i < count; i++) ret.push(readValue(cursor, options, depth + 1));
+    return ret;
+}
+
+/**
+ * readMap reads the entries of a map, as object or Map.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {number} count the number of entries.
+ * @param {MsgPackReadOptions} options the bigint handling, ext types and limits.
+ * @param {number} depth the nesting of the map.
+ * @param {number} offset the offset of the map, used in errors.
+ * @returns {object | Map<unknown, unknown>} the map.
+ */
+function readMap(cursor: Cursor, count: number, options: MsgPackReadOptions, depth: number, offset: number): object {
+    checkItems(count, options, depth, offset);
+    if (options.useMap) {
+        const ret = new Map<unknown, unknown>();
+        for (let i = 0; i < count; i++) {
+            const key = readValue(cursor, options, depth + 1);
+            ret.set(key, readValue(cursor, options, depth + 1));
+        }
+        return ret;
+    }
+    const ret: { [key: string]: unknown } = {};
+    for (let i = 0; i < count; i++) {
+        const key = String(readValue(cursor, options, depth + 1));
+        const value = readValue(cursor, options, depth + 1);
+        // Untrusted input must not replace the prototype.
+        if (key === "__proto__") Object.defineProperty(ret, key, { value, enumerable: true, writable: true, configurable: true });
+        else ret[key] = value;
+    }
+    return ret;
+}
+
+/**
+ * readExt reads an ext value and decodes it with its registered extension.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {number} length the number of bytes of the data.
+ * @param {MsgPackReadOptions} options the ext types and limits.
+ * @param {number} offset the offset of the ext, used in errors.
+ * @returns {unknown} the decoded value, or a MsgPackExt when the type isn't registered.
+ */
+function readExt(cursor: Cursor, length: number, options: MsgPackReadOptions, offset: number): unknown {
+    const type = cursor.readInt8();
+    const data = readBytes(cursor, length, options, offset);
+    const extension = (options.extensions ?? defaultExtensions).get(type);
+    if (!extension) return new MsgPackExt(type, data);
+    try {
+        return extension.decode(data);
+    } catch (e) {
+        throw new EncodingError("msgpack", `Invalid ext type ${type} at position ${offset}: ${e instanceof Error ? e.message : String(e)}`, offset, { method: "readMsgPack", cause: e });
+    }
+}
+
+/**
+ * writeLength writes the type byte and length of a str, bin, ext, array or map in the smallest format.
+ * @since v1.1.0
+ * @param {MsgPackWriter} cursor the cursor to write to.
+ * @param {number} length the length.
+ * @param {number | undefined} fix the type byte of the fix format, undefined when there is none.
+ * @param {number} fixMax the maximum length of the fix format.
+ * @param {(number | undefined)[]} types the type bytes of the formats with a 1, 2 and 4 byte length.
+ */
+function writeLength(cursor: MsgPackWriter, length: number, fix: number | undefined, fixMax: number, types: (number | undefined)[]): void {
+    if (fix !== undefined && length <= fixMax) {
+        cursor.writeUInt8(fix | length);
+    } else if (types[0] !== undefined && length <= 0xff) {
+        cursor.writeUInt8(types[0]);
+        cursor.writeUInt8(length);
+    } else if (length <= 0xffff) {
+        cursor.writeUInt8(types[1]!);
+        cursor.writeUInt16BE(length);
+    } else if (length <= 0xffffffff) {
+        cursor.writeUInt8(types[2]!);
+        cursor.writeUInt32BE(length);
+    } else {
+        throw new RangeError(`A MessagePack length must be <= 4294967295. Received ${length}`);
+    }
+}
+
+/**
+ * writeInteger writes an integer in the smallest format.
+ * @since v1.1.0
+ * @param {MsgPackWriter} cursor the cursor to write to.
+ * @param {number | bigint} value the integer, numbers must be safe integers.
+ */
+function writeInteger(cursor: MsgPackWriter, value: number | bigint): void {
+    const n = Number(value);
+    if (n >= -0x20 && n < 0x80) {
+        cursor.writeUInt8(n < 0 ? n + 0x100 : n);
+    } else if (n >= 0) {
+        if (n <= 0xff) {
+            cursor.writeUInt8(0xcc);
+            cursor.writeUInt8(n);
+        } else if (n <= 0xffff) {
+            cursor.writeUInt8(0xcd);
+            cursor.writeUInt16BE(n);
+        } else if (n <= 0xffffffff) {
+            cursor.writeUInt8(0xce);
+            cursor.writeUInt32BE(n);
+        } else {
+            cursor.writeUInt8(0xcf);
+            cursor.writeBigUInt64BE(BigInt(value));
+        }
+    } else if (n >= -0x80) {
+        cursor.writeUInt8(0xd0);
+        cursor.writeInt8(n);
+    } else if (n >= -0x8000) {
+        cursor.writeUInt8(0xd1);
+        cursor.writeInt16BE(n);
+    } else if (n >= -0x80000000) {
+        cursor.writeUInt8(0xd2);
+        cursor.writeInt32BE(n);
+    } else {
+        cursor.writeUInt8(0xd3);
+        cursor.writeBigInt64BE(BigInt(value));
+    }
+}
+
+/**
+ * writeValue writes a MessagePack value.
+ * @since v1.1.0
+ * @param {MsgPackWriter} cursor the cursor to write to.
+ * @param {unknown} value the value to write.
+ * @param {MsgPackWriteOptions} options the float format, ext types and depth limit.
+ * @param {number} depth the nesting of the value.
+ */
+function writeValue(cursor: MsgPackWriter, value: unknown, options: MsgPackWriteOptions, depth: number): void {
+    if (value === null || value === undefined) {
+        cursor.writeUInt8(0xc0);
+    } else if (typeof value === "boolean") {
+        cursor.writeUInt8(value ? 0xc3 : 0xc2);
+    } else if (typeof value === "number") {
+        if (Number.isSafeInteger(value)) {
+            writeInteger(cursor, value);
+        } else if (options.float32 && (Math.fround(value) === value || Number.isNaN(value))) {
+            cursor.writeUInt8(0xca);
+            cursor.writeFloatBE(value);
+        } else {
+            cursor.writeUInt8(0xcb);
+            cursor.writeDoubleBE(value);
+        }
+    } else if (typeof value === "bigint") {
+        if (value < -(BigInt(1) << BigInt(63)) || value >= BigInt(1) << BigInt(64))
+            throw new RangeError(`A MessagePack integer must be >= -(2 ** 63) and < 2 ** 64. Received ${value}`);
+        writeInteger(cursor, value);
+    } else if (typeof value === "string") {
+        const bytes = encodeString(value, "utf8");
+        writeLength(cursor, bytes.length, 0xa0, 0x1f, [0xd9, 0xda, 0xdb]);
+        cursor.writeUInt8Array(bytes);
+    } else if (value instanceof MsgPackExt) {
+        writeExt(cursor, value.type, value.data);
+    } else if (typeof value === "object") {
+        const extension = (options.extensions ?? defaultExtensions).find(value);
+        if (extension) return writeExt(cursor, extension.type, extension.encode(value));
+        if (value instanceof Uint8Array) {
+            writeLength(cursor, value.length, undefined, 0, [0xc4, 0xc5, 0xc6]);
+            cursor.writeUInt8Array(value);
+            return;
+        }
+
+        const { maxDepth = 100 } = options;
+        if (depth >= maxDepth) throw new RangeError(`MessagePack value exceeds maxDepth of ${maxDepth}`);
+        if (Array.isArray(value)) {
+            writeLength(cursor, value.length, 0x90, 0x0f, [undefined, 0xdc, 0xdd]);
+            for (const item of value) writeValue(cursor, item, options, depth + 1);
+        } else if (value instanceof Map) {
+            writeLength(cursor, value.size, 0x80, 0x0f, [undefined, 0xde, 0xdf]);
+            value.forEach((item, key) => {
+                writeValue(cursor, key, options, depth + 1);
+                writeValue(cursor, item, options, depth + 1);
+            });
+        } else {
+            const keys = Object.keys(value);
+            writeLength(cursor, keys.length, 0x80, 0x0f, [undefined, 0xde, 0xdf]);
+            for (const key of keys) {
+                writeValue(cursor, key, options, depth + 1);
+                writeValue(cursor, (value as { [key: string]: unknown })[key], options, depth + 1);
+            }
+        }
+    } else {
+        throw new TypeError(`Can't write a ${typeof value} as MessagePack`);
+    }
+}
+
+/**
+ * writeExt writes an ext value in the smallest format.
+ * @since v1.1.0
+ * @param {MsgPackWriter} cursor the cursor to write to.
+ * @param {number} type the ext type.
+ * @param {Uint8Array} data the data of the ext.
+ */
+function writeExt(cursor: MsgPackWriter, type: number, data: Uint8Array): void {
+    const fixext = [1, 2, 4, 8, 16].indexOf(data.length);
+    if (fixext !== -1) cursor.writeUInt8(0xd4 + fixext);
+    else writeLength(cursor, data.length, undefined, 0, [0xc7, 0xc8, 0xc9]);
+    cursor.writeInt8(type);
+    cursor.writeUInt8Array(data);
+}
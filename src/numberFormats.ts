@@ -0,0 +1,133 @@
+/**
+ * roundHalfEven rounds to the nearest integer, ties to the even integer.
+ * @since v1.1.0
+ * @param {number} value the value to round.
+ * @returns {number} the rounded value.
+ */
+function roundHalfEven(value: number): number {
+    const rounded = Math.round(value);
+    return Math.abs(value % 1) === 0.5 && rounded % 2 !== 0 ? rounded - 1 : rounded;
+}
+
+/**
+ * decodeSmallFloat decodes the bits of an IEEE 754 style binary float narrower than 32 bits.
+ * @since v1.1.0
+ * @param {number} bits the bits of the float.
+ * @param {number} expBits the number of exponent bits.
+ * @param {number} fracBits the number of fraction bits.
+ * @returns {number} the value of the float.
+ */
+function decodeSmallFloat(bits: number, expBits: number, fracBits: number): number {
+    const bias = 2 ** (expBits - 1) - 1;
+    const expMask = 2 ** expBits - 1;
+    const sign = bits & (2 ** (expBits + fracBits)) ? -1 : 1;
+    const exp = (bits >> fracBits) & expMask;
+    const fraction = bits & (2 ** fracBits - 1);
+    if (exp === 0) return sign * fraction * 2 ** (1 - bias - fracBits);
+    if (exp === expMask) return fraction ? NaN : sign * Infinity;
+    return sign * (1 + fraction / 2 ** fracBits) * 2 ** (exp - bias);
+}
+
+/**
+ * encodeSmallFloat encodes a value as an IEEE 754 style binary float narrower than 32 bits,
+ * rounding to nearest even. Values too small become subnormals or zero, values too large become infinity.
+ * @since v1.1.0
+ * @param {number} value the value to encode.
+ * @param {number} expBits the number of exponent bits.
+ * @param {number} fracBits the number of fraction bits.
+ * @returns {number} the bits of the float.
+ */
+function encodeSmallFloat(value: number, expBits: number, fracBits: number): number {
+    const bias = 2 ** (expBits - 1) - 1;
+    const expMask = 2 ** expBits - 1;
+    if (Number.isNaN(value)) return (expMask << fracBits) | (1 << (fracBits - 1));
+    const sign = value < 0 || Object.is(value, -0) ? 2 ** (expBits + fracBits) : 0;
+    const abs = Math.abs(value);
+    if (abs >= (2 - 2 ** -(fracBits + 1)) * 2 ** bias) return sign | (expMask << fracBits);
+    // Subnormals are multiples of the smallest subnormal, a result of 2 ** fracBits is the smallest normal.
+    if (abs < 2 ** (1 - bias)) return sign | roundHalfEven(abs / 2 ** (1 - bias - fracBits));
+
+    let exp = Math.floor(Math.log2(abs));
+    if (2 ** exp > abs) exp--;
+    else if (2 ** (exp + 1) <= abs) exp++;
+    let fraction = roundHalfEven((abs / 2 ** exp - 1) * 2 ** fracBits);
+    if (fraction === 2 ** fracBits) {
+        fraction = 0;
+        exp++;
+    }
+    return sign | ((exp + bias) << fracBits) | fraction;
+}
+
+/**
+ * decodeFloat16 decodes the bits of an IEEE 754 half-precision float.
+ * @since v1.1.0
+ * @param {number} bits the 16 bits of the float.
+ * @returns {number} the value of the float.
+ */
+export function decodeFloat16(bits: number): number {
+    return decodeSmallFloat(bits, 5, 10);
+}
+
+/**
+ * encodeFloat16 encodes a value as an IEEE 754 half-precision float, rounding to nearest even.
+ * @since v1.1.0
+ * @param {number} value the value to encode.
+ * @returns {number} the 16 bits of the float.
+ */
+export function encodeFloat16(value: number): number {
+    return encodeSmallFloat(value, 5, 10);
+}
+
+/**
+ * decodeBFloat16 decodes the bits of a bfloat16, the upper half of a 32-bit float.
+ * @since v1.1.0
+ * @param {number} bits the 16 bits of the float.
+ * @returns {number} the value of the float.
+ */
+export function decodeBFloat16(bits: number): number {
+    return decodeSmallFloat(bits, 8, 7);
+}
+
+/**
+ * encodeBFloat16 encodes a value as a bfloat16, rounding to nearest even.
+ * @since v1.1.0
+ * @param {number} value the value to encode.
+ * @returns {number} the 16 bits of the float.
+ */
+export function encodeBFloat16(value: number): number {
+    return encodeSmallFloat(value, 8, 7);
+}
+
+/**
+ * fixedByteLength checks a fixed-point format and finds its number of bytes.
+ * The integer bits include the sign bit of signed formats, so Q15 is 1.15 and TrueType Fixed is 16.16.
+ * @since v1.1.0
+ * @param {number} intBits the number of integer bits.
+ * @param {number} fracBits the number of fraction bits.
+ * @returns {number} the number of bytes, 1 to 6.
+ */
+export function fixedByteLength(intBits: number, fracBits: number): number {
+    const bits = intBits + fracBits;
+    if (!Number.isInteger(intBits) || !Number.isInteger(fracBits) || intBits < 0 || fracBits < 0 || bits % 8 !== 0 || bits < 8 || bits > 48)
+        throw new RangeError(`A fixed-point format must be a multiple of 8 bits between 8 and 48. Received ${intBits}.${fracBits}`);
+    return bits / 8;
+}
+
+/**
+ * encodeFixed converts a value to the integer of a fixed-point format, rounding to nearest even.
+ * @since v1.1.0
+ * @param {number} value the value to convert.
+ * @param {number} intBits the number of integer bits, including the sign bit.
+ * @param {number} fracBits the number of fraction bits.
+ * @param {boolean} signed whether the format is signed.
+ * @returns {number} the integer to write.
+ */
+export function encodeFixed(value: number, intBits: number, fracBits: number, signed: boolean): number {
+    const bits = intBits + fracBits;
+    const min = signed ? -(2 ** (bits - 1)) : 0;
+    const max = signed ? 2 ** (bits - 1) - 1 : 2 ** bits - 1;
+    const raw = roundHalfEven(value * 2 ** fracBits);
+    if (typeof value !== "number" || Number.isNaN(value) || raw < min || raw > max)
+        throw new RangeError(`The value of a ${signed ? "" : "unsigned "}${intBits}.${fracBits} fixed-point number must be >= ${min / 2 ** fracBits} and <= ${max / 2 ** fracBits}. Received ${value}`);
+    return raw;
+}
@@ -0,0 +1,168 @@
+/**
+ * Endian is the byte order of a number, little-endian or big-endian.
+ * @since v1.1.0
+ */
+export type Endian = "le" | "be";
+
+/**
+ * NumberTypes maps a number tag to the type it is read as.
+ * Tags without endianness use the default endianness of the cursor.
+ * @since v1.1.0
+ */
+export interface NumberTypes {
+    u8: number;
+    i8: number;
+    u16: number;
+    u16le: number;
+    u16be: number;
+    i16: number;
+    i16le: number;
+    i16be: number;
+    u24: number;
+    u24le: number;
+    u24be: number;
+    i24: number;
+    i24le: number;
+    i24be: number;
+    u32: number;
+    u32le: number;
+    u32be: number;
+    i32: number;
+    i32le: number;
+    i32be: number;
+    u64: bigint;
+    u64le: bigint;
+    u64be: bigint;
+    i64: bigint;
+    i64le: bigint;
+    i64be: bigint;
+    f32: number;
+    f32le: number;
+    f32be: number;
+    f64: number;
+    f64le: number;
+    f64be: number;
+}
+
+/**
+ * NumberTag is a tag like `u8`, `i16le`, `u24be`, `u32` or `f64le`.
+ * @since v1.1.0
+ */
+export type NumberTag = keyof NumberTypes;
+
+/**
+ * NumberType describes how to read and write a number tag on a DataView.
+ * The checks of write narrow the value to the type of the tag.
+ * @since v1.1.0
+ */
+export interface NumberType {
+    size: number;
+    read(view: DataView, offset: number): number | bigint;
+    write(view: DataView, offset: number, value: number | bigint): void;
+}
+
+/**
+ * checkInt checks if value is an integer in the given range, like Buffer does.
+ * @since v1.1.0
+ * @param {number | bigint} value the value to check.
+ * @param {number} min the minimum value.
+ * @param {number} max the maximum value.
+ * @returns {number} the value.
+ */
+function checkInt(value: number | bigint, min: number, max: number): number {
+    if (typeof value !== "number" || value < min || value > max || Number.isNaN(value))
+        throw new RangeError(`The value of "value" is out of range. It must be >= ${min} and <= ${max}. Received ${value}`);
+    return value;
+}
+
+/**
+ * checkBigInt checks if value is a bigint in the given range, like Buffer does.
+ * @since v1.1.0
+ * @param {number | bigint} value the value to check.
+ * @param {boolean} signed whether the range is signed.
+ * @returns {bigint} the value.
+ */
+function checkBigInt(value: number | bigint, signed: boolean): bigint {
+    const min = signed ? -(BigInt(1) << BigInt(63)) : BigInt(0);
+    const max = signed ? (BigInt(1) << BigInt(63)) - BigInt(1) : (BigInt(1) << BigInt(64)) - BigInt(1);
+    if (typeof value !== "bigint" || value < min || value > max)
+        throw new RangeError(`The value of "value" is out of range. It must be >= ${min} and <= ${max}. Received ${value}`);
+    return value;
+}
+
+/**
+ * checkFloat checks that value isn't a bigint before it is written as a float, like DataView does.
+ * @since v1.1.0
+ * @param {number | bigint} value the value to check.
+ * @returns {number} the value.
+ */
+function checkFloat(value: number | bigint): number {
+    if (typeof value === "bigint") throw new TypeError("Cannot convert a BigInt value to a number");
+    return value;
+}
+
+const numberTypes: { [tag: string]: NumberType } = {
+    u8: { size: 1, read: (v, o) => v.getUint8(o), write: (v, o, x) => v.setUint8(o, checkInt(x, 0, 0xff)) },
+    i8: { size: 1, read: (v, o) => v.getInt8(o), write: (v, o, x) => v.setInt8(o, checkInt(x, -0x80, 0x7f)) },
+    u16le: { size: 2, read: (v, o) => v.getUint16(o, true), write: (v, o, x) => v.setUint16(o, checkInt(x, 0, 0xffff), true) },
+    u16be: { size: 2, read: (v, o) => v.getUint16(o), write: (v, o, x) => v.setUint16(o, checkInt(x, 0, 0xffff)) },
+    i16le: { size: 2, read: (v, o) => v.getInt16(o, true), write: (v, o, x) => v.setInt16(o, checkInt(x, -0x8000, 0x7fff), true) },
+    i16be: { size: 2, read: (v, o) => v.getInt16(o), write: (v, o, x) => v.setInt16(o, checkInt(x, -0x8000, 0x7fff)) },
+    u24le: {
+        size: 3,
+        read: (v, o) => v.getUint16(o, true) | (v.getUint8(o + 2) << 16),
+        write: (v, o, x) => { const n = checkInt(x, 0, 0xffffff); v.setUint16(o, n & 0xffff, true); v.setUint8(o + 2, n >>> 16); },
+    },
+    u24be: {
+        size: 3,
+        read: (v, o) => (v.getUint16(o) << 8) | v.getUint8(o + 2),
+        write: (v, o, x) => { const n = checkInt(x, 0, 0xffffff); v.setUint16(o, n >>> 8); v.setUint8(o + 2, n & 0xff); },
+    },
+    i24le: {
+        size: 3,
+        read: (v, o) => ((v.getUint16(o, true) | (v.getUint8(o + 2) << 16)) << 8) >> 8,
+        write: (v, o, x) => { const n = checkInt(x, -0x800000, 0x7fffff); v.setUint16(o, n & 0xffff, true); v.setUint8(o + 2, (n >> 16) & 0xff); },
+    },
+    i24be: {
+        size: 3,
+        read: (v, o) => (((v.getUint16(o) << 8) | v.getUint8(o + 2)) << 8) >> 8,
+        write: (v, o, x) => { const n = checkInt(x, -0x800000, 0x7fffff); v.setUint16(o, (n >> 8) & 0xffff); v.setUint8(o + 2, n & 0xff); },
+    },
+    u32le: { size: 4, read: (v, o) => v.getUint32(o, true), write: (v, o, x) => v.setUint32(o, checkInt(x, 0, 0xffffffff), true) },
+    u32be: { size: 4, read: (v, o) => v.getUint32(o), write: (v, o, x) => v.setUint32(o, checkInt(x, 0, 0xffffffff)) },
+    i32le: { size: 4, read: (v, o) => v.getInt32(o, true), write: (v, o, x) => v.setInt32(o, checkInt(x, -0x80000000, 0x7fffffff), true) },
+    i32be: { size: 4, read: (v, o) => v.getInt32(o), write: (v, o, x) => v.setInt32(o, checkInt(x, -0x80000000, 0x7fffffff)) },
+    u64le: { size: 8, read: (v, o) => v.getBigUint64(o, true), write: (v, o, x) => v.setBigUint64(o, checkBigInt(x, false), true) },
+    u64be: { size: 8, read: (v, o) => v.getBigUint64(o), write: (v, o, x) => v.setBigUint64(o, checkBigInt(x, false)) },
+    i64le: { size: 8, read: (v, o) => v.getBigInt64(o, true), write: (v, o, x) => v.setBigInt64(o, checkBigInt(x, true), true) },
+    i64be: { size: 8, read: (v, o) => v.getBigInt64(o), write: (v, o, x) => v.setBigInt64(o, checkBigInt(x, true)) },
+    f32le: { size: 4, read: (v, o) => v.getFloat32(o, true), write: (v, o, x) => v.setFloat32(o, checkFloat(x), true) },
+    f32be: { size: 4, read: (v, o) => v.getFloat32(o), write: (v, o, x) => v.setFloat32(o, checkFloat(x)) },
+    f64le: { size: 8, read: (v, o) => v.getFloat64(o, true), write: (v, o, x) => v.setFloat64(o, checkFloat(x), true) },
+    f64be: { size: 8, read: (v, o) => v.getFloat64(o), write: (v, o, x) => v.setFloat64(o, checkFloat(x)) },
+};
+
+/**
+ * dataViewOf creates a DataView over the same memory as bytes, for the read and write of a NumberType.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to view.
+ * @returns {DataView} the view.
+ */
+export function dataViewOf(bytes: Uint8Array): DataView {
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * getNumberType finds how to read and write a number tag.
+ * Only own keys of the table are tags, so names like `toString` are rejected.
+ * @since v1.1.0
+ * @param {NumberTag} tag the tag to look up.
+ * @param {Endian} endian the endianness used for tags without endianness.
+ * @returns {NumberType} the number type of the tag.
+ */
+export function getNumberType(tag: NumberTag, endian: Endian): NumberType {
+    const key = Object.prototype.hasOwnProperty.call(numberTypes, tag) ? tag : tag + endian;
+    const type = Object.prototype.hasOwnProperty.call(numberTypes, key) ? numberTypes[key] : undefined;
+    if (!type) throw new TypeError(`Unknown number type: ${tag}`);
+    return type;
+}
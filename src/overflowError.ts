@@ -1,19 +1,30 @@
+import { BufferCursorError, BufferCursorErrorOptions } from "./errors";
+
 /**
  * @class OverflowError
- * @extends RangeError
+ * @extends BufferCursorError
  * @classdesc OverflowError is an RangeError specific to the BufferCursor.
  * @since v1.0.0
  */
-export class OverflowError extends RangeError {
+export class OverflowError extends BufferCursorError {
+    public readonly length: number;
+    public readonly pos: number;
+    public readonly size: number;
+
     /**
      * @constructor
      * @since v1.0.0
      * @param length the length of the buffer.
      * @param pos the position of the cursor.
      * @param size the number of bytes attempted to be written.
+     * @param method the name of the method that failed, since v1.1.0.
+     * @param options the context, snippet and cause of the error, since v1.1.0.
      */
-    constructor(length: number, pos: number, size: number) {
-        super(`OverflowError: length ${length}, position ${pos}, size ${size}`);
+    constructor(length: number, pos: number, size: number, method?: string, options: BufferCursorErrorOptions = {}) {
+        super(`OverflowError: ${method ? `${method} ` : ""}length ${length}, position ${pos}, size ${size}`, pos, { ...options, method });
         this.name = "OverflowError";
+        this.length = length;
+        this.pos = pos;
+        this.size = size;
     }
 }
@@ -0,0 +1,76 @@
+import type { LengthPrefix } from "./cursor";
+import type { NumberTag, NumberTypes } from "./numberTypes";
+
+/**
+ * PlaceholderPrefix is a length prefix with a fixed size, that can be reserved and filled in later.
+ * @since v1.1.0
+ */
+export type PlaceholderPrefix = Exclude<LengthPrefix, "varuint">;
+
+/**
+ * PlaceholderTarget is a cursor that can fill in a placeholder.
+ * @since v1.1.0
+ */
+export interface PlaceholderTarget {
+    tell(): number;
+    writeAt<T extends NumberTag>(offset: number, type: T, value: NumberTypes[T]): unknown;
+}
+
+/**
+ * @class Placeholder
+ * @classdesc Placeholder is a number that was reserved by a cursor and is filled in later, like a length or an offset.
+ * Tags without endianness use the default endianness of the cursor when the placeholder is filled.
+ * @since v1.1.0
+ * @template T
+ */
+export class Placeholder<T extends NumberTag> {
+    public readonly offset: number;
+    public readonly type: T;
+    public readonly size: number;
+    private readonly cursor: PlaceholderTarget;
+    private isFilled: boolean;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {PlaceholderTarget} cursor the cursor that reserved the placeholder.
+     * @param {number} offset the absolute offset of the placeholder.
+     * @param {T} type number tag of the placeholder.
+     * @param {number} size the number of bytes reserved.
+     */
+    constructor(cursor: PlaceholderTarget, offset: number, type: T, size: number) {
+        this.cursor = cursor;
+        this.offset = offset;
+        this.type = type;
+        this.size = size;
+        this.isFilled = false;
+    }
+
+    /**
+     * filled is true after the placeholder was filled in.
+     * @since v1.1.0
+     */
+    public get filled(): boolean {
+        return this.isFilled;
+    }
+
+    /**
+     * fill writes the value at the offset of the placeholder, without moving the cursor.
+     * @since v1.1.0
+     * @param {NumberTypes[T]} value the value.
+     */
+    public fill(value: NumberTypes[T]): void {
+        this.cursor.writeAt(this.offset, this.type, value);
+        this.isFilled = true;
+    }
+
+    /**
+     * fillPosition writes the cursor position at the offset of the placeholder, for offsets of data written after it.
+     * @since v1.1.0
+     * @param {number} base the offset the position is relative to. Default 0, the absolute position.
+     */
+    public fillPosition(base: number = 0): void {
+        const position = this.cursor.tell() - base;
+        this.fill((/64/.test(this.type) && this.type[0] !== "f" ? BigInt(position) : position) as NumberTypes[T]);
+    }
+}
@@ -0,0 +1,504 @@
+import { checkNumber } from "./checks";
+import type { Cursor } from "./cursor";
+import { decodeString, encodeString, findInvalidByte } from "./encoding";
+import { EncodingError } from "./errors";
+import { OverflowError } from "./overflowError";
+import { bigZigzagDecode, bigZigzagEncode, encodeBigULEB128 } from "./varint";
+
+/**
+ * WireType is the encoding of a protobuf field, the low 3 bits of its tag.
+ * @since v1.1.0
+ */
+export const WireType = { Varint: 0, I64: 1, Len: 2, SGroup: 3, EGroup: 4, I32: 5 } as const;
+
+/**
+ * WireType is the encoding of a protobuf field, the low 3 bits of its tag.
+ * @since v1.1.0
+ */
+export type WireType = (typeof WireType)[keyof typeof WireType];
+
+/**
+ * ProtobufTag is the field number and wire type that start a field.
+ * @since v1.1.0
+ */
+export interface ProtobufTag {
+    field: number;
+    wireType: WireType;
+}
+
+/**
+ * ProtobufScalars maps a protobuf scalar type to the type it is read as, 64-bit integers are bigints.
+ * @since v1.1.0
+ */
+export interface ProtobufScalars {
+    int32: number;
+    int64: bigint;
+    uint32: number;
+    uint64: bigint;
+    sint32: number;
+    sint64: bigint;
+    bool: boolean;
+    enum: number;
+    fixed32: number;
+    sfixed32: number;
+    float: number;
+    fixed64: bigint;
+    sfixed64: bigint;
+    double: number;
+}
+
+/**
+ * ProtobufScalar is a protobuf scalar type like `int32`, `sint64` or `double`.
+ * @since v1.1.0
+ */
+export type ProtobufScalar = keyof ProtobufScalars;
+
+/**
+ * ProtobufWriter is what protobuf is written to, like a BufferCursor, GrowableBufferCursor or DataViewCursor.
+ * @since v1.1.0
+ */
+export interface ProtobufWriter {
+    writeBigVarUInt(value: bigint): unknown;
+    writeUInt32LE(value: number): unknown;
+    writeInt32LE(value: number): unknown;
+    writeFloatLE(value: number): unknown;
+    writeBigUInt64LE(value: bigint): unknown;
+    writeBigInt64LE(value: bigint): unknown;
+    writeDoubleLE(value: number): unknown;
+    writeUInt8Array(values: Uint8Array): unknown;
+}
+
+/**
+ * ProtobufField is a field of a message decoded without its schema.
+ * @since v1.1.0
+ */
+export interface ProtobufField {
+    field: number;
+    wireType: WireType;
+    /** The offset of the tag in the cursor, also for nested fields. */
+    offset: number;
+    /**
+     * A varint or fixed64 as unsigned bigint, a fixed32 as unsigned number,
+     * the bytes of a length-delimited field or the fields of a group.
+     */
+    value: bigint | number | Uint8Array | ProtobufField[];
+    /** The fields of a length-delimited field that parses as a message. */
+    message?: ProtobufField[];
+    /** The text of a length-delimited field that is valid UTF-8. */
+    text?: string;
+}
+
+/**
+ * Options for decoding a message without its schema.
+ * @since v1.1.0
+ */
+export interface DecodeUnknownOptions {
+    /** The maximum nesting of groups and messages, deeper length-delimited fields are left as bytes. Default 32. */
+    maxDepth?: number;
+}
+
+/**
+ * ScalarCodec reads and writes a scalar type.
+ * @since v1.1.0
+ */
+interface ScalarCodec<T> {
+    wireType: WireType;
+    read(cursor: Cursor): T;
+    write(cursor: ProtobufWriter, value: T): void;
+    size(value: T): number;
+    /** The size of every value of a fixed-size type. */
+    width?: number;
+}
+
+/**
+ * toUnsigned wraps an integer to an unsigned integer of the given width, like `BigInt.asUintN`.
+ * @since v1.1.0
+ * @param {bigint} value the integer.
+ * @param {number} bits the width.
+ * @returns {bigint} the unsigned integer.
+ */
+function toUnsigned(value: bigint, bits: number): bigint {
+    return value & ((BigInt(1) << BigInt(bits)) - BigInt(1));
+}
+
+/**
+ * toSigned wraps an integer to a two's complement integer of the given width, like `BigInt.asIntN`.
+ * @since v1.1.0
+ * @param {bigint} value the integer.
+ * @param {number} bits the width.
+ * @returns {bigint} the signed integer.
+ */
+function toSigned(value: bigint, bits: number): bigint {
+    const unsigned = toUnsigned(value, bits);
+    return unsigned >= BigInt(1) << BigInt(bits - 1) ? unsigned - (BigInt(1) << BigInt(bits)) : unsigned;
+}
+
+/**
+ * varint creates the codec of a varint scalar type.
+ * @since v1.1.0
+ * @template T
+ * @param {(raw: bigint) => T} decode converts the unsigned 64-bit varint to the value.
+ * @param {(value: T) => bigint} encode checks the value and converts it to the unsigned 64-bit varint.
+ * @returns {ScalarCodec<T>} the codec.
+ */
+function varint<T>(decode: (raw: bigint) => T, encode: (value: T) => bigint): ScalarCodec<T> {
+    return {
+        wireType: WireType.Varint,
+        read: cursor => decode(cursor.readBigVarUInt()),
+        write: (cursor, value) => { cursor.writeBigVarUInt(encode(value)); },
+        size: value => encodeBigULEB128(encode(value)).length,
+    };
+}
+
+/**
+ * fixed creates the codec of a fixed-size scalar type.
+ * @since v1.1.0
+ * @template T
+ * @param {number} size 4 or 8 bytes.
+ * @param {(cursor: Cursor) => T} read reads the value.
+ * @param {(cursor: ProtobufWriter, value: T) => unknown} write writes the value.
+ * @returns {ScalarCodec<T>} the codec.
+ */
+function fixed<T>(size: 4 | 8, read: (cursor: Cursor) => T, write: (cursor: ProtobufWriter, value: T) => unknown): ScalarCodec<T> {
+    return {
+        wireType: size === 4 ? WireType.I32 : WireType.I64,
+        read,
+        write: (cursor, value) => { write(cursor, value); },
+        size: () => size,
+        width: size,
+    };
+}
+
+/**
+ * checked checks a value as the given number tag and converts it to a bigint.
+ * @since v1.1.0
+ * @param {string} tag number tag like `i32` or `u64`.
+ * @param {number | bigint} value the value.
+ * @returns {bigint} the value as bigint.
+ */
+function checked(tag: string, value: number | bigint): bigint {
+    checkNumber(tag, value);
+    return BigInt(value);
+}
+
+const scalars: { [T in ProtobufScalar]: ScalarCodec<ProtobufScalars[T]> } = {
+    int32: varint(raw => Number(toSigned(raw, 32)), value => toUnsigned(checked("i32", value), 64)),
+    int64: varint(raw => toSigned(raw, 64), value => toUnsigned(checked("i64", value), 64)),
+    uint32: varint(raw => Number(toUnsigned(raw, 32)), value => checked("u32", value)),
+    uint64: varint(raw => raw, value => checked("u64", value)),
+    sint32: varint(raw => Number(bigZigzagDecode(toUnsigned(raw, 32))), value => bigZigzagEncode(checked("i32", value))),
+    sint64: varint(raw => bigZigzagDecode(raw), value => bigZigzagEncode(checked("i64", value))),
+    bool: varint(raw => raw !== BigInt(0), value => BigInt(value ? 1 : 0)),
+    enum: varint(raw => Number(toSigned(raw, 32)), value => toUnsigned(checked("i32", value), 64)),
+    fixed32: fixed(4, cursor => cursor.readUInt32LE(), (cursor, value) => cursor.writeUInt32LE(value)),
+    sfixed32: fixed(4, cursor => cursor.readInt32LE(), (cursor, value) => cursor.writeInt32LE(value)),
+    float: fixed(4, cursor => cursor.readFloatLE(), (cursor, value) => cursor.writeFloatLE(value)),
+    fixed64: fixed(8, cursor => cursor.readBigUInt64LE(), (cursor, value) => cursor.writeBigUInt64LE(value)),
+    sfixed64: fixed(8, cursor => cursor.readBigInt64LE(), (cursor, value) => cursor.writeBigInt64LE(value)),
+    double: fixed(8, cursor => cursor.readDoubleLE(), (cursor, value) => cursor.writeDoubleLE(value)),
+};
+
+/**
+ * scalarCodec finds the codec of a scalar type.
+ * @since v1.1.0
+ * @template T
+ * @param {T} type the scalar type.
+ * @returns {ScalarCodec<ProtobufScalars[T]>} the codec.
+ */
+function scalarCodec<T extends ProtobufScalar>(type: T): ScalarCodec<ProtobufScalars[T]> {
+    const codec = Object.prototype.hasOwnProperty.call(scalars, type) ? scalars[type] : undefined;
+    if (!codec) throw new TypeError(`Unknown protobuf type: ${type}`);
+    return codec as ScalarCodec<ProtobufScalars[T]>;
+}
+
+/**
+ * fail creates the error for malformed protobuf input.
+ * @since v1.1.0
+ * @param {string} reason the description of the error.
+ * @param {number} offset the offset of the malformed data.
+ * @param {string} method the name of the function.
+ * @returns {EncodingError} the error.
+ */
+function fail(reason: string, offset: number, method: string): EncodingError {
+    return new EncodingError("protobuf", reason, offset, { method });
+}
+
+/**
+ * atomic runs a read and moves the cursor back to where it started when the read throws.
+ * @since v1.1.0
+ * @template T
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {() => T} func the read to run.
+ * @returns {T} return value of the read.
+ */
+function atomic<T>(cursor: Cursor, func: () => T): T {
+    const start = cursor.tell();
+    try {
+        return func();
+    } catch (e) {
+        cursor.seek(start);
+        throw e;
+    }
+}
+
+/**
+ * readLength reads the length of a length-delimited field and checks that its bytes are available.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {string} method the name of the function, used in errors.
+ * @returns {number} the length.
+ */
+function readLength(cursor: Cursor, method: string): number {
+    const length = Number(cursor.readBigVarUInt());
+    if (length > cursor.length - cursor.tell())
+        throw new OverflowError(cursor.length, cursor.tell(), length, method);
+    return length;
+}
+
+/**
+ * readTag reads the tag that starts a field. Throws an EncodingError for field number 0 and unknown wire types.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @returns {ProtobufTag} the field number and wire type.
+ */
+export function readTag(cursor: Cursor): ProtobufTag {
+    return atomic(cursor, () => {
+        const offset = cursor.tell();
+        const tag = cursor.readBigVarUInt();
+        const field = Number(tag >> BigInt(3));
+        const wireType = Number(tag & BigInt(7));
+        if (tag > BigInt(0xffffffff) || field === 0)
+            throw fail(`Invalid field number ${tag >> BigInt(3)} at position ${offset}`, offset, "readTag");
+        if (wireType > 5) throw fail(`Invalid wire type ${wireType} at position ${offset}`, offset, "readTag");
+        return { field, wireType: wireType as WireType };
+    });
+}
+
+/**
+ * writeTag writes the tag that starts a field.
+ * @since v1.1.0
+ * @param {ProtobufWriter} cursor the cursor to write to.
+ * @param {number} field the field number, 1 to 2^29 - 1.
+ * @param {WireType} wireType the wire type.
+ */
+export function writeTag(cursor: ProtobufWriter, field: number, wireType: WireType): void {
+    if (!Number.isInteger(field) || field < 1 || field > 0x1fffffff)
+        throw new RangeError(`A field number must be an integer between 1 and 536870911. Received ${field}`);
+    cursor.writeBigVarUInt((BigInt(field) << BigInt(3)) | BigInt(wireType));
+}
+
+/**
+ * readScalar reads the value of a field of a scalar type, after its tag.
+ * @since v1.1.0
+ * @template T
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {T} type the scalar type, like `int32`, `sint64`, `fixed32` or `double`.
+ * @returns {ProtobufScalars[T]} the value.
+ */
+export function readScalar<T extends ProtobufScalar>(cursor: Cursor, type: T): ProtobufScalars[T] {
+    return scalarCodec(type).read(cursor);
+}
+
+/**
+ * writeScalar writes the value of a field of a scalar type, without its tag.
+ * @since v1.1.0
+ * @template T
+ * @param {ProtobufWriter} cursor the cursor to write to.
+ * @param {T} type the scalar type, like `int32`, `sint64`, `fixed32` or `double`.
+ * @param {ProtobufScalars[T]} value the value.
+ */
+export function writeScalar<T extends ProtobufScalar>(cursor: ProtobufWriter, type: T, value: ProtobufScalars[T]): void {
+    scalarCodec(type).write(cursor, value);
+}
+
+/**
+ * writeField writes a field of a scalar type, its tag and its value.
+ * @since v1.1.0
+ * @template T
+ * @param {ProtobufWriter} cursor the cursor to write to.
+ * @param {number} field the field number.
+ * @param {T} type the scalar type, like `int32`, `sint64`, `fixed32` or `double`.
+ * @param {ProtobufScalars[T]} value the value.
+ */
+export function writeField<T extends ProtobufScalar>(cursor: ProtobufWriter, field: number, type: T, value: ProtobufScalars[T]): void {
+    const codec = scalarCodec(type);
+    writeTag(cursor, field, codec.wireType);
+    codec.write(cursor, value);
+}
+
+/**
+ * readLengthDelimited reads the value of a length-delimited field, after its tag,
+ * as a cursor over its bytes: a string, bytes or an embedded message.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @returns {Cursor} a cursor over the bytes of the field.
+ */
+export function readLengthDelimited(cursor: Cursor): Cursor {
+    return atomic(cursor, () => cursor.slice(readLength(cursor, "readLengthDelimited")));
+}
+
+/**
+ * writeLengthDelimited writes a length-delimited field: a string, bytes or an encoded embedded message.
+ * @since v1.1.0
+ * @param {ProtobufWriter} cursor the cursor to write to.
+ * @param {number} field the field number.
+ * @param {Uint8Array | string} value the bytes, strings are written as UTF-8.
+ */
+export function writeLengthDelimited(cursor: ProtobufWriter, field: number, value: Uint8Array | string): void {
+    const bytes = typeof value === "string" ? encodeString(value, "utf8") : value;
+    writeTag(cursor, field, WireType.Len);
+    cursor.writeBigVarUInt(BigInt(bytes.length));
+    cursor.writeUInt8Array(bytes);
+}
+
+/**
+ * readPacked reads the values of a packed repeated field, after its tag.
+ * @since v1.1.0
+ * @template T
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {T} type the scalar type of the values.
+ * @returns {ProtobufScalars[T][]} the values.
+ */
+export function readPacked<T extends ProtobufScalar>(cursor: Cursor, type: T): ProtobufScalars[T][] {
+    const codec = scalarCodec(type);
+    return atomic(cursor, () => {
+        const offset = cursor.tell();
+        const length = readLength(cursor, "readPacked");
+        if (codec.width && length % codec.width !== 0)
+            throw fail(`Packed ${type} values at position ${offset} have a length of ${length}, not a multiple of ${codec.width}`, offset, "readPacked");
+        const end = length + cursor.tell();
+        const values: ProtobufScalars[T][] = [];
+        while (cursor.tell() < end) {
+            const value = codec.read(cursor);
+            if (cursor.tell() > end)
+                throw fail(`Packed ${type} values at position ${offset} overrun their length`, offset, "readPacked");
+            values.push(value);
+        }
+        return values;
+    });
+}
+
+/**
+ * writePacked writes a packed repeated field, nothing is written when there are no values.
+ * @since v1.1.0
+ * @template T
+ * @param {ProtobufWriter} cursor the cursor to write to.
+ * @param {number} field the field number.
+ * @param {T} type the scalar type of the values, a number type or bool.
+ * @param {ProtobufScalars[T][]} values the values.
+ */
+export function writePacked<T extends ProtobufScalar>(cursor: ProtobufWriter, field: number, type: T, values: ProtobufScalars[T][]): void {
+    if (values.length === 0) return;
+    const codec = scalarCodec(type);
+    let length = 0;
+    for (const value of values) length += codec.size(value);
+    writeTag(cursor, field, WireType.Len);
+    cursor.writeBigVarUInt(BigInt(length));
+    for (const value of values) codec.write(cursor, value);
+}
+
+/**
+ * skipField skips the value of a field, after its tag, like an unknown field.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {WireType} wireType the wire type of the field.
+ * @param {number | undefined} field the field number, needed to find the end of a group.
+ */
+export function skipField(cursor: Cursor, wireType: WireType, field?: number): void {
+    atomic(cursor, () => {
+        const offset = cursor.tell();
+        switch (wireType) {
+            case WireType.Varint:
+                cursor.readBigVarUInt();
+                break;
+            case WireType.I64:
+                cursor.move(8);
+                break;
+            case WireType.Len:
+                cursor.move(readLength(cursor, "skipField"));
+                break;
+            case WireType.I32:
+                cursor.move(4);
+                break;
+            case WireType.SGroup:
+                if (field === undefined) throw new TypeError("The field number is needed to skip a group");
+                decodeFields(cursor, cursor.length, 1, 32, field, "skipField");
+                break;
+            default:
+                throw fail(`Unexpected wire type ${wireType} at position ${offset}`, offset, "skipField");
+        }
+    });
+}
+
+/**
+ * decodeUnknown decodes a message without its schema into a tree of fields, for dumping and debugging.
+ * Length-delimited fields are kept as bytes, with the fields they parse as and their text when they are valid UTF-8.
+ * Reads up to the end of the cursor, malformed or truncated input throws an EncodingError or OverflowError
+ * with the offset and the cursor doesn't move.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {DecodeUnknownOptions} options the maximum nesting.
+ * @returns {ProtobufField[]} the fields.
+ */
+export function decodeUnknown(cursor: Cursor, options: DecodeUnknownOptions = {}): ProtobufField[] {
+    const { maxDepth = 32 } = options;
+    return atomic(cursor, () => decodeFields(cursor, cursor.length, 0, maxDepth, undefined, "decodeUnknown"));
+}
+
+/**
+ * decodeFields decodes the fields up to an end offset, or up to the end of a group.
+ * @since v1.1.0
+ * @param {Cursor} cursor the cursor to read from.
+ * @param {number} end the offset the fields end at.
+ * @param {number} depth the nesting of the fields.
+ * @param {number} maxDepth the maximum nesting.
+ * @param {number | undefined} group the field number of the group the fields are in.
+ * @param {string} method the name of the function, used in errors.
+ * @returns {ProtobufField[]} the fields.
+ */
+function decodeFields(cursor: Cursor, end: number, depth: number, maxDepth: number, group: number | undefined, method: string): ProtobufField[] {
+    const fields: ProtobufField[] = [];
+    while (cursor.tell() < end) {
+        const offset = cursor.tell();
+        const { field, wireType } = readTag(cursor);
+        const entry: ProtobufField = { field, wireType, offset, value: BigInt(0) };
+        switch (wireType) {
+            case WireType.Varint:
+                entry.value = cursor.readBigVarUInt();
+                break;
+            case WireType.I64:
+                entry.value = cursor.readBigUInt64LE();
+                break;
+            case WireType.I32:
+                entry.value = cursor.readUInt32LE();
+                break;
+            case WireType.Len: {
+                const length = readLength(cursor, method);
+                const start = cursor.tell();
+                if (length > 0 && depth < maxDepth) {
+                    try {
+                        entry.message = decodeFields(cursor, start + length, depth + 1, maxDepth, undefined, method);
+                    } catch {
+                        // Not a message, the bytes are still returned.
+                    }
+                    cursor.seek(start);
+                }
+                const bytes = cursor.readUInt8Array(length);
+                entry.value = bytes;
+                if (findInvalidByte(bytes, "utf8") === -1) entry.text = decodeString(bytes, "utf8");
+                break;
+            }
+            case WireType.SGroup:
+                if (depth >= maxDepth) throw fail(`Group at position ${offset} exceeds maxDepth of ${maxDepth}`, offset, method);
+                entry.value = decodeFields(cursor, end, depth + 1, maxDepth, field, method);
+                break;
+            case WireType.EGroup:
+                if (field !== group) throw fail(`Unexpected end of group ${field} at position ${offset}`, offset, method);
+                return fields;
+        }
+        if (cursor.tell() > end) throw fail(`Field ${field} at position ${offset} overruns its message`, offset, method);
+        fields.push(entry);
+    }
+    if (group !== undefined) throw fail(`Group ${group} isn't terminated`, cursor.tell(), method);
+    return fields;
+}
@@ -0,0 +1,349 @@
+import { BufferCursor } from "./buffercursor";
+import { BufferCursorError } from "./errors";
+import { GrowableBufferCursor } from "./growableBufferCursor";
+
+/**
+ * SchemaContext is passed down while reading or writing, it tracks where in the schema we are.
+ * @since v1.1.0
+ */
+export interface SchemaContext {
+    /** Path of the field, for example `header.entries[3].id`. */
+    path: string;
+    /** The struct that contains the field, with the fields before it filled in. */
+    parent?: unknown;
+}
+
+/**
+ * Codec reads and writes values of type T from and to a BufferCursor.
+ * @since v1.1.0
+ */
+export interface Codec<T> {
+    read(cursor: BufferCursor, context?: SchemaContext): T;
+    write(cursor: BufferCursor, value: T, context?: SchemaContext): void;
+    sizeOf(value: T, context?: SchemaContext): number;
+}
+
+/**
+ * Infer gets the value type of a Codec.
+ * @since v1.1.0
+ */
+export type Infer<C> = C extends Codec<infer T> ? T : never;
+
+/**
+ * StructFields describes the fields of a struct, in the order they are read and written.
+ * @since v1.1.0
+ */
+export type StructFields = { [name: string]: Codec<unknown> };
+
+/**
+ * StructType is the value type of a struct with given fields.
+ * @since v1.1.0
+ */
+export type StructType<F extends StructFields> = { [K in keyof F]: Infer<F[K]> };
+
+/**
+ * Length is a fixed count, a Codec for a length prefix or a function of the fields read before it.
+ * P is the type of the struct that contains the field, as declared by the function.
+ * @since v1.1.0
+ */
+export type Length<P = unknown> = number | Codec<number> | ((parent: P) => number);
+
+/**
+ * @class SchemaError
+ * @extends BufferCursorError
+ * @classdesc SchemaError is thrown when a field of a schema can't be read or written.
+ * @since v1.1.0
+ */
+export class SchemaError extends BufferCursorError {
+    public readonly path: string;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {string} path the path of the field that failed.
+     * @param {number} offset the cursor position at the start of the field.
+     * @param {unknown} cause the error thrown by the field.
+     */
+    constructor(path: string, offset: number, cause: unknown) {
+        super(`SchemaError: ${path} at offset ${offset}: ${cause instanceof Error ? cause.message : String(cause)}`, offset, { cause });
+        this.name = "SchemaError";
+        this.path = path;
+    }
+}
+
+/**
+ * field runs a read or write of a field, wrapping errors with the path and offset of the field.
+ * @since v1.1.0
+ * @template T
+ * @param {BufferCursor} cursor the cursor used.
+ * @param {string} path the path of the field.
+ * @param {() => T} func the read or write to run.
+ * @returns {T} return value of the function.
+ */
+function field<T>(cursor: BufferCursor, path: string, func: () => T): T {
+    const offset = cursor.tell();
+    try {
+        return func();
+    } catch (e) {
+        if (e instanceof SchemaError) throw e;
+        throw new SchemaError(path, offset, e);
+    }
+}
+
+/**
+ * isCodec checks if a Length is a Codec.
+ * @since v1.1.0
+ * @template P
+ * @param {Length<P>} length the length to check.
+ * @returns {boolean} true if the length is a Codec.
+ */
+function isCodec<P>(length: Length<P>): length is Codec<number> {
+    return typeof length === "object";
+}
+
+/**
+ * fixed creates a codec for a value with a fixed size.
+ * @since v1.1.0
+ * @template T
+ * @param {number} size the size of the value in bytes.
+ * @param {(cursor: BufferCursor) => T} read reads the value.
+ * @param {(cursor: BufferCursor, value: T) => unknown} write writes the value.
+ * @returns {Codec<T>} the codec.
+ */
+function fixed<T>(size: number, read: (cursor: BufferCursor) => T, write: (cursor: BufferCursor, value: T) => unknown): Codec<T> {
+    return {
+        read: cursor => read(cursor),
+        write: (cursor, value) => { write(cursor, value); },
+        sizeOf: () => size,
+    };
+}
+
+/**
+ * variable creates a codec for a value of which the size depends on the value.
+ * @since v1.1.0
+ * @template T
+ * @param {(cursor: BufferCursor) => T} read reads the value.
+ * @param {(cursor: BufferCursor, value: T) => unknown} write writes the value.
+ * @returns {Codec<T>} the codec.
+ */
+function variable<T>(read: (cursor: BufferCursor) => T, write: (cursor: BufferCursor, value: T) => unknown): Codec<T> {
+    return {
+        read: cursor => read(cursor),
+        write: (cursor, value) => { write(cursor, value); },
+        sizeOf: value => {
+            const cursor = new GrowableBufferCursor({ initialCapacity: 16 });
+            write(cursor, value);
+            return cursor.length;
+        },
+    };
+}
+
+/**
+ * struct creates a codec for an object with the given fields, read and written in order.
+ * @since v1.1.0
+ * @template F
+ * @param {F} fields the fields of the struct.
+ * @returns {Codec<StructType<F>>} the codec.
+ */
+function struct<F extends StructFields>(fields: F): Codec<StructType<F>> {
+    const entries = Object.keys(fields).map(name => [name, fields[name]!] as const);
+    const childPath = (context: SchemaContext | undefined, name: string) =>
+        context?.path ? `${context.path}.${name}` : name;
+
+    return {
+        read(cursor, context) {
+            const result: { [name: string]: unknown } = {};
+            for (const [name, codec] of entries) {
+                const path = childPath(context, name);
+                result[name] = field(cursor, path, () => codec.read(cursor, { path, parent: result }));
+            }
+            return result as StructType<F>;
+        },
+        write(cursor, value, context) {
+            for (const [name, codec] of entries) {
+                const path = childPath(context, name);
+                field(cursor, path, () => codec.write(cursor, value[name], { path, parent: value }));
+            }
+        },
+        sizeOf(value, context) {
+            let size = 0;
+            for (const [name, codec] of entries)
+                size += codec.sizeOf(value[name], { path: childPath(context, name), parent: value });
+            return size;
+        },
+    };
+}
+
+/**
+ * readLength reads or resolves a Length.
+ * The parent in the context is the struct being read, of the type the length function declares.
+ * @since v1.1.0
+ * @template P
+ * @param {Length<P>} length the length to read.
+ * @param {BufferCursor} cursor the cursor to read a length prefix from.
+ * @param {SchemaContext | undefined} context the context of the field.
+ * @returns {number} the length.
+ */
+function readLength<P>(length: Length<P>, cursor: BufferCursor, context: SchemaContext | undefined): number {
+    if (typeof length === "number") return length;
+    if (isCodec(length)) return length.read(cursor, context);
+    return length(context?.parent as P);
+}
+
+/**
+ * writeLength writes or checks a Length.
+ * @since v1.1.0
+ * @template P
+ * @param {Length<P>} length the length to write.
+ * @param {BufferCursor} cursor the cursor to write a length prefix to.
+ * @param {number} value the actual length.
+ * @param {SchemaContext | undefined} context the context of the field.
+ */
+function writeLength<P>(length: Length<P>, cursor: BufferCursor, value: number, context: SchemaContext | undefined): void {
+    if (isCodec(length)) return length.write(cursor, value, context);
+    const expected = typeof length === "number" ? length : length(context?.parent as P);
+    if (value !== expected) throw new RangeError(`Expected length ${expected}, got ${value}`);
+}
+
+/**
+ * array creates a codec for an array of items.
+ * @since v1.1.0
+ * @template T, P
+ * @param {Codec<T>} item the codec of the items.
+ * @param {Length<P>} length a fixed count, a length prefix codec or a function returning the count.
+ * @returns {Codec<T[]>} the codec.
+ */
+function array<T, P = unknown>(item: Codec<T>, length: Length<P>): Codec<T[]> {
+    const prefixSize = (value: T[]) => isCodec(length) ? length.sizeOf(value.length) : 0;
+    const itemPath = (context: SchemaContext | undefined, i: number) => `${context?.path ?? ""}[${i}]`;
+
+    return {
+        read(cursor, context) {
+            const count = readLength(length, cursor, context);
+            const result: T[] = [];
+            for (let i = 0; i < count; i++) {
+                const path = itemPath(context, i);
+                result.push(field(cursor, path, () => item.read(cursor, { path, parent: context?.parent })));
+            }
+            return result;
+        },
+        write(cursor, value, context) {
+            writeLength(length, cursor, value.length, context);
+            value.forEach((v, i) => {
+                const path = itemPath(context, i);
+                field(cursor, path, () => item.write(cursor, v, { path, parent: context?.parent }));
+            });
+        },
+        sizeOf(value, context) {
+            return value.reduce((size, v, i) =>
+                size + item.sizeOf(v, { path: itemPath(context, i), parent: context?.parent }), prefixSize(value));
+        },
+    };
+}
+
+/**
+ * string creates a codec for a string with a byte length.
+ * @since v1.1.0
+ * @template P
+ * @param {Length<P>} length a fixed byte length, a length prefix codec or a function returning the byte length.
+ * @param {BufferEncoding} encoding the character encoding to use. Default "utf8".
+ * @returns {Codec<string>} the codec.
+ */
+function string<P = unknown>(length: Length<P>, encoding: BufferEncoding = "utf8"): Codec<string> {
+    return {
+        read(cursor, context) {
+            return cursor.toString(encoding, readLength(length, cursor, context));
+        },
+        write(cursor, value, context) {
+            const byteLength = Buffer.byteLength(value, encoding);
+            writeLength(length, cursor, byteLength, context);
+            cursor.write(value, byteLength, encoding);
+        },
+        sizeOf(value) {
+            const byteLength = Buffer.byteLength(value, encoding);
+            return byteLength + (isCodec(length) ? length.sizeOf(byteLength) : 0);
+        },
+    };
+}
+
+/**
+ * bytes creates a codec for raw bytes.
+ * @since v1.1.0
+ * @template P
+ * @param {Length<P>} length a fixed byte length, a length prefix codec or a function returning the byte length.
+ * @returns {Codec<Buffer>} the codec.
+ */
+function bytes<P = unknown>(length: Length<P>): Codec<Buffer> {
+    return {
+        read(cursor, context) {
+            return Buffer.from(cursor.slice(readLength(length, cursor, context)).buffer);
+        },
+        write(cursor, value, context) {
+            writeLength(length, cursor, value.length, context);
+            cursor.writeBuff(value);
+        },
+        sizeOf(value) {
+            return value.length + (isCodec(length) ? length.sizeOf(value.length) : 0);
+        },
+    };
+}
+
+/**
+ * when creates a codec for a field that is only present when the condition is true.
+ * @since v1.1.0
+ * The parent in the context is the struct being read or written, of the type the condition declares.
+ * @template T, P
+ * @param {(parent: P) => boolean} condition checks the fields read before it.
+ * @param {Codec<T>} codec the codec of the field.
+ * @returns {Codec<T | undefined>} the codec, undefined when the field is not present.
+ */
+function when<T, P = unknown>(condition: (parent: P) => boolean, codec: Codec<T>): Codec<T | undefined> {
+    const present = (context: SchemaContext | undefined) => condition(context?.parent as P);
+    return {
+        read(cursor, context) {
+            return present(context) ? codec.read(cursor, context) : undefined;
+        },
+        write(cursor, value, context) {
+            if (!present(context)) return;
+            if (value === undefined) throw new TypeError("Value is required by condition");
+            codec.write(cursor, value, context);
+        },
+        sizeOf(value, context) {
+            return present(context) && value !== undefined ? codec.sizeOf(value, context) : 0;
+        },
+    };
+}
+
+/**
+ * schema contains the building blocks to describe binary structures.
+ * @since v1.1.0
+ */
+export const schema = {
+    u8: fixed(1, c => c.readUInt8(), (c, v: number) => c.writeUInt8(v)),
+    i8: fixed(1, c => c.readInt8(), (c, v: number) => c.writeInt8(v)),
+    u16le: fixed(2, c => c.readUInt16LE(), (c, v: number) => c.writeUInt16LE(v)),
+    u16be: fixed(2, c => c.readUInt16BE(), (c, v: number) => c.writeUInt16BE(v)),
+    i16le: fixed(2, c => c.readInt16LE(), (c, v: number) => c.writeInt16LE(v)),
+    i16be: fixed(2, c => c.readInt16BE(), (c, v: number) => c.writeInt16BE(v)),
+    u32le: fixed(4, c => c.readUInt32LE(), (c, v: number) => c.writeUInt32LE(v)),
+    u32be: fixed(4, c => c.readUInt32BE(), (c, v: number) => c.writeUInt32BE(v)),
+    i32le: fixed(4, c => c.readInt32LE(), (c, v: number) => c.writeInt32LE(v)),
+    i32be: fixed(4, c => c.readInt32BE(), (c, v: number) => c.writeInt32BE(v)),
+    u64le: fixed(8, c => c.readBigUInt64LE(), (c, v: bigint) => c.writeBigUInt64LE(v)),
+    u64be: fixed(8, c => c.readBigUInt64BE(), (c, v: bigint) => c.writeBigUInt64BE(v)),
+    i64le: fixed(8, c => c.readBigInt64LE(), (c, v: bigint) => c.writeBigInt64LE(v)),
+    i64be: fixed(8, c => c.readBigInt64BE(), (c, v: bigint) => c.writeBigInt64BE(v)),
+    f32le: fixed(4, c => c.readFloatLE(), (c, v: number) => c.writeFloatLE(v)),
+    f32be: fixed(4, c => c.readFloatBE(), (c, v: number) => c.writeFloatBE(v)),
+    f64le: fixed(8, c => c.readDoubleLE(), (c, v: number) => c.writeDoubleLE(v)),
+    f64be: fixed(8, c => c.readDoubleBE(), (c, v: number) => c.writeDoubleBE(v)),
+    varuint: variable(c => c.readVarUInt(), (c, v: number) => c.writeVarUInt(v)),
+    varint: variable(c => c.readVarInt(), (c, v: number) => c.writeVarInt(v)),
+    bigvaruint: variable(c => c.readBigVarUInt(), (c, v: bigint) => c.writeBigVarUInt(v)),
+    bigvarint: variable(c => c.readBigVarInt(), (c, v: bigint) => c.writeBigVarInt(v)),
+    struct,
+    array,
+    string,
+    bytes,
+    when,
+};
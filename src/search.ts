@@ -0,0 +1,44 @@
+import { encodeString } from "./encoding";
+
+/**
+ * SearchPattern is a byte, a UTF-8 string or bytes to search for.
+ * @since v1.1.0
+ */
+export type SearchPattern = string | number | Uint8Array;
+
+/**
+ * toPattern converts a search pattern to bytes.
+ * @since v1.1.0
+ * @param {SearchPattern} pattern a byte, a UTF-8 string or bytes.
+ * @returns {Uint8Array} the bytes of the pattern.
+ */
+export function toPattern(pattern: SearchPattern): Uint8Array {
+    let bytes: Uint8Array;
+    if (typeof pattern === "number") {
+        if (!Number.isInteger(pattern) || pattern < 0 || pattern > 0xff)
+            throw new RangeError(`A byte pattern must be an integer between 0 and 255. Received ${pattern}`);
+        bytes = new Uint8Array([pattern]);
+    } else {
+        bytes = typeof pattern === "string" ? encodeString(pattern, "utf8") : pattern;
+    }
+    if (bytes.length === 0) throw new TypeError("The pattern can't be empty");
+    return bytes;
+}
+
+/**
+ * indexOfBytes finds the first occurrence of a pattern, like `Buffer.indexOf` for any Uint8Array.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to search.
+ * @param {Uint8Array} pattern the bytes to search for.
+ * @param {number} from the offset to start searching at.
+ * @returns {number} the offset of the pattern, or -1 when it isn't found.
+ */
+export function indexOfBytes(bytes: Uint8Array, pattern: Uint8Array, from: number): number {
+    const last = bytes.length - pattern.length;
+    for (let i = bytes.indexOf(pattern[0]!, from); i !== -1 && i <= last; i = bytes.indexOf(pattern[0]!, i + 1)) {
+        let j = 1;
+        while (j < pattern.length && bytes[i + j] === pattern[j]) j++;
+        if (j === pattern.length) return i;
+    }
+    return -1;
+}
@@ -0,0 +1,606 @@
+import { Readable } from "stream";
+import { BufferCursor, BufferCursorOptions } from "./buffercursor";
+import { checkEndian } from "./checks";
+import { terminatorSize } from "./encoding";
+import { dataViewOf, Endian, getNumberType, NumberTag, NumberTypes } from "./numberTypes";
+import { OverflowError } from "./overflowError";
+import { bigZigzagDecode, decodeLEB128, toSafeNumber, varIntLength, varUInt64Length } from "./varint";
+
+/**
+ * @class EndOfStreamError
+ * @extends OverflowError
+ * @classdesc EndOfStreamError is thrown when a stream ends before all requested bytes were read.
+ * @since v1.1.0
+ */
+export class EndOfStreamError extends OverflowError {
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param length the number of bytes the stream had.
+     * @param pos the position of the cursor.
+     * @param size the number of bytes attempted to be read.
+     */
+    constructor(length: number, pos: number, size: number) {
+        super(length, pos, size);
+        this.setDetail(`EndOfStreamError: stream ended after ${length} bytes, position ${pos}, size ${size}`);
+        this.name = "EndOfStreamError";
+    }
+}
+
+/**
+ * @class StreamCursor
+ * @classdesc StreamCursor reads from a Readable stream as it arrives, without buffering the whole stream.
+ * Only the bytes needed for the current read are buffered, consumed chunks are released.
+ * The stream is read in paused mode, so a slow parser applies backpressure to the source.
+ * @since v1.1.0
+ */
+export class StreamCursor {
+    public readonly stream: Readable;
+    private chunks: Buffer[];
+    private offset: number;
+    private buffered: number;
+    private pos: number;
+    private ended: boolean;
+    private error: Error | undefined;
+    private endianness: Endian;
+
+    /**
+     * @constructor
+     * @since v1.1.0
+     * @param {Readable} stream stream to read from.
+     * @param {BufferCursorOptions} options options for the cursor.
+     */
+    constructor(stream: Readable, options: BufferCursorOptions = {}) {
+        this.stream = stream;
+        this.chunks = [];
+        this.offset = 0;
+        this.buffered = 0;
+        this.pos = 0;
+        this.ended = stream.readableEnded || stream.destroyed;
+        this.error = stream.errored ?? undefined;
+        this.endianness = checkEndian(options.endian ?? "le");
+        stream.on("end", () => { this.ended = true; });
+        stream.on("error", (e) => { this.error = e; });
+        stream.on("close", () => { this.ended = true; });
+    }
+
+    /**
+     * The default endianness.
+     * @since v1.1.0
+     * @returns {Endian} the endianness used by methods without endianness.
+     */
+    public get endian(): Endian {
+        return this.endianness;
+    }
+
+    /**
+     * setEndian sets the default endianness.
+     * @since v1.1.0
+     * @param {Endian} endian the endianness used by methods without endianness.
+     * @returns {this} this streamcursor.
+     */
+    public setEndian(endian: Endian): this {
+        this.endianness = checkEndian(endian);
+        return this;
+    }
+
+    /**
+     * tell returns the number of bytes consumed.
+     * @since v1.1.0
+     * @returns {number} cursor position.
+     */
+    public tell(): number {
+        return this.pos;
+    }
+
+    /**
+     * eof waits until data is available or the stream ended.
+     * @since v1.1.0
+     * @returns {Promise<boolean>} true if the stream ended and all bytes were consumed.
+     */
+    public async eof(): Promise<boolean> {
+        return !(await this.fill(1));
+    }
+
+    /**
+     * fill reads from the stream until the given number of bytes is buffered or the stream ended.
+     * @since v1.1.0
+     * @param {number} size number of bytes to buffer.
+     * @returns {Promise<boolean>} true if the bytes are buffered, false if the stream ended first.
+     */
+    private async fill(size: number): Promise<boolean> {
+        while (this.buffered < size) {
+            this.checkError();
+            const chunk: Buffer | string | null = this.stream.read();
+            if (chunk !== null) {
+                const buf = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+                this.chunks.push(buf);
+                this.buffered += buf.length;
+                continue;
+            }
+            if (this.ended || this.stream.readableEnded || this.stream.destroyed) {
+                this.checkError();
+                return false;
+            }
+            await this.waitForData();
+        }
+        return true;
+    }
+
+    /**
+     * checkError throws the error the stream failed with, also when it was destroyed with an error before it was emitted.
+     * @since v1.1.0
+     */
+    private checkError(): void {
+        const error = this.error ?? this.stream.errored;
+        if (error) throw error;
+    }
+
+    /**
+     * waitForData waits until the stream is readable, ended, closed or errored.
+     * A stream destroyed without an error is handled like a stream that ended.
+     * @since v1.1.0
+     * @returns {Promise<void>} resolves when the stream changes state.
+     */
+    private waitForData(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const cleanup = () => {
+                this.stream.off("readable", onReadable);
+                this.stream.off("end", onEnd);
+                this.stream.off("close", onEnd);
+                this.stream.off("error", onError);
+            };
+            const onReadable = () => { cleanup(); resolve(); };
+            const onEnd = () => { this.ended = true; cleanup(); resolve(); };
+            const onError = (e: Error) => { cleanup(); reject(e); };
+            this.stream.on("readable", onReadable);
+            this.stream.on("end", onEnd);
+            this.stream.on("close", onEnd);
+            this.stream.on("error", onError);
+        });
+    }
+
+    /**
+     * ensure buffers the given number of bytes.
+     * @since v1.1.0
+     * @param {number} size number of bytes needed.
+     */
+    private async ensure(size: number): Promise<void> {
+        if (!(await this.fill(size)))
+            throw new EndOfStreamError(this.pos + this.buffered, this.pos, size);
+    }
+
+    /**
+     * take consumes bytes from the buffered chunks, without copying when they are in a single chunk.
+     * @since v1.1.0
+     * @param {number} size number of bytes to consume.
+     * @returns {Promise<Buffer>} the consumed bytes.
+     */
+    private async take(size: number): Promise<Buffer> {
+        await this.ensure(size);
+        const first = this.chunks[0];
+        let ret: Buffer;
+        if (first && first.length - this.offset >= size) {
+            ret = first.subarray(this.offset, this.offset + size);
+            this.drop(size);
+        } else {
+            ret = Buffer.allocUnsafe(size);
+            let done = 0;
+            while (done < size) {
+                const chunk = this.chunks[0]!;
+                const n = Math.min(chunk.length - this.offset, size - done);
+                chunk.copy(ret, done, this.offset, this.offset + n);
+                this.drop(n);
+                done += n;
+            }
+        }
+        return ret;
+    }
+
+    /**
+     * drop consumes bytes from the buffered chunks and releases chunks that are fully consumed.
+     * @since v1.1.0
+     * @param {number} size number of buffered bytes to consume.
+     */
+    private drop(size: number): void {
+        this.offset += size;
+        this.buffered -= size;
+        this.pos += size;
+        while (this.chunks.length && this.offset >= this.chunks[0]!.length) {
+            this.offset -= this.chunks[0]!.length;
+            this.chunks.shift();
+        }
+    }
+
+    /**
+     * peekByte returns a buffered byte without consuming it.
+     * @since v1.1.0
+     * @param {number} index index of the byte after the cursor position.
+     * @returns {number} the byte.
+     */
+    private peekByte(index: number): number {
+        let i = this.offset + index;
+        for (const chunk of this.chunks) {
+            if (i < chunk.length) return chunk[i]!;
+            i -= chunk.length;
+        }
+        throw new EndOfStreamError(this.pos + this.buffered, this.pos, index + 1);
+    }
+
+    /**
+     * skip consumes bytes without returning them, releasing chunks as it goes.
+     * @since v1.1.0
+     * @param {number} size number of bytes to skip.
+     * @returns {Promise<this>} this streamcursor.
+     */
+    public async skip(size: number): Promise<this> {
+        if (size < 0) throw new RangeError("Cannot move backwards in a stream");
+        while (size > 0) {
+            if (!(await this.fill(1)))
+                throw new EndOfStreamError(this.pos + this.buffered, this.pos, size);
+            const n = Math.min(size, this.buffered);
+            this.drop(n);
+            size -= n;
+        }
+        return this;
+    }
+
+    /**
+     * slice reads the given number of bytes into a new `BufferCursor`.
+     * @since v1.1.0
+     * @param {number} length the length of the new `BufferCursor`.
+     * @returns {Promise<BufferCursor>} a `BufferCursor` over the bytes read.
+     */
+    public async slice(length: number): Promise<BufferCursor> {
+        return new BufferCursor(await this.take(length), { endian: this.endianness });
+    }
+
+    /**
+     * Decodes bytes from the stream to a string according to the specified character encoding in `encoding`.
+     * Without a length the rest of the stream is read.
+     * @since v1.1.0
+     * @param {BufferEncoding | undefined} encoding The character encoding to use. Default "utf8".
+     * @param {number | undefined} length The number of bytes to decode.
+     * @returns {Promise<string>} a string according to the specified character encoding.
+     */
+    public async toString(encoding: BufferEncoding = "utf8", length?: number): Promise<string> {
+        if (length === undefined) {
+            while (await this.fill(this.buffered + 1));
+            length = this.buffered;
+        }
+        return (await this.take(length)).toString(encoding);
+    }
+
+    /**
+     * Reads a number of the given type from the stream.
+     * @since v1.1.0
+     * @template T
+     * @param {T} type number tag like `u8`, `i16le`, `u24be` or `f32`.
+     * @returns {Promise<NumberTypes[T]>} the number read.
+     */
+    public async read<T extends NumberTag>(type: T): Promise<NumberTypes[T]> {
+        const { size, read } = getNumberType(type, this.endianness);
+        return read(dataViewOf(await this.take(size)), 0) as NumberTypes[T];
+    }
+
+    /**
+     * peekVarInt buffers the bytes of a LEB128 integer without consuming them, so a malformed integer leaves the cursor in place.
+     * @since v1.1.0
+     * @param {number} maxBytes maximum number of bytes the integer may use.
+     * @returns {Promise<Uint8Array>} a copy of the bytes of the integer.
+     */
+    private async peekVarInt(maxBytes: number): Promise<Uint8Array> {
+        let length = 0;
+        do {
+            await this.ensure(length + 1);
+        } while (this.peekByte(length++) & 0x80 && length < maxBytes);
+        const bytes = new Uint8Array(length);
+        for (let i = 0; i < length; i++) bytes[i] = this.peekByte(i);
+        return bytes;
+    }
+
+    /**
+     * Reads a protobuf style unsigned varint from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned integer.
+     */
+    public async readVarUInt(): Promise<number> {
+        const bytes = await this.peekVarInt(8);
+        const length = varIntLength(bytes, 0, bytes.length, 8, false, "readVarUInt", this.pos);
+        const value = toSafeNumber(decodeLEB128(bytes, 0, length, false), this.pos);
+        this.drop(length);
+        return value;
+    }
+
+    /**
+     * Reads a protobuf style signed varint from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed integer.
+     */
+    public async readVarInt(): Promise<number> {
+        const bytes = await this.peekVarInt(8);
+        const length = varIntLength(bytes, 0, bytes.length, 8, false, "readVarInt", this.pos);
+        const value = toSafeNumber(bigZigzagDecode(decodeLEB128(bytes, 0, length, false)), this.pos);
+        this.drop(length);
+        return value;
+    }
+
+    /**
+     * Reads a protobuf style unsigned 64-bit varint from the stream.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} an unsigned integer.
+     */
+    public async readBigVarUInt(): Promise<bigint> {
+        const bytes = await this.peekVarInt(10);
+        const length = varUInt64Length(bytes, 0, bytes.length, "readBigVarUInt", this.pos);
+        const value = decodeLEB128(bytes, 0, length, false);
+        this.drop(length);
+        return value;
+    }
+
+    /**
+     * Reads a protobuf style signed 64-bit varint from the stream.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} a signed integer.
+     */
+    public async readBigVarInt(): Promise<bigint> {
+        const bytes = await this.peekVarInt(10);
+        const length = varUInt64Length(bytes, 0, bytes.length, "readBigVarInt", this.pos);
+        const value = bigZigzagDecode(decodeLEB128(bytes, 0, length, false));
+        this.drop(length);
+        return value;
+    }
+
+    /**
+     * Reads a NUL terminated string from the stream, the terminator is consumed but not returned.
+     * @since v1.1.0
+     * @param {BufferEncoding} encoding The character encoding to use. Default "utf8".
+     * @returns {Promise<string>} the string before the terminator.
+     */
+    public async readCString(encoding: BufferEncoding = "utf8"): Promise<string> {
+        const terminator = terminatorSize(encoding);
+        let length = 0;
+        for (;;) {
+            await this.ensure(length + terminator);
+            if (this.peekByte(length) === 0 && (terminator === 1 || this.peekByte(length + 1) === 0)) break;
+            length += terminator;
+        }
+        const ret = (await this.take(length)).toString(encoding);
+        this.drop(terminator);
+        return ret;
+    }
+
+    /**
+     * Reads an unsigned 8-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned 8-bit integer.
+     */
+    public async readUInt8(): Promise<number> {
+        return this.read("u8");
+    }
+
+    /**
+     * Reads a signed 8-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed 8-bit integer.
+     */
+    public async readInt8(): Promise<number> {
+        return this.read("i8");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 16-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned, little-endian 16-bit integer.
+     */
+    public async readUInt16LE(): Promise<number> {
+        return this.read("u16le");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 16-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned, big-endian 16-bit integer.
+     */
+    public async readUInt16BE(): Promise<number> {
+        return this.read("u16be");
+    }
+
+    /**
+     * Reads an unsigned 16-bit integer from the stream using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned 16-bit integer.
+     */
+    public async readUInt16(): Promise<number> {
+        return this.read("u16");
+    }
+
+    /**
+     * Reads a signed, little-endian 16-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed, little-endian 16-bit integer.
+     */
+    public async readInt16LE(): Promise<number> {
+        return this.read("i16le");
+    }
+
+    /**
+     * Reads a signed, big-endian 16-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed, big-endian 16-bit integer.
+     */
+    public async readInt16BE(): Promise<number> {
+        return this.read("i16be");
+    }
+
+    /**
+     * Reads a signed 16-bit integer from the stream using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed 16-bit integer.
+     */
+    public async readInt16(): Promise<number> {
+        return this.read("i16");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 32-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned, little-endian 32-bit integer.
+     */
+    public async readUInt32LE(): Promise<number> {
+        return this.read("u32le");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 32-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned, big-endian 32-bit integer.
+     */
+    public async readUInt32BE(): Promise<number> {
+        return this.read("u32be");
+    }
+
+    /**
+     * Reads an unsigned 32-bit integer from the stream using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} an unsigned 32-bit integer.
+     */
+    public async readUInt32(): Promise<number> {
+        return this.read("u32");
+    }
+
+    /**
+     * Reads a signed, little-endian 32-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed, little-endian 32-bit integer.
+     */
+    public async readInt32LE(): Promise<number> {
+        return this.read("i32le");
+    }
+
+    /**
+     * Reads a signed, big-endian 32-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed, big-endian 32-bit integer.
+     */
+    public async readInt32BE(): Promise<number> {
+        return this.read("i32be");
+    }
+
+    /**
+     * Reads a signed 32-bit integer from the stream using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} a signed 32-bit integer.
+     */
+    public async readInt32(): Promise<number> {
+        return this.read("i32");
+    }
+
+    /**
+     * Reads an unsigned, little-endian 64-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} an unsigned, little-endian 64-bit integer.
+     */
+    public async readBigUInt64LE(): Promise<bigint> {
+        return this.read("u64le");
+    }
+
+    /**
+     * Reads an unsigned, big-endian 64-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} an unsigned, big-endian 64-bit integer.
+     */
+    public async readBigUInt64BE(): Promise<bigint> {
+        return this.read("u64be");
+    }
+
+    /**
+     * Reads an unsigned 64-bit integer from the stream using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} an unsigned 64-bit integer.
+     */
+    public async readBigUInt64(): Promise<bigint> {
+        return this.read("u64");
+    }
+
+    /**
+     * Reads a signed, little-endian 64-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} a signed, little-endian 64-bit integer.
+     */
+    public async readBigInt64LE(): Promise<bigint> {
+        return this.read("i64le");
+    }
+
+    /**
+     * Reads a signed, big-endian 64-bit integer from the stream.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} a signed, big-endian 64-bit integer.
+     */
+    public async readBigInt64BE(): Promise<bigint> {
+        return this.read("i64be");
+    }
+
+    /**
+     * Reads a signed 64-bit integer from the stream using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<bigint>} a signed 64-bit integer.
+     */
+    public async readBigInt64(): Promise<bigint> {
+        return this.read("i64");
+    }
+
+    /**
+     * Reads a 32-bit, little-endian float from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 32-bit, little-endian float.
+     */
+    public async readFloatLE(): Promise<number> {
+        return this.read("f32le");
+    }
+
+    /**
+     * Reads a 32-bit, big-endian float from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 32-bit, big-endian float.
+     */
+    public async readFloatBE(): Promise<number> {
+        return this.read("f32be");
+    }
+
+    /**
+     * Reads a 32-bit float from the stream using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 32-bit float.
+     */
+    public async readFloat(): Promise<number> {
+        return this.read("f32");
+    }
+
+    /**
+     * Reads a 64-bit, little-endian double from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 64-bit, little-endian double.
+     */
+    public async readDoubleLE(): Promise<number> {
+        return this.read("f64le");
+    }
+
+    /**
+     * Reads a 64-bit, big-endian double from the stream.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 64-bit, big-endian double.
+     */
+    public async readDoubleBE(): Promise<number> {
+        return this.read("f64be");
+    }
+
+    /**
+     * Reads a 64-bit double from the stream using the default endianness.
+     * @since v1.1.0
+     * @returns {Promise<number>} a 64-bit double.
+     */
+    public async readDouble(): Promise<number> {
+        return this.read("f64");
+    }
+}
@@ -0,0 +1,141 @@
+import type { Endian } from "./numberTypes";
+
+/**
+ * TypedArrays maps a number tag to the typed array it is read as in bulk.
+ * @since v1.1.0
+ */
+export interface TypedArrays {
+    i8: Int8Array;
+    u8: Uint8Array;
+    i16: Int16Array;
+    u16: Uint16Array;
+    i32: Int32Array;
+    u32: Uint32Array;
+    i64: BigInt64Array;
+    u64: BigUint64Array;
+    f32: Float32Array;
+    f64: Float64Array;
+}
+
+/**
+ * TypedArrayTag is a number tag that can be read and written in bulk, like `u16` or `f32`.
+ * @since v1.1.0
+ */
+export type TypedArrayTag = keyof TypedArrays;
+
+/**
+ * TypedArrayValues is what a typed array of the given tag can be written from.
+ * @since v1.1.0
+ */
+export type TypedArrayValues<T extends TypedArrayTag> = TypedArrays[T] | ArrayLike<TypedArrays[T][number]>;
+
+/**
+ * TypedArrayConstructor creates a typed array of a tag.
+ * @since v1.1.0
+ */
+interface TypedArrayConstructor<T> {
+    readonly BYTES_PER_ELEMENT: number;
+    new(length: number): T;
+    new(values: ArrayLike<number> | ArrayLike<bigint>): T;
+    new(buffer: ArrayBufferLike, byteOffset: number, length: number): T;
+}
+
+const constructors: { [T in TypedArrayTag]: TypedArrayConstructor<TypedArrays[T]> } = {
+    i8: Int8Array,
+    u8: Uint8Array,
+    i16: Int16Array,
+    u16: Uint16Array,
+    i32: Int32Array,
+    u32: Uint32Array,
+    i64: BigInt64Array as unknown as TypedArrayConstructor<BigInt64Array>,
+    u64: BigUint64Array as unknown as TypedArrayConstructor<BigUint64Array>,
+    f32: Float32Array,
+    f64: Float64Array,
+};
+
+/**
+ * hostEndian is the byte order of the platform, typed arrays use it.
+ * @since v1.1.0
+ */
+export const hostEndian: Endian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1 ? "le" : "be";
+
+/**
+ * typedArraySize finds the number of bytes of count elements of a tag.
+ * @since v1.1.0
+ * @param {TypedArrayTag} tag the number tag.
+ * @param {number} count the number of elements.
+ * @returns {number} the number of bytes.
+ */
+export function typedArraySize(tag: TypedArrayTag, count: number): number {
+    return constructors[tag].BYTES_PER_ELEMENT * count;
+}
+
+/**
+ * toTypedArray converts values to a typed array of a tag, typed arrays of the tag are returned as is.
+ * @since v1.1.0
+ * @template T
+ * @param {T} tag the number tag.
+ * @param {TypedArrayValues<T>} values the values.
+ * @returns {TypedArrays[T]} the typed array.
+ */
+export function toTypedArray<T extends TypedArrayTag>(tag: T, values: TypedArrayValues<T>): TypedArrays[T] {
+    const constructor = constructors[tag];
+    return values instanceof constructor ? values as TypedArrays[T] : new constructor(values as ArrayLike<number>);
+}
+
+/**
+ * swapBytes reverses the bytes of every element in place.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes of the elements.
+ * @param {number} size the number of bytes of an element.
+ */
+function swapBytes(bytes: Uint8Array, size: number): void {
+    if (size === 1) return;
+    for (let i = 0; i < bytes.length; i += size) {
+        for (let lo = i, hi = i + size - 1; lo < hi; lo++, hi--) {
+            const byte = bytes[lo]!;
+            bytes[lo] = bytes[hi]!;
+            bytes[hi] = byte;
+        }
+    }
+}
+
+/**
+ * readTypedArray reads count elements of a tag.
+ * The result is a view on the same memory when the offset is aligned and the endianness is the host endianness,
+ * otherwise it is a copy with the bytes swapped where needed.
+ * @since v1.1.0
+ * @template T
+ * @param {Uint8Array} bytes the bytes to read from.
+ * @param {number} offset the offset of the first element in bytes.
+ * @param {T} tag the number tag of the elements.
+ * @param {number} count the number of elements.
+ * @param {Endian} endian the endianness of the elements.
+ * @returns {TypedArrays[T]} the elements.
+ */
+export function readTypedArray<T extends TypedArrayTag>(bytes: Uint8Array, offset: number, tag: T, count: number, endian: Endian): TypedArrays[T] {
+    const constructor = constructors[tag];
+    const size = constructor.BYTES_PER_ELEMENT;
+    const byteOffset = bytes.byteOffset + offset;
+    if ((endian === hostEndian || size === 1) && byteOffset % size === 0)
+        return new constructor(bytes.buffer, byteOffset, count);
+
+    const result = new constructor(count);
+    const copy = new Uint8Array((result as Uint8Array).buffer);
+    copy.set(bytes.subarray(offset, offset + size * count));
+    if (endian !== hostEndian) swapBytes(copy, size);
+    return result;
+}
+
+/**
+ * writeTypedArray writes the elements of a typed array, swapping the bytes when the endianness isn't the host endianness.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to write to.
+ * @param {number} offset the offset of the first element in bytes.
+ * @param {TypedArrays[TypedArrayTag]} array the elements.
+ * @param {Endian} endian the endianness of the elements.
+ */
+export function writeTypedArray(bytes: Uint8Array, offset: number, array: TypedArrays[TypedArrayTag], endian: Endian): void {
+    bytes.set(new Uint8Array(array.buffer, array.byteOffset, array.byteLength), offset);
+    if (endian !== hostEndian) swapBytes(bytes.subarray(offset, offset + array.byteLength), array.BYTES_PER_ELEMENT);
+}
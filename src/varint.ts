@@ -0,0 +1,244 @@
+import { EncodingError } from "./errors";
+import { OverflowError } from "./overflowError";
+
+/**
+ * varIntLength finds the length of the LEB128 integer at the given position.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to read from.
+ * @param {number} pos the position of the integer.
+ * @param {number} size the number of bytes that can be read.
+ * @param {number} maxBytes maximum number of bytes the integer may use.
+ * @param {boolean} signed whether the integer is signed.
+ * @param {string | undefined} operation the name of the operation, used in the error.
+ * @param {number} base the offset of the first byte in the data, added to the positions in the error. Default 0.
+ * @returns {number} the number of bytes used by the integer.
+ */
+export function varIntLength(
+    bytes: Uint8Array, pos: number, size: number, maxBytes: number, signed: boolean, operation?: string, base: number = 0,
+): number {
+    const at = base + pos;
+    for (let i = 0; i < maxBytes; i++) {
+        if (pos + i >= size)
+            throw new OverflowError(base + size, at, i + 1, operation);
+        const byte = bytes[pos + i]!;
+        if (byte & 0x80) continue;
+        if (i > 0) {
+            const prev = bytes[pos + i - 1]!;
+            const overlong = signed
+                ? (byte === 0x00 && !(prev & 0x40)) || (byte === 0x7f && (prev & 0x40) !== 0)
+                : byte === 0x00;
+            if (overlong) throw new EncodingError("varint", `Overlong varint at position ${at}`, at, { method: operation });
+        }
+        return i + 1;
+    }
+    throw new EncodingError("varint", `Varint at position ${at} exceeds ${maxBytes} bytes`, at, { method: operation });
+}
+
+/**
+ * varUInt64Length finds the length of the unsigned 64-bit LEB128 integer at the given position.
+ * The 10th byte may only hold the highest bit, larger values don't fit in 64 bits.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to read from.
+ * @param {number} pos the position of the integer.
+ * @param {number} size the number of bytes that can be read.
+ * @param {string | undefined} operation the name of the operation, used in the error.
+ * @param {number} base the offset of the first byte in the data, added to the positions in the error. Default 0.
+ * @returns {number} the number of bytes used by the integer.
+ */
+export function varUInt64Length(bytes: Uint8Array, pos: number, size: number, operation?: string, base: number = 0): number {
+    const length = varIntLength(bytes, pos, size, 10, false, operation, base);
+    if (length === 10 && bytes[pos + 9]! > 0x01)
+        throw new EncodingError("varint", `Varint at position ${base + pos} exceeds 64 bits`, base + pos, { method: operation });
+    return length;
+}
+
+/**
+ * decodeULEB128 decodes an unsigned LEB128 integer to a number.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to read from.
+ * @param {number} pos the position of the integer.
+ * @param {number} length the number of bytes used by the integer.
+ * @returns {number} the decoded integer.
+ */
+export function decodeULEB128(bytes: Uint8Array, pos: number, length: number): number {
+    let value = 0;
+    for (let i = length - 1; i >= 0; i--)
+        value = value * 0x80 + (bytes[pos + i]! & 0x7f);
+    if (!Number.isSafeInteger(value))
+        throw new RangeError(`Varint at position ${pos} is not a safe integer`);
+    return value;
+}
+
+/**
+ * decodeLEB128 decodes a LEB128 integer to a bigint.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to read from.
+ * @param {number} pos the position of the integer.
+ * @param {number} length the number of bytes used by the integer.
+ * @param {boolean} signed whether the integer is signed.
+ * @returns {bigint} the decoded integer.
+ */
+export function decodeLEB128(bytes: Uint8Array, pos: number, length: number, signed: boolean): bigint {
+    let value = BigInt(0);
+    for (let i = length - 1; i >= 0; i--)
+        value = (value << BigInt(7)) | BigInt(bytes[pos + i]! & 0x7f);
+    if (signed && bytes[pos + length - 1]! & 0x40)
+        value -= BigInt(1) << BigInt(length * 7);
+    return value;
+}
+
+/**
+ * toSafeNumber converts a decoded bigint to a number.
+ * @since v1.1.0
+ * @param {bigint} value the decoded integer.
+ * @param {number} pos the position of the integer, used in the error.
+ * @returns {number} the integer as number.
+ */
+export function toSafeNumber(value: bigint, pos: number): number {
+    if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER))
+        throw new RangeError(`Varint at position ${pos} is not a safe integer`);
+    return Number(value);
+}
+
+/**
+ * quicVarIntLength finds the length of the QUIC variable-length integer at the given position.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to read from.
+ * @param {number} pos the position of the integer.
+ * @param {number} size the number of bytes that can be read.
+ * @param {string | undefined} operation the name of the operation, used in the error.
+ * @returns {number} the number of bytes used by the integer.
+ */
+export function quicVarIntLength(bytes: Uint8Array, pos: number, size: number, operation?: string): number {
+    if (pos >= size) throw new OverflowError(size, pos, 1, operation);
+    const length = 1 << (bytes[pos]! >> 6);
+    if (size - pos < length) throw new OverflowError(size, pos, length, operation);
+    return length;
+}
+
+/**
+ * decodeQuicVarInt decodes a QUIC variable-length integer.
+ * RFC 9000 section 16 allows any length for a value, so non-minimal encodings are only rejected when minimal is set.
+ * @since v1.1.0
+ * @param {Uint8Array} bytes the bytes to read from.
+ * @param {number} pos the position of the integer.
+ * @param {number} length the number of bytes used by the integer.
+ * @param {boolean} minimal whether to reject encodings longer than needed.
+ * @param {string} operation the name of the calling method.
+ * @returns {bigint} the decoded integer.
+ */
+export function decodeQuicVarInt(bytes: Uint8Array, pos: number, length: number, minimal: boolean, operation?: string): bigint {
+    let value = BigInt(bytes[pos]! & 0x3f);
+    for (let i = 1; i < length; i++)
+        value = (value << BigInt(8)) | BigInt(bytes[pos + i]!);
+    if (minimal && length > 1 && value < BigInt(1) << BigInt((length / 2) * 8 - 2))
+        throw new EncodingError("varint", `Overlong varint at position ${pos}`, pos, { method: operation });
+    return value;
+}
+
+/**
+ * encodeULEB128 encodes a number as unsigned LEB128.
+ * @since v1.1.0
+ * @param {number} value an unsigned safe integer.
+ * @returns {number[]} the encoded bytes.
+ */
+export function encodeULEB128(value: number): number[] {
+    if (!Number.isSafeInteger(value) || value < 0)
+        throw new RangeError(`The value must be an unsigned safe integer. Received ${value}`);
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push((value % 0x80) | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+    return bytes;
+}
+
+/**
+ * encodeBigULEB128 encodes a bigint as unsigned LEB128.
+ * @since v1.1.0
+ * @param {bigint} value an unsigned integer.
+ * @returns {number[]} the encoded bytes.
+ */
+export function encodeBigULEB128(value: bigint): number[] {
+    if (value < BigInt(0))
+        throw new RangeError(`The value must be unsigned. Received ${value}`);
+    const bytes: number[] = [];
+    while (value >= BigInt(0x80)) {
+        bytes.push(Number(value & BigInt(0x7f)) | 0x80);
+        value >>= BigInt(7);
+    }
+    bytes.push(Number(value));
+    return bytes;
+}
+
+/**
+ * encodeBigSLEB128 encodes a bigint as signed LEB128.
+ * @since v1.1.0
+ * @param {bigint} value a signed integer.
+ * @returns {number[]} the encoded bytes.
+ */
+export function encodeBigSLEB128(value: bigint): number[] {
+    const bytes: number[] = [];
+    for (;;) {
+        const byte = Number(value & BigInt(0x7f));
+        value >>= BigInt(7);
+        if ((value === BigInt(0) && !(byte & 0x40)) || (value === BigInt(-1) && (byte & 0x40))) {
+            bytes.push(byte);
+            return bytes;
+        }
+        bytes.push(byte | 0x80);
+    }
+}
+
+/**
+ * encodeQuicVarInt encodes a bigint as QUIC variable-length integer, using the shortest encoding.
+ * @since v1.1.0
+ * @param {bigint} value an integer between 0 and 2^62 - 1.
+ * @returns {number[]} the encoded bytes.
+ */
+export function encodeQuicVarInt(value: bigint): number[] {
+    if (value < BigInt(0) || value >= BigInt(1) << BigInt(62))
+        throw new RangeError(`The value must be between 0 and 2^62 - 1. Received ${value}`);
+    const length = value < BigInt(0x40) ? 1 : value < BigInt(0x4000) ? 2 : value < BigInt(0x40000000) ? 4 : 8;
+    const bytes: number[] = [];
+    for (let i = length - 1; i >= 0; i--)
+        bytes.push(Number((value >> BigInt(i * 8)) & BigInt(0xff)));
+    bytes[0]! |= Math.log2(length) << 6;
+    return bytes;
+}
+
+/**
+ * zigzagEncode maps a signed number to an unsigned bigint, small magnitudes stay small.
+ * The result is a bigint because safe integers beyond ±2^52 zigzag past Number.MAX_SAFE_INTEGER.
+ * @since v1.1.0
+ * @param {number} value a safe integer.
+ * @returns {bigint} the zigzag encoded integer.
+ */
+export function zigzagEncode(value: number): bigint {
+    if (!Number.isSafeInteger(value))
+        throw new RangeError(`The value must be a safe integer. Received ${value}`);
+    return bigZigzagEncode(BigInt(value));
+}
+
+/**
+ * bigZigzagEncode maps a signed 64-bit bigint to an unsigned bigint.
+ * @since v1.1.0
+ * @param {bigint} value a signed 64-bit integer.
+ * @returns {bigint} the zigzag encoded integer.
+ */
+export function bigZigzagEncode(value: bigint): bigint {
+    if (value >= BigInt(1) << BigInt(63) || value < -(BigInt(1) << BigInt(63)))
+        throw new RangeError(`The value must fit in 64 bits. Received ${value}`);
+    return value >= BigInt(0) ? value << BigInt(1) : ((-value) << BigInt(1)) - BigInt(1);
+}
+
+/**
+ * bigZigzagDecode maps a zigzag encoded bigint back to a signed bigint.
+ * @since v1.1.0
+ * @param {bigint} value the zigzag encoded integer.
+ * @returns {bigint} the signed integer.
+ */
+export function bigZigzagDecode(value: bigint): bigint {
+    return value & BigInt(1) ? -((value + BigInt(1)) >> BigInt(1)) : value >> BigInt(1);
+}
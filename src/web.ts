@@ -0,0 +1,16 @@
+// Entry point without Node built-ins, for browsers, workers and Deno.
+export * from "./dataViewCursor";
+export * from "./overflowError";
+export * from "./errors";
+export * from "./hexdump";
+export * from "./integers";
+export * from "./numberFormats";
+export * from "./checksum";
+export * from "./placeholder";
+export * from "./typedArrays";
+export * from "./search";
+export * from "./msgpack";
+export * from "./protobuf";
+export * from "./encoding";
+export type { Cursor, FixedStringOptions, LengthPrefix, TransactionResult } from "./cursor";
+export type { Endian, NumberTag, NumberTypes } from "./numberTypes";
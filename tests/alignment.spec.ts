@@ -0,0 +1,77 @@
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { UnexpectedValueError } from "../src/errors";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { OverflowError } from "../src/overflowError";
+
+describe("Alignment spec", () => {
+    test("align moves to the next multiple", () => {
+        const bc = new BufferCursor(Buffer.alloc(32));
+        expect(bc.align(4).tell()).toBe(0);
+        bc.move(1);
+        expect(bc.align(2).tell()).toBe(2);
+        expect(bc.align(8).tell()).toBe(8);
+        bc.move(1);
+        expect(bc.align(16).tell()).toBe(16);
+        expect(bc.align(4, 3).tell()).toBe(19);
+        expect(() => bc.align(0)).toThrow("Alignment must be a positive integer. Received 0");
+        expect(() => bc.align(1.5)).toThrow(RangeError);
+        expect(bc.seek(30).align(8).eof()).toBeTruthy();
+        const short = new BufferCursor(Buffer.alloc(30));
+        short.seek(29);
+        expect(() => short.align(8)).toThrow(new OverflowError(30, 29, 3, "align"));
+        expect(short.tell()).toBe(29);
+    });
+
+    test("alignWrite and writePadding", () => {
+        const bc = new GrowableBufferCursor();
+        bc.write("RIFF").writeUInt8(1).alignWrite(4).write("abc").alignWrite(2, 0xff).writePadding(3, 0xee);
+        expect(bc.buffer).toEqual(Buffer.from([0x52, 0x49, 0x46, 0x46, 1, 0, 0, 0, 0x61, 0x62, 0x63, 0xff, 0xee, 0xee, 0xee]));
+        expect(bc.alignWrite(1).length).toBe(15);
+
+        const fixed = new BufferCursor(Buffer.alloc(6, 0x11));
+        fixed.move(5);
+        expect(() => fixed.alignWrite(4)).toThrow(new OverflowError(6, 5, 3, "alignWrite"));
+        expect(() => fixed.writePadding(2)).toThrow(new OverflowError(6, 5, 2, "writePadding"));
+        expect(fixed.buffer).toEqual(Buffer.alloc(6, 0x11));
+    });
+
+    test("skipPadding checks the padding bytes", () => {
+        const bc = new BufferCursor(Buffer.from([1, 0, 0, 0, 2, 0, 7, 0]));
+        bc.move(1);
+        expect(bc.skipPadding(3, { expect: 0 }).tell()).toBe(4);
+        bc.move(1);
+        expect(() => bc.skipPadding(3, { expect: 0 })).toThrow(new UnexpectedValueError(0, 7, 6, { method: "skipPadding" }));
+        expect(bc.tell()).toBe(5);
+        expect(bc.skipPadding(3).eof()).toBeTruthy();
+
+        const cc = new ChunkCursor([Buffer.from([1, 0]), Buffer.from([0, 9])]);
+        cc.move(1);
+        expect(() => cc.skipPadding(3, { expect: 0 })).toThrow(new UnexpectedValueError(0, 9, 3, { method: "skipPadding" }));
+        expect(cc.skipPadding(2, { expect: 0 }).align(4).tell()).toBe(4);
+
+        const dvc = new DataViewCursor(new Uint8Array([0xff, 0xff, 0xfe]));
+        expect(() => dvc.skipPadding(3, { expect: 0xff })).toThrow(UnexpectedValueError);
+        expect(dvc.skipPadding(2, { expect: 0xff }).tell()).toBe(2);
+    });
+
+    test("slices keep the alignment of their parent", () => {
+        const bc = new BufferCursor(Buffer.alloc(32));
+        bc.move(6);
+        const sub = bc.slice(20);
+        expect(sub.alignmentBase).toBe(-6);
+        expect(sub.align(8).tell()).toBe(2);
+        expect(sub.setAlignmentBase(0).align(8).tell()).toBe(8);
+        expect(() => sub.setAlignmentBase(0.5)).toThrow(RangeError);
+
+        const dvc = new DataViewCursor(new Uint8Array(32), { alignmentBase: 2 });
+        dvc.move(3);
+        expect(dvc.slice(10).align(4).tell()).toBe(3);
+        expect(dvc.alignWrite(4).tell()).toBe(14);
+
+        const cc = new ChunkCursor([Buffer.alloc(5), Buffer.alloc(20)]);
+        cc.move(3);
+        expect(cc.slice(12).align(4).tell()).toBe(1);
+    });
+});
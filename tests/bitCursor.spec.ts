@@ -0,0 +1,96 @@
+import { BitCursor } from "../src/bitCursor";
+import { BufferCursor } from "../src/buffercursor";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { OverflowError } from "../src/overflowError";
+
+describe("BitCursor spec", () => {
+    test("read msb first", () => {
+        const bits = new BitCursor(new BufferCursor(Buffer.from([0b10110011, 0b01011100, 0xff])));
+        expect(bits.readBits(1)).toBe(1);
+        expect(bits.readBits(3)).toBe(0b011);
+        expect(bits.readBits(6)).toBe(0b001101);
+        expect(bits.tellBits()).toBe(10);
+        expect(bits.cursor.tell()).toBe(1);
+        expect(bits.readBits(14)).toBe(0b01110011111111);
+        expect(bits.cursor.eof()).toBeTruthy();
+        expect(() => bits.readBits(1)).toThrow(OverflowError);
+    });
+
+    test("read lsb first", () => {
+        const bits = new BitCursor(new BufferCursor(Buffer.from([0b10110011, 0b01011100])), "lsb");
+        expect(bits.readBits(1)).toBe(1);
+        expect(bits.readBits(3)).toBe(0b001);
+        expect(bits.readBits(6)).toBe(0b001011);
+        expect(bits.readBits(6)).toBe(0b010111);
+    });
+
+    test("32 and 64 bit values", () => {
+        const buf = Buffer.from("0123456789abcdef", "hex");
+        expect(new BitCursor(new BufferCursor(buf)).readBits(32)).toBe(0x01234567);
+        expect(new BitCursor(new BufferCursor(buf), "lsb").readBits(32)).toBe(0x67452301);
+        expect(new BitCursor(new BufferCursor(buf)).readBigBits(64)).toBe(BigInt("0x0123456789abcdef"));
+        expect(new BitCursor(new BufferCursor(buf), "lsb").readBigBits(64)).toBe(BigInt("0xefcdab8967452301"));
+
+        const bits = new BitCursor(new BufferCursor(buf));
+        bits.readBits(4);
+        expect(bits.readBigBits(40)).toBe(BigInt("0x123456789a"));
+        expect(() => bits.readBits(33)).toThrow(RangeError);
+    });
+
+    test("write round trips", () => {
+        for (const order of ["msb", "lsb"] as const) {
+            const bits = new BitCursor(new BufferCursor(Buffer.alloc(16)), order);
+            bits.writeBits(1, 1).writeBits(5, 0b10011).writeBits(32, 0xdeadbeef);
+            bits.writeBigBits(58, BigInt("0x123456789abcdef"));
+            expect(bits.tellBits()).toBe(96);
+            bits.seekBits(0);
+            expect(bits.readBits(1)).toBe(1);
+            expect(bits.readBits(5)).toBe(0b10011);
+            expect(bits.readBits(32)).toBe(0xdeadbeef);
+            expect(bits.readBigBits(58)).toBe(BigInt("0x123456789abcdef"));
+        }
+        expect(() => new BitCursor(new BufferCursor(Buffer.alloc(1))).writeBits(3, 8)).toThrow(RangeError);
+    });
+
+    test("write preserves surrounding bits", () => {
+        const bc = new BufferCursor(Buffer.from([0xff]));
+        const bits = new BitCursor(bc);
+        bits.seekBits(2).writeBits(3, 0);
+        expect(bc.buffer).toEqual(Buffer.from([0b11000111]));
+    });
+
+    test("write grows a GrowableBufferCursor", () => {
+        const bits = new BitCursor(new GrowableBufferCursor({ initialCapacity: 0 }));
+        bits.writeBits(4, 0xa).writeBits(8, 0xbc);
+        expect(bits.cursor.buffer).toEqual(Buffer.from([0xab, 0xc0]));
+    });
+
+    test("a write that doesn't fit changes nothing", () => {
+        const bits = new BitCursor(new BufferCursor(Buffer.from([0x00])));
+        bits.writeBits(4, 0xf);
+        expect(() => bits.writeBits(12, 0xfff)).toThrow(OverflowError);
+        expect(bits.cursor.buffer).toEqual(Buffer.from([0xf0]));
+        expect(bits.tellBits()).toBe(4);
+        expect(() => bits.writeBigBits(40, BigInt(1))).toThrow(OverflowError);
+        expect(bits.cursor.buffer).toEqual(Buffer.from([0xf0]));
+        expect(bits.tellBits()).toBe(4);
+        bits.writeBits(4, 0x5);
+        expect(bits.cursor.buffer).toEqual(Buffer.from([0xf5]));
+    });
+
+    test("switching between bit and byte reads", () => {
+        const bc = new BufferCursor(Buffer.from([0xf0, 0x12, 0x34]));
+        const bits = new BitCursor(bc);
+        expect(bits.readBits(4)).toBe(0xf);
+        expect(bits.isAligned()).toBeFalsy();
+        bits.alignToByte();
+        expect(bc.readUInt8()).toBe(0x12);
+        expect(bits.tellBits()).toBe(16);
+        expect(bits.readBits(8)).toBe(0x34);
+
+        bc.seek(0);
+        bits.readBits(3);
+        bc.seek(1);
+        expect(bits.tellBits()).toBe(8);
+    });
+});
@@ -1,4 +1,5 @@
 import { BufferCursor } from "../src/buffercursor";
+import { DataViewCursor } from "../src/dataViewCursor";
 import { OverflowError } from "../src/overflowError";
 
 type NumberLike = number | bigint;
@@ -57,9 +58,205 @@ describe("BufferCursor spec", () => {
     createNumberTest("DoubleLE", 8, [1301068908.3941, 1662506964.2258]);
     createNumberTest("DoubleBE", 8, [1301068908.3941, 1662506964.2258]);
 
+    test("default endianness", () => {
+        const bc = new BufferCursor(Buffer.alloc(8));
+        expect(bc.endian).toBe("le");
+        bc.writeUInt16(0x0102);
+        bc.setEndian("be").writeUInt16(0x0102);
+        expect(bc.buffer.subarray(0, 4)).toEqual(Buffer.from([2, 1, 1, 2]));
+        bc.seek(0);
+        expect(bc.readUInt16()).toBe(0x0201);
+        expect(bc.setEndian("le").readUInt16()).toBe(0x0201);
+
+        const be = new BufferCursor(Buffer.alloc(24), { endian: "be" });
+        be.writeInt32(-2).writeFloat(1.5).writeBigUInt64(BigInt(7)).writeDouble(-0.25);
+        expect(be.buffer.readInt32BE(0)).toBe(-2);
+        be.seek(0);
+        expect(be.readInt32()).toBe(-2);
+        expect(be.readFloat()).toBe(1.5);
+        expect(be.readBigUInt64()).toBe(BigInt(7));
+        expect(be.readDouble()).toBe(-0.25);
+        expect(be.seek(0).slice(4).endian).toBe("be");
+        // @ts-ignore
+        expect(() => be.setEndian("middle")).toThrow(TypeError);
+        // @ts-ignore
+        expect(() => new BufferCursor(Buffer.alloc(1), { endian: "middle" })).toThrow(TypeError);
+    });
+
+    test("read and writeValue with number tags", () => {
+        const bc = new BufferCursor(Buffer.alloc(20), { endian: "be" });
+        bc.writeValue("u24be", 0x010203)
+            .writeValue("i24le", -2)
+            .writeValue("f32le", 0.5)
+            .writeValue("u16", 0x0405)
+            .writeValue("i64", BigInt(-1));
+        expect(bc.buffer.subarray(0, 12)).toEqual(Buffer.from([1, 2, 3, 0xfe, 0xff, 0xff, 0, 0, 0, 0x3f, 4, 5]));
+        bc.seek(0);
+        const u24: number = bc.read("u24be");
+        expect(u24).toBe(0x010203);
+        expect(bc.read("i24le")).toBe(-2);
+        expect(bc.read("f32le")).toBe(0.5);
+        expect(bc.read("u16")).toBe(0x0405);
+        const i64: bigint = bc.read("i64");
+        expect(i64).toBe(BigInt(-1));
+        expect(() => bc.read("u8")).toThrow(OverflowError);
+        // @ts-ignore
+        expect(() => bc.seek(0).read("u128")).toThrow(TypeError);
+        // @ts-ignore
+        expect(() => bc.read("toString")).toThrow("Unknown number type: toString");
+        // @ts-ignore
+        expect(() => bc.writeValue("constructor", 1)).toThrow("Unknown number type: constructor");
+    });
+
+    test("peek, readAt and writeAt don't move the cursor", () => {
+        const bc = new BufferCursor(Buffer.from([1, 2, 3, 4, 5, 6, 7, 8]), { endian: "be" });
+        bc.move(2);
+        expect(bc.peekUInt8()).toBe(3);
+        expect(bc.peekUInt16LE()).toBe(0x0403);
+        expect(bc.peekUInt32()).toBe(0x03040506);
+        expect(bc.peek("u24le")).toBe(0x050403);
+        expect(bc.readAt(6, "u16be")).toBe(0x0708);
+        expect(bc.readAt(0, "u8")).toBe(1);
+        expect(bc.tell()).toBe(2);
+
+        bc.writeAt(0, "u16le", 0xbeef);
+        expect(bc.buffer.subarray(0, 2)).toEqual(Buffer.from([0xef, 0xbe]));
+        expect(bc.tell()).toBe(2);
+
+        expect(() => bc.peekBigUInt64BE()).toThrow(new OverflowError(8, 2, 8, "peek"));
+        expect(() => bc.readAt(7, "u16")).toThrow(new OverflowError(8, 7, 2, "readAt"));
+        expect(() => bc.readAt(-1, "u8")).toThrow(new OverflowError(8, -1, 1, "readAt"));
+        expect(() => bc.writeAt(8, "u8", 0)).toThrow(new OverflowError(8, 8, 1, "writeAt"));
+        expect(bc.tell()).toBe(2);
+    });
+
+    test("mark, reset and commit", () => {
+        const bc = new BufferCursor(Buffer.from([1, 2, 3, 4]));
+        bc.mark();
+        bc.readUInt8();
+        bc.mark();
+        bc.readUInt16LE();
+        expect(bc.reset().tell()).toBe(1);
+        bc.readUInt8();
+        expect(bc.commit().tell()).toBe(2);
+        expect(() => bc.reset()).toThrow("No mark to reset to");
+        expect(() => bc.commit()).toThrow("No mark to commit");
+    });
+
+    test("transaction rolls back and reports incomplete data", () => {
+        const bc = new BufferCursor(Buffer.from([1, 0x61, 3, 0x62, 0x63]));
+        const readFrame = (c: BufferCursor) => [c.readLengthPrefixedString(), c.readLengthPrefixedString()];
+
+        expect(bc.transaction(readFrame))
+            .toEqual({ status: "incomplete", error: new OverflowError(5, 2, 4, "readLengthPrefixedString") });
+        expect(bc.tell()).toBe(0);
+
+        bc.seek(2);
+        expect(bc.transaction(c => c.readUInt8() + c.readUInt8())).toEqual({ status: "ok", value: 3 + 0x62 });
+        expect(bc.tell()).toBe(4);
+
+        const result = bc.transaction(c => {
+            c.readUInt8();
+            c.mark();
+            return c.readVarUInt();
+        });
+        expect(result.status).toBe("incomplete");
+        expect(bc.tell()).toBe(4);
+        expect(() => bc.reset()).toThrow("No mark to reset to");
+
+        const format = bc.transaction(c => {
+            if (c.readUInt8() !== 0) throw new TypeError("bad magic");
+        });
+        expect(format).toEqual({ status: "error", error: new TypeError("bad magic") });
+        expect(bc.tell()).toBe(4);
+    });
+
+    test("transaction rolls back after fn pops marks", () => {
+        const bc = new BufferCursor(Buffer.from([1, 2, 3, 4]));
+        bc.seek(1).mark();
+        const result = bc.transaction(c => {
+            c.move(2);
+            c.commit();
+            c.commit();
+            throw new Error("late");
+        });
+        expect(result.status).toBe("error");
+        expect(bc.tell()).toBe(1);
+        expect(bc.readUInt8()).toBe(2);
+        expect(() => bc.reset()).toThrow("No mark to reset to");
+    });
+
+    test("validates before mutating and names the operation", () => {
+        const bc = new BufferCursor(Buffer.alloc(4));
+        bc.move(1);
+        expect(() => bc.write("four")).toThrow(new OverflowError(4, 1, 4, "write"));
+        expect(() => bc.writeBuff(Buffer.from([1, 2, 3, 4]))).toThrow(new OverflowError(4, 1, 4, "writeBuff"));
+        expect(() => bc.copy(Buffer.from([1, 2, 3, 4]))).toThrow(new OverflowError(4, 1, 4, "copy"));
+        expect(() => bc.copy(Buffer.from([1, 2]), 1, 3)).toThrow(new OverflowError(2, 1, 2, "copy"));
+        expect(() => bc.fill(1, 4)).toThrow(new OverflowError(4, 1, 4, "fill"));
+        expect(() => bc.toString("utf8", 4)).toThrow(new OverflowError(4, 1, 4, "toString"));
+        expect(() => bc.slice(4)).toThrow(new OverflowError(4, 1, 4, "slice"));
+        expect(() => bc.move(4)).toThrow(new OverflowError(4, 1, 4, "move"));
+        expect(() => bc.seek(5)).toThrow(new OverflowError(4, 1, 4, "seek"));
+        expect(() => bc.slice(-1)).toThrow(RangeError);
+        expect(bc.buffer).toEqual(Buffer.alloc(4));
+        expect(bc.tell()).toBe(1);
+
+        expect(bc.write("ab", 1).tell()).toBe(2);
+        expect(bc.toString("utf8")).toBe("\0\0");
+    });
+
+    test("strict mode rejects invalid values before writing", () => {
+        const bc = new BufferCursor(Buffer.alloc(8), { strict: true });
+        expect(() => bc.writeUInt8(1.5)).toThrow(RangeError);
+        expect(() => bc.writeUInt16LE(NaN)).toThrow(RangeError);
+        expect(() => bc.writeInt8(128)).toThrow(RangeError);
+        expect(() => bc.writeValue("u24", 0x1000000)).toThrow(RangeError);
+        expect(() => bc.writeFloatLE(NaN)).toThrow(RangeError);
+        expect(() => bc.writeFloatLE(1e39)).toThrow(RangeError);
+        expect(() => bc.writeAt(0, "i16", -32769)).toThrow(RangeError);
+        expect(() => bc.writeBigUInt64LE(1 as any)).toThrow(TypeError);
+        expect(() => bc.move(0.5)).toThrow(RangeError);
+        expect(() => bc.toString("utf8", NaN)).toThrow(RangeError);
+        expect(bc.tell()).toBe(0);
+        expect(bc.buffer).toEqual(Buffer.alloc(8));
+
+        bc.writeUInt8(255).writeInt16LE(-32768).writeFloatLE(Infinity).writeUInt8(0);
+        expect(bc.eof()).toBeTruthy();
+        expect(new BufferCursor(Buffer.alloc(1)).writeUInt8(1.5).buffer[0]).toBe(1);
+    });
+
     test("isBufferCursor", () => {
         const buf = new BufferCursor(Buffer.alloc(4));
         expect(BufferCursor.isBufferCursor(buf)).toBeTruthy();
         expect(BufferCursor.isBufferCursor({})).toBeFalsy();
     });
+
+    test("is a DataViewCursor that returns Buffers", () => {
+        const data = Buffer.from("key=value;rest");
+        const bc = new BufferCursor(data);
+        expect(bc).toBeInstanceOf(DataViewCursor);
+        expect(bc.buffer).toBe(data);
+        expect(Buffer.isBuffer(bc.readUntil("="))).toBeTruthy();
+        const value = bc.sliceUntil(";");
+        expect(value).toBeInstanceOf(BufferCursor);
+        expect(value.toString("latin1")).toBe("value");
+        const copy = bc.getBuffer();
+        expect(Buffer.isBuffer(copy)).toBeTruthy();
+        copy[0] = 0;
+        expect(data[0]).toBe(0x6b);
+        expect(new DataViewCursor(new ArrayBuffer(4)).copy(bc.seek(0), 0, 4).getBuffer()).toEqual(new Uint8Array([0x6b, 0x65, 0x79, 0x3d]));
+    });
+
+    test("searches with Buffer#indexOf", () => {
+        const indexOf = jest.spyOn(Buffer.prototype, "indexOf");
+        try {
+            const bc = new BufferCursor(Buffer.from("a,b;c"));
+            expect(bc.indexOf(";")).toBe(3);
+            expect(bc.readUntil(",").toString()).toBe("a");
+            expect(indexOf).toHaveBeenCalledTimes(2);
+        } finally {
+            indexOf.mockRestore();
+        }
+    });
 });
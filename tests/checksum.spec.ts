@@ -0,0 +1,113 @@
+import { createHash, createHmac } from "crypto";
+import { BufferCursor } from "../src/buffercursor";
+import { checksum, createChecksum, CrcPreset, crcPresets } from "../src/checksum";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { UnexpectedValueError } from "../src/errors";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { OverflowError } from "../src/overflowError";
+
+describe("Checksum spec", () => {
+    const check = Buffer.from("123456789");
+
+    test("CRC presets match the catalogue check values", () => {
+        const expected: Record<CrcPreset, number> = {
+            "crc8": 0xf4,
+            "crc8-maxim": 0xa1,
+            "crc16-arc": 0xbb3d,
+            "crc16-modbus": 0x4b37,
+            "crc16-ccitt-false": 0x29b1,
+            "crc16-xmodem": 0x31c3,
+            "crc16-kermit": 0x2189,
+            "crc32": 0xcbf43926,
+            "crc32c": 0xe3069283,
+            "crc32-bzip2": 0xfc891918,
+            "crc32-mpeg2": 0x0376e6e7,
+        };
+        for (const preset of Object.keys(expected) as CrcPreset[]) {
+            expect(checksum(check, preset)).toBe(expected[preset]);
+        }
+        // CRC-16/GENIBUS, refIn and refOut both false with an xorOut
+        expect(checksum(check, { width: 16, poly: 0x1021, init: 0xffff, refIn: false, refOut: false, xorOut: 0xffff })).toBe(0xd64e);
+        // CRC-8/SAE-J1850
+        expect(checksum(check, { width: 8, poly: 0x1d, init: 0xff, refIn: false, refOut: false, xorOut: 0xff })).toBe(0x4b);
+        expect(() => checksum(check, "crc64" as CrcPreset)).toThrow(TypeError);
+        expect(() => checksum(check, "toString" as CrcPreset)).toThrow("Unknown checksum algorithm: toString");
+    });
+
+    test("rejects invalid CRC parameters", () => {
+        const crc16 = crcPresets["crc16-arc"];
+        expect(() => checksum(check, { ...crc16, width: 12 as 16 })).toThrow("CRC width must be 8, 16 or 32. Received 12");
+        expect(() => checksum(check, { ...crc16, poly: 0x18005 })).toThrow("CRC poly must be an integer >= 0 and <= 65535. Received 98309");
+        expect(() => checksum(check, { ...crc16, init: -1 })).toThrow(RangeError);
+        expect(() => checksum(check, { ...crc16, xorOut: 0.5 })).toThrow(RangeError);
+    });
+
+    test("Adler-32 and Fletcher", () => {
+        expect(checksum(Buffer.from("Wikipedia"), "adler32")).toBe(0x11e60398);
+        expect(checksum(Buffer.from("abcde"), "fletcher16")).toBe(0xc8f0);
+        expect(checksum(Buffer.from("abcdef"), "fletcher16")).toBe(0x2057);
+        expect(checksum(Buffer.from("abcde"), "fletcher32")).toBe(0xf04fc729);
+        expect(checksum(Buffer.from("abcdef"), "fletcher32")).toBe(0x56502d2a);
+    });
+
+    test("incremental updates match a single update", () => {
+        for (const algorithm of ["crc32", "crc16-xmodem", "adler32", "fletcher16", "fletcher32", crcPresets["crc32-bzip2"]] as const) {
+            const sum = createChecksum(algorithm);
+            sum.update(check.subarray(0, 3)).update(check.subarray(3, 4)).update(check.subarray(4));
+            expect(sum.digest()).toBe(checksum(check, algorithm));
+        }
+    });
+
+    test("verifies and writes checksums from the mark", () => {
+        const head = checksum(Buffer.from("head"), "crc16-xmodem");
+        const bc = new GrowableBufferCursor();
+        bc.write("head").mark().write("123456789").writeChecksum("crc32", "u32be").commit();
+        bc.writeChecksum("crc16-xmodem", "u16le", { start: 0, end: 4 });
+        expect(bc.buffer.subarray(13)).toEqual(Buffer.from([0xcb, 0xf4, 0x39, 0x26, head & 0xff, head >> 8]));
+        expect(bc.checksum("crc16-xmodem", { start: 0, end: 4 })).toBe(head);
+
+        const reader = new BufferCursor(bc.buffer);
+        reader.move(4);
+        reader.mark().move(9);
+        expect(reader.verifyChecksum("crc32", "u32be")).toBe(0xcbf43926);
+        reader.commit();
+        expect(() => reader.verifyChecksum("crc32", "u16le", { start: 0, end: 4 }))
+            .toThrow(new UnexpectedValueError(checksum(Buffer.from("head"), "crc32"), head, 17, { method: "verifyChecksum" }));
+        expect(reader.tell()).toBe(17);
+        expect(reader.verifyChecksum("crc16-xmodem", "u16le", { start: 0, end: 4 })).toBe(head);
+        expect(reader.eof()).toBeTruthy();
+
+        expect(() => reader.checksum("crc32", { start: 10, end: 30 })).toThrow(new OverflowError(19, 10, 20, "checksum"));
+        expect(() => reader.checksum("crc32", { start: 10, end: 5 })).toThrow(RangeError);
+        expect(() => new BufferCursor(Buffer.alloc(2)).writeChecksum("crc32", "u32le")).toThrow(OverflowError);
+    });
+
+    test("DataViewCursor and ChunkCursor", () => {
+        const dvc = new DataViewCursor(new Uint8Array(13));
+        dvc.write("123456789").writeChecksum("adler32", "u32");
+        dvc.seek(9);
+        expect(dvc.verifyChecksum("adler32", "u32")).toBe(checksum(check, "adler32"));
+
+        const data = Buffer.from(dvc.buffer);
+        const cc = new ChunkCursor([data.subarray(0, 4), data.subarray(4, 10), data.subarray(10)]);
+        cc.move(9);
+        expect(cc.checksum("crc32c")).toBe(checksum(check, "crc32c"));
+        expect(() => cc.verifyChecksum("fletcher32", "u32le")).toThrow(UnexpectedValueError);
+        expect(cc.tell()).toBe(9);
+        expect(cc.verifyChecksum("adler32", "u32le")).toBe(checksum(check, "adler32"));
+        cc.dropConsumed();
+        expect(() => cc.checksum("crc32", { start: 0, end: 4 })).toThrow(OverflowError);
+    });
+
+    test("digest bridges to crypto", () => {
+        const bc = new BufferCursor(Buffer.from("header123456789"));
+        bc.move(6);
+        bc.mark().move(9);
+        expect(bc.digest("sha256")).toEqual(createHash("sha256").update(check).digest());
+        expect(bc.digest("sha1", { start: 0, end: 6, key: "secret" })).toEqual(createHmac("sha1", "secret").update("header").digest());
+
+        const cc = new ChunkCursor([Buffer.from("header12"), Buffer.from("3456789")]);
+        expect(cc.digest("md5", { start: 6, end: 15 })).toEqual(createHash("md5").update(check).digest());
+    });
+});
@@ -0,0 +1,147 @@
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { Cursor } from "../src/cursor";
+import { OverflowError } from "../src/overflowError";
+
+function split(buf: Buffer, size: number): Buffer[] {
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < buf.length; i += size) chunks.push(buf.subarray(i, i + size));
+    return chunks;
+}
+
+function parse(cursor: Cursor) {
+    return {
+        a: cursor.readUInt16BE(),
+        b: cursor.readInt32LE(),
+        c: cursor.readBigUInt64BE(),
+        d: cursor.readDoubleLE(),
+        e: cursor.readCString(),
+        f: cursor.readVarInt(),
+        g: cursor.readLengthPrefixedString("u16le"),
+        h: cursor.read("u24be"),
+    };
+}
+
+describe("ChunkCursor spec", () => {
+    const writer = new BufferCursor(Buffer.alloc(64));
+    writer.writeUInt16BE(0xbeef).writeInt32LE(-123456).writeBigUInt64BE(BigInt("0x0102030405060708"))
+        .writeDoubleLE(Math.PI).writeCString("héllo").writeVarInt(-1000).writeLengthPrefixedString("wörld", "u16le")
+        .writeValue("u24be", 0xabcdef);
+    const data = writer.getBuffer();
+
+    test("reads across chunk boundaries like a BufferCursor", () => {
+        const expected = parse(new BufferCursor(data));
+        for (const size of [1, 2, 3, 5, 7, 64]) {
+            const cc = new ChunkCursor(split(data, size));
+            expect(parse(cc)).toEqual(expected);
+            expect(cc.eof()).toBeTruthy();
+            expect(() => cc.readUInt8()).toThrow(new OverflowError(data.length, data.length, 1, "readUInt8"));
+        }
+    });
+
+    test("seek, tell and toString", () => {
+        const cc = new ChunkCursor([Buffer.from("hel"), Buffer.from("lo "), Buffer.from("world")]);
+        expect(cc.length).toBe(11);
+        expect(cc.seek(2).toString("utf8", 6)).toBe("llo wo");
+        expect(cc.tell()).toBe(8);
+        expect(cc.toString()).toBe("rld");
+        expect(() => cc.seek(12)).toThrow(RangeError);
+        // @ts-ignore
+        expect(() => new ChunkCursor([], { endian: "middle" })).toThrow(TypeError);
+    });
+
+    test("slice is zero-copy", () => {
+        const chunks = [Buffer.from([1, 2, 3]), Buffer.from([4, 5, 6]), Buffer.from([7, 8, 9])];
+        const cc = new ChunkCursor(chunks);
+        cc.move(1);
+        const inside = cc.slice(2);
+        expect(inside).toBeInstanceOf(BufferCursor);
+        (inside as BufferCursor).buffer[0] = 0x20;
+        expect(chunks[0]![1]).toBe(0x20);
+
+        const across = cc.slice(5);
+        expect(across).toBeInstanceOf(ChunkCursor);
+        expect(across.length).toBe(5);
+        expect(across.toString("hex")).toBe("0405060708");
+        expect(cc.tell()).toBe(8);
+        expect(() => cc.slice(2)).toThrow(OverflowError);
+    });
+
+    test("append and drop consumed chunks", () => {
+        const cc = new ChunkCursor([Buffer.from([1, 2])]);
+        expect(cc.readUInt8()).toBe(1);
+        expect(() => cc.readUInt16LE()).toThrow(OverflowError);
+        cc.append(Buffer.from([3, 4]));
+        expect(cc.readUInt16LE()).toBe(0x0302);
+        expect(cc.dropConsumed()).toBe(1);
+        expect(cc.startOffset).toBe(2);
+        expect(cc.tell()).toBe(3);
+        expect(cc.readUInt8()).toBe(4);
+        expect(() => cc.seek(1)).toThrow(RangeError);
+        expect(cc.seek(2).readUInt8()).toBe(3);
+    });
+
+    test("varints", () => {
+        const cc = new ChunkCursor([Buffer.from([0xac]), Buffer.from([0x02, 0x80])]);
+        expect(cc.readVarUInt()).toBe(300);
+        expect(() => cc.readVarUInt()).toThrow(new OverflowError(3, 2, 2, "readVarUInt"));
+        expect(cc.tell()).toBe(2);
+        const quic = new ChunkCursor(split(Buffer.from("c2197c5eff14e88c", "hex"), 3));
+        expect(quic.readBigQuicVarInt()).toBe(BigInt("151288809941952652"));
+    });
+
+    test("peek and readAt across chunks", () => {
+        const cc = new ChunkCursor([Buffer.from([1, 2]), Buffer.from([3, 4]), Buffer.from([5])]);
+        cc.move(1);
+        expect(cc.peekUInt32BE()).toBe(0x02030405);
+        expect(cc.peek("u16le")).toBe(0x0302);
+        expect(cc.readAt(3, "u16be")).toBe(0x0405);
+        expect(cc.tell()).toBe(1);
+        expect(() => cc.readAt(4, "u16")).toThrow(new OverflowError(5, 4, 2, "readAt"));
+        cc.move(1);
+        cc.dropConsumed();
+        expect(() => cc.readAt(0, "u8")).toThrow(new OverflowError(5, 0, 1, "readAt"));
+        expect(cc.tell()).toBe(2);
+    });
+
+    test("retries a transaction when more chunks arrive", () => {
+        const frame = Buffer.from([0, 5, 0x68, 0x65, 0x6c, 0x6c, 0x6f]);
+        const cc = new ChunkCursor();
+        const frames: string[] = [];
+        for (const chunk of split(Buffer.concat([frame, frame]), 3)) {
+            cc.append(chunk);
+            for (;;) {
+                const result = cc.transaction(c => c.toString("utf8", c.readUInt16BE()));
+                if (result.status !== "ok") {
+                    expect(result.status).toBe("incomplete");
+                    break;
+                }
+                frames.push(result.value);
+            }
+            cc.dropConsumed();
+        }
+        expect(frames).toEqual(["hello", "hello"]);
+        expect(cc.eof()).toBeTruthy();
+    });
+
+    test("transaction rolls back after fn pops marks", () => {
+        const cc = new ChunkCursor([Buffer.from([1, 2]), Buffer.from([3, 4])]);
+        cc.move(1);
+        const result = cc.transaction(c => {
+            c.move(2);
+            c.commit();
+            throw new Error("late");
+        });
+        expect(result.status).toBe("error");
+        expect(cc.tell()).toBe(1);
+        expect(cc.readUInt8()).toBe(2);
+    });
+
+    test("dropConsumed keeps chunks after a mark", () => {
+        const cc = new ChunkCursor([Buffer.from([1]), Buffer.from([2]), Buffer.from([3])]);
+        cc.seek(1).mark();
+        cc.move(2);
+        expect(cc.dropConsumed()).toBe(1);
+        expect(cc.reset().readUInt8()).toBe(2);
+    });
+});
@@ -0,0 +1,122 @@
+import { BufferCursor } from "../src/buffercursor";
+import { Cursor } from "../src/cursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { decodeString, encodeString, StringEncoding } from "../src/encoding";
+import { OverflowError } from "../src/overflowError";
+
+function parse(cursor: Cursor) {
+    return {
+        a: cursor.readUInt16BE(),
+        b: cursor.readInt32LE(),
+        c: cursor.readBigInt64BE(),
+        d: cursor.readDoubleLE(),
+        e: cursor.readCString(),
+        f: cursor.readVarInt(),
+        g: cursor.readLengthPrefixedString("u16le"),
+        h: cursor.read("i24be"),
+        i: cursor.readFloat(),
+        j: cursor.readQuicVarInt(),
+        k: cursor.readFixedString(6, { padding: " " }),
+    };
+}
+
+describe("DataViewCursor spec", () => {
+    const writer = new BufferCursor(Buffer.alloc(80));
+    writer.writeUInt16BE(0xbeef).writeInt32LE(-123456).writeBigInt64BE(BigInt("-81985529216486896"))
+        .writeDoubleLE(Math.PI).writeCString("héllo").writeVarInt(-1000).writeLengthPrefixedString("wörld", "u16le")
+        .writeValue("i24be", -0x123456).writeFloat(1.5).writeQuicVarInt(15293).writeFixedString("ab", 6, { padding: " " });
+    const data = writer.getBuffer();
+
+    test("reads like a BufferCursor", () => {
+        const dvc = new DataViewCursor(data);
+        expect(parse(dvc)).toEqual(parse(new BufferCursor(data)));
+        expect(dvc.eof()).toBeTruthy();
+        expect(() => dvc.readUInt8()).toThrow(new OverflowError(data.length, data.length, 1, "readUInt8"));
+    });
+
+    test("writes like a BufferCursor", () => {
+        const dvc = new DataViewCursor(new ArrayBuffer(80));
+        dvc.writeUInt16BE(0xbeef).writeInt32LE(-123456).writeBigInt64BE(BigInt("-81985529216486896"))
+            .writeDoubleLE(Math.PI).writeCString("héllo").writeVarInt(-1000).writeLengthPrefixedString("wörld", "u16le")
+            .writeValue("i24be", -0x123456).writeFloat(1.5).writeQuicVarInt(15293).writeFixedString("ab", 6, { padding: " " });
+        expect(Buffer.from(dvc.getBuffer())).toEqual(data);
+    });
+
+    test("accepts buffers, shared buffers and views", () => {
+        const bytes = new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7]);
+        expect(new DataViewCursor(bytes.buffer).readUInt32BE()).toBe(0x00010203);
+        expect(new DataViewCursor(new Uint16Array(bytes.buffer, 2, 2)).readUInt32BE()).toBe(0x02030405);
+        expect(new DataViewCursor(new DataView(bytes.buffer, 4)).readUInt16LE()).toBe(0x0504);
+        expect(new DataViewCursor(Buffer.from(bytes)).setEndian("be").readUInt16()).toBe(0x0001);
+        // @ts-ignore
+        expect(() => new DataViewCursor(bytes, { endian: "middle" })).toThrow(TypeError);
+
+        const shared = new SharedArrayBuffer(8);
+        const dvc = new DataViewCursor(shared);
+        dvc.write("hi!");
+        expect(new Uint8Array(shared, 0, 3)).toEqual(new Uint8Array([0x68, 0x69, 0x21]));
+        expect(dvc.seek(0).toString("utf8", 3)).toBe("hi!");
+
+        expect(() => new DataViewCursor([1, 2] as any)).toThrow(TypeError);
+        // @ts-ignore
+        expect(() => new DataViewCursor(bytes).read("toString")).toThrow("Unknown number type: toString");
+    });
+
+    test("shares memory with the source", () => {
+        const bytes = new Uint8Array(4);
+        const dvc = new DataViewCursor(bytes);
+        dvc.writeUInt32LE(0xdeadbeef);
+        expect(bytes).toEqual(new Uint8Array([0xef, 0xbe, 0xad, 0xde]));
+        expect(dvc.buffer).toBe(dvc.buffer);
+        const slice = dvc.seek(1).slice(2);
+        expect(slice.readUInt16LE()).toBe(0xadbe);
+        expect(dvc.tell()).toBe(3);
+    });
+
+    test("checks bounds and ranges", () => {
+        const dvc = new DataViewCursor(new Uint8Array(3));
+        expect(() => dvc.writeUInt32LE(1)).toThrow(new OverflowError(3, 0, 4, "writeUInt32LE"));
+        expect(() => dvc.write("four")).toThrow(new OverflowError(3, 0, 4, "write"));
+        expect(() => dvc.writeUInt8(256)).toThrow(RangeError);
+        expect(() => dvc.writeValue("i24le", 0x800000)).toThrow(RangeError);
+        expect(() => dvc.writeBigUInt64LE(BigInt(-1))).toThrow(RangeError);
+        expect(dvc.tell()).toBe(0);
+        dvc.fill(0xff);
+        expect(dvc.seek(0).read("i24le")).toBe(-1);
+    });
+
+    test("peek, readAt and writeAt don't move the cursor", () => {
+        const dvc = new DataViewCursor(new Uint8Array([1, 2, 3, 4]));
+        dvc.move(1);
+        expect(dvc.peekUInt16BE()).toBe(0x0203);
+        expect(dvc.readAt(0, "u32le")).toBe(0x04030201);
+        dvc.writeAt(3, "i8", -1);
+        expect(dvc.peek("u24be")).toBe(0x0203ff);
+        expect(dvc.tell()).toBe(1);
+        expect(() => dvc.peekFloatLE()).toThrow(new OverflowError(4, 1, 4, "peek"));
+        expect(() => dvc.writeAt(3, "u16", 0)).toThrow(new OverflowError(4, 3, 2, "writeAt"));
+    });
+
+    test("strict mode", () => {
+        const dvc = new DataViewCursor(new Uint8Array(4), { strict: true });
+        expect(() => dvc.writeUInt16BE(1.5)).toThrow(RangeError);
+        expect(() => dvc.writeValue("i24", -0x800001)).toThrow(RangeError);
+        expect(() => dvc.slice(NaN)).toThrow(RangeError);
+        expect(dvc.writeUInt32BE(0xffffffff).tell()).toBe(4);
+    });
+
+    test("encodes strings like Buffer", () => {
+        const encodings: StringEncoding[] = ["utf8", "utf16le", "latin1", "ascii", "hex", "base64", "base64url"];
+        const values = ["", "a", "ab", "abc", "héllo wörld", "snow ☃ and 🎉", "ÿ\u0080"];
+        for (const encoding of encodings) {
+            for (const value of values) {
+                const input = encoding === "hex" || encoding.startsWith("base64")
+                    ? Buffer.from(value).toString(encoding) : value;
+                const expected = Buffer.from(input, encoding);
+                expect(Buffer.from(encodeString(input, encoding))).toEqual(expected);
+                expect(decodeString(expected, encoding)).toBe(expected.toString(encoding));
+            }
+        }
+        expect(() => encodeString("a", "utf32" as StringEncoding)).toThrow(TypeError);
+    });
+});
@@ -0,0 +1,115 @@
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { BufferCursorError, EncodingError, hexSnippet, UnexpectedValueError } from "../src/errors";
+import { OverflowError } from "../src/overflowError";
+import { schema, SchemaError } from "../src/schema";
+
+describe("Errors spec", () => {
+    test("OverflowError is structured", () => {
+        const bc = new BufferCursor(Buffer.alloc(8));
+        bc.move(6);
+        let error: unknown;
+        try {
+            bc.readUInt32LE();
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(OverflowError);
+        expect(error).toBeInstanceOf(BufferCursorError);
+        expect(error).toBeInstanceOf(RangeError);
+        expect(error).toMatchObject({
+            name: "OverflowError",
+            message: "OverflowError: readUInt32LE length 8, position 6, size 4",
+            length: 8, pos: 6, size: 4, offset: 6, method: "readUInt32LE", operation: "read",
+        });
+        expect(new OverflowError(4, 0, 8, "writeBuff").operation).toBe("write");
+        expect(new OverflowError(4, 0, 8, "seek").operation).toBe("move");
+        expect(new OverflowError(4, 0, 8).method).toBeUndefined();
+    });
+
+    test("expectValue and expectBytes", () => {
+        const bc = new BufferCursor(Buffer.from([0xca, 0xfe, 0x02, 0x07, 0x50, 0x4b]));
+        expect(bc.expectValue("u16be", 0xcafe)).toBe(0xcafe);
+        expect(bc.expectValue("u8", [1, 2, 3])).toBe(2);
+        expect(() => bc.expectValue("u8", [1, 2])).toThrow(
+            new UnexpectedValueError([1, 2], 7, 3, { method: "expectValue" }));
+        expect(bc.tell()).toBe(3);
+        expect(() => bc.expectValue("u8", [1, 2])).toThrow("expected one of 1 (0x1), 2 (0x2), got 7 (0x7) at position 3");
+        bc.move(1);
+        expect(() => bc.expectBytes(Buffer.from("PK!"))).toThrow(OverflowError);
+        expect(() => bc.expectBytes(Buffer.from("ZZ"))).toThrow("expected <5a5a>, got <504b> at position 4");
+        expect(bc.expectBytes(Buffer.from("PK")).eof()).toBeTruthy();
+
+        const dvc = new DataViewCursor(new Uint8Array([0, 0, 0, 1]));
+        expect(dvc.expectValue("u32be", 1)).toBe(1);
+        expect(() => dvc.seek(0).expectBytes(new Uint8Array([0, 1]))).toThrow(UnexpectedValueError);
+
+        const cc = new ChunkCursor([Buffer.from("P"), Buffer.from("K"), Buffer.from([3])]);
+        expect(cc.expectBytes(Buffer.from("PK")).expectValue("u8", 3)).toBe(3);
+        expect(() => cc.seek(0).expectValue("u16le", 0)).toThrow(UnexpectedValueError);
+        expect(cc.tell()).toBe(0);
+    });
+
+    test("context adds paths and a snippet", () => {
+        const bc = new BufferCursor(Buffer.from([1, 2, 3, 4, 5]));
+        let error: BufferCursorError | undefined;
+        try {
+            bc.context("packet", c => c.context("header", c => {
+                c.readUInt16LE();
+                c.context("flags", c => c.expectValue("u8", 0));
+            }));
+        } catch (e) {
+            error = e as BufferCursorError;
+        }
+        expect(error).toBeInstanceOf(UnexpectedValueError);
+        expect(error?.context).toBe("packet.header.flags");
+        expect(error?.snippet).toBe("0x0000: 01 02 [03] 04 05");
+        expect(error?.message).toBe("UnexpectedValueError: expectValue expected 0 (0x0), got 3 (0x3) at position 2 (at packet.header.flags)"
+            + "\n    0x0000: 01 02 [03] 04 05");
+
+        const cc = new ChunkCursor([Buffer.from([1, 2]), Buffer.from([3])]);
+        cc.move(3);
+        expect(() => cc.context("tail", c => c.readUInt8())).toThrow("(at tail)\n    0x0000: 01 02 03 [..]");
+        expect(() => new DataViewCursor(new Uint8Array(1)).context("x", c => c.readUInt16LE())).toThrow("\n    0x0000: [00]");
+    });
+
+    test("hexSnippet", () => {
+        const bytes = new Uint8Array(32).map((_, i) => i);
+        expect(hexSnippet(bytes, 16)).toBe("0x0008: 08 09 0a 0b 0c 0d 0e 0f [10] 11 12 13 14 15 16 17 18");
+        expect(hexSnippet(bytes, 0x102, 0x100, 2)).toBe("0x0100: 00 01 [02] 03 04");
+    });
+
+    test("EncodingError", () => {
+        const invalid = Buffer.from([0x61, 0xc3, 0x28, 0]);
+        expect(new BufferCursor(invalid).toString("utf8", 2)).toBe("a�");
+        for (const cursor of [
+            new BufferCursor(invalid, { strict: true }),
+            new DataViewCursor(invalid, { strict: true }),
+            new ChunkCursor([invalid.subarray(0, 2), invalid.subarray(2)], { strict: true }),
+        ]) {
+            expect(() => cursor.toString("utf8", 3)).toThrow(new EncodingError("utf8", "Invalid utf8 at position 1", 1, { method: "toString" }));
+            expect(() => cursor.readCString()).toThrow(EncodingError);
+            expect(cursor.tell()).toBe(0);
+        }
+        expect(() => new BufferCursor(Buffer.from([0x80, 0]), { strict: true }).readCString("ascii")).toThrow("Invalid ascii");
+
+        const overlong = new BufferCursor(Buffer.from([0x80, 0x00]));
+        expect(() => overlong.readVarUInt()).toThrow(EncodingError);
+        expect(() => overlong.readVarUInt()).toThrow(expect.objectContaining({ encoding: "varint", offset: 0 }));
+    });
+
+    test("SchemaError is a BufferCursorError", () => {
+        const codec = schema.struct({ a: schema.u8, b: schema.u32le });
+        let error: unknown;
+        try {
+            codec.read(new BufferCursor(Buffer.alloc(3)));
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(SchemaError);
+        expect(error).toBeInstanceOf(BufferCursorError);
+        expect(error).toMatchObject({ path: "b", offset: 1 });
+        expect((error as SchemaError).cause).toBeInstanceOf(OverflowError);
+    });
+});
@@ -0,0 +1,167 @@
+import { closeSync, mkdtempSync, openSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { open } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BufferCursor } from "../src/buffercursor";
+import { FileCursor, FileCursorSync } from "../src/fileCursor";
+import { OverflowError } from "../src/overflowError";
+
+describe("FileCursor spec", () => {
+    const dir = mkdtempSync(join(tmpdir(), "filecursor-"));
+    const data = Buffer.alloc(1000);
+    for (let i = 0; i < data.length; i++) data[i] = (i * 7) & 0xff;
+    let count = 0;
+    const file = (contents: Buffer = data) => {
+        const path = join(dir, `file${count++}.bin`);
+        writeFileSync(path, contents);
+        return path;
+    };
+
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    test("reads numbers across page boundaries", async () => {
+        const fc = await FileCursor.open(file(), { pageSize: 16, maxPages: 4 });
+        expect(fc.length).toBe(1000);
+        expect(await fc.readUInt8()).toBe(data[0]);
+        fc.seek(14);
+        expect(await fc.readUInt32BE()).toBe(data.readUInt32BE(14));
+        expect(await fc.setEndian("be").readBigUInt64()).toBe(data.readBigUInt64BE(18));
+        expect(fc.tell()).toBe(26);
+        expect(await fc.read("i24le")).toBe(data.readIntLE(26, 3));
+        expect(await fc.peek("u16be")).toBe(data.readUInt16BE(29));
+        expect(await fc.readAt(990, "f64le")).toBe(data.readDoubleLE(990));
+        expect(fc.tell()).toBe(29);
+        fc.seek(1000);
+        expect(fc.eof()).toBeTruthy();
+        await fc.close();
+    });
+
+    test("keeps the least recently used pages up to the limit", async () => {
+        const handle = await open(file(), "r");
+        const reads = jest.spyOn(handle, "read");
+        const fc = await FileCursor.open(handle, { pageSize: 100, maxPages: 2 });
+        await fc.readAt(0, "u8");
+        await fc.readAt(150, "u8");
+        await fc.readAt(10, "u8");
+        expect(reads).toHaveBeenCalledTimes(2);
+        await fc.readAt(250, "u8"); // Drops page 1, page 0 was used more recently
+        await fc.readAt(20, "u8");
+        expect(reads).toHaveBeenCalledTimes(3);
+        await fc.readAt(160, "u8");
+        expect(reads).toHaveBeenCalledTimes(4);
+        expect(fc.cachedPages).toBe(2);
+        await fc.close();
+        expect(fc.cachedPages).toBe(0);
+        expect((await handle.stat()).size).toBe(1000); // Still open
+        await handle.close();
+    });
+
+    test("slices, strings and bytes", async () => {
+        const fc = await FileCursor.open(file(Buffer.from("hello\0world, this is a file\0tail")), { pageSize: 4 });
+        expect(await fc.readCString()).toBe("hello");
+        const slice = await fc.slice(5);
+        expect(slice).toBeInstanceOf(BufferCursor);
+        expect(slice.toString()).toBe("world");
+        slice.seek(0).write("W");
+        expect(await fc.readAt(6, "u8")).toBe(0x77);
+        expect(await fc.toString("utf8", 2)).toBe(", ");
+        expect(Array.from(await fc.readUInt8Array(4))).toEqual([0x74, 0x68, 0x69, 0x73]);
+        expect(await fc.readCString()).toBe(" is a file");
+        expect(await fc.toString()).toBe("tail");
+        fc.seek(29);
+        await expect(fc.readCString()).rejects.toThrow(OverflowError);
+        expect(fc.tell()).toBe(29);
+        await expect(fc.readCString("base64")).rejects.toThrow(TypeError);
+        await fc.close();
+
+        const utf16 = Buffer.from([0x00, 0x01, 0x00, 0x01, 0x00, 0x00, 0x61, 0x00, 0x00]);
+        const wide = await FileCursor.open(file(utf16), { pageSize: 3 });
+        expect(await wide.readCString("utf16le")).toBe("ĀĀ");
+        expect(wide.tell()).toBe(6);
+        await expect(wide.readCString("utf16le")).rejects.toThrow(new OverflowError(9, 6, 5, "readCString"));
+        await wide.close();
+        const wideSync = FileCursorSync.open(file(utf16), { pageSize: 2 });
+        expect(wideSync.readCString("utf16le")).toBe("ĀĀ");
+        wideSync.close();
+    });
+
+    test("writes go to the file and update the cache", async () => {
+        const path = file();
+        const fc = await FileCursor.open(path, { flags: "r+", pageSize: 64 });
+        expect(await fc.readAt(100, "u32le")).toBe(data.readUInt32LE(100));
+        fc.seek(98);
+        await fc.writeUInt32LE(0xdeadbeef);
+        await fc.writeValue("u16be", 0x1234);
+        expect(await fc.readAt(100, "u16le")).toBe(0xdead);
+        await fc.writeAt(0, "i8", -1);
+        await expect(fc.writeAt(999, "u16le", 1)).rejects.toThrow(OverflowError);
+        await expect(fc.writeAt(0, "u8", 256)).rejects.toThrow("It must be >= 0 and <= 255. Received 256");
+        // @ts-ignore
+        await expect(fc.writeAt(0, "u64le", 1)).rejects.toThrow(RangeError);
+        fc.seek(998);
+        await fc.write("grow");
+        await fc.writeUInt8Array(new Uint8Array([1, 2]));
+        expect(fc.length).toBe(1004);
+        fc.seek(1000);
+        expect(await fc.toString("utf8", 2)).toBe("ow");
+        await fc.close();
+
+        const written = readFileSync(path);
+        expect(written.length).toBe(1004);
+        expect(written.readUInt32LE(98)).toBe(0xdeadbeef);
+        expect(written.readUInt16BE(102)).toBe(0x1234);
+        expect(written[0]).toBe(0xff);
+    });
+
+    test("rejects reads past the end without moving", async () => {
+        const fc = await FileCursor.open(file(Buffer.from([1, 2, 3])));
+        fc.seek(1);
+        const error = await fc.readUInt32LE().catch(e => e);
+        expect(error).toBeInstanceOf(OverflowError);
+        expect(error.message).toBe("OverflowError: readUInt32LE length 3, position 1, size 4");
+        expect(fc.tell()).toBe(1);
+        expect(() => fc.seek(4)).toThrow(OverflowError);
+        expect(() => fc.move(-2)).toThrow(RangeError);
+        await expect(fc.slice(3)).rejects.toThrow(OverflowError);
+        await expect(FileCursor.open(join(dir, "missing.bin"))).rejects.toThrow("ENOENT");
+        await expect(FileCursor.open(file(), { pageSize: 0 })).rejects.toThrow(RangeError);
+        // @ts-ignore
+        await expect(FileCursor.open(file(), { endian: "middle" })).rejects.toThrow(TypeError);
+        // @ts-ignore
+        expect(() => FileCursorSync.open(file(), { endian: "middle" })).toThrow(TypeError);
+        await fc.close();
+    });
+
+    test("FileCursorSync over a file descriptor", () => {
+        const fd = openSync(file(), "r+");
+        const fc = new FileCursorSync(fd, { pageSize: 32, maxPages: 1, endian: "be" });
+        expect(fc.readUInt16()).toBe(data.readUInt16BE(0));
+        fc.seek(30);
+        expect(fc.readInt32LE()).toBe(data.readInt32LE(30));
+        expect(fc.peek("u8")).toBe(data[34]);
+        fc.writeDoubleBE(1.5).writeBigInt64LE(BigInt(-2));
+        expect(fc.readAt(34, "f64be")).toBe(1.5);
+        expect(fc.seek(42).readBigInt64LE()).toBe(BigInt(-2));
+        expect(fc.cachedPages).toBe(1);
+        expect(fc.slice(4).readUInt32BE()).toBe(data.readUInt32BE(50));
+        expect(() => fc.seek(998).readUInt32LE()).toThrow(OverflowError);
+        expect(fc.tell()).toBe(998);
+        fc.close();
+        closeSync(fd);
+
+        const owned = FileCursorSync.open(file(Buffer.from("abc\0")));
+        expect(owned.readCString()).toBe("abc");
+        expect(owned.eof()).toBeTruthy();
+        owned.close();
+    });
+
+    test("FileCursor over a file descriptor", async () => {
+        const fd = openSync(file(), "r");
+        const fc = await FileCursor.open(fd, { pageSize: 8 });
+        expect(fc.length).toBe(1000);
+        fc.seek(5);
+        expect(await fc.readDoubleLE()).toBe(data.readDoubleLE(5));
+        await fc.close();
+        closeSync(fd);
+    });
+});
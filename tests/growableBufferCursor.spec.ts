@@ -0,0 +1,78 @@
+import { GrowableBufferCursor, growthStrategies } from "../src/growableBufferCursor";
+import { OverflowError } from "../src/overflowError";
+
+describe("GrowableBufferCursor spec", () => {
+    test("grows on numeric writes", () => {
+        const bc = new GrowableBufferCursor({ initialCapacity: 2 });
+        bc.writeUInt32LE(0x01020304);
+        bc.writeUInt8(5);
+        expect(bc.length).toBe(5);
+        expect(bc.capacity).toBeGreaterThanOrEqual(5);
+        expect(bc.buffer).toEqual(Buffer.from([4, 3, 2, 1, 5]));
+        expect(bc.getBuffer()).toEqual(Buffer.from([4, 3, 2, 1, 5]));
+    });
+
+    test("grows on write, writeBuff, fill and copy", () => {
+        const bc = new GrowableBufferCursor({ initialCapacity: 0 });
+        bc.write("hello");
+        bc.writeBuff(Buffer.from([1, 2]));
+        bc.fill(0xff, 3);
+        bc.copy(Buffer.from([7, 8, 9]), 1);
+        expect(bc.buffer).toEqual(Buffer.concat([
+            Buffer.from("hello"),
+            Buffer.from([1, 2, 0xff, 0xff, 0xff, 8, 9]),
+        ]));
+    });
+
+    test("reads are bounded by the written length", () => {
+        const bc = new GrowableBufferCursor({ initialCapacity: 16 });
+        bc.writeUInt16BE(0x1234);
+        bc.seek(0);
+        expect(bc.readUInt16BE()).toBe(0x1234);
+        expect(() => bc.readUInt8()).toThrow(OverflowError);
+    });
+
+    test("overwriting does not change the length", () => {
+        const bc = new GrowableBufferCursor();
+        bc.writeUInt32BE(0);
+        bc.seek(0);
+        bc.writeUInt16BE(0xffff);
+        expect(bc.length).toBe(4);
+        expect(bc.buffer).toEqual(Buffer.from([0xff, 0xff, 0, 0]));
+    });
+
+    test("a failed write does not change the length", () => {
+        const bc = new GrowableBufferCursor();
+        expect(() => bc.writeUInt16LE(-1)).toThrow("out of range");
+        expect(bc.length).toBe(0);
+        expect(bc.tell()).toBe(0);
+        expect(() => bc.write("ab", undefined, "bogus" as BufferEncoding)).toThrow("Unknown encoding");
+        expect(bc.length).toBe(0);
+        bc.writeUInt8(1);
+        expect(() => bc.writeLengthPrefixedString("abc", "u8", "bogus" as BufferEncoding)).toThrow("Unknown encoding");
+        expect(bc.length).toBe(1);
+        expect(bc.tell()).toBe(1);
+        expect(bc.buffer).toEqual(Buffer.from([1]));
+    });
+
+    test("growth strategies", () => {
+        expect(growthStrategies.double(4, 9)).toBe(16);
+        expect(growthStrategies.exact(4, 9)).toBe(9);
+        expect(growthStrategies.linear(8)(4, 9)).toBe(12);
+
+        const bc = new GrowableBufferCursor({ initialCapacity: 4, growth: growthStrategies.linear(10) });
+        bc.writeBuff(Buffer.alloc(5));
+        expect(bc.capacity).toBe(14);
+    });
+
+    test("maxCapacity", () => {
+        const bc = new GrowableBufferCursor({ initialCapacity: 2, maxCapacity: 6 });
+        bc.writeUInt32LE(1);
+        expect(bc.capacity).toBe(4);
+        bc.writeUInt16LE(1);
+        expect(bc.capacity).toBe(6);
+        expect(() => bc.writeUInt8(1)).toThrow(OverflowError);
+        expect(bc.length).toBe(6);
+        expect(() => new GrowableBufferCursor({ initialCapacity: 8, maxCapacity: 4 })).toThrow(RangeError);
+    });
+});
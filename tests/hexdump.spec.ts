@@ -0,0 +1,63 @@
+import { inspect } from "util";
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { hexdump, inspectCustom } from "../src/hexdump";
+import { OverflowError } from "../src/overflowError";
+
+describe("Hexdump spec", () => {
+    const data = Buffer.from("PK\x03\x04hello world, this is some data!!");
+
+    test("marks the cursor position", () => {
+        const bc = new BufferCursor(data);
+        bc.move(7);
+        expect(bc.hexdump()).toBe([
+            "00000000  50 4b 03 04 68 65 6c[6c] 6f 20 77 6f 72 6c 64 2c  |PK..hello world,|",
+            "00000010  20 74 68 69 73 20 69 73  20 73 6f 6d 65 20 64 61  | this is some da|",
+            "00000020  74 61 21 21                                       |ta!!|",
+        ].join("\n"));
+        expect(new DataViewCursor(data).seek(7).hexdump()).toBe(bc.hexdump());
+        expect(new ChunkCursor([data.subarray(0, 5), data.subarray(5)]).seek(7).hexdump()).toBe(bc.hexdump());
+    });
+
+    test("range, layout and the end of the data", () => {
+        const bc = new BufferCursor(data);
+        bc.move(7);
+        expect(bc.hexdump({ start: 3, length: 10, bytesPerRow: 8, group: 4 })).toBe([
+            "00000000           04  68 65 6c[6c] |   .hell|",
+            "00000008  6f 20 77 6f  72           |o wor|",
+        ].join("\n"));
+        expect(bc.hexdump({ start: 16, length: 4, group: 0, ascii: false, position: -1 })).toBe("00000010  20 74 68 69");
+        expect(bc.seek(36).hexdump({ start: 32 })).toBe("00000020  74 61 21 21[..]                                   |ta!!|");
+        expect(() => bc.hexdump({ start: 30, length: 8 })).toThrow(new OverflowError(36, 30, 8, "hexdump"));
+        expect(() => bc.hexdump({ bytesPerRow: 0 })).toThrow(RangeError);
+    });
+
+    test("labels regions", () => {
+        const regions = [{ offset: 0, length: 4, label: "magic" }, { offset: 4, length: 20, label: "name" }];
+        expect(hexdump(data.subarray(0, 24), { regions })).toBe([
+            "00000000  50 4b 03 04 68 65 6c 6c  6f 20 77 6f 72 6c 64 2c  |PK..hello world,|",
+            "          ~~~~~~~~~~~ magic",
+            "                      ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ name",
+            "00000010  20 74 68 69 73 20 69 73                           | this is|",
+            "          ~~~~~~~~~~~~~~~~~~~~~~~ name",
+        ].join("\n"));
+    });
+
+    test("util.inspect shows the rows around the cursor", () => {
+        const bc = new BufferCursor(Buffer.alloc(64));
+        bc.move(40);
+        expect(inspect(bc)).toBe([
+            "BufferCursor <length 64, position 40, endian le>",
+            "00000010  00 00 00 00 00 00 00 00  00 00 00 00 00 00 00 00  |................|",
+            "00000020  00 00 00 00 00 00 00 00 [00]00 00 00 00 00 00 00  |................|",
+            "00000030  00 00 00 00 00 00 00 00  00 00 00 00 00 00 00 00  |................|",
+        ].join("\n"));
+        expect(bc[inspectCustom](-1)).toBe("[BufferCursor]");
+
+        const gbc = new GrowableBufferCursor({ initialCapacity: 16 }).setEndian("be");
+        gbc.writeUInt16BE(1);
+        expect(inspect(gbc)).toBe("GrowableBufferCursor <length 2, position 2, endian be>\n00000000  00 01[..]" + " ".repeat(41) + "|..|");
+    });
+});
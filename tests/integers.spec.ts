@@ -0,0 +1,97 @@
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { OverflowError } from "../src/overflowError";
+
+describe("Arbitrary-width integer spec", () => {
+    const data = Buffer.from([0xfe, 0xdc, 0xba, 0x98, 0x76, 0x54, 0x32, 0x10, 0x01, 0x23, 0x45, 0x67, 0x89, 0xab, 0xcd, 0xef]);
+
+    test("reads like Buffer for 1 to 6 bytes", () => {
+        for (let n = 1; n <= 6; n++) {
+            const cursors = [new BufferCursor(data), new DataViewCursor(data), new ChunkCursor([data.subarray(0, 2), data.subarray(2)])];
+            for (const c of cursors) {
+                expect(c.readUIntLE(n)).toBe(data.readUIntLE(0, n));
+                expect(c.readUIntBE(n)).toBe(data.readUIntBE(n, n));
+                c.seek(16 - n);
+                expect(c.readIntLE(n)).toBe(data.readIntLE(16 - n, n));
+                c.seek(0);
+                expect(c.readIntBE(n)).toBe(data.readIntBE(0, n));
+                expect(c.tell()).toBe(n);
+            }
+        }
+        const bc = new BufferCursor(data);
+        expect(() => bc.readUIntLE(7)).toThrow(RangeError);
+        expect(() => bc.readIntBE(0)).toThrow(RangeError);
+        bc.seek(14);
+        expect(() => bc.readUIntBE(3)).toThrow(new OverflowError(16, 14, 3, "readUIntBE"));
+        expect(bc.tell()).toBe(14);
+    });
+
+    test("24-bit integers", () => {
+        const bc = new BufferCursor(data);
+        expect(bc.readUInt24LE()).toBe(0xbadcfe);
+        expect(bc.readInt24BE()).toBe(0x987654 - 0x1000000);
+        expect(bc.setEndian("be").readUInt24()).toBe(0x321001);
+        expect(bc.setEndian("le").readInt24()).toBe(0x674523);
+
+        const out = new GrowableBufferCursor();
+        out.writeUInt24LE(0xbadcfe).writeInt24BE(-1).writeUInt24(0x123456).writeInt24(-0x800000);
+        expect(out.buffer).toEqual(Buffer.from([0xfe, 0xdc, 0xba, 0xff, 0xff, 0xff, 0x56, 0x34, 0x12, 0x00, 0x00, 0x80]));
+        expect(() => out.writeUInt24LE(0x1000000)).toThrow(RangeError);
+        expect(() => out.writeInt24BE(0x800000)).toThrow(RangeError);
+        expect(out.length).toBe(12);
+
+        const dvc = new DataViewCursor(new ArrayBuffer(6)).setEndian("be");
+        dvc.writeUInt24(0x010203).writeInt24LE(-2);
+        expect(dvc.seek(0).readUInt24BE()).toBe(0x010203);
+        expect(dvc.readInt24LE()).toBe(-2);
+
+        const cc = new ChunkCursor([data.subarray(0, 1), data.subarray(1, 2), data.subarray(2)]);
+        expect(cc.readUInt24BE()).toBe(0xfedcba);
+        expect(cc.setEndian("le").readInt24()).toBe(0x547698);
+    });
+
+    test("writes range-check values", () => {
+        const bc = new GrowableBufferCursor();
+        bc.writeUIntLE(5, 0x0102030405).writeIntBE(6, -2).writeUIntBE(1, 0xff).writeIntLE(3, -0x800000);
+        expect(bc.buffer).toEqual(Buffer.from([5, 4, 3, 2, 1, 0xff, 0xff, 0xff, 0xff, 0xff, 0xfe, 0xff, 0, 0, 0x80]));
+        expect(() => bc.writeUIntLE(5, 2 ** 40)).toThrow("It must be >= 0 and <= 1099511627775. Received 1099511627776");
+        expect(() => bc.writeIntBE(2, 0x8000)).toThrow(RangeError);
+        expect(() => bc.writeUIntLE(2, 1.5)).toThrow(RangeError);
+        expect(() => bc.writeUIntLE(7, 1)).toThrow(RangeError);
+        expect(bc.length).toBe(15);
+
+        const fixed = new DataViewCursor(new ArrayBuffer(4));
+        expect(() => fixed.writeUIntBE(5, 1)).toThrow(new OverflowError(4, 0, 5, "writeUIntBE"));
+        fixed.writeIntLE(4, -0x80000000);
+        expect(fixed.seek(0).readInt32LE()).toBe(-0x80000000);
+    });
+
+    test("bigint integers of any width", () => {
+        const u128 = (BigInt(1) << BigInt(128)) - BigInt(1);
+        const bc = new GrowableBufferCursor();
+        bc.writeBigUIntBE(16, u128).writeBigIntLE(16, -(BigInt(1) << BigInt(127))).writeBigUIntLE(5, BigInt(0x0102030405)).writeBigIntBE(1, BigInt(-1));
+        expect(bc.length).toBe(38);
+        const reader = new BufferCursor(bc.buffer);
+        expect(reader.readBigUIntBE(16)).toBe(u128);
+        expect(reader.readBigIntLE(16)).toBe(-(BigInt(1) << BigInt(127)));
+        expect(reader.readBigUIntLE(5)).toBe(BigInt(0x0102030405));
+        expect(reader.readBigIntBE(1)).toBe(BigInt(-1));
+        expect(reader.seek(0).readBigIntBE(16)).toBe(BigInt(-1));
+        expect(reader.seek(0).readBigUInt64BE()).toBe(reader.seek(0).readBigUIntBE(8));
+
+        expect(() => bc.writeBigUIntLE(16, u128 + BigInt(1))).toThrow(RangeError);
+        expect(() => bc.writeBigIntBE(2, BigInt(0x8000))).toThrow(RangeError);
+        expect(() => bc.writeBigIntBE(0, BigInt(0))).toThrow(RangeError);
+
+        const dvc = new DataViewCursor(new ArrayBuffer(12));
+        dvc.writeBigIntBE(12, BigInt(-3));
+        expect(dvc.seek(0).readBigIntBE(12)).toBe(BigInt(-3));
+        expect(dvc.seek(0).readBigUIntLE(1)).toBe(BigInt(0xff));
+
+        const cc = new ChunkCursor([bc.buffer.subarray(0, 10), bc.buffer.subarray(10)]);
+        expect(cc.readBigUIntBE(16)).toBe(u128);
+        expect(() => cc.seek(30).readBigUIntLE(9)).toThrow(new OverflowError(38, 30, 9, "readBigUIntLE"));
+    });
+});
@@ -0,0 +1,161 @@
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { EncodingError } from "../src/errors";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { MsgPackExt, MsgPackExtension, MsgPackExtensions, readMsgPack, writeMsgPack, MsgPackWriteOptions } from "../src/msgpack";
+import { OverflowError } from "../src/overflowError";
+
+describe("MessagePack spec", () => {
+    const encode = (value: unknown, options?: MsgPackWriteOptions) => {
+        const bc = new GrowableBufferCursor();
+        writeMsgPack(bc, value, options);
+        return bc.buffer.toString("hex");
+    };
+    const decode = (hex: string) => readMsgPack(new BufferCursor(Buffer.from(hex, "hex")));
+
+    test("integers use the smallest format", () => {
+        const cases: [number | bigint, string][] = [
+            [0, "00"], [127, "7f"], [128, "cc80"], [255, "ccff"], [256, "cd0100"], [65536, "ce00010000"],
+            [2 ** 32, "cf0000000100000000"], [-1, "ff"], [-32, "e0"], [-33, "d0df"], [-129, "d1ff7f"],
+            [-32769, "d2ffff7fff"], [-(2 ** 31) - 1, "d3ffffffff7fffffff"],
+            [BigInt(5), "05"], [(BigInt(1) << BigInt(64)) - BigInt(1), "cfffffffffffffffff"],
+        ];
+        for (const [value, hex] of cases) {
+            expect(encode(value)).toBe(hex);
+            expect(decode(hex)).toEqual(typeof value === "bigint" && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value);
+        }
+        expect(() => encode(BigInt(1) << BigInt(64))).toThrow(RangeError);
+    });
+
+    test("bigint handling", () => {
+        const big = Buffer.from("cf0020000000000001", "hex");
+        expect(readMsgPack(new BufferCursor(big))).toBe((BigInt(1) << BigInt(53)) + BigInt(1));
+        expect(readMsgPack(new BufferCursor(big), { bigint: "always" })).toBe((BigInt(1) << BigInt(53)) + BigInt(1));
+        expect(readMsgPack(new BufferCursor(Buffer.from("07", "hex")), { bigint: "always" })).toBe(BigInt(7));
+        const bc = new BufferCursor(big);
+        expect(() => readMsgPack(bc, { bigint: "never" })).toThrow("Integer at position 0 is not a safe integer");
+        expect(bc.tell()).toBe(0);
+        expect(decode("d3ffffffffffffffff")).toBe(-1);
+    });
+
+    test("nil, booleans, floats, strings and bin", () => {
+        expect(encode([null, undefined, true, false])).toBe("94c0c0c3c2");
+        expect(decode("94c0c0c3c2")).toEqual([null, null, true, false]);
+        expect(encode(1.5)).toBe("cb3ff8000000000000");
+        expect(encode(1.5, { float32: true })).toBe("ca3fc00000");
+        expect(encode(0.1, { float32: true })).toBe("cb3fb999999999999a");
+        expect(decode("ca3fc00000")).toBe(1.5);
+        expect(decode("cb7ff8000000000000")).toBeNaN();
+
+        expect(encode("")).toBe("a0");
+        expect(encode("é")).toBe("a2c3a9");
+        expect(encode("a".repeat(32)).slice(0, 4)).toBe("d920");
+        expect(encode("a".repeat(256)).slice(0, 6)).toBe("da0100");
+        expect(encode("a".repeat(65536)).slice(0, 10)).toBe("db00010000");
+        for (const length of [31, 32, 255, 256, 65535, 65536]) expect(decode(encode("x".repeat(length)))).toBe("x".repeat(length));
+
+        expect(encode(new Uint8Array([1, 2]))).toBe("c4020102");
+        expect(encode(Buffer.alloc(256)).slice(0, 6)).toBe("c50100");
+        expect(decode("c4020102")).toEqual(new Uint8Array([1, 2]));
+        expect(decode("c600000001ff")).toEqual(new Uint8Array([0xff]));
+    });
+
+    test("arrays and maps", () => {
+        const value = { name: "msgpack", list: [1, [2, { deep: true }]], empty: {} };
+        const hex = encode(value);
+        expect(hex.slice(0, 2)).toBe("83");
+        expect(decode(hex)).toEqual(value);
+        expect(encode(new Array(16).fill(0)).slice(0, 6)).toBe("dc0010");
+        expect((decode(encode(new Array(70000).fill(1))) as number[]).length).toBe(70000);
+        const many: { [key: string]: number } = {};
+        for (let i = 0; i < 16; i++) many[`k${i}`] = i;
+        expect(encode(many).slice(0, 6)).toBe("de0010");
+        expect(decode(encode(many))).toEqual(many);
+
+        const map = new Map<unknown, unknown>([[1, "one"], ["two", 2]]);
+        expect(encode(map)).toBe("8201a36f6e65a374776f02");
+        expect(readMsgPack(new BufferCursor(Buffer.from("8201a36f6e65a374776f02", "hex")), { useMap: true })).toEqual(map);
+        expect(decode("8201a36f6e65a374776f02")).toEqual({ 1: "one", two: 2 });
+
+        const polluted = decode(encode(new Map([["__proto__", { admin: true }]]))) as { [key: string]: unknown };
+        expect(Object.getPrototypeOf(polluted)).toBe(Object.prototype);
+        expect(Object.keys(polluted)).toEqual(["__proto__"]);
+    });
+
+    test("timestamps", () => {
+        const cases: [Date, string][] = [
+            [new Date(0), "d6ff00000000"],
+            [new Date(1500), "d7ff7735940000000001"],
+            [new Date(2 ** 32 * 1000), "d7ff0000000100000000"],
+            [new Date(-1), "c70cff3b8b87c0ffffffffffffffff"],
+        ];
+        for (const [date, hex] of cases) {
+            expect(encode(date)).toBe(hex);
+            expect(decode(hex)).toEqual(date);
+        }
+        const far = new Date(8.64e15);
+        expect(decode(encode(far))).toEqual(far);
+        expect(() => decode("d7ffffffffff00000000")).toThrow(EncodingError);
+        expect(() => encode(new Date(NaN))).toThrow(RangeError);
+    });
+
+    test("ext types and the registry", () => {
+        expect(encode(new MsgPackExt(5, new Uint8Array([1, 2, 3])))).toBe("c70305010203");
+        expect(encode(new MsgPackExt(5, new Uint8Array(16))).slice(0, 4)).toBe("d805");
+        expect(decode("d40542")).toEqual(new MsgPackExt(5, new Uint8Array([0x42])));
+
+        class Point {
+            constructor(public x: number, public y: number) {}
+        }
+        const point: MsgPackExtension<Point> = {
+            type: 1,
+            is: (value): value is Point => value instanceof Point,
+            encode: p => new Uint8Array([p.x, p.y]),
+            decode: data => new Point(data[0]!, data[1]!),
+        };
+        const extensions = new MsgPackExtensions().register(point);
+        const bc = new GrowableBufferCursor();
+        writeMsgPack(bc, [new Point(3, 4), new Date(0)], { extensions });
+        expect(bc.buffer.toString("hex")).toBe("92d5010304d6ff00000000");
+        expect(readMsgPack(bc.seek(0), { extensions })).toEqual([new Point(3, 4), new Date(0)]);
+        expect(readMsgPack(bc.seek(0))).toEqual([new MsgPackExt(1, new Uint8Array([3, 4])), new Date(0)]);
+        expect(() => new MsgPackExtensions().register({ ...point, type: 128 })).toThrow(RangeError);
+    });
+
+    test("limits and invalid input", () => {
+        const nested = encode([[[[1]]]]);
+        expect(() => readMsgPack(new BufferCursor(Buffer.from(nested, "hex")), { maxDepth: 3 }))
+            .toThrow(new EncodingError("msgpack", "Nesting at position 3 exceeds maxDepth of 3", 3));
+        expect(readMsgPack(new BufferCursor(Buffer.from(nested, "hex")), { maxDepth: 4 })).toEqual([[[[1]]]]);
+        expect(() => readMsgPack(new BufferCursor(Buffer.from(encode("abcd"), "hex")), { maxLength: 3 })).toThrow(EncodingError);
+        expect(() => readMsgPack(new BufferCursor(Buffer.from(encode([1, 2, 3]), "hex")), { maxItems: 2 })).toThrow(EncodingError);
+        expect(() => decode("c1")).toThrow("Invalid MessagePack type 0xc1 at position 0");
+
+        const truncated = new BufferCursor(Buffer.from("92a3616263a2", "hex"));
+        expect(() => readMsgPack(truncated)).toThrow(OverflowError);
+        expect(truncated.tell()).toBe(0);
+        expect(() => decode("ddffffffff")).toThrow(OverflowError);
+
+        const circular: unknown[] = [];
+        circular.push(circular);
+        const bc = new GrowableBufferCursor();
+        bc.writeUInt8(0xaa);
+        expect(() => writeMsgPack(bc, circular)).toThrow("MessagePack value exceeds maxDepth of 100");
+        expect(bc.tell()).toBe(1);
+        expect(() => writeMsgPack(bc, () => 1)).toThrow(TypeError);
+    });
+
+    test("works with any cursor and inside framed messages", () => {
+        const dvc = new DataViewCursor(new ArrayBuffer(32));
+        dvc.writeUInt16BE(0xcafe);
+        writeMsgPack(dvc, { id: 7 });
+        dvc.writeUInt8(0xff);
+        const bytes = Buffer.from(dvc.getBuffer());
+        const cc = new ChunkCursor([bytes.subarray(0, 3), bytes.subarray(3)]);
+        expect(cc.readUInt16BE()).toBe(0xcafe);
+        expect(readMsgPack(cc)).toEqual({ id: 7 });
+        expect(cc.readUInt8()).toBe(0xff);
+        expect(() => writeMsgPack(new BufferCursor(Buffer.alloc(2)), "abc")).toThrow(OverflowError);
+    });
+});
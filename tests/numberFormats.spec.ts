@@ -0,0 +1,104 @@
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { decodeBFloat16, decodeFloat16, encodeBFloat16, encodeFloat16 } from "../src/numberFormats";
+
+describe("Number format spec", () => {
+    test("float16 round-trips every bit pattern", () => {
+        const mismatches: number[] = [];
+        for (let bits = 0; bits < 0x10000; bits++) {
+            const value = decodeFloat16(bits);
+            if (encodeFloat16(value) !== (Number.isNaN(value) ? 0x7e00 : bits)) mismatches.push(bits);
+        }
+        expect(mismatches).toEqual([]);
+    });
+
+    test("float16 values and rounding", () => {
+        expect(encodeFloat16(1)).toBe(0x3c00);
+        expect(encodeFloat16(-2)).toBe(0xc000);
+        expect(encodeFloat16(65504)).toBe(0x7bff);
+        expect(encodeFloat16(65519)).toBe(0x7bff);
+        expect(encodeFloat16(65520)).toBe(0x7c00);
+        expect(encodeFloat16(-Infinity)).toBe(0xfc00);
+        expect(encodeFloat16(-0)).toBe(0x8000);
+        expect(encodeFloat16(1 / 3)).toBe(0x3555);
+        expect(encodeFloat16(2 ** -24)).toBe(0x0001);
+        expect(encodeFloat16(2 ** -25)).toBe(0x0000);
+        expect(encodeFloat16(3 * 2 ** -25)).toBe(0x0002);
+        expect(encodeFloat16(2 ** -14 - 2 ** -25)).toBe(0x0400);
+        expect(encodeFloat16(1 + 2 ** -11)).toBe(0x3c00);
+        expect(encodeFloat16(1 + 3 * 2 ** -11)).toBe(0x3c02);
+        expect(decodeFloat16(0x0001)).toBe(2 ** -24);
+        expect(decodeFloat16(0x7c01)).toBeNaN();
+        expect(Object.is(decodeFloat16(0x8000), -0)).toBeTruthy();
+    });
+
+    test("bfloat16 matches the upper half of a 32-bit float", () => {
+        const view = new DataView(new ArrayBuffer(4));
+        const mismatches: number[] = [];
+        for (let bits = 0; bits < 0x10000; bits++) {
+            view.setUint32(0, bits * 0x10000);
+            const value = view.getFloat32(0);
+            if (!Object.is(decodeBFloat16(bits), value) || encodeBFloat16(value) !== (Number.isNaN(value) ? 0x7fc0 : bits))
+                mismatches.push(bits);
+        }
+        expect(mismatches).toEqual([]);
+        expect(encodeBFloat16(Math.PI)).toBe(0x4049);
+        expect(encodeBFloat16(1 + 2 ** -8)).toBe(0x3f80);
+        expect(encodeBFloat16(1 + 3 * 2 ** -8)).toBe(0x3f82);
+        expect(encodeBFloat16(1 + 2 ** -8 + 2 ** -40)).toBe(0x3f81);
+        expect(encodeBFloat16(3.4e38)).toBe(0x7f80);
+    });
+
+    test("cursors read and write half floats", () => {
+        const bc = new GrowableBufferCursor();
+        bc.writeFloat16LE(1.5).writeFloat16BE(-0.25).writeBFloat16LE(Math.E).writeBFloat16BE(NaN).setEndian("be").writeFloat16(1e-7).writeBFloat16(-1e30);
+        expect(bc.buffer.toString("hex")).toBe("003eb4002e407fc00002f14a");
+
+        const reader = new BufferCursor(bc.buffer);
+        expect(reader.readFloat16LE()).toBe(1.5);
+        expect(reader.readFloat16BE()).toBe(-0.25);
+        expect(reader.readBFloat16LE()).toBe(2.71875);
+        expect(reader.readBFloat16BE()).toBeNaN();
+        expect(reader.setEndian("be").readFloat16()).toBe(2 ** -23);
+        expect(Math.abs(reader.readBFloat16() / -1e30 - 1)).toBeLessThan(2 ** -8);
+
+        const dvc = new DataViewCursor(new ArrayBuffer(4));
+        dvc.writeFloat16(Infinity).writeBFloat16BE(0.5);
+        expect(dvc.seek(0).readFloat16()).toBe(Infinity);
+        expect(dvc.readBFloat16BE()).toBe(0.5);
+
+        const cc = new ChunkCursor([bc.buffer.subarray(0, 1), bc.buffer.subarray(1)]);
+        expect(cc.readFloat16LE()).toBe(1.5);
+
+        const strict = new BufferCursor(Buffer.alloc(2), { strict: true });
+        expect(() => strict.writeFloat16LE(NaN)).toThrow(RangeError);
+        expect(() => strict.writeFloat16BE(70000)).toThrow("The value of a f16 must be within the half-precision range. Received 70000");
+        expect(strict.tell()).toBe(0);
+    });
+
+    test("fixed-point formats", () => {
+        const bc = new GrowableBufferCursor().setEndian("be");
+        bc.writeFixed(1.5, 16, 16).writeFixed(-1, 16, 16).writeFixed(-1, 1, 15).writeFixed(0.5, 8, 8, true, "le").writeFixed(255.99609375, 8, 8, false);
+        expect(bc.buffer.toString("hex")).toBe("00018000ffff000080008000ffff");
+
+        const reader = new BufferCursor(bc.buffer).setEndian("be");
+        expect(reader.readFixed(16, 16)).toBe(1.5);
+        expect(reader.readFixed(16, 16)).toBe(-1);
+        expect(reader.readFixed(1, 15)).toBe(-1);
+        expect(reader.readFixed(8, 8, true, "le")).toBe(0.5);
+        expect(reader.readFixed(8, 8, false)).toBe(255.99609375);
+
+        const rounding = new DataViewCursor(new ArrayBuffer(8));
+        rounding.writeFixed(2.5 / 256, 8, 8).writeFixed(3.5 / 256, 8, 8).writeFixed(-2.5 / 256, 8, 8).writeFixed(0.1, 8, 8);
+        expect(Array.from(rounding.seek(0).readInt16Array(4))).toEqual([2, 4, -2, 26]);
+        expect(rounding.seek(6).readFixed(8, 8)).toBe(26 / 256);
+
+        expect(() => rounding.writeFixed(1, 1, 15)).toThrow("The value of a 1.15 fixed-point number must be >= -1 and <= 0.999969482421875. Received 1");
+        expect(() => rounding.writeFixed(-0.5, 8, 8, false)).toThrow(RangeError);
+        expect(() => rounding.writeFixed(NaN, 8, 8)).toThrow(RangeError);
+        expect(() => rounding.readFixed(4, 8)).toThrow("A fixed-point format must be a multiple of 8 bits between 8 and 48. Received 4.8");
+        expect(new ChunkCursor([Buffer.from([0x40, 0x00])]).readFixed(2, 14, true, "be")).toBe(1);
+    });
+});
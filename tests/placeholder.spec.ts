@@ -0,0 +1,80 @@
+import { BufferCursor } from "../src/buffercursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { OverflowError } from "../src/overflowError";
+
+describe("Placeholder spec", () => {
+    test("reserve and fill in later", () => {
+        const bc = new BufferCursor(Buffer.alloc(8, 0xff));
+        const count = bc.reserve("u16be");
+        expect(bc.tell()).toBe(2);
+        expect(count).toMatchObject({ offset: 0, type: "u16be", size: 2, filled: false });
+        bc.writeUInt8(1).writeUInt8(2).writeUInt8(3);
+        count.fill(3);
+        expect(count.filled).toBeTruthy();
+        expect(bc.tell()).toBe(5);
+        expect(bc.getBuffer()).toEqual(Buffer.from([0, 3, 1, 2, 3]));
+
+        expect(() => bc.reserve("u32")).toThrow(new OverflowError(8, 5, 4, "reserve"));
+        expect(bc.tell()).toBe(5);
+        const last = bc.reserve("u24le");
+        expect(bc.eof()).toBeTruthy();
+        expect(last.filled).toBeFalsy();
+        last.fill(0x010203);
+        expect(bc.buffer.subarray(5)).toEqual(Buffer.from([3, 2, 1]));
+    });
+
+    test("writeLengthPrefixed nests", () => {
+        const bc = new GrowableBufferCursor();
+        bc.writeLengthPrefixed("u32be", c => {
+            c.writeUInt8(0xaa);
+            c.writeLengthPrefixed("u8", c => c.write("hi"));
+            c.writeLengthPrefixed("u16le", () => undefined);
+        });
+        expect(bc.buffer).toEqual(Buffer.from([0, 0, 0, 6, 0xaa, 2, 0x68, 0x69, 0, 0]));
+
+        const reader = new BufferCursor(bc.buffer);
+        expect(reader.readUInt32BE()).toBe(6);
+        reader.move(1);
+        expect(reader.readLengthPrefixedString("u8")).toBe("hi");
+    });
+
+    test("writeLengthPrefixed moves back when the body throws", () => {
+        const bc = new BufferCursor(Buffer.alloc(4));
+        bc.writeUInt8(1);
+        expect(() => bc.writeLengthPrefixed("u8", c => c.writeUInt32LE(1))).toThrow(OverflowError);
+        expect(bc.tell()).toBe(1);
+        expect(() => bc.writeLengthPrefixed("u8", c => c.write("a".repeat(300)))).toThrow(OverflowError);
+
+        const long = new GrowableBufferCursor();
+        expect(() => long.writeLengthPrefixed("u8", c => c.write("a".repeat(256))))
+            .toThrow("Body of 256 bytes doesn't fit a u8 length prefix");
+        expect(long.tell()).toBe(0);
+    });
+
+    test("offset pointers", () => {
+        const bc = new GrowableBufferCursor();
+        bc.write("HDR");
+        const table = bc.reserve("u32le");
+        const data = bc.reserve("u64be");
+        bc.writeUInt16LE(0xffff);
+        table.fillPosition();
+        bc.writeUInt8(9);
+        data.fillPosition(3);
+        bc.write("data");
+
+        const reader = new BufferCursor(bc.buffer);
+        expect(reader.readAt(3, "u32le")).toBe(17);
+        expect(reader.readAt(7, "u64be")).toBe(BigInt(15));
+        expect(reader.seek(3 + 15).toString("utf8", 4)).toBe("data");
+    });
+
+    test("DataViewCursor", () => {
+        const dvc = new DataViewCursor(new Uint8Array(8).fill(0xff)).setEndian("be");
+        const flags = dvc.reserve("u16");
+        dvc.writeLengthPrefixed("u8", c => c.writeUInt16LE(0x0201));
+        flags.fill(0x1234);
+        expect(dvc.getBuffer()).toEqual(new Uint8Array([0x12, 0x34, 2, 1, 2]));
+        expect(() => dvc.reserve("u32")).toThrow(new OverflowError(8, 5, 4, "reserve"));
+    });
+});
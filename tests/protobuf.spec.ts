@@ -0,0 +1,179 @@
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { EncodingError } from "../src/errors";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { OverflowError } from "../src/overflowError";
+import {
+    decodeUnknown, readLengthDelimited, readPacked, readScalar, readTag, skipField,
+    WireType, writeField, writeLengthDelimited, writePacked, writeScalar, writeTag,
+} from "../src/protobuf";
+
+describe("Protobuf spec", () => {
+    const cursor = (hex: string) => new BufferCursor(Buffer.from(hex, "hex"));
+
+    test("tags", () => {
+        const bc = new GrowableBufferCursor();
+        writeTag(bc, 1, WireType.Varint);
+        writeTag(bc, 16, WireType.Len);
+        writeTag(bc, 0x1fffffff, WireType.I32);
+        expect(bc.buffer.toString("hex")).toBe("088201fdffffff0f");
+        const reader = new BufferCursor(bc.buffer);
+        expect(readTag(reader)).toEqual({ field: 1, wireType: WireType.Varint });
+        expect(readTag(reader)).toEqual({ field: 16, wireType: WireType.Len });
+        expect(readTag(reader)).toEqual({ field: 0x1fffffff, wireType: WireType.I32 });
+
+        expect(() => readTag(cursor("02"))).toThrow(new EncodingError("protobuf", "Invalid field number 0 at position 0", 0));
+        const invalid = cursor("0e");
+        expect(() => readTag(invalid)).toThrow("Invalid wire type 6 at position 0");
+        expect(invalid.tell()).toBe(0);
+        expect(() => readTag(cursor("8080808080"))).toThrow(OverflowError);
+        expect(() => writeTag(bc, 0, WireType.Varint)).toThrow(RangeError);
+    });
+
+    test("scalar fields", () => {
+        const bc = new GrowableBufferCursor();
+        writeField(bc, 1, "int32", 150);
+        writeField(bc, 2, "int32", -1);
+        writeField(bc, 3, "sint32", -2);
+        writeField(bc, 4, "sint64", BigInt(-3));
+        writeField(bc, 5, "uint64", (BigInt(1) << BigInt(64)) - BigInt(1));
+        writeField(bc, 6, "bool", true);
+        writeField(bc, 7, "fixed32", 0xdeadbeef);
+        writeField(bc, 8, "sfixed64", BigInt(-2));
+        writeField(bc, 9, "double", 1.5);
+        writeField(bc, 10, "float", -0.5);
+        expect(bc.buffer.toString("hex")).toBe(
+            "089601" + "10ffffffffffffffffff01" + "1803" + "2005" + "28ffffffffffffffffff01" + "3001" +
+            "3defbeadde" + "41feffffffffffffff" + "49000000000000f83f" + "55000000bf",
+        );
+
+        const reader = new BufferCursor(bc.buffer);
+        const types = ["int32", "int32", "sint32", "sint64", "uint64", "bool", "fixed32", "sfixed64", "double", "float"] as const;
+        const values = types.map(type => {
+            readTag(reader);
+            return readScalar(reader, type);
+        });
+        expect(values).toEqual([150, -1, -2, BigInt(-3), (BigInt(1) << BigInt(64)) - BigInt(1), true, 0xdeadbeef, BigInt(-2), 1.5, -0.5]);
+
+        // A 64-bit varint read as int32 is truncated, like other implementations.
+        expect(readScalar(cursor("ffffffffffffffff7f"), "int32")).toBe(-1);
+        expect(readScalar(cursor("ffffffff7f"), "uint32")).toBe(0xffffffff);
+        expect(() => writeScalar(bc, "int32", 2 ** 31)).toThrow(RangeError);
+        expect(() => writeScalar(bc, "uint64", BigInt(-1))).toThrow(RangeError);
+        // @ts-ignore
+        expect(() => readScalar(cursor("00"), "toString")).toThrow("Unknown protobuf type: toString");
+    });
+
+    test("length-delimited fields", () => {
+        const bc = new GrowableBufferCursor();
+        writeLengthDelimited(bc, 2, "testing");
+        writeLengthDelimited(bc, 3, new Uint8Array([1, 2, 3]));
+        expect(bc.buffer.toString("hex")).toBe("120774657374696e671a03010203");
+
+        const reader = new BufferCursor(bc.buffer);
+        readTag(reader);
+        expect(readLengthDelimited(reader).readFixedString(7)).toBe("testing");
+        readTag(reader);
+        expect(Array.from(readLengthDelimited(reader).readUInt8Array(3))).toEqual([1, 2, 3]);
+        expect(reader.tell()).toBe(reader.length);
+
+        const truncated = cursor("05616263");
+        expect(() => readLengthDelimited(truncated)).toThrow(OverflowError);
+        expect(truncated.tell()).toBe(0);
+    });
+
+    test("packed repeated fields", () => {
+        const bc = new GrowableBufferCursor();
+        writePacked(bc, 4, "int32", [3, 270, 86942]);
+        writePacked(bc, 5, "fixed32", [1, 2]);
+        writePacked(bc, 6, "sint64", []);
+        writePacked(bc, 7, "bool", [true, false]);
+        expect(bc.buffer.toString("hex")).toBe("2206038e029ea705" + "2a080100000002000000" + "3a020100");
+
+        const reader = new BufferCursor(bc.buffer);
+        readTag(reader);
+        expect(readPacked(reader, "int32")).toEqual([3, 270, 86942]);
+        readTag(reader);
+        expect(readPacked(reader, "fixed32")).toEqual([1, 2]);
+        readTag(reader);
+        expect(readPacked(reader, "bool")).toEqual([true, false]);
+
+        const partial = cursor("0501000000020000");
+        expect(() => readPacked(partial, "fixed32")).toThrow("Packed fixed32 values at position 0 have a length of 5, not a multiple of 4");
+        expect(partial.tell()).toBe(0);
+        expect(() => readPacked(cursor("02019601"), "int32")).toThrow("Packed int32 values at position 0 overrun their length");
+        expect(() => readPacked(cursor("0296"), "int32")).toThrow(OverflowError);
+    });
+
+    test("skipping unknown fields", () => {
+        const reader = cursor("08ff01" + "11" + "0102030405060708" + "1a03616263" + "2308011a0101" + "24" + "2d01020304" + "3001");
+        let tag = readTag(reader);
+        while (tag.field !== 6) {
+            skipField(reader, tag.wireType, tag.field);
+            tag = readTag(reader);
+        }
+        expect(readScalar(reader, "bool")).toBe(true);
+
+        expect(() => skipField(cursor("01"), WireType.EGroup)).toThrow("Unexpected wire type 4 at position 0");
+        expect(() => skipField(cursor("0801"), WireType.SGroup, 1)).toThrow("Group 1 isn't terminated");
+        expect(() => skipField(cursor("2c"), WireType.SGroup, 1)).toThrow("Unexpected end of group 5 at position 0");
+        const truncated = cursor("010203");
+        expect(() => skipField(truncated, WireType.I32)).toThrow(OverflowError);
+        expect(truncated.tell()).toBe(0);
+    });
+
+    test("decodeUnknown dumps any message", () => {
+        const inner = new GrowableBufferCursor();
+        writeField(inner, 1, "int32", 150);
+        writeLengthDelimited(inner, 2, "hi");
+        const bc = new GrowableBufferCursor();
+        writeField(bc, 1, "sint32", -1);
+        writeLengthDelimited(bc, 3, inner.buffer);
+        writeLengthDelimited(bc, 4, new Uint8Array([0xff, 0xff]));
+        writeField(bc, 5, "double", 2);
+        writeField(bc, 6, "fixed32", 7);
+        writeTag(bc, 7, WireType.SGroup);
+        writeField(bc, 1, "bool", true);
+        writeTag(bc, 7, WireType.EGroup);
+
+        const fields = decodeUnknown(new BufferCursor(bc.buffer));
+        expect(fields.map(f => [f.field, f.wireType, f.offset])).toEqual([[1, 0, 0], [3, 2, 2], [4, 2, 11], [5, 1, 15], [6, 5, 24], [7, 3, 29]]);
+        expect(fields[0]!.value).toBe(BigInt(1));
+        expect(fields[1]!.message).toEqual([
+            { field: 1, wireType: 0, offset: 4, value: BigInt(150) },
+            { field: 2, wireType: 2, offset: 7, value: new Uint8Array([0x68, 0x69]), text: "hi", message: [{ field: 13, wireType: 0, offset: 9, value: BigInt(0x69) }] },
+        ]);
+        expect(fields[2]!.value).toEqual(new Uint8Array([0xff, 0xff]));
+        expect(fields[2]!.message).toBeUndefined();
+        expect(fields[2]!.text).toBeUndefined();
+        expect(fields[3]!.value).toBe(BigInt("0x4000000000000000"));
+        expect(fields[4]!.value).toBe(7);
+        expect(fields[5]!.value).toEqual([{ field: 1, wireType: 0, offset: 30, value: BigInt(1) }]);
+
+        const shallow = decodeUnknown(new BufferCursor(bc.buffer), { maxDepth: 1 });
+        expect(shallow[1]!.message![1]!.message).toBeUndefined();
+    });
+
+    test("decodeUnknown rejects malformed input with its offset", () => {
+        const truncated = cursor("08011a05616263");
+        expect(() => decodeUnknown(truncated)).toThrow(OverflowError);
+        expect(truncated.tell()).toBe(0);
+        expect(() => decodeUnknown(cursor("0801" + "0f"))).toThrow(new EncodingError("protobuf", "Invalid wire type 7 at position 2", 2));
+        expect(() => decodeUnknown(cursor("0801" + "0c"))).toThrow("Unexpected end of group 1 at position 2");
+        expect(() => decodeUnknown(cursor("0b0b0b0b"), { maxDepth: 2 })).toThrow("Group at position 2 exceeds maxDepth of 2");
+        expect(() => decodeUnknown(cursor("08ff"))).toThrow(OverflowError);
+    });
+
+    test("works with any cursor", () => {
+        const dvc = new DataViewCursor(new ArrayBuffer(16));
+        writePacked(dvc, 1, "uint32", [1, 300]);
+        writeLengthDelimited(dvc, 2, "ok");
+        const bytes = Buffer.from(dvc.getBuffer()).subarray(0, dvc.tell());
+        const cc = new ChunkCursor([bytes.subarray(0, 3), bytes.subarray(3)]);
+        expect(readTag(cc)).toEqual({ field: 1, wireType: WireType.Len });
+        expect(readPacked(cc, "uint32")).toEqual([1, 300]);
+        expect(decodeUnknown(cc)[0]!.text).toBe("ok");
+        expect(() => writeField(new BufferCursor(Buffer.alloc(1)), 1, "fixed32", 1)).toThrow(OverflowError);
+    });
+});
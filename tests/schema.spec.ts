@@ -0,0 +1,90 @@
+import { BufferCursor } from "../src/buffercursor";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { OverflowError } from "../src/overflowError";
+import { Infer, schema, SchemaError } from "../src/schema";
+
+const entry = schema.struct({
+    id: schema.u16be,
+    name: schema.string(schema.u8),
+    value: schema.f64le,
+});
+
+const message = schema.struct({
+    header: schema.struct({
+        magic: schema.u32be,
+        flags: schema.u8,
+        count: schema.u8,
+        entries: schema.array(entry, (parent: { count: number }) => parent.count),
+    }),
+    extra: schema.when((parent: { header: { flags: number } }) => (parent.header.flags & 1) === 1, schema.i64le),
+    tags: schema.array(schema.string(3, "latin1"), schema.varuint),
+    payload: schema.bytes(schema.u16le),
+});
+
+type Message = Infer<typeof message>;
+
+const value: Message = {
+    header: {
+        magic: 0xcafebabe,
+        flags: 1,
+        count: 2,
+        entries: [
+            { id: 1, name: "first", value: 1.5 },
+            { id: 2, name: "ü", value: -2 },
+        ],
+    },
+    extra: BigInt(-5),
+    tags: ["abc", "def"],
+    payload: Buffer.from([1, 2, 3]),
+};
+
+describe("Schema spec", () => {
+    test("write and read round trip", () => {
+        const bc = new GrowableBufferCursor();
+        message.write(bc, value);
+        expect(bc.length).toBe(message.sizeOf(value));
+        bc.seek(0);
+        expect(message.read(bc)).toEqual(value);
+        expect(bc.eof()).toBeTruthy();
+    });
+
+    test("conditional fields", () => {
+        const noExtra: Message = { ...value, header: { ...value.header, flags: 0 }, extra: undefined };
+        const bc = new GrowableBufferCursor();
+        message.write(bc, noExtra);
+        expect(bc.length).toBe(message.sizeOf(value) - 8);
+        expect(message.sizeOf(noExtra)).toBe(bc.length);
+        bc.seek(0);
+        expect(message.read(bc)).toEqual(noExtra);
+    });
+
+    test("fixed arrays and primitive layout", () => {
+        const codec = schema.struct({ a: schema.array(schema.u16le, 2), b: schema.i8 });
+        const bc = new BufferCursor(Buffer.alloc(5));
+        codec.write(bc, { a: [1, 0x203], b: -1 });
+        expect(bc.buffer).toEqual(Buffer.from([1, 0, 3, 2, 0xff]));
+        expect(() => codec.write(new BufferCursor(Buffer.alloc(5)), { a: [1], b: 0 })).toThrow(SchemaError);
+    });
+
+    test("errors report the field path and offset", () => {
+        expect.assertions(5);
+        const bc = new GrowableBufferCursor();
+        message.write(bc, value);
+        const truncated = new BufferCursor(bc.buffer.subarray(0, 24));
+        try {
+            message.read(truncated);
+        } catch (e) {
+            expect(e).toBeInstanceOf(SchemaError);
+            const error = e as SchemaError;
+            expect(error.path).toBe("header.entries[1].name");
+            expect(error.offset).toBe(24);
+            expect(error.cause).toBeInstanceOf(OverflowError);
+            expect(error.message).toContain("header.entries[1].name at offset 24");
+        }
+    });
+
+    test("write errors report the field path", () => {
+        const bad = { ...value, header: { ...value.header, entries: [value.header.entries[0]!, { id: -1, name: "", value: 0 }] } };
+        expect(() => message.write(new GrowableBufferCursor(), bad)).toThrow("header.entries[1].id");
+    });
+});
@@ -0,0 +1,85 @@
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { EncodingError } from "../src/errors";
+import { OverflowError } from "../src/overflowError";
+
+describe("Search spec", () => {
+    test("indexOf is relative to the cursor", () => {
+        const bc = new BufferCursor(Buffer.from("key=value; next=1;"));
+        expect(bc.indexOf("=")).toBe(3);
+        bc.move(4);
+        expect(bc.indexOf(0x3d)).toBe(11);
+        expect(bc.indexOf(";", 6)).toBe(13);
+        expect(bc.indexOf(Buffer.from("next"))).toBe(7);
+        expect(bc.indexOf("missing")).toBe(-1);
+        expect(bc.tell()).toBe(4);
+        expect(() => bc.indexOf("")).toThrow(TypeError);
+        expect(() => bc.indexOf(256)).toThrow(RangeError);
+    });
+
+    test("readUntil and sliceUntil", () => {
+        const bc = new BufferCursor(Buffer.from("GET / HTTP/1.1\r\nHost: a\r\n\r\nbody"));
+        expect(bc.readUntil(" ").toString()).toBe("GET");
+        expect(bc.readUntil(" ", { include: true }).toString()).toBe("/ ");
+        expect(bc.readUntil("\r\n").toString()).toBe("HTTP/1.1");
+        const headers = bc.sliceUntil("\r\n\r\n");
+        expect(headers.toString()).toBe("Host: a");
+        expect(bc.toString()).toBe("body");
+
+        const data = Buffer.from("abcdef");
+        const short = new BufferCursor(data);
+        expect(() => short.readUntil("e", { maxLength: 3 })).toThrow(new OverflowError(6, 0, 4, "readUntil"));
+        expect(short.readUntil("d", { maxLength: 3 }).toString()).toBe("abc");
+        expect(() => short.readUntil("x")).toThrow(new OverflowError(6, 4, 3, "readUntil"));
+        expect(short.tell()).toBe(4);
+        const view = short.seek(0).readUntil("c");
+        view[0] = 0x7a;
+        expect(data.toString()).toBe("zbcdef");
+    });
+
+    test("readLine handles \\n and \\r\\n", () => {
+        const bc = new BufferCursor(Buffer.from("one\ntwo\r\n\nthree"));
+        expect(bc.readLine()).toBe("one");
+        expect(bc.readLine()).toBe("two");
+        expect(bc.readLine()).toBe("");
+        expect(() => bc.readLine()).toThrow(new OverflowError(15, 10, 6, "readLine"));
+        expect(bc.tell()).toBe(10);
+        expect(() => new BufferCursor(Buffer.from("a\xff\n", "latin1"), { strict: true }).readLine()).toThrow(EncodingError);
+        expect(new BufferCursor(Buffer.from("caf\xe9\n", "latin1")).readLine({ encoding: "latin1" })).toBe("caf\xe9");
+    });
+
+    test("skipWhile", () => {
+        const bc = new BufferCursor(Buffer.from("   x  "));
+        const isSpace = (byte: number) => byte === 0x20;
+        expect(bc.skipWhile(isSpace)).toBe(3);
+        expect(bc.skipWhile(isSpace)).toBe(0);
+        bc.move(1);
+        expect(bc.skipWhile(isSpace)).toBe(2);
+        expect(bc.eof()).toBeTruthy();
+    });
+
+    test("DataViewCursor", () => {
+        const dvc = new DataViewCursor(new TextEncoder().encode("a,bb,,ccc\r\nd"));
+        expect(dvc.indexOf(",,")).toBe(4);
+        expect(Array.from(dvc.readUntil(","))).toEqual([0x61]);
+        expect(dvc.sliceUntil(",").length).toBe(2);
+        expect(dvc.readUntil(",").length).toBe(0);
+        expect(dvc.readLine()).toBe("ccc");
+        expect(dvc.skipWhile(byte => byte === 0x64)).toBe(1);
+        expect(() => dvc.readLine()).toThrow(new OverflowError(12, 12, 1, "readLine"));
+    });
+
+    test("ChunkCursor finds patterns across chunks", () => {
+        const cc = new ChunkCursor(["ab\r", "\nc", "d--", "-", "-e\n"].map(s => Buffer.from(s)));
+        expect(cc.indexOf("\r\n")).toBe(2);
+        expect(cc.indexOf("----")).toBe(6);
+        expect(cc.indexOf("d-----")).toBe(-1);
+        expect(cc.readLine()).toBe("ab");
+        expect(cc.readUntil("---").toString()).toBe("cd");
+        expect(cc.skipWhile(byte => byte === 0x2d)).toBe(1);
+        expect(cc.sliceUntil("\n").toString()).toBe("e");
+        expect(cc.eof()).toBeTruthy();
+        expect(() => cc.seek(0).readUntil("e", { maxLength: 5 })).toThrow(new OverflowError(12, 0, 6, "readUntil"));
+    });
+});
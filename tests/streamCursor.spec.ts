@@ -0,0 +1,121 @@
+import { PassThrough, Readable } from "stream";
+import { EncodingError } from "../src/errors";
+import { OverflowError } from "../src/overflowError";
+import { EndOfStreamError, StreamCursor } from "../src/streamCursor";
+
+function chunked(buf: Buffer, size: number): Readable {
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < buf.length; i += size) chunks.push(buf.subarray(i, i + size));
+    return Readable.from(chunks);
+}
+
+describe("StreamCursor spec", () => {
+    const data = Buffer.from("0102030405060708090a0b0c0d0e0f10", "hex");
+
+    test("reads numbers across chunk boundaries", async () => {
+        const sc = new StreamCursor(chunked(data, 3));
+        expect(await sc.readUInt8()).toBe(1);
+        expect(await sc.readUInt32BE()).toBe(0x02030405);
+        expect(await sc.readUInt16LE()).toBe(0x0706);
+        expect(await sc.readBigUInt64BE()).toBe(BigInt("0x08090a0b0c0d0e0f"));
+        expect(sc.tell()).toBe(15);
+        expect(await sc.eof()).toBeFalsy();
+        expect(await sc.read("u8")).toBe(0x10);
+        expect(await sc.eof()).toBeTruthy();
+    });
+
+    test("default endianness", async () => {
+        const sc = new StreamCursor(chunked(data, 1), { endian: "be" });
+        expect(await sc.readUInt16()).toBe(0x0102);
+        expect(await sc.setEndian("le").readInt32()).toBe(0x06050403);
+        // @ts-ignore
+        expect(() => new StreamCursor(chunked(data, 1), { endian: "middle" })).toThrow(TypeError);
+    });
+
+    test("strings, slices and skips", async () => {
+        const sc = new StreamCursor(Readable.from([Buffer.from("hel"), Buffer.from("lo\0wo"), Buffer.from("rld!")]));
+        expect(await sc.readCString()).toBe("hello");
+        const slice = await sc.slice(2);
+        expect(slice.toString()).toBe("wo");
+        await sc.skip(1);
+        expect(await sc.toString("utf8", 2)).toBe("ld");
+        expect(await sc.toString()).toBe("!");
+
+        const utf16 = Buffer.from([0x00, 0x01, 0x00, 0x01, 0x00, 0x00, 0x61, 0x00]);
+        const wide = new StreamCursor(chunked(utf16, 3));
+        expect(await wide.readCString("utf16le")).toBe("ĀĀ");
+        expect(await wide.toString("utf16le")).toBe("a");
+        await expect(wide.readCString("hex")).rejects.toThrow(TypeError);
+    });
+
+    test("varints", async () => {
+        const sc = new StreamCursor(Readable.from([Buffer.from([0xac]), Buffer.from([0x02, 0x01, 0xff]), Buffer.from([0x01])]));
+        expect(await sc.readVarUInt()).toBe(300);
+        expect(await sc.readVarInt()).toBe(-1);
+        expect(await sc.readBigVarUInt()).toBe(BigInt(255));
+    });
+
+    test("a malformed varint is not consumed and reports its stream position", async () => {
+        const sc = new StreamCursor(chunked(Buffer.from([0x01, 0x02, 0x80, 0x80, 0x00, 0x05]), 2));
+        await sc.skip(2);
+        const error = await sc.readVarUInt().catch(e => e);
+        expect(error).toBeInstanceOf(EncodingError);
+        expect(error.message).toBe("EncodingError: Overlong varint at position 2");
+        expect(error.offset).toBe(2);
+        expect(error.method).toBe("readVarUInt");
+        expect(sc.tell()).toBe(2);
+        expect(await sc.readUInt8()).toBe(0x80);
+    });
+
+    test("rejects on premature end of stream", async () => {
+        const sc = new StreamCursor(chunked(data, 5));
+        await sc.skip(14);
+        const error = await sc.readUInt32LE().catch(e => e);
+        expect(error).toBeInstanceOf(EndOfStreamError);
+        expect(error).toBeInstanceOf(OverflowError);
+        expect(error.message).toBe("EndOfStreamError: stream ended after 16 bytes, position 14, size 4");
+        await expect(new StreamCursor(Readable.from([])).readUInt8()).rejects.toThrow(EndOfStreamError);
+    });
+
+    test("rejects with stream errors", async () => {
+        const stream = new Readable({
+            read() {
+                this.destroy(new Error("boom"));
+            },
+        });
+        await expect(new StreamCursor(stream).readUInt8()).rejects.toThrow("boom");
+    });
+
+    test("rejects when the stream is destroyed without an error", async () => {
+        const stream = new PassThrough();
+        stream.write(Buffer.from([1, 2]));
+        const sc = new StreamCursor(stream);
+        const pending = sc.readUInt32LE().catch(e => e);
+        setImmediate(() => stream.destroy());
+        const error = await pending;
+        expect(error).toBeInstanceOf(EndOfStreamError);
+        expect(error.message).toBe("EndOfStreamError: stream ended after 2 bytes, position 0, size 4");
+
+        const destroyed = new PassThrough();
+        destroyed.destroy();
+        await expect(new StreamCursor(destroyed).readUInt8()).rejects.toThrow(EndOfStreamError);
+        expect(await new StreamCursor(destroyed).eof()).toBeTruthy();
+    });
+
+    test("only pulls what it needs from the source", async () => {
+        let pulled = 0;
+        const stream = new Readable({
+            highWaterMark: 4,
+            read() {
+                pulled++;
+                this.push(pulled > 1000 ? null : Buffer.alloc(4));
+            },
+        });
+        const sc = new StreamCursor(stream);
+        await sc.readUInt32LE();
+        await sc.readUInt32LE();
+        expect(pulled).toBeLessThan(5);
+        await sc.skip(4 * 900);
+        expect(pulled).toBeLessThan(910);
+    });
+});
@@ -0,0 +1,96 @@
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { OverflowError } from "../src/overflowError";
+
+describe("Strings spec", () => {
+    test("write defaults to the byte length", () => {
+        const bc = new BufferCursor(Buffer.alloc(8));
+        bc.write("héllo");
+        expect(bc.tell()).toBe(6);
+        expect(bc.getBuffer().toString()).toBe("héllo");
+        bc.seek(0).write("ab", undefined, "utf16le");
+        expect(bc.tell()).toBe(4);
+    });
+
+    test("C strings", () => {
+        const bc = new GrowableBufferCursor();
+        bc.writeCString("héllo").writeCString("").writeCString("wörld", "utf16le");
+        expect(bc.length).toBe(7 + 1 + 12);
+        bc.seek(0);
+        expect(bc.readCString()).toBe("héllo");
+        expect(bc.readCString()).toBe("");
+        expect(bc.readCString("utf16le")).toBe("wörld");
+        expect(bc.eof()).toBeTruthy();
+        expect(() => bc.writeCString("a\0b")).toThrow(TypeError);
+
+        const unterminated = new BufferCursor(Buffer.from("abc"));
+        expect(() => unterminated.readCString()).toThrow(new OverflowError(3, 0, 4, "readCString"));
+        expect(unterminated.tell()).toBe(0);
+        expect(() => new BufferCursor(Buffer.alloc(3)).writeCString("abc")).toThrow(OverflowError);
+    });
+
+    test("C strings can't use encodings without a NUL character", () => {
+        const bytes = Buffer.from("ab\0");
+        for (const encoding of ["hex", "base64", "base64url"] as const) {
+            const message = `C strings can't use ${encoding}, it has no NUL character`;
+            expect(() => new BufferCursor(bytes).readCString(encoding)).toThrow(message);
+            expect(() => new GrowableBufferCursor().writeCString("ab", encoding)).toThrow(message);
+            expect(() => new DataViewCursor(bytes).readCString(encoding)).toThrow(message);
+            expect(() => new DataViewCursor(new ArrayBuffer(4)).writeCString("ab", encoding)).toThrow(TypeError);
+            expect(() => new ChunkCursor([bytes]).readCString(encoding)).toThrow(TypeError);
+        }
+    });
+
+    test("utf16 C strings need an aligned terminator", () => {
+        // "Ā" is 0x0100 in utf16le, its high byte followed by the low byte of "Ā" must not end the string.
+        const bc = new BufferCursor(Buffer.from([0x00, 0x01, 0x00, 0x01, 0x00, 0x00]));
+        expect(bc.readCString("utf16le")).toBe("ĀĀ");
+    });
+
+    test("length prefixed strings", () => {
+        const bc = new GrowableBufferCursor();
+        bc.writeLengthPrefixedString("héllo")
+            .writeLengthPrefixedString("abc", "u16be")
+            .writeLengthPrefixedString("x".repeat(200), "varuint")
+            .writeLengthPrefixedString("wörld", "u32le", "latin1");
+        expect(bc.buffer.subarray(0, 12)).toEqual(Buffer.from([6, ...Buffer.from("héllo"), 0, 3, ...Buffer.from("abc")]));
+        bc.seek(0);
+        expect(bc.readLengthPrefixedString()).toBe("héllo");
+        expect(bc.readLengthPrefixedString("u16be")).toBe("abc");
+        expect(bc.readLengthPrefixedString("varuint")).toBe("x".repeat(200));
+        expect(bc.readLengthPrefixedString("u32le", "latin1")).toBe("wörld");
+        expect(bc.eof()).toBeTruthy();
+
+        expect(() => bc.writeLengthPrefixedString("x".repeat(256))).toThrow(RangeError);
+        const truncated = new BufferCursor(Buffer.from([5, 0x61, 0x62]));
+        expect(() => truncated.readLengthPrefixedString()).toThrow(new OverflowError(3, 0, 6, "readLengthPrefixedString"));
+        expect(truncated.tell()).toBe(0);
+
+        const full = new BufferCursor(Buffer.alloc(4));
+        expect(() => full.writeLengthPrefixedString("abcd")).toThrow(OverflowError);
+        expect(full.tell()).toBe(0);
+        expect(full.buffer).toEqual(Buffer.alloc(4));
+    });
+
+    test("fixed width strings", () => {
+        const bc = new BufferCursor(Buffer.alloc(16));
+        bc.writeFixedString("héllo", 8).writeFixedString("ab", 8, { padding: " " });
+        expect(bc.buffer).toEqual(Buffer.concat([Buffer.from("héllo"), Buffer.alloc(2), Buffer.from("ab      ")]));
+        bc.seek(0);
+        expect(bc.readFixedString(8)).toBe("héllo");
+        expect(bc.readFixedString(8, { padding: " " })).toBe("ab");
+        bc.seek(8);
+        expect(bc.readFixedString(8, { trim: false })).toBe("ab      ");
+
+        expect(() => bc.seek(4).writeFixedString("héllo", 5)).toThrow(new RangeError("String of 6 bytes doesn't fit a field of 5 bytes"));
+        expect(() => bc.seek(12).writeFixedString("a", 8)).toThrow(OverflowError);
+        expect(() => bc.seek(12).readFixedString(8)).toThrow(OverflowError);
+        expect(bc.tell()).toBe(12);
+
+        const wide = new BufferCursor(Buffer.alloc(8));
+        wide.writeFixedString("ab", 8, { encoding: "utf16le" });
+        expect(wide.seek(0).readFixedString(8, { encoding: "utf16le" })).toBe("ab");
+    });
+});
@@ -0,0 +1,105 @@
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { OverflowError } from "../src/overflowError";
+import { hostEndian } from "../src/typedArrays";
+
+describe("Typed array spec", () => {
+    const other = hostEndian === "le" ? "be" : "le";
+
+    test("reads like per-element reads in both endiannesses", () => {
+        const data = Buffer.alloc(65);
+        for (let i = 0; i < data.length; i++) data[i] = i * 37;
+        for (const offset of [0, 1]) {
+            for (const endian of ["le", "be"] as const) {
+                const bulk = new BufferCursor(data).setEndian(endian);
+                const single = new BufferCursor(data).setEndian(endian);
+                bulk.move(offset);
+                single.move(offset);
+                expect(Array.from(bulk.readInt8Array(2))).toEqual([single.readInt8(), single.readInt8()]);
+                expect(Array.from(bulk.readUInt16Array(2))).toEqual([single.readUInt16(), single.readUInt16()]);
+                expect(Array.from(bulk.readInt16Array(1))).toEqual([single.readInt16()]);
+                expect(Array.from(bulk.readUInt32Array(2))).toEqual([single.readUInt32(), single.readUInt32()]);
+                expect(Array.from(bulk.readInt32Array(1))).toEqual([single.readInt32()]);
+                expect(Array.from(bulk.readFloat32Array(2))).toEqual([single.readFloat(), single.readFloat()]);
+                expect(Array.from(bulk.readFloat64Array(1))).toEqual([single.readDouble()]);
+                expect(Array.from(bulk.readBigInt64Array(1))).toEqual([single.readBigInt64()]);
+                expect(Array.from(bulk.readBigUInt64Array(1))).toEqual([single.readBigUInt64()]);
+                expect(Array.from(bulk.readUInt8Array(3))).toEqual([single.readUInt8(), single.readUInt8(), single.readUInt8()]);
+                expect(bulk.tell()).toBe(single.tell());
+            }
+        }
+    });
+
+    test("zero-copy views when aligned in host endianness", () => {
+        const data = Buffer.alloc(16);
+        const bc = new BufferCursor(data);
+        const view = bc.readUInt32Array(2, hostEndian);
+        view[0] = 0x01020304;
+        expect(data.readUInt32LE(0)).toBe(hostEndian === "le" ? 0x01020304 : 0x04030201);
+
+        const copy = bc.readUInt32Array(2, other);
+        copy[0] = 1;
+        expect(data.readUInt32LE(8)).toBe(0);
+
+        bc.seek(1);
+        const before = data.readUInt16LE(1);
+        const unaligned = bc.readUInt16Array(2, hostEndian);
+        unaligned[0] = 0xffff;
+        expect(data.readUInt16LE(1)).toBe(before);
+    });
+
+    test("writes in both endiannesses", () => {
+        const bc = new GrowableBufferCursor();
+        bc.writeUInt16Array([1, 2], "be").writeFloat32Array(new Float32Array([1.5]), "le").writeInt8Array([-1])
+            .writeBigInt64Array([BigInt(-2)], "be").writeUInt32Array(new Uint32Array([0xdeadbeef]), other);
+        const expected = new BufferCursor(Buffer.alloc(bc.length));
+        expected.writeUInt16BE(1).writeUInt16BE(2).writeFloatLE(1.5).writeInt8(-1).writeBigInt64BE(BigInt(-2));
+        if (other === "le") expected.writeUInt32LE(0xdeadbeef);
+        else expected.writeUInt32BE(0xdeadbeef);
+        expect(bc.buffer).toEqual(expected.buffer);
+
+        const source = new Float64Array([Math.PI, -0]);
+        bc.seek(0).writeFloat64Array(source, other);
+        expect(Array.from(source)).toEqual([Math.PI, -0]);
+
+        const fixed = new BufferCursor(Buffer.alloc(4));
+        expect(() => fixed.writeUInt16Array([1, 2, 3])).toThrow(new OverflowError(4, 0, 6, "writeUInt16Array"));
+        expect(() => fixed.readUInt32Array(2)).toThrow(new OverflowError(4, 0, 8, "readUInt32Array"));
+        expect(fixed.tell()).toBe(0);
+        expect(() => new BufferCursor(Buffer.alloc(4), { strict: true }).writeUInt16Array([1, 0x10000])).toThrow(RangeError);
+    });
+
+    test("DataViewCursor and ChunkCursor", () => {
+        const dvc = new DataViewCursor(new ArrayBuffer(12)).setEndian("be");
+        dvc.writeInt16Array([-2, 3]).writeFloat64Array([0.25]);
+        expect(Array.from(dvc.seek(0).readInt16Array(2))).toEqual([-2, 3]);
+        expect(dvc.readFloat64Array(1)[0]).toBe(0.25);
+
+        const data = Buffer.from(dvc.buffer);
+        const cc = new ChunkCursor([data.subarray(0, 3), data.subarray(3)]).setEndian("be");
+        expect(Array.from(cc.readInt16Array(2))).toEqual([-2, 3]);
+        expect(Array.from(cc.readFloat64Array(1))).toEqual([0.25]);
+        expect(cc.readUInt8Array(0).length).toBe(0);
+    });
+
+    test("aligned host endian reads are views on the cursor memory", () => {
+        const data = Buffer.alloc(64);
+        for (let i = 0; i < 16; i++) data.writeFloatLE(i / 7, i * 4);
+        const dvc = new DataViewCursor(new Uint8Array(data));
+        const memory = dvc.buffer;
+
+        const view = dvc.seek(8).readFloat32Array(4, hostEndian);
+        expect(view.buffer).toBe(memory.buffer);
+        expect(view.byteOffset).toBe(memory.byteOffset + 8);
+        memory.fill(0x41, 8, 12);
+        expect(view[0]).toBe(new DataView(memory.buffer, memory.byteOffset).getFloat32(8, hostEndian === "le"));
+
+        const unaligned = dvc.seek(1).readFloat32Array(2, hostEndian);
+        expect(unaligned.buffer).not.toBe(memory.buffer);
+        const swapped = dvc.seek(8).readFloat32Array(2, other);
+        expect(swapped.buffer).not.toBe(memory.buffer);
+        expect(new BufferCursor(data).readUInt8Array(4).buffer).toBe(data.buffer);
+    });
+});
@@ -0,0 +1,122 @@
+import { BufferCursor } from "../src/buffercursor";
+import { ChunkCursor } from "../src/chunkCursor";
+import { DataViewCursor } from "../src/dataViewCursor";
+import { EncodingError } from "../src/errors";
+import { OverflowError } from "../src/overflowError";
+
+function encode(write: (bc: BufferCursor) => void): Buffer {
+    const bc = new BufferCursor(Buffer.alloc(16));
+    write(bc);
+    return bc.getBuffer();
+}
+
+describe("Varint spec", () => {
+    test("VarUInt", () => {
+        expect(encode(bc => bc.writeVarUInt(0))).toEqual(Buffer.from([0x00]));
+        expect(encode(bc => bc.writeVarUInt(300))).toEqual(Buffer.from([0xac, 0x02]));
+        expect(encode(bc => bc.writeVarUInt(Number.MAX_SAFE_INTEGER)))
+            .toEqual(Buffer.from([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x0f]));
+        expect(new BufferCursor(Buffer.from([0xac, 0x02])).readVarUInt()).toBe(300);
+        expect(new BufferCursor(Buffer.from([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x0f])).readVarUInt())
+            .toBe(Number.MAX_SAFE_INTEGER);
+        expect(() => new BufferCursor(Buffer.from([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x1f])).readVarUInt())
+            .toThrow(RangeError);
+        expect(() => encode(bc => bc.writeVarUInt(-1))).toThrow(RangeError);
+    });
+
+    test("VarInt (zigzag)", () => {
+        expect(encode(bc => bc.writeVarInt(-1))).toEqual(Buffer.from([0x01]));
+        expect(encode(bc => bc.writeVarInt(1))).toEqual(Buffer.from([0x02]));
+        expect(encode(bc => bc.writeVarInt(-64))).toEqual(Buffer.from([0x7f]));
+        for (const value of [0, 1, -1, 63, -64, 64, 123456789, -123456789, Number.MAX_SAFE_INTEGER, Number.MIN_SAFE_INTEGER]) {
+            const bc = new BufferCursor(encode(c => c.writeVarInt(value)));
+            expect(bc.readVarInt()).toBe(value);
+            expect(bc.eof()).toBeTruthy();
+        }
+        expect(() => encode(bc => bc.writeVarInt(Number.MAX_SAFE_INTEGER + 1))).toThrow("The value must be a safe integer");
+    });
+
+    test("BigVarUInt and BigVarInt", () => {
+        const max = BigInt("18446744073709551615");
+        const maxBytes = Buffer.from([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01]);
+        expect(encode(bc => bc.writeBigVarUInt(max))).toEqual(maxBytes);
+        expect(new BufferCursor(maxBytes).readBigVarUInt()).toBe(max);
+        expect(() => encode(bc => bc.writeBigVarUInt(max + BigInt(1)))).toThrow(RangeError);
+
+        for (const value of [BigInt(0), BigInt(-1), BigInt("9223372036854775807"), BigInt("-9223372036854775808")]) {
+            const bc = new BufferCursor(encode(c => c.writeBigVarInt(value)));
+            expect(bc.readBigVarInt()).toBe(value);
+        }
+    });
+
+    test("BigVarUInt and BigVarInt reject values wider than 64 bits", () => {
+        const wide = Buffer.from([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x7f]);
+        const bc = new BufferCursor(wide);
+        expect(() => bc.readBigVarUInt()).toThrow(new EncodingError("varint", "Varint at position 0 exceeds 64 bits", 0));
+        expect(() => bc.readBigVarInt()).toThrow("exceeds 64 bits");
+        expect(() => new DataViewCursor(wide).readBigVarUInt()).toThrow(EncodingError);
+        expect(() => new ChunkCursor([wide.subarray(0, 5), wide.subarray(5)]).readBigVarInt()).toThrow(EncodingError);
+        expect(bc.tell()).toBe(0);
+        expect(bc.readBigULEB128()).toBe((BigInt(1) << BigInt(70)) - BigInt(1));
+    });
+
+    test("SLEB128", () => {
+        expect(encode(bc => bc.writeSLEB128(-123456))).toEqual(Buffer.from([0xc0, 0xbb, 0x78]));
+        expect(encode(bc => bc.writeSLEB128(63))).toEqual(Buffer.from([0x3f]));
+        expect(encode(bc => bc.writeSLEB128(64))).toEqual(Buffer.from([0xc0, 0x00]));
+        expect(new BufferCursor(Buffer.from([0xc0, 0xbb, 0x78])).readSLEB128()).toBe(-123456);
+        expect(new BufferCursor(Buffer.from([0xc0, 0x00])).readSLEB128()).toBe(64);
+        expect(new BufferCursor(Buffer.from([0xc0, 0xbb, 0x78])).readBigSLEB128()).toBe(BigInt(-123456));
+        expect(new BufferCursor(Buffer.from([0x7f])).readBigSLEB128()).toBe(BigInt(-1));
+    });
+
+    test("rejects overlong encodings", () => {
+        expect(() => new BufferCursor(Buffer.from([0x80, 0x00])).readULEB128()).toThrow("Overlong");
+        expect(() => new BufferCursor(Buffer.from([0xff, 0x7f])).readSLEB128()).toThrow("Overlong");
+        expect(() => new BufferCursor(Buffer.from([0x80, 0x00])).readSLEB128()).toThrow("Overlong");
+    });
+
+    test("accepts non-minimal QUIC varints unless minimal is set", () => {
+        expect(new BufferCursor(Buffer.from([0x40, 0x05])).readQuicVarInt()).toBe(5);
+        expect(new BufferCursor(Buffer.from("80000005", "hex")).readBigQuicVarInt()).toBe(BigInt(5));
+        expect(() => new BufferCursor(Buffer.from([0x40, 0x05])).readQuicVarInt(true)).toThrow(
+            expect.objectContaining({ message: "EncodingError: Overlong varint at position 0", method: "readQuicVarInt" })
+        );
+        expect(() => new ChunkCursor([Buffer.from([0x40]), Buffer.from([0x05])]).readBigQuicVarInt(true)).toThrow(EncodingError);
+        expect(new BufferCursor(Buffer.from([0x40, 0x40])).readQuicVarInt(true)).toBe(64);
+    });
+
+    test("enforces max byte length", () => {
+        const bc = new BufferCursor(Buffer.from([0x80, 0x80, 0x80, 0x01]));
+        expect(() => bc.readULEB128(3)).toThrow("exceeds 3 bytes");
+        expect(bc.tell()).toBe(0);
+        expect(bc.readULEB128(4)).toBe(0x200000);
+    });
+
+    test("throws OverflowError when the buffer ends mid-varint", () => {
+        const bc = new BufferCursor(Buffer.from([0x00, 0x80, 0x80]));
+        bc.readVarUInt();
+        expect(() => bc.readVarUInt()).toThrow(new OverflowError(3, 1, 3, "readULEB128"));
+        expect(bc.tell()).toBe(1);
+        expect(() => new BufferCursor(Buffer.from([0x80, 0x01])).readQuicVarInt()).toThrow(new OverflowError(2, 0, 4, "readQuicVarInt"));
+        expect(() => new BufferCursor(Buffer.alloc(1)).writeVarUInt(300)).toThrow(OverflowError);
+    });
+
+    test("QUIC varint", () => {
+        // Examples from RFC 9000 appendix A.1
+        const examples: [string, bigint][] = [
+            ["c2197c5eff14e88c", BigInt("151288809941952652")],
+            ["9d7f3e7d", BigInt(494878333)],
+            ["7bbd", BigInt(15293)],
+            ["25", BigInt(37)],
+        ];
+        for (const [hex, value] of examples) {
+            expect(new BufferCursor(Buffer.from(hex, "hex")).readBigQuicVarInt()).toBe(value);
+            expect(encode(bc => bc.writeBigQuicVarInt(value)).toString("hex")).toBe(hex);
+        }
+        expect(new BufferCursor(Buffer.from("7bbd", "hex")).readQuicVarInt()).toBe(15293);
+        expect(encode(bc => bc.writeQuicVarInt(494878333)).toString("hex")).toBe("9d7f3e7d");
+        expect(() => new BufferCursor(Buffer.from("c2197c5eff14e88c", "hex")).readQuicVarInt()).toThrow(RangeError);
+        expect(() => encode(bc => bc.writeBigQuicVarInt(BigInt(1) << BigInt(62)))).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,116 @@
+import { BufferCursor } from "../src/buffercursor";
+import { BufferCursorError } from "../src/errors";
+import { GrowableBufferCursor } from "../src/growableBufferCursor";
+import { OverflowError } from "../src/overflowError";
+
+describe("Window spec", () => {
+    const data = () => Buffer.from("0011223344556677889900aabbccddeeff", "hex");
+
+    test("window keeps the link to its parent", () => {
+        const bc = new BufferCursor(data(), { endian: "be" });
+        bc.move(2);
+        const window = bc.window(6);
+        expect(bc.tell()).toBe(8);
+        expect(window.parent).toBe(bc);
+        expect(window.baseOffset).toBe(2);
+        expect(window.length).toBe(6);
+        expect(window.readUInt16()).toBe(0x2233);
+        expect(window.tell()).toBe(2);
+        expect(window.absoluteTell()).toBe(4);
+        expect(() => window.readDoubleBE()).toThrow(OverflowError);
+        expect(window.tell()).toBe(2);
+
+        expect(bc.parent).toBeUndefined();
+        expect(bc.baseOffset).toBe(0);
+        expect(bc.absoluteTell()).toBe(8);
+        expect(() => bc.window(10)).toThrow(OverflowError);
+        expect(bc.tell()).toBe(8);
+    });
+
+    test("nested windows compose", () => {
+        const bc = new BufferCursor(data());
+        bc.move(1);
+        const outer = bc.window(12);
+        outer.move(3);
+        const inner = outer.window(6);
+        inner.move(2);
+        const innermost = inner.subCursor(1, 3);
+        innermost.move(1);
+        expect(innermost.parent).toBe(inner);
+        expect(innermost.baseOffset).toBe(1);
+        expect(innermost.absoluteTell()).toBe(1 + 3 + 1 + 1);
+        expect(innermost.readUInt8()).toBe(data()[6]);
+        expect(inner.absoluteTell()).toBe(6);
+        expect(outer.absoluteTell()).toBe(10);
+    });
+
+    test("subCursor doesn't move the parent", () => {
+        const bc = new BufferCursor(data());
+        bc.move(5);
+        const target = bc.subCursor(10, 4);
+        expect(bc.tell()).toBe(5);
+        expect(target.baseOffset).toBe(10);
+        expect(target.readUInt32BE()).toBe(0x00aabbcc);
+        expect(bc.subCursor(14).length).toBe(3);
+        expect(() => bc.subCursor(15, 3)).toThrow(OverflowError);
+        expect(() => bc.subCursor(-1, 1)).toThrow(OverflowError);
+        expect(() => bc.subCursor(0, -1)).toThrow(RangeError);
+    });
+
+    test("deferAdvance moves the parent when the window is finished", () => {
+        const bc = new BufferCursor(data());
+        const window = bc.window(4, { deferAdvance: true });
+        expect(bc.tell()).toBe(0);
+        window.move(1);
+        expect(window.finish()).toBe(bc);
+        expect(bc.tell()).toBe(4);
+        bc.move(2);
+        window.finish();
+        expect(bc.tell()).toBe(6);
+        expect(() => bc.finish()).toThrow("Only a window or sub-cursor can be finished");
+    });
+
+    test("assertConsumed and requireConsumed", () => {
+        const bc = new BufferCursor(data());
+        bc.move(4);
+        const window = bc.window(4, { requireConsumed: true, deferAdvance: true });
+        window.readUInt16LE();
+        expect(() => window.assertConsumed()).toThrow(BufferCursorError);
+        expect(() => window.finish()).toThrow("BufferCursorError: assertConsumed 2 unread bytes at position 2 (absolute 6)");
+        expect(bc.tell()).toBe(4);
+        window.readUInt16LE();
+        expect(window.assertConsumed()).toBe(window);
+        window.finish();
+        expect(bc.tell()).toBe(8);
+
+        const lenient = bc.window(2);
+        expect(lenient.finish()).toBe(bc);
+        expect(bc.eof()).toBeFalsy();
+    });
+
+    test("windows share memory and options with their parent", () => {
+        const gbc = new GrowableBufferCursor({ endian: "be", strict: true, alignmentBase: 0 });
+        gbc.writeUInt32BE(0);
+        gbc.seek(1);
+        const window = gbc.window(3);
+        expect(window.endian).toBe("be");
+        expect(window.alignmentBase).toBe(-1);
+        window.writeUInt16(0xabcd);
+        expect(gbc.buffer.toString("hex")).toBe("00abcd00");
+        expect(() => window.move(0.5)).toThrow(RangeError);
+    });
+
+    test("windows follow a growable parent when it reallocates", () => {
+        const gbc = new GrowableBufferCursor({ initialCapacity: 4 });
+        gbc.writeUInt32BE(0x11223344);
+        const window = gbc.subCursor(1, 2);
+        const inner = window.subCursor(0, 1);
+        gbc.writeBuff(Buffer.alloc(100));
+        expect(gbc.capacity).toBeGreaterThan(4);
+        window.writeUInt16BE(0xabcd);
+        expect(gbc.buffer.subarray(0, 4).toString("hex")).toBe("11abcd44");
+        gbc.seek(1).writeUInt8(0xee);
+        expect(inner.readUInt8()).toBe(0xee);
+        expect(window.seek(0).readUInt16BE()).toBe(0xeecd);
+    });
+});
@@ -4,7 +4,7 @@ export default defineConfig((options) => {
     return {
         target: "node16",
         minify: !options.watch,
-        entry: ["src/index.ts"],
+        entry: ["src/index.ts", "src/web.ts"],
         clean: true,
         format: ["esm", "cjs"],
     };